@@ -23,6 +23,15 @@ import FoldersListPage from "@/pages/folders-list-page";
 import QuotesPage from "@/pages/quotes-page";
 import AllFilesPage from "@/pages/all-files-page";
 import BackupPage from "@/pages/backup-page";
+import FoliosPage from "@/pages/folios-page";
+import CompaniesPage from "@/pages/companies-page";
+import ClauseLibraryPage from "@/pages/clause-library-page";
+import CatalogPage from "@/pages/catalog-page";
+import ClientsPage from "@/pages/clients-page";
+import LicitacionesPage from "@/pages/licitaciones-page";
+import LicitacionDetailPage from "@/pages/licitacion-detail-page";
+import ProvidersPage from "@/pages/providers-page";
+import ProviderDetailPage from "@/pages/provider-detail-page";
 //import { ProtectedRoute } from "./lib/protected-route";
 
 function AppLayout({ children }: { children: React.ReactNode }) {
@@ -138,6 +147,69 @@ function Router() {
           </AppLayout>
         </ProtectedRoute>
       </Route>
+      <Route path="/folios">
+        <ProtectedRoute>
+          <AppLayout>
+            <FoliosPage />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
+      <Route path="/companies">
+        <ProtectedRoute>
+          <AppLayout>
+            <CompaniesPage />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
+      <Route path="/clause-library">
+        <ProtectedRoute>
+          <AppLayout>
+            <ClauseLibraryPage />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
+      <Route path="/catalog">
+        <ProtectedRoute>
+          <AppLayout>
+            <CatalogPage />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
+      <Route path="/clients">
+        <ProtectedRoute>
+          <AppLayout>
+            <ClientsPage />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
+      <Route path="/licitaciones">
+        <ProtectedRoute>
+          <AppLayout>
+            <LicitacionesPage />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
+      <Route path="/licitaciones/:id">
+        <ProtectedRoute>
+          <AppLayout>
+            <LicitacionDetailPage />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
+      <Route path="/providers">
+        <ProtectedRoute>
+          <AppLayout>
+            <ProvidersPage />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
+      <Route path="/providers/:id">
+        <ProtectedRoute>
+          <AppLayout>
+            <ProviderDetailPage />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
       <Route component={NotFound} />
     </Switch>
   );
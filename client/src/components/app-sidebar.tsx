@@ -27,6 +27,13 @@ import {
   Database,
   LogOut,
   Grid3X3,
+  Hash,
+  Building2,
+  BookOpen,
+  Package,
+  Landmark,
+  Gavel,
+  Users,
   X,
 } from "lucide-react";
 
@@ -46,6 +53,26 @@ const mainNavItems = [
     url: "/quotes",
     icon: FileText,
   },
+  {
+    title: "Catálogo",
+    url: "/catalog",
+    icon: Package,
+  },
+  {
+    title: "Clientes",
+    url: "/clients",
+    icon: Landmark,
+  },
+  {
+    title: "Proveedores",
+    url: "/providers",
+    icon: Users,
+  },
+  {
+    title: "Licitaciones",
+    url: "/licitaciones",
+    icon: Gavel,
+  },
 ];
 
 const adminNavItems = [
@@ -64,6 +91,21 @@ const adminNavItems = [
     url: "/backup",
     icon: Database,
   },
+  {
+    title: "Folios",
+    url: "/folios",
+    icon: Hash,
+  },
+  {
+    title: "Empresas",
+    url: "/companies",
+    icon: Building2,
+  },
+  {
+    title: "Biblioteca de cláusulas",
+    url: "/clause-library",
+    icon: BookOpen,
+  },
 ];
 
 export function AppSidebar() {
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CalendarPlus, Copy, RefreshCw } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_CALENDAR_REMINDERS } from "@shared/schema";
+
+interface CalendarFeedInfo {
+  url: string;
+  reminderMinutes: number[];
+}
+
+const REMINDER_OPTIONS = [
+  { minutes: 10080, label: "1 semana antes" },
+  { minutes: 4320, label: "3 días antes" },
+  { minutes: 1440, label: "1 día antes" },
+  { minutes: 240, label: "4 horas antes" },
+  { minutes: 60, label: "1 hora antes" },
+  { minutes: 15, label: "15 minutos antes" },
+];
+
+async function sendFeedRequest(method: string, url: string, body?: unknown): Promise<CalendarFeedInfo> {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    credentials: "include",
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: "Error al actualizar el calendario." }));
+    throw new Error(err.error || "Error al actualizar el calendario.");
+  }
+  return res.json();
+}
+
+// Dirección personal del calendario .ics para suscribirse desde Outlook y sus recordatorios
+export function CalendarFeedCard() {
+  const { toast } = useToast();
+  const [reminders, setReminders] = useState<number[]>([]);
+
+  const { data: feed } = useQuery<CalendarFeedInfo>({ queryKey: ["/api/calendar/feed"] });
+
+  useEffect(() => {
+    if (feed) setReminders(feed.reminderMinutes);
+  }, [feed]);
+
+  const onSuccess = (data: CalendarFeedInfo, title: string) => {
+    queryClient.setQueryData(["/api/calendar/feed"], data);
+    toast({ title });
+  };
+  const onError = (error: any) => toast({ title: "Error", description: error.message, variant: "destructive" });
+
+  const saveMutation = useMutation({
+    mutationFn: () => sendFeedRequest("PUT", "/api/calendar/feed", { reminderMinutes: reminders }),
+    onSuccess: (data) => onSuccess(data, "Recordatorios guardados"),
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => sendFeedRequest("POST", "/api/calendar/feed/regenerate"),
+    onSuccess: (data) => onSuccess(data, "Se generó una nueva dirección; la anterior dejó de funcionar"),
+    onError,
+  });
+
+  const toggle = (minutes: number, checked: boolean) =>
+    setReminders(prev => checked ? [...prev, minutes].sort((a, b) => b - a) : prev.filter(entry => entry !== minutes));
+
+  const copyUrl = async () => {
+    if (!feed) return;
+    await navigator.clipboard.writeText(feed.url);
+    toast({ title: "Dirección copiada", description: "En Outlook: Agregar calendario > Suscribirse desde la web." });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarPlus className="h-5 w-5 text-blue-600" /> Suscripción en Outlook
+        </CardTitle>
+        <CardDescription>Dirección personal; no la compartas. Outlook actualiza el calendario periódicamente.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input readOnly value={feed?.url ?? ""} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+          <Button variant="outline" onClick={copyUrl} disabled={!feed}><Copy className="h-4 w-4" /></Button>
+          <Button
+            variant="outline"
+            disabled={regenerateMutation.isPending}
+            onClick={() => {
+              if (confirm("¿Generar una nueva dirección? La suscripción actual dejará de actualizarse.")) regenerateMutation.mutate();
+            }}
+          >
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-semibold">Recordatorios (hasta {MAX_CALENDAR_REMINDERS})</p>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+            {REMINDER_OPTIONS.map(option => (
+              <label key={option.minutes} className="flex items-center gap-2 text-xs">
+                <Checkbox
+                  checked={reminders.includes(option.minutes)}
+                  disabled={!reminders.includes(option.minutes) && reminders.length >= MAX_CALENDAR_REMINDERS}
+                  onCheckedChange={(checked) => toggle(option.minutes, checked === true)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+          <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !feed} className="bg-blue-600 text-white hover:bg-blue-700">
+            Guardar recordatorios
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, RefreshCw } from "lucide-react";
+import { useRenewQuoteValidity } from "@/hooks/use-renew-quote-validity";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { DEFAULT_EXPIRY_WARNING_DAYS, EDITABLE_QUOTE_STATUSES, canRenewQuoteValidity, type QuoteListResponse, type QuoteStatus } from "@shared/schema";
+
+// Solo se muestran las primeras; el total viene en la respuesta
+const VISIBLE_QUOTES = 10;
+const DAY_OPTIONS = [7, DEFAULT_EXPIRY_WARNING_DAYS, 30, 60];
+
+export function daysRemainingLabel(days: number) {
+  if (days < 0) return `Venció hace ${-days} ${days === -1 ? "día" : "días"}`;
+  if (days === 0) return "Vence hoy";
+  return `Vence en ${days} ${days === 1 ? "día" : "días"}`;
+}
+
+// Cotizaciones abiertas que vencen en los próximos días, con acceso directo a renovar la vigencia
+export function ExpiringQuotesCard() {
+  const [days, setDays] = useState(DEFAULT_EXPIRY_WARNING_DAYS);
+  const { user } = useAuth();
+  const renewMutation = useRenewQuoteValidity();
+
+  // La clave empieza con /api/quotes para que las ediciones y cambios de estado la invaliden
+  const { data, isLoading } = useQuery<QuoteListResponse>({
+    queryKey: ["/api/quotes", "expiring", days],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/quotes?expiry=por_vencer&days=${days}&limit=${VISIBLE_QUOTES}`);
+      return await res.json() as QuoteListResponse;
+    },
+    refetchInterval: 5 * 60 * 1000,
+  });
+  const quotes = data?.quotes ?? [];
+  const total = data?.total ?? 0;
+
+  return (
+    <Card className="border border-border bg-card shadow-sm">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-card-foreground">
+            <CalendarClock className="h-5 w-5 text-amber-500" />
+            Cotizaciones por vencer
+          </CardTitle>
+          <CardDescription className="text-muted-foreground">Vigencia calculada desde la fecha de la cotización</CardDescription>
+        </div>
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {DAY_OPTIONS.map(option => (
+              <SelectItem key={option} value={String(option)}>Próximos {option} días</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((item) => <Skeleton key={item} className="h-12 w-full rounded-lg" />)}
+          </div>
+        ) : quotes.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No hay cotizaciones que venzan en los próximos {days} días.</p>
+        ) : (
+          <div className="space-y-2">
+            {quotes.map(quote => (
+              <div key={quote.id} className="flex items-center justify-between gap-4 rounded-2xl border border-border bg-card/50 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="font-mono text-xs font-bold text-blue-700 dark:text-sky-300">{quote.internalFolio}</p>
+                  <p className="truncate text-sm text-foreground">{quote.projectTitle || quote.destinationCompany}</p>
+                </div>
+                <div className="flex shrink-0 items-center gap-3">
+                  <div className="text-right">
+                    <Badge variant="secondary" className={(quote.daysRemaining ?? 0) <= 3 ? "bg-red-100 text-red-700" : "bg-amber-100 text-amber-700"}>
+                      {daysRemainingLabel(quote.daysRemaining ?? 0)}
+                    </Badge>
+                    <p className="mt-1 text-[11px] text-muted-foreground">{quote.expiresAt}</p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={renewMutation.isPending || !canRenewQuoteValidity(quote.status, !!user?.isAdmin)}
+                    title={EDITABLE_QUOTE_STATUSES.includes(quote.status as QuoteStatus)
+                      ? undefined
+                      : user?.isAdmin
+                        ? "La cotización regresará a revisión con la nueva fecha"
+                        : "Sólo un administrador puede renovar una cotización aprobada o enviada"}
+                    onClick={() => renewMutation.mutate(quote.id)}
+                  >
+                    <RefreshCw className="mr-1 h-3 w-3" /> Renovar vigencia
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {total > quotes.length && (
+              <Link href="/quotes" className="block pt-1 text-center text-xs text-blue-600 hover:underline">
+                Ver las {total} cotizaciones por vencer
+              </Link>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
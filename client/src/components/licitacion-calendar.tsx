@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import {
+  LICITACION_EVENT_LABELS,
+  type LicitacionCalendarEvent,
+  type LicitacionEventType,
+} from "@shared/schema";
+
+const WEEK_DAYS = ["Lun", "Mar", "Mié", "Jue", "Vie", "Sáb", "Dom"];
+
+const EVENT_COLORS: Record<LicitacionEventType, string> = {
+  publicacion: "bg-slate-100 text-slate-700",
+  visita: "bg-sky-100 text-sky-700",
+  junta_aclaraciones: "bg-amber-100 text-amber-800",
+  apertura: "bg-blue-100 text-blue-700",
+  fallo: "bg-emerald-100 text-emerald-700",
+  firma_contrato: "bg-violet-100 text-violet-700",
+};
+
+const isoDate = (date: Date) => date.toISOString().split("T")[0];
+
+// Semanas completas (de lunes a domingo) que cubren el mes; las fechas se manejan en UTC
+function monthGrid(year: number, month: number): string[] {
+  const first = new Date(Date.UTC(year, month, 1));
+  const start = new Date(first.getTime() - ((first.getUTCDay() + 6) % 7) * 86400000);
+  const last = new Date(Date.UTC(year, month + 1, 0));
+  const days: string[] = [];
+  for (let day = start; day <= last || days.length % 7 !== 0; day = new Date(day.getTime() + 86400000)) {
+    days.push(isoDate(day));
+  }
+  return days;
+}
+
+// Vista mensual de las etapas de todas las licitaciones
+export function LicitacionCalendar() {
+  const today = isoDate(new Date());
+  const [cursor, setCursor] = useState(() => ({ year: Number(today.slice(0, 4)), month: Number(today.slice(5, 7)) - 1 }));
+  const days = monthGrid(cursor.year, cursor.month);
+
+  const { data: events = [], isLoading } = useQuery<LicitacionCalendarEvent[]>({
+    queryKey: [`/api/licitaciones/calendar?from=${days[0]}&to=${days[days.length - 1]}`],
+  });
+
+  const move = (delta: number) => setCursor(prev => {
+    const date = new Date(Date.UTC(prev.year, prev.month + delta, 1));
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() };
+  });
+
+  const title = new Date(Date.UTC(cursor.year, cursor.month, 1))
+    .toLocaleDateString("es-MX", { month: "long", year: "numeric", timeZone: "UTC" });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold capitalize">{title}</h3>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => move(-1)}><ChevronLeft className="h-4 w-4" /></Button>
+          <Button size="sm" variant="outline" onClick={() => setCursor({ year: Number(today.slice(0, 4)), month: Number(today.slice(5, 7)) - 1 })}>Hoy</Button>
+          <Button size="sm" variant="outline" onClick={() => move(1)}><ChevronRight className="h-4 w-4" /></Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-96 w-full" />
+      ) : (
+        <div className="grid grid-cols-7 overflow-hidden rounded-lg border border-border">
+          {WEEK_DAYS.map(day => (
+            <div key={day} className="border-b border-border bg-muted/50 px-2 py-1 text-center text-xs font-semibold">{day}</div>
+          ))}
+          {days.map(day => {
+            const dayEvents = events.filter(event => event.eventDate === day);
+            const inMonth = Number(day.slice(5, 7)) - 1 === cursor.month;
+            return (
+              <div key={day} className={`min-h-24 border-b border-r border-border p-1 ${inMonth ? "" : "bg-muted/30 text-muted-foreground"}`}>
+                <div className={`mb-1 text-right text-xs ${day === today ? "font-bold text-blue-600" : ""}`}>{Number(day.slice(8))}</div>
+                <div className="space-y-1">
+                  {dayEvents.map(event => (
+                    <Link
+                      key={event.id}
+                      href={`/licitaciones/${event.licitacionId}`}
+                      className={`block truncate rounded px-1 py-0.5 text-[11px] ${EVENT_COLORS[event.type as LicitacionEventType] ?? "bg-slate-100"}`}
+                      title={`${LICITACION_EVENT_LABELS[event.type as LicitacionEventType] ?? event.type} — ${event.numeroLicitacion}: ${event.titulo}${event.location ? ` (${event.location})` : ""}`}
+                    >
+                      {event.eventTime && <span className="font-semibold">{event.eventTime} </span>}
+                      {LICITACION_EVENT_LABELS[event.type as LicitacionEventType] ?? event.type} · {event.numeroLicitacion}
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  LICITACION_EVENT_LABELS,
+  LICITACION_EVENT_TYPES,
+  type ClientResponse,
+  type Folder,
+  type Licitacion,
+  type LicitacionEvent,
+  type LicitacionEventType,
+  type LicitacionResponse,
+} from "@shared/schema";
+
+const NONE = "ninguna";
+
+interface EventForm {
+  eventDate: string;
+  eventTime: string;
+  location: string;
+}
+
+interface LicitacionForm {
+  titulo: string;
+  numeroLicitacion: string;
+  cliente: string;
+  clientId: number | null;
+  descripcion: string;
+  presupuesto: string;
+  folderId: number | null;
+  events: Record<LicitacionEventType, EventForm>;
+}
+
+const emptyEvent: EventForm = { eventDate: "", eventTime: "", location: "" };
+
+function toForm(licitacion: Licitacion | null, events: LicitacionEvent[]): LicitacionForm {
+  const byType = Object.fromEntries(LICITACION_EVENT_TYPES.map(type => {
+    const event = events.find(entry => entry.type === type);
+    return [type, event ? { eventDate: event.eventDate, eventTime: event.eventTime, location: event.location } : { ...emptyEvent }];
+  })) as Record<LicitacionEventType, EventForm>;
+  return {
+    titulo: licitacion?.titulo ?? "",
+    numeroLicitacion: licitacion?.numeroLicitacion ?? "",
+    cliente: licitacion?.cliente ?? "",
+    clientId: licitacion?.clientId ?? null,
+    descripcion: licitacion?.descripcion ?? "",
+    presupuesto: licitacion?.presupuesto ? String(licitacion.presupuesto) : "",
+    folderId: licitacion?.folderId ?? null,
+    events: byType,
+  };
+}
+
+export const invalidateLicitaciones = () =>
+  queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/licitaciones") });
+
+interface LicitacionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // null para registrar una licitación nueva
+  licitacion: Licitacion | null;
+  events?: LicitacionEvent[];
+  onSaved?: (licitacion: LicitacionResponse) => void;
+}
+
+// Alta y edición de la licitación con la fecha de cada etapa del procedimiento
+export function LicitacionDialog({ open, onOpenChange, licitacion, events = [], onSaved }: LicitacionDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<LicitacionForm>(() => toForm(licitacion, events));
+
+  const { data: clients = [] } = useQuery<ClientResponse[]>({ queryKey: ["/api/clients"], enabled: open });
+  const { data: folders = [] } = useQuery<Folder[]>({ queryKey: ["/api/folders"], enabled: open });
+
+  // Cada apertura parte de los datos guardados
+  useEffect(() => {
+    if (open) setForm(toForm(licitacion, events));
+  }, [open, licitacion?.id]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<LicitacionResponse> => {
+      const payload = {
+        titulo: form.titulo,
+        numeroLicitacion: form.numeroLicitacion,
+        cliente: form.cliente,
+        clientId: form.clientId,
+        descripcion: form.descripcion,
+        presupuesto: form.presupuesto,
+        folderId: form.folderId,
+        events: LICITACION_EVENT_TYPES.map(type => ({ type, ...form.events[type] })),
+      };
+      const res = await fetch(licitacion ? `/api/licitaciones/${licitacion.id}` : "/api/licitaciones", {
+        method: licitacion ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(payload),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "Error al guardar la licitación." }));
+        throw new Error(err.error || "Error al guardar la licitación.");
+      }
+      return res.json();
+    },
+    onSuccess: (saved) => {
+      invalidateLicitaciones();
+      toast({ title: licitacion ? "Licitación actualizada" : "Licitación registrada", description: saved.numeroLicitacion });
+      onOpenChange(false);
+      onSaved?.(saved);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const setField = <K extends keyof LicitacionForm>(field: K, value: LicitacionForm[K]) =>
+    setForm(prev => ({ ...prev, [field]: value }));
+
+  const setEvent = (type: LicitacionEventType, data: Partial<EventForm>) =>
+    setForm(prev => ({ ...prev, events: { ...prev.events, [type]: { ...prev.events[type], ...data } } }));
+
+  // Elegir la dependencia del directorio llena el nombre de la convocante
+  const selectClient = (value: string) => {
+    const client = clients.find(entry => String(entry.id) === value);
+    setForm(prev => ({ ...prev, clientId: client?.id ?? null, cliente: client?.name ?? prev.cliente }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{licitacion ? `Editar ${licitacion.numeroLicitacion}` : "Nueva licitación"}</DialogTitle>
+          <DialogDescription>Las fechas de cada etapa aparecen en el calendario y en la suscripción de Outlook.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="licitacion-numero">Número de licitación</Label>
+            <Input id="licitacion-numero" value={form.numeroLicitacion} onChange={(e) => setField("numeroLicitacion", e.target.value.toUpperCase())} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="licitacion-presupuesto">Presupuesto (MXN)</Label>
+            <Input id="licitacion-presupuesto" type="number" min={0} value={form.presupuesto} onChange={(e) => setField("presupuesto", e.target.value)} />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="licitacion-titulo">Título</Label>
+            <Input id="licitacion-titulo" value={form.titulo} onChange={(e) => setField("titulo", e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Dependencia del directorio</Label>
+            <Select value={form.clientId ? String(form.clientId) : NONE} onValueChange={selectClient}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Sin dependencia del directorio</SelectItem>
+                {clients.map(client => (
+                  <SelectItem key={client.id} value={String(client.id)}>{client.shortName || client.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="licitacion-cliente">Convocante</Label>
+            <Input id="licitacion-cliente" value={form.cliente} onChange={(e) => setField("cliente", e.target.value)} />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="licitacion-descripcion">Descripción</Label>
+            <Textarea id="licitacion-descripcion" rows={2} value={form.descripcion} onChange={(e) => setField("descripcion", e.target.value)} />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label>Carpeta de documentos</Label>
+            <Select value={form.folderId ? String(form.folderId) : NONE} onValueChange={(value) => setField("folderId", value === NONE ? null : Number(value))}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Sin carpeta</SelectItem>
+                {form.folderId && !folders.some(folder => folder.id === form.folderId) && (
+                  <SelectItem value={String(form.folderId)}>Carpeta #{form.folderId}</SelectItem>
+                )}
+                {folders.map(folder => (
+                  <SelectItem key={folder.id} value={String(folder.id)}>{folder.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2 border-t border-border pt-4">
+          <Label>Etapas</Label>
+          {LICITACION_EVENT_TYPES.map(type => (
+            <div key={type} className="grid grid-cols-[170px_150px_110px_1fr] items-center gap-2">
+              <span className="text-xs font-medium">{LICITACION_EVENT_LABELS[type]}</span>
+              <Input type="date" value={form.events[type].eventDate} onChange={(e) => setEvent(type, { eventDate: e.target.value })} />
+              <Input type="time" value={form.events[type].eventTime} disabled={!form.events[type].eventDate} onChange={(e) => setEvent(type, { eventTime: e.target.value })} />
+              <Input placeholder="Lugar" value={form.events[type].location} disabled={!form.events[type].eventDate} onChange={(e) => setEvent(type, { location: e.target.value })} />
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">Sin hora, la etapa se agenda como evento de día completo (hora del centro de México).</p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !form.titulo.trim() || !form.numeroLicitacion.trim() || !form.cliente.trim()}
+            className="bg-blue-600 text-white hover:bg-blue-700"
+          >
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
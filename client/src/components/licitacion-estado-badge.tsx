@@ -0,0 +1,20 @@
+import { Badge } from "@/components/ui/badge";
+import { LICITACION_ESTADO_LABELS, type LicitacionEstado } from "@shared/schema";
+
+const ESTADO_COLORS: Record<LicitacionEstado, string> = {
+  abierta: "bg-sky-100 text-sky-700",
+  en_preparacion: "bg-amber-100 text-amber-800",
+  presentada: "bg-blue-100 text-blue-700",
+  ganada: "bg-emerald-100 text-emerald-700",
+  perdida: "bg-red-100 text-red-700",
+  desierta: "bg-slate-100 text-slate-600",
+  cancelada: "bg-slate-100 text-slate-600",
+};
+
+export function LicitacionEstadoBadge({ estado }: { estado: string }) {
+  return (
+    <Badge variant="secondary" className={ESTADO_COLORS[estado as LicitacionEstado] ?? "bg-slate-100 text-slate-600"}>
+      {LICITACION_ESTADO_LABELS[estado as LicitacionEstado] ?? estado}
+    </Badge>
+  );
+}
@@ -0,0 +1,17 @@
+import { Badge } from "@/components/ui/badge";
+import { PROVIDER_DOCUMENT_STATUS_LABELS, type ProviderDocumentStatus } from "@shared/schema";
+
+export const PROVIDER_DOCUMENT_STATUS_COLORS: Record<ProviderDocumentStatus, string> = {
+  vigente: "bg-emerald-100 text-emerald-700",
+  por_vencer: "bg-amber-100 text-amber-800",
+  vencido: "bg-red-100 text-red-700",
+  faltante: "bg-slate-100 text-slate-600",
+};
+
+export function ProviderDocumentStatusBadge({ status }: { status: ProviderDocumentStatus }) {
+  return (
+    <Badge variant="secondary" className={PROVIDER_DOCUMENT_STATUS_COLORS[status]}>
+      {PROVIDER_DOCUMENT_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
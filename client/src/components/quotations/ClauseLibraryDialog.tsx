@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BookOpen } from "lucide-react";
+import type { AMSFormData, QuoteFormType } from "@/components/quotations/forms/form-types";
+import {
+  CLAUSE_CATEGORY_LABELS,
+  type ClauseCategory,
+  type ClauseLibraryEntry,
+  type QuoteClauseRef,
+} from "@shared/schema";
+
+interface ClauseLibraryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  company: string;
+  categories: ClauseCategory[];
+  onInsert: (entries: ClauseLibraryEntry[]) => void;
+}
+
+const appendUnique = (current: string[] | undefined, texts: string[]) => {
+  const kept = (current ?? []).filter(text => text.trim());
+  return [...kept, ...texts.filter(text => !kept.includes(text))];
+};
+
+// Inserta el texto de cada entrada en su sección y guarda la referencia a la biblioteca
+export function applyClauseEntries(data: AMSFormData, entries: ClauseLibraryEntry[], type: QuoteFormType): AMSFormData {
+  const byCategory = (category: ClauseCategory) => entries.filter(entry => entry.category === category);
+  const norms = byCategory("norma");
+  const refs: QuoteClauseRef[] = entries.map(entry => ({
+    clauseId: entry.id,
+    code: entry.code,
+    category: entry.category as ClauseCategory,
+    version: entry.version,
+    content: entry.content,
+  }));
+
+  return {
+    ...data,
+    qualityGuarantees: appendUnique(data.qualityGuarantees, byCategory("garantia_calidad").map(entry => entry.content)),
+    selectedSocialObjects: appendUnique(data.selectedSocialObjects, byCategory("objeto_social").map(entry => entry.content)),
+    requiredDocuments: appendUnique(data.requiredDocuments, byCategory("documento_requerido").map(entry => entry.content)),
+    normsTable: type === "bienes" && norms.length > 0
+      ? [...(data.normsTable ?? []).filter(row => row.description?.trim()), ...norms.map(entry => ({ description: entry.content, norm: entry.norm }))]
+      : data.normsTable,
+    serviceNormsTable: type === "servicios" && norms.length > 0
+      ? [
+          ...(data.serviceNormsTable ?? []).filter(row => row.description?.trim()),
+          ...norms.map(entry => ({ description: entry.content, quantity: "", unitMeasure: "", norm: entry.norm })),
+        ]
+      : data.serviceNormsTable,
+    clauseRefs: [...(data.clauseRefs ?? []), ...refs],
+  };
+}
+
+export function ClauseLibraryDialog({ open, onOpenChange, company, categories, onInsert }: ClauseLibraryDialogProps) {
+  const [category, setCategory] = useState<ClauseCategory>(categories[0]);
+  const [search, setSearch] = useState("");
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setCategory(categories[0]);
+      setSearch("");
+      setSelectedIds([]);
+    }
+  }, [open]);
+
+  const { data: entries = [], isLoading } = useQuery<ClauseLibraryEntry[]>({
+    queryKey: [`/api/clause-library?companyOrigin=${encodeURIComponent(company)}`],
+    enabled: open && !!company,
+  });
+
+  const term = search.trim().toLowerCase();
+  const visible = entries.filter(entry => entry.category === category
+    && (!term || `${entry.code} ${entry.title} ${entry.content}`.toLowerCase().includes(term)));
+
+  const toggle = (id: number, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(current => current !== id));
+  };
+
+  const insert = () => {
+    onInsert(entries.filter(entry => selectedIds.includes(entry.id)));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl w-[95vw] max-h-[90vh] overflow-y-auto bg-card text-foreground">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 border-b border-border pb-4 text-lg">
+            <BookOpen className="h-5 w-5 text-blue-600" />
+            Biblioteca de cláusulas
+          </DialogTitle>
+          <DialogDescription>
+            El texto se copia a la propuesta; los cambios posteriores en la biblioteca no modifican esta cotización.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-3">
+          <Select value={category} onValueChange={(value) => setCategory(value as ClauseCategory)}>
+            <SelectTrigger className="w-64 h-9 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {categories.map(option => (
+                <SelectItem key={option} value={option}>{CLAUSE_CATEGORY_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input className="h-9 text-xs" placeholder="Buscar por clave, título o texto" value={search} onChange={(e) => setSearch(e.target.value)} />
+        </div>
+
+        <div className="space-y-2 mt-2">
+          {isLoading && <p className="text-xs text-muted-foreground">Cargando biblioteca...</p>}
+          {!isLoading && visible.length === 0 && (
+            <p className="text-xs text-muted-foreground">No hay entradas en esta categoría para la empresa seleccionada.</p>
+          )}
+          {visible.map(entry => (
+            <label key={entry.id} className="flex items-start gap-3 rounded border border-slate-200 dark:border-slate-700 p-3 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/60">
+              <Checkbox
+                className="mt-0.5"
+                checked={selectedIds.includes(entry.id)}
+                onCheckedChange={(checked) => toggle(entry.id, checked === true)}
+              />
+              <div className="space-y-1 text-xs">
+                <p className="font-semibold text-slate-700 dark:text-slate-200">
+                  {entry.code} · {entry.title}
+                  {entry.companyOrigin && <span className="ml-2 font-normal text-blue-600">Variante {entry.companyOrigin}</span>}
+                </p>
+                <p className="text-slate-600 dark:text-slate-300 whitespace-pre-line">{entry.content}</p>
+                {entry.norm && <p className="text-muted-foreground">Norma: {entry.norm}</p>}
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button onClick={insert} disabled={selectedIds.length === 0} className="bg-blue-600 text-white hover:bg-blue-700">
+            Insertar {selectedIds.length > 0 ? selectedIds.length : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
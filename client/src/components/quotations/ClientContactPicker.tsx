@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Building2 } from "lucide-react";
+import type { ClientContact, ClientResponse } from "@shared/schema";
+
+const NONE = "ninguna";
+
+interface ClientContactPickerProps {
+  clientId?: number | null;
+  clientContactId?: number | null;
+  // contact es null cuando solo se eligió la dependencia; client es null al quitar la liga
+  onSelect: (client: ClientResponse | null, contact: ClientContact | null) => void;
+}
+
+/**
+ * Dependencia y contacto del directorio de clientes. Al elegirlos se llena la sección de
+ * "Atención" del formulario y la cotización queda ligada a la dependencia.
+ */
+export function ClientContactPicker({ clientId, clientContactId, onSelect }: ClientContactPickerProps) {
+  const { data: clients = [] } = useQuery<ClientResponse[]>({ queryKey: ["/api/clients"] });
+  const client = clients.find(entry => entry.id === clientId) ?? null;
+
+  return (
+    <div className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900/60 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+          <Building2 className="h-4 w-4 text-blue-600" /> Dependencia
+        </h4>
+        <Link href="/clients" className="text-xs text-blue-600 hover:underline">Administrar directorio</Link>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs">Dependencia</Label>
+          <Select
+            value={client ? String(client.id) : NONE}
+            onValueChange={(value) => onSelect(clients.find(entry => String(entry.id) === value) ?? null, null)}
+          >
+            <SelectTrigger className="h-9 text-xs"><SelectValue placeholder="Selecciona una dependencia" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Sin dependencia del directorio</SelectItem>
+              {clients.map(entry => (
+                <SelectItem key={entry.id} value={String(entry.id)}>
+                  {entry.shortName ? `${entry.shortName} — ${entry.name}` : entry.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Atención a</Label>
+          <Select
+            value={client && clientContactId ? String(clientContactId) : NONE}
+            disabled={!client || client.contacts.length === 0}
+            onValueChange={(value) => client && onSelect(client, client.contacts.find(contact => String(contact.id) === value) ?? null)}
+          >
+            <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>{client && client.contacts.length === 0 ? "La dependencia no tiene contactos" : "Sin contacto"}</SelectItem>
+              {client?.contacts.map(contact => (
+                <SelectItem key={contact.id} value={String(contact.id)}>
+                  {[contact.grado, contact.fullName].filter(Boolean).join(" ")}{contact.cargo ? ` — ${contact.cargo}` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,9 @@ import { HERMALServiciosForm } from "@/components/quotations/forms/HERMALServici
 import { HYHBienesForm } from "@/components/quotations/forms/HYHBienesForm";
 import { HYHServiciosForm } from "@/components/quotations/forms/HYHServiciosForm";
 import type { AMSFormData, QuoteFormType } from "@/components/quotations/forms/form-types";
+import { deliveryConditionItems } from "@/components/quotations/forms/form-types";
+import type { ClauseCategory } from "@shared/schema";
+import type { QuoteFieldErrors } from "@shared/quote-input";
 
 interface DynamicFormRendererProps {
   type: QuoteFormType;
@@ -16,6 +19,8 @@ interface DynamicFormRendererProps {
   companyName?: string;
   data: AMSFormData;
   onChange: (data: AMSFormData) => void;
+  // Errores por campo que devolvió el servidor al guardar
+  fieldErrors?: QuoteFieldErrors;
 }
 
 const bienesValues = (data: AMSFormData) => ({
@@ -41,18 +46,18 @@ const bienesValues = (data: AMSFormData) => ({
   deliverySingle: data.deliverySingle,
   deliveryLocation: data.deliveryLocation,
   deliveryLocations: data.deliveryLocations,
-  partidaDescriptionItems: (data as any).partidaDescriptionItems ?? [],
-  deliveryDates: (data as any).deliveryDates,
-  deliveryConditions: (data as any).deliveryConditions,
+  partidaDescriptionItems: data.partidaDescriptionItems ?? [],
+  deliveryDates: data.deliveryDates,
+  deliveryConditions: data.deliveryConditions,
   qualityGuarantees: data.qualityGuarantees,
   requiredDocuments: data.requiredDocuments,
   normsTable: data.normsTable,
   selectedSocialObjects: data.selectedSocialObjects,
   lineItems: data.lineItems,
-  hasRegionalMilitary: (data as any).hasRegionalMilitary,
-  warrantyPercentageApplies: (data as any).warrantyPercentageApplies,
-  warrantyPercentage: (data as any).warrantyPercentage,
-  deliveryNotes: (data as any).deliveryNotes,
+  hasRegionalMilitary: data.hasRegionalMilitary,
+  warrantyPercentageApplies: data.warrantyPercentageApplies,
+  warrantyPercentage: data.warrantyPercentage,
+  deliveryNotes: data.deliveryNotes,
 });
 
 const serviciosValues = (data: AMSFormData) => ({
@@ -78,62 +83,72 @@ const serviciosValues = (data: AMSFormData) => ({
   deliverySingle: data.deliverySingle,
   deliveryLocation: data.deliveryLocation,
   deliveryLocations: data.deliveryLocations,
-  partidaDescriptionItems: (data as any).partidaDescriptionItems ?? [],
-  deliveryDates: (data as any).deliveryDates,
-  deliveryConditions: (data as any).deliveryConditions,
+  partidaDescriptionItems: data.partidaDescriptionItems ?? [],
+  deliveryDates: data.deliveryDates,
+  deliveryConditions: data.deliveryConditions,
   qualityGuarantees: data.qualityGuarantees,
   requiredDocuments: data.requiredDocuments,
   normsTable: data.normsTable,
   serviceNormsTable: data.serviceNormsTable,
   selectedSocialObjects: data.selectedSocialObjects,
   lineItems: data.lineItems,
-  hasRegionalMilitary: (data as any).hasRegionalMilitary,
-  warrantyPercentageApplies: (data as any).warrantyPercentageApplies,
-  warrantyPercentage: (data as any).warrantyPercentage,
-  deliveryNotes: (data as any).deliveryNotes,
-  selectedDeliveryClauses: (data as any).selectedDeliveryClauses,
+  hasRegionalMilitary: data.hasRegionalMilitary,
+  warrantyPercentageApplies: data.warrantyPercentageApplies,
+  warrantyPercentage: data.warrantyPercentage,
+  deliveryNotes: data.deliveryNotes,
+  selectedDeliveryClauses: data.selectedDeliveryClauses,
 });
 
-export function DynamicFormRenderer({ type, company, companyName, data, onChange }: DynamicFormRendererProps) {
+// Secciones de cada formulario que se pueden llenar desde la biblioteca; las cláusulas de
+// entrega de HGW servicios se eligen dentro del propio formulario
+export function formClauseCategories(company: string | undefined, type: QuoteFormType): ClauseCategory[] {
+  const co = (company ?? "").toUpperCase();
+  const categories: ClauseCategory[] = ["garantia_calidad", "objeto_social"];
+  if (co === "DEMA") categories.push("documento_requerido");
+  if ((co === "DEMA" && type === "bienes") || ((co === "DEMA" || co === "AMS") && type === "servicios")) categories.push("norma");
+  return categories;
+}
+
+export function DynamicFormRenderer({ type, company, companyName, data, onChange, fieldErrors }: DynamicFormRendererProps) {
   const co = (company ?? "").toUpperCase();
 
   // ── AMS ────────────────────────────────────────────────────────────────────
   if (co === "AMS") {
     if (type === "bienes")
-      return <AMSBienesForm companyName={companyName} values={bienesValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "bienes" })} />;
-    return <AMSServiciosForm companyName={companyName} values={serviciosValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "servicios" })} />;
+      return <AMSBienesForm companyName={companyName} fieldErrors={fieldErrors} values={bienesValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "bienes" })} />;
+    return <AMSServiciosForm companyName={companyName} fieldErrors={fieldErrors} values={serviciosValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "servicios" })} />;
   }
 
   // ── HGW ────────────────────────────────────────────────────────────────────
   if (co === "HGW") {
     if (type === "bienes")
-      return <HGWBienesForm companyName={companyName} values={bienesValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "bienes" })} />;
-    return <HGWServiciosForm companyName={companyName} values={serviciosValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "servicios" })} />;
+      return <HGWBienesForm companyName={companyName} fieldErrors={fieldErrors} values={{ ...bienesValues(data), deliveryConditions: deliveryConditionItems(data.deliveryConditions) }} onChange={(next) => onChange({ ...data, ...next, quoteType: "bienes" })} />;
+    return <HGWServiciosForm companyName={companyName} fieldErrors={fieldErrors} values={{ ...serviciosValues(data), deliveryConditions: deliveryConditionItems(data.deliveryConditions) }} onChange={(next) => onChange({ ...data, ...next, quoteType: "servicios" })} />;
   }
 
   // ── DEMA ───────────────────────────────────────────────────────────────────
   if (co === "DEMA") {
     if (type === "bienes")
-      return <DEMABienesForm companyName={companyName} values={bienesValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "bienes" })} />;
-    return <DEMAServiciosForm companyName={companyName} values={serviciosValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "servicios" })} />;
+      return <DEMABienesForm companyName={companyName} fieldErrors={fieldErrors} values={bienesValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "bienes" })} />;
+    return <DEMAServiciosForm companyName={companyName} fieldErrors={fieldErrors} values={serviciosValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "servicios" })} />;
   }
 
   // ── HERMAL ─────────────────────────────────────────────────────────────────
   if (co === "HERMAL") {
     if (type === "bienes")
-      return <HERMALBienesForm companyName={companyName} values={bienesValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "bienes" })} />;
-    return <HERMALServiciosForm companyName={companyName} values={serviciosValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "servicios" })} />;
+      return <HERMALBienesForm companyName={companyName} fieldErrors={fieldErrors} values={bienesValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "bienes" })} />;
+    return <HERMALServiciosForm companyName={companyName} fieldErrors={fieldErrors} values={serviciosValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "servicios" })} />;
   }
 
   // ── HYH ────────────────────────────────────────────────────────────────────
   if (co === "HYH") {
     if (type === "bienes")
-      return <HYHBienesForm companyName={companyName} values={bienesValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "bienes" })} />;
-    return <HYHServiciosForm companyName={companyName} values={serviciosValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "servicios" })} />;
+      return <HYHBienesForm companyName={companyName} fieldErrors={fieldErrors} values={bienesValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "bienes" })} />;
+    return <HYHServiciosForm companyName={companyName} fieldErrors={fieldErrors} values={serviciosValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "servicios" })} />;
   }
 
   // ── Fallback ───────────────────────────────────────────────────────────────
   if (type === "bienes")
-    return <AMSBienesForm companyName={companyName} values={bienesValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "bienes" })} />;
-  return <AMSServiciosForm companyName={companyName} values={serviciosValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "servicios" })} />;
+    return <AMSBienesForm companyName={companyName} fieldErrors={fieldErrors} values={bienesValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "bienes" })} />;
+  return <AMSServiciosForm companyName={companyName} fieldErrors={fieldErrors} values={serviciosValues(data)} onChange={(next) => onChange({ ...data, ...next, quoteType: "servicios" })} />;
 }
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileSpreadsheet, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { defaultLineItem, type LineItem } from "@/components/quotations/forms/form-types";
+import {
+  PARTIDA_IMPORT_FIELDS,
+  PARTIDA_IMPORT_FIELD_LABELS,
+  type PartidaImportField,
+  type PartidaImportMapping,
+  type PartidaImportPreview,
+} from "@shared/schema";
+
+export type PartidaImportMode = "replace" | "append";
+
+interface ImportPartidasDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (items: LineItem[], mode: PartidaImportMode) => void;
+}
+
+const UNMAPPED = "none";
+
+async function requestPreview(file: File, mapping?: PartidaImportMapping): Promise<PartidaImportPreview> {
+  const formData = new FormData();
+  formData.append("file", file);
+  if (mapping) formData.append("mapping", JSON.stringify(mapping));
+
+  const res = await fetch("/api/quotes/items/import", { method: "POST", body: formData, credentials: "include" });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: "Error al leer el archivo." }));
+    throw new Error(err.error || "Error al leer el archivo.");
+  }
+  return res.json();
+}
+
+export function ImportPartidasDialog({ open, onOpenChange, onImport }: ImportPartidasDialogProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<PartidaImportPreview | null>(null);
+  const [mode, setMode] = useState<PartidaImportMode>("replace");
+  const [loading, setLoading] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setMode("replace");
+  };
+
+  const loadPreview = async (nextFile: File, mapping?: PartidaImportMapping) => {
+    setLoading(true);
+    try {
+      setPreview(await requestPreview(nextFile, mapping));
+    } catch (e: any) {
+      toast({ title: "Error", description: e.message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // El archivo se vuelve a enviar con el nuevo mapeo para revalidar todas las filas en el servidor
+  const changeMapping = (field: PartidaImportField, value: string) => {
+    if (!file || !preview) return;
+    const mapping = { ...preview.mapping };
+    if (value === UNMAPPED) delete mapping[field];
+    else mapping[field] = Number(value);
+    loadPreview(file, mapping);
+  };
+
+  const confirmImport = () => {
+    if (!preview) return;
+    const baseId = Date.now();
+    const items: LineItem[] = preview.rows
+      .filter(row => row.errors.length === 0)
+      .map((row, i) => ({
+        ...defaultLineItem,
+        id: baseId + i,
+        noPartida: row.item.noPartida,
+        description: row.item.description,
+        techRequirements: row.item.techRequirements,
+        quantity: row.item.quantity,
+        unitMeasure: row.item.unitMeasure,
+        unitPrice: row.item.unitPrice,
+      }));
+
+    onImport(items, mode);
+    toast({ title: "Partidas importadas", description: `Se cargaron ${items.length} partidas desde ${preview.fileName}.` });
+    reset();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) reset(); onOpenChange(next); }}>
+      <DialogContent className="max-w-5xl w-[95vw] max-h-[90vh] overflow-y-auto bg-card text-foreground">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 border-b border-border pb-4 text-lg">
+            <FileSpreadsheet className="h-5 w-5 text-emerald-600" />
+            Importar partidas
+          </DialogTitle>
+          <DialogDescription>
+            Sube la requisición en .xlsx o .csv. La primera fila debe contener los encabezados.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          <Input
+            type="file"
+            accept=".xlsx,.csv"
+            disabled={loading}
+            onChange={(e) => {
+              const selected = e.target.files?.[0] ?? null;
+              setFile(selected);
+              setPreview(null);
+              if (selected) loadPreview(selected);
+            }}
+          />
+          {loading && <span className="text-xs text-muted-foreground whitespace-nowrap">Leyendo archivo...</span>}
+        </div>
+
+        {preview && (
+          <div className="space-y-6 mt-4">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              {PARTIDA_IMPORT_FIELDS.map(field => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs">{PARTIDA_IMPORT_FIELD_LABELS[field]}</Label>
+                  <Select
+                    value={preview.mapping[field] === undefined ? UNMAPPED : String(preview.mapping[field])}
+                    onValueChange={(value) => changeMapping(field, value)}
+                    disabled={loading}
+                  >
+                    <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>— Sin asignar —</SelectItem>
+                      {preview.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-3 text-xs">
+              <Badge className="bg-emerald-100 text-emerald-700 border-none">{preview.validCount} válidas</Badge>
+              {preview.errorCount > 0 && (
+                <Badge className="bg-red-100 text-red-700 border-none">{preview.errorCount} con errores (no se importarán)</Badge>
+              )}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs font-bold uppercase">Fila</TableHead>
+                  {PARTIDA_IMPORT_FIELDS.map(field => (
+                    <TableHead key={field} className="text-xs font-bold uppercase">{PARTIDA_IMPORT_FIELD_LABELS[field]}</TableHead>
+                  ))}
+                  <TableHead className="text-xs font-bold uppercase">Errores</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.rows.map(row => (
+                  <TableRow key={row.rowNumber} className={row.errors.length > 0 ? "bg-red-50/60 dark:bg-red-900/10" : ""}>
+                    <TableCell className="text-xs font-mono">{row.rowNumber}</TableCell>
+                    <TableCell className="text-xs">{row.item.noPartida || "—"}</TableCell>
+                    <TableCell className="text-xs max-w-[240px] truncate" title={row.item.description}>{row.item.description || "—"}</TableCell>
+                    <TableCell className="text-xs max-w-[200px] truncate" title={row.item.techRequirements}>{row.item.techRequirements || "—"}</TableCell>
+                    <TableCell className="text-xs text-right">{Number.isFinite(row.item.quantity) ? row.item.quantity : "—"}</TableCell>
+                    <TableCell className="text-xs">{row.item.unitMeasure || "—"}</TableCell>
+                    <TableCell className="text-xs text-right">
+                      {Number.isFinite(row.item.unitPrice) ? `$${row.item.unitPrice.toLocaleString()}` : "—"}
+                    </TableCell>
+                    <TableCell className="text-xs text-red-600">{row.errors.join(" · ")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:items-center">
+          {preview && (
+            <Select value={mode} onValueChange={(value) => setMode(value as PartidaImportMode)}>
+              <SelectTrigger className="w-64 h-9 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="replace">Reemplazar las partidas actuales</SelectItem>
+                <SelectItem value="append">Agregar después de las partidas actuales</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="outline" onClick={() => { reset(); onOpenChange(false); }}>Cancelar</Button>
+          <Button
+            onClick={confirmImport}
+            disabled={!preview || loading || preview.validCount === 0}
+            className="bg-emerald-600 text-white hover:bg-emerald-700"
+          >
+            <Upload className="h-4 w-4 mr-1" /> Cargar {preview?.validCount ?? 0} partidas
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
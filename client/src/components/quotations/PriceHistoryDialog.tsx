@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { TrendingUp } from "lucide-react";
+import type { PriceHistoryResponse, PriceRangeStats } from "@shared/schema";
+
+interface PriceHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  description: string;
+}
+
+const DEFAULT_INFLATION_RATE = "4";
+
+export const priceHistoryChartConfig = {
+  salePrice: { label: "Precio de venta", color: "#2563eb" },
+  purchaseCost: { label: "Costo de compra", color: "#059669" },
+} satisfies ChartConfig;
+
+export const formatMoney = (value: number) => value.toLocaleString("es-MX", { style: "currency", currency: "MXN" });
+
+export function priceHistoryUrl(query: string, options: { supplier?: string; inflationRate?: string | null } = {}) {
+  const params = new URLSearchParams({ q: query });
+  if (options.supplier) params.set("supplier", options.supplier);
+  if (options.inflationRate) {
+    params.set("adjustInflation", "true");
+    params.set("inflationRate", options.inflationRate);
+  }
+  return `/api/price-history?${params.toString()}`;
+}
+
+function RangeCard({ title, stats }: { title: string; stats: PriceRangeStats | null }) {
+  return (
+    <div className="rounded-lg border border-slate-200 dark:border-slate-700 p-3">
+      <p className="text-xs font-semibold text-slate-500 dark:text-slate-400">{title}</p>
+      {stats ? (
+        <div className="mt-1 grid grid-cols-3 gap-2 text-xs">
+          <div><p className="text-muted-foreground">Mín.</p><p className="font-semibold">{formatMoney(stats.min)}</p></div>
+          <div><p className="text-muted-foreground">Prom.</p><p className="font-semibold">{formatMoney(stats.avg)}</p></div>
+          <div><p className="text-muted-foreground">Máx.</p><p className="font-semibold">{formatMoney(stats.max)}</p></div>
+        </div>
+      ) : (
+        <p className="mt-1 text-xs text-muted-foreground">Sin datos capturados</p>
+      )}
+    </div>
+  );
+}
+
+const rangeText = (stats: PriceRangeStats | null) =>
+  stats ? `${formatMoney(stats.min)} – ${formatMoney(stats.max)} (prom. ${formatMoney(stats.avg)})` : "—";
+
+export function PriceHistoryDialog({ open, onOpenChange, description }: PriceHistoryDialogProps) {
+  const [query, setQuery] = useState(description);
+  const [supplier, setSupplier] = useState("");
+  const [adjustInflation, setAdjustInflation] = useState(false);
+  const [inflationRate, setInflationRate] = useState(DEFAULT_INFLATION_RATE);
+
+  useEffect(() => {
+    if (open) {
+      setQuery(description);
+      setSupplier("");
+    }
+  }, [open, description]);
+
+  const search = query.trim();
+  const { data, isLoading, error } = useQuery<PriceHistoryResponse>({
+    queryKey: [priceHistoryUrl(search, { supplier: supplier.trim(), inflationRate: adjustInflation ? inflationRate : null })],
+    enabled: open && search.length >= 3,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl w-[95vw] max-h-[90vh] overflow-y-auto bg-card text-foreground">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 border-b border-border pb-4 text-lg">
+            <TrendingUp className="h-5 w-5 text-blue-600" />
+            Historial de precios
+          </DialogTitle>
+          <DialogDescription>
+            Partidas cotizadas con una descripción parecida. Los importes están en pesos con el tipo de cambio de cada cotización.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_200px_auto] items-end gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Descripción</Label>
+            <Input className="h-9 text-xs" value={query} onChange={(e) => setQuery(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Proveedor</Label>
+            <Input className="h-9 text-xs" placeholder="Todos" value={supplier} onChange={(e) => setSupplier(e.target.value)} />
+          </div>
+          <div className="flex items-center gap-2 pb-1">
+            <Switch checked={adjustInflation} onCheckedChange={setAdjustInflation} />
+            <Label className="text-xs whitespace-nowrap">Ajustar por inflación</Label>
+            {adjustInflation && (
+              <div className="flex items-center gap-1">
+                <Input className="h-8 w-16 text-xs" type="number" min={0} max={100} step={0.1}
+                  value={inflationRate} onChange={(e) => setInflationRate(e.target.value)} />
+                <span className="text-xs text-muted-foreground">% anual</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {search.length < 3 ? (
+          <p className="text-xs text-muted-foreground">Escribe al menos 3 caracteres.</p>
+        ) : isLoading ? (
+          <p className="text-xs text-muted-foreground">Buscando partidas...</p>
+        ) : error ? (
+          <p className="text-xs text-red-600">{(error as Error).message}</p>
+        ) : !data || data.count === 0 ? (
+          <p className="text-xs text-muted-foreground">No hay partidas cotizadas con esa descripción.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <RangeCard title={`Precio de venta unitario (${data.count} partidas)`} stats={data.salePrice} />
+              <RangeCard title="Costo de compra unitario" stats={data.purchaseCost} />
+            </div>
+            {data.inflationRate !== null && (
+              <p className="text-[11px] text-muted-foreground">Importes llevados a valor de hoy con {data.inflationRate}% de inflación anual.</p>
+            )}
+
+            {data.trend.length > 1 && (
+              <ChartContainer config={priceHistoryChartConfig} className="h-56 w-full">
+                <LineChart data={data.trend} margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="period" tickLine={false} axisLine={false} fontSize={10} />
+                  <YAxis tickLine={false} axisLine={false} fontSize={10} width={70} tickFormatter={(value) => formatMoney(Number(value))} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="salePrice" stroke="var(--color-salePrice)" strokeWidth={2} dot connectNulls />
+                  <Line dataKey="purchaseCost" stroke="var(--color-purchaseCost)" strokeWidth={2} dot connectNulls />
+                </LineChart>
+              </ChartContainer>
+            )}
+
+            <div>
+              <p className="text-xs font-semibold mb-1">Por proveedor</p>
+              <table className="w-full text-xs">
+                <thead className="text-left text-muted-foreground">
+                  <tr>
+                    <th className="py-1">Proveedor</th>
+                    <th className="py-1 text-center">Partidas</th>
+                    <th className="py-1">Costo de compra</th>
+                    <th className="py-1">Precio de venta</th>
+                    <th className="py-1">Última</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.suppliers.map(row => (
+                    <tr key={row.supplier} className="border-t border-slate-200 dark:border-slate-700">
+                      <td className="py-1 font-medium">{row.supplier}</td>
+                      <td className="py-1 text-center">{row.count}</td>
+                      <td className="py-1">{rangeText(row.purchaseCost)}</td>
+                      <td className="py-1">{rangeText(row.salePrice)}</td>
+                      <td className="py-1">{row.lastQuoteDate}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold mb-1">Partidas recientes</p>
+              <table className="w-full text-xs">
+                <thead className="text-left text-muted-foreground">
+                  <tr>
+                    <th className="py-1">Folio</th>
+                    <th className="py-1">Fecha</th>
+                    <th className="py-1">Descripción</th>
+                    <th className="py-1">Proveedor</th>
+                    <th className="py-1 text-right">Costo</th>
+                    <th className="py-1 text-right">Venta</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.items.map((item, index) => (
+                    <tr key={`${item.quoteId}-${index}`} className="border-t border-slate-200 dark:border-slate-700">
+                      <td className="py-1 font-mono">{item.internalFolio}</td>
+                      <td className="py-1">{item.quoteDate}</td>
+                      <td className="py-1 max-w-xs truncate" title={item.description}>{item.description}</td>
+                      <td className="py-1">{item.supplier || "—"}</td>
+                      <td className="py-1 text-right">{item.purchaseCost > 0 ? formatMoney(item.purchaseCost) : "—"}</td>
+                      <td className="py-1 text-right">{formatMoney(item.unitPrice)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
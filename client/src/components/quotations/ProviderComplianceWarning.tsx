@@ -0,0 +1,52 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { AlertTriangle } from "lucide-react";
+import {
+  PROVIDER_DOCUMENT_TYPE_LABELS,
+  type ProviderCompliance,
+} from "@shared/schema";
+
+interface ProviderComplianceWarningProps {
+  providerId?: number | null;
+}
+
+/**
+ * Aviso en la captura de la cotización cuando el proveedor tiene documentos de cumplimiento
+ * vencidos o por vencer. No bloquea el guardado.
+ */
+export function ProviderComplianceWarning({ providerId }: ProviderComplianceWarningProps) {
+  const { data } = useQuery<{ compliance: ProviderCompliance }>({
+    queryKey: [`/api/providers/${providerId}/documents`],
+    enabled: !!providerId,
+  });
+
+  const items = data?.compliance.items ?? [];
+  const expired = items.filter(item => item.status === "vencido");
+  const expiring = items.filter(item => item.status === "por_vencer");
+  if (expired.length === 0 && expiring.length === 0) return null;
+
+  const tone = expired.length > 0
+    ? "border-red-200 bg-red-50/60 text-red-800 dark:border-red-900 dark:bg-red-900/10 dark:text-red-300"
+    : "border-amber-200 bg-amber-50/60 text-amber-800 dark:border-amber-900 dark:bg-amber-900/10 dark:text-amber-300";
+
+  return (
+    <div className={`flex items-start gap-3 rounded-lg border p-3 text-xs ${tone}`}>
+      <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+      <div className="space-y-1">
+        {expired.length > 0 && (
+          <p>
+            <span className="font-semibold">Documentos vencidos del proveedor:</span>{" "}
+            {expired.map(item => PROVIDER_DOCUMENT_TYPE_LABELS[item.type]).join(", ")}.
+          </p>
+        )}
+        {expiring.length > 0 && (
+          <p>
+            <span className="font-semibold">Por vencer:</span>{" "}
+            {expiring.map(item => `${PROVIDER_DOCUMENT_TYPE_LABELS[item.type]} (${item.daysRemaining} días)`).join(", ")}.
+          </p>
+        )}
+        <Link href={`/providers/${providerId}`} className="underline">Actualizar documentos</Link>
+      </div>
+    </div>
+  );
+}
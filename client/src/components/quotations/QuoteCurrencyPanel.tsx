@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DollarSign, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  QUOTE_CURRENCIES,
+  QUOTE_CURRENCY_LABELS,
+  type ExchangeRateQuote,
+  type QuoteCurrency,
+  type QuoteCurrencySettings,
+} from "@shared/schema";
+
+interface QuoteCurrencyPanelProps {
+  settings: QuoteCurrencySettings;
+  onChange: (settings: QuoteCurrencySettings) => void;
+  quoteDate: string;
+}
+
+/**
+ * Moneda de la propuesta y de los costos de compra. Si se deja vacío el tipo de cambio,
+ * el servidor toma el publicado en el DOF para la fecha de la cotización al guardar.
+ */
+export function QuoteCurrencyPanel({ settings, onChange, quoteDate }: QuoteCurrencyPanelProps) {
+  const { toast } = useToast();
+  const [loadingRate, setLoadingRate] = useState(false);
+  const needsRate = settings.currency === "USD" || settings.costCurrency === "USD";
+
+  const fetchDofRate = async () => {
+    setLoadingRate(true);
+    try {
+      const res = await fetch(`/api/exchange-rates/usd?date=${encodeURIComponent(quoteDate)}`, { credentials: "include" });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "Error al consultar el tipo de cambio." }));
+        throw new Error(err.error || "Error al consultar el tipo de cambio.");
+      }
+      const rate: ExchangeRateQuote = await res.json();
+      onChange({ ...settings, exchangeRate: rate.rate, exchangeRateDate: rate.date });
+    } catch (e: any) {
+      toast({ title: "Tipo de cambio", description: e.message, variant: "destructive" });
+    } finally {
+      setLoadingRate(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900/60 p-4 space-y-4">
+      <h4 className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+        <DollarSign className="h-4 w-4 text-emerald-600" /> Moneda
+      </h4>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs">Moneda de la propuesta</Label>
+          <Select value={settings.currency} onValueChange={(value) => onChange({ ...settings, currency: value as QuoteCurrency })}>
+            <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {QUOTE_CURRENCIES.map(currency => (
+                <SelectItem key={currency} value={currency}>{QUOTE_CURRENCY_LABELS[currency]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Costos de compra capturados en</Label>
+          <Select value={settings.costCurrency} onValueChange={(value) => onChange({ ...settings, costCurrency: value as QuoteCurrency })}>
+            <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {QUOTE_CURRENCIES.map(currency => (
+                <SelectItem key={currency} value={currency}>{QUOTE_CURRENCY_LABELS[currency]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {needsRate && (
+          <div className="space-y-1">
+            <Label className="text-xs">Tipo de cambio DOF (pesos por dólar)</Label>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                step="0.0001"
+                min="0"
+                className="h-9 text-xs"
+                placeholder="Automático al guardar"
+                value={settings.exchangeRate ?? ""}
+                onChange={(e) => onChange({
+                  ...settings,
+                  exchangeRate: e.target.value ? Number(e.target.value) : null,
+                  exchangeRateDate: e.target.value ? quoteDate : "",
+                })}
+              />
+              <Button type="button" variant="outline" size="sm" className="h-9" onClick={fetchDofRate} disabled={loadingRate}>
+                <RefreshCw className={`h-3 w-3 mr-1 ${loadingRate ? "animate-spin" : ""}`} /> DOF
+              </Button>
+            </div>
+            {settings.exchangeRateDate && (
+              <p className="text-[10px] text-muted-foreground">Publicado el {settings.exchangeRateDate}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Gavel } from "lucide-react";
+import { LICITACION_ESTADO_LABELS, type LicitacionEstado, type LicitacionResponse } from "@shared/schema";
+
+const NONE = "ninguna";
+
+interface QuoteLicitacionSelectProps {
+  licitacionId?: number | null;
+  onChange: (licitacionId: number | null) => void;
+}
+
+/**
+ * Liga la cotización a una licitación; su total se compara contra el presupuesto
+ * en el detalle de la licitación.
+ */
+export function QuoteLicitacionSelect({ licitacionId, onChange }: QuoteLicitacionSelectProps) {
+  const { data: licitaciones = [] } = useQuery<LicitacionResponse[]>({ queryKey: ["/api/licitaciones"] });
+
+  return (
+    <div className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900/60 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+          <Gavel className="h-4 w-4 text-blue-600" /> Licitación
+        </h4>
+        {licitacionId && (
+          <Link href={`/licitaciones/${licitacionId}`} className="text-xs text-blue-600 hover:underline">Ver licitación</Link>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Procedimiento</Label>
+        <Select
+          value={licitacionId ? String(licitacionId) : NONE}
+          onValueChange={(value) => onChange(value === NONE ? null : Number(value))}
+        >
+          <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Sin licitación</SelectItem>
+            {licitaciones.map(licitacion => (
+              <SelectItem key={licitacion.id} value={String(licitacion.id)}>
+                {licitacion.numeroLicitacion} — {licitacion.titulo} ({LICITACION_ESTADO_LABELS[licitacion.estado as LicitacionEstado] ?? licitacion.estado})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
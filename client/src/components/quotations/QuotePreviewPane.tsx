@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Eye, Loader2 } from "lucide-react";
+import type { QuotePreviewPage, QuotePreviewResponse } from "@shared/schema";
+
+interface QuotePreviewPaneProps {
+  // Mismo cuerpo que se manda al guardar la cotización
+  payload: object;
+}
+
+const REFRESH_DELAY_MS = 800;
+const ZOOM_OPTIONS = [0.5, 0.75, 1];
+
+/**
+ * Líneas donde termina el área útil de cada hoja. El contenido corre continuo, así que los
+ * cortes son aproximados: el PDF deja además el margen superior e inferior en cada hoja.
+ */
+function withPageGuides(html: string, page: QuotePreviewPage): string {
+  const contentHeight = page.height - page.marginTop - page.marginBottom;
+  const guides = `<style>
+    html { position: relative; }
+    .quote-preview-guides {
+      position: absolute; top: ${page.marginTop}px; bottom: ${page.marginBottom}px; left: 0; right: 0;
+      pointer-events: none; z-index: 2147483647;
+      background-image: repeating-linear-gradient(to bottom, transparent 0, transparent ${contentHeight - 2}px,
+        rgba(239, 68, 68, 0.6) ${contentHeight - 2}px, rgba(239, 68, 68, 0.6) ${contentHeight}px);
+    }
+  </style><div class="quote-preview-guides"></div>`;
+  return /<\/body>/i.test(html) ? html.replace(/<\/body>/i, match => `${guides}${match}`) : `${html}${guides}`;
+}
+
+// Vista previa de la propuesta mientras se llena el formulario; se actualiza al dejar de escribir
+export function QuotePreviewPane({ payload }: QuotePreviewPaneProps) {
+  const body = JSON.stringify(payload);
+  const [debouncedBody, setDebouncedBody] = useState(body);
+  const [zoom, setZoom] = useState(0.75);
+  const [documentHeight, setDocumentHeight] = useState(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedBody(body), REFRESH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [body]);
+
+  const { data, error, isFetching } = useQuery<QuotePreviewResponse>({
+    queryKey: ["/api/quotes/preview", debouncedBody],
+    queryFn: async () => {
+      const res = await fetch("/api/quotes/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: debouncedBody,
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "Error de red al generar la vista previa." }));
+        throw new Error(err.error || "No se pudo generar la vista previa.");
+      }
+      return res.json();
+    },
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+
+  const page = data?.page;
+  const height = Math.max(documentHeight, page?.height ?? 0);
+  const contentHeight = page ? page.height - page.marginTop - page.marginBottom : 0;
+  const pageCount = page && contentHeight > 0
+    ? Math.max(1, Math.ceil((height - page.marginTop - page.marginBottom) / contentHeight))
+    : 0;
+
+  return (
+    <div className="sticky top-0 flex h-[85vh] flex-col rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-100 dark:bg-slate-900/60">
+      <div className="flex items-center justify-between gap-3 border-b border-slate-200 dark:border-slate-700 px-4 py-2">
+        <h4 className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+          <Eye className="h-4 w-4 text-blue-600" /> Vista previa
+          {isFetching && <Loader2 className="h-3 w-3 animate-spin text-slate-400" />}
+        </h4>
+        <div className="flex items-center gap-3 text-xs text-slate-500">
+          {pageCount > 0 && <span>≈ {pageCount} {pageCount === 1 ? "hoja" : "hojas"}</span>}
+          <Select value={String(zoom)} onValueChange={(value) => setZoom(Number(value))}>
+            <SelectTrigger className="h-8 w-24 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {ZOOM_OPTIONS.map(option => (
+                <SelectItem key={option} value={String(option)}>{option * 100}%</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error && (
+        <p className="border-b border-amber-200 bg-amber-50 px-4 py-2 text-xs text-amber-800 dark:border-amber-900 dark:bg-amber-900/10 dark:text-amber-300">
+          {(error as Error).message}{data ? " Se muestra la última vista previa válida." : ""}
+        </p>
+      )}
+
+      <div className="flex-1 overflow-auto p-4">
+        {data && page ? (
+          <div className="mx-auto bg-white shadow-lg" style={{ width: page.width * zoom, height: height * zoom }}>
+            {/* Sin scripts: el HTML incluye texto capturado por el usuario */}
+            <iframe
+              title="Vista previa de la cotización"
+              sandbox="allow-same-origin"
+              srcDoc={withPageGuides(data.html, page)}
+              onLoad={(e) => setDocumentHeight(e.currentTarget.contentDocument?.documentElement.scrollHeight ?? 0)}
+              style={{ width: page.width, height, border: 0, transform: `scale(${zoom})`, transformOrigin: "top left" }}
+            />
+          </div>
+        ) : !error ? (
+          <div className="flex h-full items-center justify-center text-sm text-slate-400">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Generando vista previa…
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
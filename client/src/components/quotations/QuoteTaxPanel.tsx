@@ -0,0 +1,102 @@
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Receipt } from "lucide-react";
+import type { LineItem } from "@/components/quotations/forms/form-types";
+import {
+  IVA_RATES,
+  IVA_RATE_LABELS,
+  IVA_RETENTION_OPTIONS,
+  ISR_RETENTION_OPTIONS,
+  type IvaRate,
+  type QuoteTaxSettings,
+} from "@shared/schema";
+
+interface QuoteTaxPanelProps {
+  settings: QuoteTaxSettings;
+  onChange: (settings: QuoteTaxSettings) => void;
+  isService: boolean;
+  lineItems: LineItem[];
+  exemptItemIds: number[];
+  onToggleExempt: (itemId: number, exempt: boolean) => void;
+}
+
+/**
+ * Impuestos de la cotización. El cálculo lo hace el servidor; aquí solo se capturan
+ * la tasa, las retenciones (servicios) y las partidas exentas.
+ */
+export function QuoteTaxPanel({ settings, onChange, isService, lineItems, exemptItemIds, onToggleExempt }: QuoteTaxPanelProps) {
+  const partidas = lineItems.filter(item => item.description?.trim());
+
+  return (
+    <div className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900/60 p-4 space-y-4">
+      <h4 className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+        <Receipt className="h-4 w-4 text-blue-600" /> Impuestos
+      </h4>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs">Tasa de IVA</Label>
+          <Select value={settings.ivaRate} onValueChange={(value) => onChange({ ...settings, ivaRate: value as IvaRate })}>
+            <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {IVA_RATES.map(rate => (
+                <SelectItem key={rate} value={rate}>{IVA_RATE_LABELS[rate]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isService && (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs">Retención de IVA</Label>
+              <Select
+                value={String(settings.ivaRetentionRate)}
+                onValueChange={(value) => onChange({ ...settings, ivaRetentionRate: Number(value) })}
+                disabled={settings.ivaRate === "exento" || settings.ivaRate === "0"}
+              >
+                <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {IVA_RETENTION_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Retención de ISR</Label>
+              <Select value={String(settings.isrRetentionRate)} onValueChange={(value) => onChange({ ...settings, isrRetentionRate: Number(value) })}>
+                <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {ISR_RETENTION_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+      </div>
+
+      {settings.ivaRate !== "exento" && partidas.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-xs">Partidas exentas de IVA</Label>
+          <div className="flex flex-wrap gap-x-6 gap-y-2">
+            {partidas.map((item, index) => (
+              <label key={item.id} className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 max-w-xs">
+                <Checkbox
+                  checked={exemptItemIds.includes(item.id)}
+                  onCheckedChange={(checked) => onToggleExempt(item.id, checked === true)}
+                />
+                <span className="truncate" title={item.description}>
+                  {item.noPartida || index + 1}. {item.description}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
 import { FormSection } from "./FormSection.tsx";
 import type { AMSFormData, LineItem } from "./form-types";
-import { defaultLineItem } from "./form-types";
+import { catalogItemFields, defaultLineItem, withSelectedOptions } from "./form-types";
+import { useQuoteFieldErrors } from "./use-quote-field-errors";
+import { CatalogDescriptionInput } from "./CatalogDescriptionInput";
+import type { CatalogItemResponse } from "@shared/schema";
+import type { QuoteFieldErrors } from "@shared/quote-input";
 import { Trash2, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
@@ -35,6 +39,7 @@ interface AMSBienesFormProps {
   companyName?: string;
   values: FormValues;
   onChange: (values: FormValues) => void;
+  fieldErrors?: QuoteFieldErrors;
 }
 
 const unitMeasureAbbreviations: Record<string, string> = {
@@ -46,13 +51,14 @@ const normalizeUnitMeasure = (value: string) => {
   return unitMeasureAbbreviations[value.trim().toLowerCase()] || value;
 };
 
-export function AMSBienesForm({ companyName, values, onChange }: AMSBienesFormProps) {
+export function AMSBienesForm({ companyName, values, onChange, fieldErrors }: AMSBienesFormProps) {
   const initialized = useRef(false);
 
   const form = useForm<FormValues>({
     defaultValues: values,
     mode: "onChange",
   });
+  useQuoteFieldErrors(form, fieldErrors);
 
   const deliveryLocations = useFieldArray({ control: form.control, name: "deliveryLocations" });
   const qualityGuarantees = useFieldArray({ control: form.control, name: "qualityGuarantees" as any });
@@ -101,6 +107,13 @@ export function AMSBienesForm({ companyName, values, onChange }: AMSBienesFormPr
     form.setValue(`lineItems.${index}`, item, { shouldDirty: true });
   };
 
+  const selectCatalogItem = (index: number, entry: CatalogItemResponse) => {
+    const { purchaseCost, ...fields } = catalogItemFields(entry);
+    const current = form.getValues("lineItems") || [];
+    form.setValue(`lineItems.${index}`, { ...current[index], ...fields }, { shouldDirty: true });
+    if (purchaseCost !== undefined) updateLineItem(index, "purchaseCost", purchaseCost);
+  };
+
   const inputClass = "bg-white dark:bg-slate-900/60 dark:text-white dark:placeholder-slate-400 border border-slate-200 dark:border-slate-700 focus:border-cyan-400 dark:focus:border-cyan-400 focus:ring-2 focus:ring-cyan-200/20 dark:focus:ring-cyan-400/25 transition";
 
   return (
@@ -206,9 +219,11 @@ export function AMSBienesForm({ companyName, values, onChange }: AMSBienesFormPr
                       </td>
 
                       <td className="px-2 py-2">
-                        <Input className={inputClass + " text-xs"} placeholder="Ej. Cinta de aluminio..."
-                          value={watchedLineItems?.[i]?.description ?? ""}
-                          onChange={e => updateLineItem(i, "description", e.target.value)} />
+                        <CatalogDescriptionInput kind="bienes" className={inputClass + " text-xs"} placeholder="Ej. Cinta de aluminio..."
+                          item={watchedLineItems?.[i]}
+                          onChange={value => updateLineItem(i, "description", value)}
+                          onSelect={entry => selectCatalogItem(i, entry)}
+                          onSaved={entry => updateLineItem(i, "catalogItemId", entry.id)} />
                       </td>
 
                       <td className="px-2 py-2">
@@ -486,7 +501,7 @@ export function AMSBienesForm({ companyName, values, onChange }: AMSBienesFormPr
             <FormLabel>Objetos sociales</FormLabel>
             <p className="text-xs text-slate-500">Selecciona los que apliquen:</p>
             <div className="space-y-2 rounded border border-slate-200 dark:border-slate-700 p-3">
-              {SOCIAL_OBJECTS.map((obj) => (
+              {withSelectedOptions(SOCIAL_OBJECTS, selectedSocialObjects).map((obj) => (
                 <label key={obj} className="flex items-start gap-2 cursor-pointer text-sm text-slate-700 dark:text-slate-300">
                   <input type="checkbox" className="mt-0.5 accent-cyan-500"
                     checked={(selectedSocialObjects ?? []).includes(obj)}
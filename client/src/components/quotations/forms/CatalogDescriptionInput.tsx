@@ -0,0 +1,185 @@
+import { useEffect, useState, type KeyboardEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Line, LineChart } from "recharts";
+import { Input } from "@/components/ui/input";
+import { ChartContainer } from "@/components/ui/chart";
+import { BookmarkPlus, TrendingUp } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { PriceHistoryDialog, formatMoney, priceHistoryChartConfig, priceHistoryUrl } from "@/components/quotations/PriceHistoryDialog";
+import type { CatalogItemKind, CatalogItemResponse, PriceHistoryResponse } from "@shared/schema";
+import type { LineItem } from "./form-types";
+
+interface CatalogDescriptionInputProps {
+  kind: CatalogItemKind;
+  item: LineItem | undefined;
+  className?: string;
+  placeholder?: string;
+  onChange: (description: string) => void;
+  onSelect: (entry: CatalogItemResponse) => void;
+  onSaved: (entry: CatalogItemResponse) => void;
+}
+
+// Descripción de la partida con sugerencias del catálogo, el historial de precios y un botón para guardarla en el catálogo
+export function CatalogDescriptionInput({ kind, item, className, placeholder, onChange, onSelect, onSaved }: CatalogDescriptionInputProps) {
+  const { toast } = useToast();
+  const value = item?.description ?? "";
+  const [focused, setFocused] = useState(false);
+  const [search, setSearch] = useState("");
+  const [highlighted, setHighlighted] = useState(0);
+  const [historyOpen, setHistoryOpen] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(value.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  const { data: suggestions = [] } = useQuery<CatalogItemResponse[]>({
+    queryKey: [`/api/catalog?kind=${kind}&search=${encodeURIComponent(search)}`],
+    enabled: focused && search.length >= 2,
+    staleTime: 30_000,
+  });
+
+  const { data: history } = useQuery<PriceHistoryResponse>({
+    queryKey: [priceHistoryUrl(search)],
+    enabled: focused && search.length >= 3,
+    staleTime: 60_000,
+  });
+
+  // No se sugiere el mismo artículo que ya está en la partida
+  const visible = suggestions.filter(entry => entry.id !== item?.catalogItemId || entry.description !== value);
+  const hasHistory = search.length >= 3 && !!history && history.count > 0;
+  const open = focused && search.length >= 2 && (visible.length > 0 || hasHistory);
+
+  useEffect(() => setHighlighted(0), [search]);
+
+  const select = (entry: CatalogItemResponse) => {
+    onSelect(entry);
+    setFocused(false);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (!open || visible.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted(i => Math.min(i + 1, visible.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted(i => Math.max(i - 1, 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      select(visible[highlighted] ?? visible[0]);
+    } else if (e.key === "Escape") {
+      setFocused(false);
+    }
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/catalog/from-partida", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ ...item, kind }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "Error al guardar en el catálogo." }));
+        throw new Error(err.error || "Error al guardar en el catálogo.");
+      }
+      return { entry: (await res.json()) as CatalogItemResponse, created: res.status === 201 };
+    },
+    onSuccess: ({ entry, created }) => {
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/catalog") });
+      toast({ title: created ? "Agregado al catálogo" : "Catálogo actualizado", description: entry.description });
+      onSaved(entry);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <Input
+        className={className}
+        placeholder={placeholder}
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        onKeyDown={handleKeyDown}
+        autoComplete="off"
+      />
+      <button
+        type="button"
+        title="Guardar en el catálogo"
+        disabled={!value.trim() || saveMutation.isPending}
+        onClick={() => saveMutation.mutate()}
+        className="text-slate-400 hover:text-blue-600 disabled:opacity-40"
+      >
+        <BookmarkPlus size={14} />
+      </button>
+      <button
+        type="button"
+        title="Historial de precios"
+        disabled={value.trim().length < 3}
+        onClick={() => setHistoryOpen(true)}
+        className="text-slate-400 hover:text-blue-600 disabled:opacity-40"
+      >
+        <TrendingUp size={14} />
+      </button>
+
+      {open && (
+        <ul className="absolute left-0 top-full z-50 mt-1 max-h-64 w-[420px] overflow-y-auto rounded-md border border-slate-200 bg-white text-xs shadow-lg dark:border-slate-700 dark:bg-slate-900">
+          {visible.map((entry, i) => (
+            <li
+              key={entry.id}
+              // mousedown para elegir antes de que el blur cierre la lista
+              onMouseDown={e => { e.preventDefault(); select(entry); }}
+              onMouseEnter={() => setHighlighted(i)}
+              className={`cursor-pointer px-3 py-2 ${i === highlighted ? "bg-blue-50 dark:bg-slate-800" : ""}`}
+            >
+              <p className="font-medium text-slate-700 dark:text-slate-100">
+                {entry.code && <span className="mr-1 font-mono text-blue-600">{entry.code}</span>}
+                {entry.description}
+              </p>
+              <p className="text-[10px] text-slate-500 dark:text-slate-400">
+                {[entry.unitMeasure, entry.suppliers[0] && `${entry.suppliers[0].name} · ${formatMoney(entry.suppliers[0].lastCost)}`]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+            </li>
+          ))}
+          {hasHistory && (
+            <li
+              onMouseDown={e => { e.preventDefault(); setFocused(false); setHistoryOpen(true); }}
+              className="cursor-pointer border-t border-slate-200 px-3 py-2 hover:bg-blue-50 dark:border-slate-700 dark:hover:bg-slate-800"
+            >
+              <div className="flex items-center gap-3">
+                <div className="flex-1">
+                  <p className="font-medium text-slate-700 dark:text-slate-100">
+                    Historial: {history.count} {history.count === 1 ? "partida" : "partidas"}
+                  </p>
+                  <p className="text-[10px] text-slate-500 dark:text-slate-400">
+                    {history.salePrice && `Venta ${formatMoney(history.salePrice.min)} – ${formatMoney(history.salePrice.max)}`}
+                    {history.purchaseCost && ` · Costo prom. ${formatMoney(history.purchaseCost.avg)}`}
+                  </p>
+                </div>
+                {history.trend.length > 1 && (
+                  <ChartContainer config={priceHistoryChartConfig} className="h-10 w-28 aspect-auto">
+                    <LineChart data={history.trend}>
+                      <Line dataKey="salePrice" stroke="var(--color-salePrice)" strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+                      <Line dataKey="purchaseCost" stroke="var(--color-purchaseCost)" strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+                    </LineChart>
+                  </ChartContainer>
+                )}
+              </div>
+            </li>
+          )}
+        </ul>
+      )}
+
+      <PriceHistoryDialog open={historyOpen} onOpenChange={setHistoryOpen} description={value} />
+    </div>
+  );
+}
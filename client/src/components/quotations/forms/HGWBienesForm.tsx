@@ -4,8 +4,12 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
 import { FormSection } from "./FormSection.tsx";
-import type { AMSFormData, LineItem } from "./form-types";
-import { defaultLineItem } from "./form-types";
+import type { AMSFormData, DeliveryConditionItem, LineItem } from "./form-types";
+import { catalogItemFields, defaultLineItem, withSelectedOptions } from "./form-types";
+import { useQuoteFieldErrors } from "./use-quote-field-errors";
+import { CatalogDescriptionInput } from "./CatalogDescriptionInput";
+import type { CatalogItemResponse } from "@shared/schema";
+import type { QuoteFieldErrors } from "@shared/quote-input";
 import { Trash2, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
@@ -27,22 +31,18 @@ const SOCIAL_OBJECTS = [
 // 🚀 SOLUCIÓN AL ERROR DE TYPESCRIPT: 
 // Usamos Partial<> para no ser estrictos con las llaves que no existen, 
 // y agregamos nuestras variables dinámicas nuevas sin que truene el linter.
-type FormValues = Partial<AMSFormData> & {
-  deliveryDates?: string[];
-  deliveryConditions?: { text: string; subItems: string[] }[];
+type FormValues = Omit<Partial<AMSFormData>, "deliveryConditions"> & {
+  deliveryConditions?: DeliveryConditionItem[];
   attnNombre?: string;
   attnDependencia?: string;
   attnNombreProcedimiento?: string;
-  deliveryNotes?: string;
-  hasRegionalMilitary?: boolean;
-  warrantyPercentageApplies?: boolean;
-  warrantyPercentage?: number;
 };
 
 interface HGWBienesFormProps {
   companyName?: string;
   values: FormValues;
   onChange: (values: FormValues) => void;
+  fieldErrors?: QuoteFieldErrors;
 }
 
 const unitMeasureAbbreviations: Record<string, string> = {
@@ -54,13 +54,14 @@ const normalizeUnitMeasure = (value: string) => {
   return unitMeasureAbbreviations[value.trim().toLowerCase()] || value;
 };
 
-export function HGWBienesForm({ companyName, values, onChange }: HGWBienesFormProps) {
+export function HGWBienesForm({ companyName, values, onChange, fieldErrors }: HGWBienesFormProps) {
   const initialized = useRef(false);
 
   const form = useForm<FormValues>({
     defaultValues: values,
     mode: "onChange",
   });
+  useQuoteFieldErrors(form, fieldErrors);
 
   const deliveryLocations = useFieldArray({ control: form.control, name: "deliveryLocations" as any });
   const lineItems = useFieldArray({ control: form.control, name: "lineItems" as any });
@@ -120,6 +121,13 @@ export function HGWBienesForm({ companyName, values, onChange }: HGWBienesFormPr
     form.setValue(`lineItems.${index}` as any, item, { shouldDirty: true });
   };
 
+  const selectCatalogItem = (index: number, entry: CatalogItemResponse) => {
+    const { purchaseCost, ...fields } = catalogItemFields(entry);
+    const current = form.getValues("lineItems") || [];
+    form.setValue(`lineItems.${index}` as any, { ...current[index], ...fields }, { shouldDirty: true });
+    if (purchaseCost !== undefined) updateLineItem(index, "purchaseCost", purchaseCost);
+  };
+
   const watchedDeliveryNotes = (form.watch("deliveryNotes" as any) ?? "") as string;
   const observations = watchedDeliveryNotes ? watchedDeliveryNotes.split("\n") : [""];
   const setObservations = (arr: string[]) => form.setValue("deliveryNotes" as any, arr.join("\n"), { shouldDirty: true });
@@ -225,9 +233,11 @@ export function HGWBienesForm({ companyName, values, onChange }: HGWBienesFormPr
                         />
                       </td>
                       <td className="px-2 py-2">
-                        <Input className={inputClass + " text-xs"} placeholder="Ej. Cinta de aluminio..."
-                          value={watchedLineItems?.[i]?.description ?? ""}
-                          onChange={e => updateLineItem(i, "description", e.target.value)} />
+                        <CatalogDescriptionInput kind="bienes" className={inputClass + " text-xs"} placeholder="Ej. Cinta de aluminio..."
+                          item={watchedLineItems?.[i]}
+                          onChange={value => updateLineItem(i, "description", value)}
+                          onSelect={entry => selectCatalogItem(i, entry)}
+                          onSaved={entry => updateLineItem(i, "catalogItemId", entry.id)} />
                       </td>
                       <td className="px-2 py-2">
                         <div className="space-y-1">
@@ -690,7 +700,7 @@ export function HGWBienesForm({ companyName, values, onChange }: HGWBienesFormPr
             <FormLabel>Objetos sociales</FormLabel>
             <p className="text-xs text-slate-500">Selecciona los que apliquen:</p>
             <div className="space-y-2 rounded border border-slate-200 dark:border-slate-700 p-3">
-              {SOCIAL_OBJECTS.map((obj) => (
+              {withSelectedOptions(SOCIAL_OBJECTS, selectedSocialObjects).map((obj) => (
                 <label key={obj} className="flex items-start gap-2 cursor-pointer text-sm text-slate-700 dark:text-slate-300">
                   <input type="checkbox" className="mt-0.5 accent-cyan-500"
                     checked={(selectedSocialObjects ?? []).includes(obj)}
@@ -1,13 +1,18 @@
 ﻿import { useEffect, useRef } from "react";
 import { useFieldArray, useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
 import { FormSection } from "./FormSection.tsx";
-import type { AMSFormData, LineItem } from "./form-types";
-import { defaultLineItem } from "./form-types";
+import type { AMSFormData, DeliveryConditionItem, LineItem } from "./form-types";
+import { catalogItemFields, defaultLineItem, withSelectedOptions } from "./form-types";
+import { useQuoteFieldErrors } from "./use-quote-field-errors";
+import { CatalogDescriptionInput } from "./CatalogDescriptionInput";
 import { Trash2, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import type { CatalogItemResponse, ClauseLibraryEntry } from "@shared/schema";
+import type { QuoteFieldErrors } from "@shared/quote-input";
 
 const SOCIAL_OBJECTS = [
   "Proporcionar el diseño, instalación, mantenimiento, soporte técnico, suministro, venta, compra e importación de equipo industrial, maquinaria industrial convencional, automática o de C.N.C. y de sus refacciones en el ramo de la industria metal mecánica, tratamientos térmicos, termoquímicos y superficiales",
@@ -24,21 +29,16 @@ const SOCIAL_OBJECTS = [
   "La compra y/o venta de accesorios y refacciones, la compra, venta, importación, exportación, comisión consignación, representación corretaje, agencia, franquicia, licencia, concesión, fabricación, maquila, diseño, exposición, elaboración, envasado, empacado, servicio, mantenimiento, reparación, financiamiento, arrendamiento, subarrendamiento, arrendamiento puro, distribución y comercio en general, de toda clase de artículos, vehículos nuevos y usados, bienes muebles e inmuebles y productos ya sean de uso industrial, comercial y doméstico, así como de maquinaria, equipo y herramientas necesarias para su fabricación, sus partes, materias primas, accesorios y refacciones y toda clase de actividades, artículos y/o productos relacionados con el objeto enunciado.",
 ];
 
-type FormValues = Partial<AMSFormData> & {
-  deliveryDates?: string[];
-  deliveryConditions?: { text: string; subItems: string[] }[];
-  deliveryNotes?: string;
+type FormValues = Omit<Partial<AMSFormData>, "deliveryConditions"> & {
+  deliveryConditions?: DeliveryConditionItem[];
   hasDeliveryConditions?: boolean;
-  hasRegionalMilitary?: boolean;
-  warrantyPercentageApplies?: boolean;
-  warrantyPercentage?: number;
-  selectedDeliveryClauses?: string[];
 };
 
 interface HGWServiciosFormProps {
   companyName?: string;
   values: FormValues;
   onChange: (values: FormValues) => void;
+  fieldErrors?: QuoteFieldErrors;
 }
 
 const unitMeasureAbbreviations: Record<string, string> = {
@@ -50,13 +50,14 @@ const normalizeUnitMeasure = (value: string) => {
   return unitMeasureAbbreviations[value.trim().toLowerCase()] || value;
 };
 
-export function HGWServiciosForm({ companyName, values, onChange }: HGWServiciosFormProps) {
+export function HGWServiciosForm({ companyName, values, onChange, fieldErrors }: HGWServiciosFormProps) {
   const initialized = useRef(false);
 
   const form = useForm<FormValues>({
     defaultValues: values,
     mode: "onChange",
   });
+  useQuoteFieldErrors(form, fieldErrors);
 
   const deliveryLocations = useFieldArray({ control: form.control, name: "deliveryLocations" as any });
   const lineItems = useFieldArray({ control: form.control, name: "lineItems" as any });
@@ -68,6 +69,11 @@ export function HGWServiciosForm({ companyName, values, onChange }: HGWServicios
   const watchedLineItems = form.watch("lineItems");
   const selectedClauses = (form.watch("selectedDeliveryClauses" as any) ?? []) as string[];
 
+  // Las cláusulas de lugar de entrega se administran en la biblioteca
+  const { data: deliveryClauses = [] } = useQuery<ClauseLibraryEntry[]>({
+    queryKey: ["/api/clause-library?companyOrigin=HGW&category=clausula_entrega"],
+  });
+
   useEffect(() => {
     if (!initialized.current) {
       window.scrollTo({ top: 0, behavior: "instant" as ScrollBehavior });
@@ -123,6 +129,13 @@ export function HGWServiciosForm({ companyName, values, onChange }: HGWServicios
     form.setValue(`lineItems.${index}` as any, item, { shouldDirty: true });
   };
 
+  const selectCatalogItem = (index: number, entry: CatalogItemResponse) => {
+    const { purchaseCost, ...fields } = catalogItemFields(entry);
+    const current = form.getValues("lineItems") || [];
+    form.setValue(`lineItems.${index}` as any, { ...current[index], ...fields }, { shouldDirty: true });
+    if (purchaseCost !== undefined) updateLineItem(index, "purchaseCost", purchaseCost);
+  };
+
   const watchedDeliveryNotes = (form.watch("deliveryNotes" as any) ?? "") as string;
   const observations = watchedDeliveryNotes ? watchedDeliveryNotes.split("\n") : [""];
   const setObservations = (arr: string[]) => form.setValue("deliveryNotes" as any, arr.join("\n"), { shouldDirty: true });
@@ -228,9 +241,11 @@ export function HGWServiciosForm({ companyName, values, onChange }: HGWServicios
                         />
                       </td>
                       <td className="px-2 py-2">
-                        <Input className={inputClass + " text-xs"} placeholder="Ej. Servicio de mantenimiento..."
-                          value={watchedLineItems?.[i]?.description ?? ""}
-                          onChange={e => updateLineItem(i, "description", e.target.value)} />
+                        <CatalogDescriptionInput kind="servicios" className={inputClass + " text-xs"} placeholder="Ej. Servicio de mantenimiento..."
+                          item={watchedLineItems?.[i]}
+                          onChange={value => updateLineItem(i, "description", value)}
+                          onSelect={entry => selectCatalogItem(i, entry)}
+                          onSaved={entry => updateLineItem(i, "catalogItemId", entry.id)} />
                       </td>
                       <td className="px-2 py-2">
                         <div className="space-y-1">
@@ -445,14 +460,10 @@ export function HGWServiciosForm({ companyName, values, onChange }: HGWServicios
           <div className="space-y-2">
             <FormLabel className="text-sm font-bold">Selecciona las condiciones aplicables:</FormLabel>
             <div className="grid gap-2 border p-4 rounded-lg bg-white dark:bg-slate-800">
-              {[
-                { id: "A", text: "Mantenimiento del sistema de procesamiento de datos: CFE División Sureste..." },
-                { id: "B", text: "Mantenimiento a un firewall Watch Guard..." },
-                { id: "C", text: "Mantenimiento de 41 sitios de medición del sistema de porteo..." }
-              ].map((clausula) => {
-              const selected = (form.watch("selectedDeliveryClauses" as any) ?? []).includes(clausula.id);
+              {deliveryClauses.map((clausula) => {
+              const selected = (form.watch("selectedDeliveryClauses" as any) ?? []).includes(clausula.code);
                 return (
-              <label key={clausula.id} className="flex items-start gap-2 text-sm cursor-pointer p-2 hover:bg-slate-100 rounded">
+              <label key={clausula.code} className="flex items-start gap-2 text-sm cursor-pointer p-2 hover:bg-slate-100 rounded">
                 <input 
                   type="checkbox" 
                   className="mt-1"
@@ -460,12 +471,12 @@ export function HGWServiciosForm({ companyName, values, onChange }: HGWServicios
                   onChange={(e) => {
                     const current = (form.getValues("selectedDeliveryClauses") ?? []) as string[];
                     const updated = e.target.checked 
-                      ? [...current, clausula.id] 
-                      : current.filter(id => id !== clausula.id);
+                      ? [...current, clausula.code] 
+                      : current.filter(id => id !== clausula.code);
                     form.setValue("selectedDeliveryClauses", updated, { shouldDirty: true });
                   }}
                 />
-                  <span><strong className="mr-1">{clausula.id}.</strong> {clausula.text}</span>
+                  <span><strong className="mr-1">{clausula.code}.</strong> {clausula.content}</span>
                 </label>
               );
             })}
@@ -717,7 +728,7 @@ export function HGWServiciosForm({ companyName, values, onChange }: HGWServicios
             <FormLabel>Objetos sociales</FormLabel>
             <p className="text-xs text-slate-500">Selecciona los que apliquen:</p>
             <div className="space-y-2 rounded border border-slate-200 dark:border-slate-700 p-3">
-              {SOCIAL_OBJECTS.map((obj) => (
+              {withSelectedOptions(SOCIAL_OBJECTS, selectedSocialObjects).map((obj) => (
                 <label key={obj} className="flex items-start gap-2 cursor-pointer text-sm text-slate-700 dark:text-slate-300">
                   <input type="checkbox" className="mt-0.5 accent-cyan-500"
                     checked={(selectedSocialObjects ?? []).includes(obj)}
@@ -1,3 +1,6 @@
+import type { CatalogItemResponse, ClientContact, ClientResponse, QuoteClauseRef } from "@shared/schema";
+import type { QuoteFormFields } from "@shared/quote-input";
+
 export type QuoteFormType = "bienes" | "servicios";
 
 export interface LineItem {
@@ -16,6 +19,8 @@ export interface LineItem {
   profitFactor: number;
   importe: number;
   previo: number;
+  // Artículo del catálogo del que salió la partida
+  catalogItemId?: number;
 }
 
 export const defaultLineItem: LineItem = {
@@ -35,65 +40,33 @@ export const defaultLineItem: LineItem = {
   previo: 0,
 };
 
-export interface AMSFormData {
+// Los campos que viajan al servidor salen del esquema compartido; aquí solo se agregan los de la captura
+export interface AMSFormData extends QuoteFormFields {
   quoteType: QuoteFormType;
 
-  // ─── Sección 1 "Atención" ───────────────────────────────
-  attnLugar: string;
-  attnDia: string;
-  attnMes: string;
-  attnAnio: string;
-  attnGrado: string;
-  
-  // 🚀 AQUÍ ESTÁN LOS 3 NOMBRES YA CORREGIDOS 🚀
-  contactPerson: string; 
-  destinationCompany: string; 
-  projectTitle: string; 
-  
-  attnArea: string;
-  attnUbicacion: string;
-  attnDireccion: string;
-  attnContacto: string;
-  attnCargo: string;
-
-  // ─── Sección 2 ──────────────────────────────────────────
-  validityDays: number;
-  paymentDays: number;
-  paymentTerms: string;
-  goodsOrigin: string;
-  deliveryTime: string;
-  manufacturingTime: string;
-  hasManufacturingTime: boolean;
-  deliverySingle: boolean;
+  // Dependencia y contacto del directorio con los que se llenó la atención
+  clientId?: number | null;
+  clientContactId?: number | null;
+  // Licitación a la que se presenta la cotización
+  licitacionId?: number | null;
+
+  // Lugar de entrega único; se envía como deliveryPlace
   deliveryLocation: string;
-  deliveryLocations: Array<{ noPartida: string; regionMilitar?: string; address: string; contact: string }>;
-  partidaDescriptionItems?: Array<{ partida: string; descripcion: string }>;
-  deliveryConditions: Array<string | { text: string; subItems: string[] }>;
-  selectedDeliveryClauses: string[];
-
-  // ─── Sección 3 "Garantía de calidad" ────────────────────
-  qualityGuarantees: string[];
-  requiredDocuments: string[];
-  normsTable: Array<{ description: string; norm: string }>;
-  serviceNormsTable: Array<{ description: string; quantity: string; unitMeasure: string; norm: string }>;
-  selectedSocialObjects: string[];
+
+  // ─── Biblioteca de cláusulas ────────────────────────────
+  clauseRefs?: QuoteClauseRef[];
 
   // ─── Tabla de partidas ───────────────────────────────────
   lineItems: LineItem[];
 
   // ─── Resto ──────────────────────────────────────────────
   technicalScope: string;
-  providerNationality: string;
-  complianceWarranty: number;
-  similarContracts: number;
   qualityStandards: string;
   warrantyCoverage: string;
   serviceScope: string;
   serviceOrigin: string;
   serviceSchedule: string;
   serviceInspection: string;
-  experienceYears: number;
-  specialtyYears: number;
 }
 
 export const defaultAMSFormData: AMSFormData = {
@@ -125,8 +98,14 @@ export const defaultAMSFormData: AMSFormData = {
   deliverySingle: true,
   deliveryLocation: "",
   deliveryLocations: [],
+  partidaDescriptionItems: [],
+  deliveryDates: [],
   deliveryConditions: [{ text: "", subItems: [] }],
   selectedDeliveryClauses: [],
+  deliveryNotes: "",
+  hasRegionalMilitary: false,
+  warrantyPercentageApplies: false,
+  warrantyPercentage: 0,
 
   qualityGuarantees: [""],
   requiredDocuments: [""],
@@ -148,4 +127,49 @@ export const defaultAMSFormData: AMSFormData = {
   serviceInspection: "",
   experienceYears: 5,
   specialtyYears: 5,
-};
\ No newline at end of file
+};
+
+export type DeliveryConditionItem = { text: string; subItems: string[] };
+
+// Las condiciones de entrega guardadas como texto simple se convierten a { text, subItems }
+export function deliveryConditionItems(conditions: AMSFormData["deliveryConditions"] | undefined): DeliveryConditionItem[] {
+  return (conditions ?? []).map(condition => typeof condition === "string" ? { text: condition, subItems: [] } : condition);
+}
+
+// Opciones fijas del formulario más las que se agregaron desde la biblioteca
+export function withSelectedOptions(options: string[], selected: string[] | undefined): string[] {
+  return [...options, ...(selected ?? []).filter(option => option.trim() && !options.includes(option))];
+}
+
+// Campos de la partida que se llenan al elegir un artículo del catálogo; el costo es el del proveedor preferido
+export function catalogItemFields(entry: CatalogItemResponse): Partial<LineItem> {
+  const supplier = entry.suppliers[0];
+  return {
+    catalogItemId: entry.id,
+    description: entry.description,
+    techRequirements: entry.techRequirements,
+    unitMeasure: entry.unitMeasure,
+    ...(supplier ? { supplier: supplier.name, purchaseCost: supplier.lastCost } : {}),
+  };
+}
+
+// Campos de "Atención" que se llenan al elegir dependencia y contacto; los vacíos del directorio no borran lo capturado
+export function clientContactFields(client: ClientResponse, contact: ClientContact | null): Partial<AMSFormData> {
+  const filled = (value: string) => value.trim() ? value : undefined;
+  const fields: Partial<AMSFormData> = {
+    clientId: client.id,
+    clientContactId: contact?.id ?? null,
+    destinationCompany: client.name,
+    attnLugar: filled(client.lugar),
+    attnUbicacion: filled(client.ubicacion),
+    attnDireccion: filled(client.direccion),
+    ...(contact ? {
+      contactPerson: contact.fullName,
+      attnGrado: filled(contact.grado),
+      attnCargo: filled(contact.cargo),
+      attnArea: filled(contact.area),
+      attnContacto: filled(contact.contacto),
+    } : {}),
+  };
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<AMSFormData>;
+}
@@ -0,0 +1,13 @@
+import { useEffect } from "react";
+import type { FieldValues, Path, UseFormReturn } from "react-hook-form";
+import type { QuoteFieldErrors } from "@shared/quote-input";
+
+// Marca junto a cada campo los errores que devolvió el servidor; el error se quita al editar el campo
+export function useQuoteFieldErrors<T extends FieldValues>(form: UseFormReturn<T>, fieldErrors: QuoteFieldErrors | undefined) {
+  useEffect(() => {
+    form.clearErrors();
+    for (const [path, message] of Object.entries(fieldErrors ?? {})) {
+      form.setError(path as Path<T>, { type: "server", message });
+    }
+  }, [form, fieldErrors]);
+}
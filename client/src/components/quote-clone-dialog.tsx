@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { CompanyResponse } from "@shared/schema";
+
+interface QuoteCloneDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quote: any | null;
+  companies: CompanyResponse[];
+  onCloned: (quote: any) => void;
+}
+
+export function QuoteCloneDialog({ open, onOpenChange, quote, companies, onCloned }: QuoteCloneDialogProps) {
+  const { toast } = useToast();
+  const [companyOrigin, setCompanyOrigin] = useState("");
+  const [proposalType, setProposalType] = useState("bienes");
+
+  // Por defecto el duplicado conserva la empresa y el tipo de la cotización original
+  useEffect(() => {
+    if (open && quote) {
+      setCompanyOrigin((quote.companyOrigin || "").toUpperCase());
+      setProposalType(quote.proposalType || "bienes");
+    }
+  }, [open, quote]);
+
+  const cloneMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/quotes/${quote?.id}/clone`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ companyOrigin, proposalType }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "Error al duplicar la cotización." }));
+        throw new Error(err.error || "Error al duplicar la cotización.");
+      }
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      toast({
+        title: "Cotización duplicada",
+        description: `Se creó el borrador ${data.quote.internalFolio} a partir de ${quote?.internalFolio || quote?.folio}.`,
+      });
+      onOpenChange(false);
+      onCloned(data.quote);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px] bg-card text-foreground">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 border-b border-border pb-4 text-xl">
+            <Copy className="h-5 w-5 text-blue-600" />
+            Duplicar {quote ? quote.internalFolio || quote.folio : ""}
+          </DialogTitle>
+          <DialogDescription>
+            Se copian las partidas y todas las secciones de la propuesta en un borrador nuevo con folio y fecha de hoy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Empresa emisora</Label>
+            <Select value={companyOrigin} onValueChange={setCompanyOrigin}>
+              <SelectTrigger><SelectValue placeholder="Empresa" /></SelectTrigger>
+              <SelectContent>
+                {companies.map(company => (
+                  <SelectItem key={company.code} value={company.code}>{company.friendlyName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Tipo de propuesta</Label>
+            <Select value={proposalType} onValueChange={setProposalType}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="bienes">Bienes</SelectItem>
+                <SelectItem value="servicios">Servicios</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => cloneMutation.mutate()}
+            disabled={!quote || !companyOrigin || cloneMutation.isPending}
+            className="bg-blue-600 text-white hover:bg-blue-700"
+          >
+            <Copy className="h-4 w-4 mr-1" /> {cloneMutation.isPending ? "Duplicando..." : "Duplicar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
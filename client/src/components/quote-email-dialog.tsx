@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Mail, Paperclip, X } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { QuoteEmail } from "@shared/schema";
+
+interface QuoteEmailDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quote: any | null;
+}
+
+interface EmailDraft {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+const formatSentAt = (value: string | Date) =>
+  new Date(value).toLocaleString("es-MX", { dateStyle: "short", timeStyle: "short" });
+
+export function QuoteEmailDialog({ open, onOpenChange, quote }: QuoteEmailDialogProps) {
+  const { toast } = useToast();
+  const [to, setTo] = useState("");
+  const [cc, setCc] = useState("");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [annexes, setAnnexes] = useState<File[]>([]);
+
+  const { data: status } = useQuery<{ configured: boolean; from: string | null }>({
+    queryKey: ["/api/email/status"],
+    enabled: open,
+  });
+
+  const { data: draft } = useQuery<EmailDraft>({
+    queryKey: [`/api/quotes/${quote?.id}/email-draft`],
+    enabled: open && !!quote,
+  });
+
+  const { data: log = [] } = useQuery<QuoteEmail[]>({
+    queryKey: [`/api/quotes/${quote?.id}/emails`],
+    enabled: open && !!quote,
+  });
+
+  // Cada apertura parte de la plantilla de la empresa
+  useEffect(() => {
+    if (open && draft) {
+      setTo(draft.to);
+      setCc("");
+      setSubject(draft.subject);
+      setBody(draft.body);
+      setAnnexes([]);
+    }
+  }, [open, draft]);
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("to", to);
+      formData.append("cc", cc);
+      formData.append("subject", subject);
+      formData.append("body", body);
+      annexes.forEach(file => formData.append("annexes", file));
+
+      const res = await fetch(`/api/quotes/${quote?.id}/email`, {
+        method: "POST",
+        credentials: "include",
+        body: formData,
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "Error al enviar el correo." }));
+        throw new Error(err.error || "Error al enviar el correo.");
+      }
+      return res.json() as Promise<QuoteEmail>;
+    },
+    onSuccess: (sent) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/quotes/${quote?.id}/emails`] });
+      toast({ title: "Cotización enviada", description: `Se envió a ${sent.recipients}.` });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      // El intento fallido también queda en la bitácora
+      queryClient.invalidateQueries({ queryKey: [`/api/quotes/${quote?.id}/emails`] });
+      toast({ title: "Error al enviar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto bg-card text-foreground">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 border-b border-border pb-4 text-xl">
+            <Mail className="h-5 w-5 text-blue-600" />
+            Enviar {quote ? quote.internalFolio || quote.folio : ""} por correo
+          </DialogTitle>
+          <DialogDescription>
+            Se adjunta el PDF final de la cotización. Las respuestas llegan a tu correo.
+          </DialogDescription>
+        </DialogHeader>
+
+        {status && !status.configured ? (
+          <p className="rounded-md border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800">
+            El envío de correo no está configurado en el servidor. Pide al administrador que defina SMTP_HOST y SMTP_FROM.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="email-to">Para</Label>
+              <Input id="email-to" value={to} onChange={(e) => setTo(e.target.value)} placeholder="contacto@cliente.com, otro@cliente.com" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="email-cc">CC</Label>
+              <Input id="email-cc" value={cc} onChange={(e) => setCc(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="email-subject">Asunto</Label>
+              <Input id="email-subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="email-body">Mensaje</Label>
+              <Textarea id="email-body" rows={9} value={body} onChange={(e) => setBody(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="flex items-center gap-1"><Paperclip className="h-3 w-3" /> Anexos</Label>
+              <Input
+                type="file"
+                multiple
+                onChange={(e) => {
+                  const selected = Array.from(e.target.files ?? []);
+                  setAnnexes(prev => [...prev, ...selected]);
+                  e.target.value = "";
+                }}
+              />
+              {annexes.length > 0 && (
+                <div className="flex flex-wrap gap-1 pt-1">
+                  {annexes.map((file, index) => (
+                    <Badge key={`${file.name}-${index}`} variant="secondary" className="gap-1">
+                      {file.name}
+                      <button type="button" onClick={() => setAnnexes(prev => prev.filter((_, i) => i !== index))}>
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {log.length > 0 && (
+          <div className="border-t border-border pt-3">
+            <p className="text-xs font-semibold mb-1">Envíos anteriores</p>
+            <table className="w-full text-xs">
+              <thead className="text-left text-muted-foreground">
+                <tr>
+                  <th className="py-1">Fecha</th>
+                  <th className="py-1">Destinatarios</th>
+                  <th className="py-1">Envió</th>
+                  <th className="py-1">Estado</th>
+                </tr>
+              </thead>
+              <tbody>
+                {log.map(entry => (
+                  <tr key={entry.id} className="border-t border-slate-200 dark:border-slate-700 align-top">
+                    <td className="py-1 whitespace-nowrap">{formatSentAt(entry.sentAt)}</td>
+                    <td className="py-1">
+                      {entry.recipients}
+                      {entry.cc && <span className="text-muted-foreground"> · CC {entry.cc}</span>}
+                    </td>
+                    <td className="py-1">{entry.correo || "—"}</td>
+                    <td className="py-1" title={entry.error || entry.messageId || undefined}>
+                      <Badge variant="secondary" className={entry.status === "enviado" ? "bg-emerald-100 text-emerald-700" : "bg-red-100 text-red-700"}>
+                        {entry.status === "enviado" ? "Enviado" : "Fallido"}
+                      </Badge>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => sendMutation.mutate()}
+            disabled={sendMutation.isPending || !status?.configured || !to.trim()}
+            className="bg-blue-600 text-white hover:bg-blue-700"
+          >
+            {sendMutation.isPending ? "Enviando..." : "Enviar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
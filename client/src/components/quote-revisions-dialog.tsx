@@ -0,0 +1,304 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { History, RotateCcw, GitCompare } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface QuoteRevisionSummary {
+  id: number;
+  revisionNumber: number;
+  note: string;
+  correo: string | null;
+  createdAt: string;
+  itemCount: number;
+  total: number;
+}
+
+interface FieldChange {
+  field: string;
+  label: string;
+  before: any;
+  after: any;
+}
+
+interface ItemChange {
+  key: string;
+  change: "added" | "removed" | "changed";
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  fields: FieldChange[];
+}
+
+interface RevisionDiff {
+  from: number;
+  to: number;
+  fields: FieldChange[];
+  items: ItemChange[];
+}
+
+interface QuoteRevisionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quote: { id: number; internalFolio?: string; folio?: string } | null;
+  /** Si la cotización está en un estado editable se permite restaurar */
+  canRestore: boolean;
+}
+
+const itemChangeLabels: Record<ItemChange["change"], string> = {
+  added: "Agregada",
+  removed: "Eliminada",
+  changed: "Modificada",
+};
+
+const itemChangeClasses: Record<ItemChange["change"], string> = {
+  added: "bg-emerald-100 text-emerald-700",
+  removed: "bg-red-100 text-red-700",
+  changed: "bg-amber-100 text-amber-700",
+};
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Sí" : "No";
+  if (typeof value === "string" && value.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) {
+        return parsed.map(entry => typeof entry === "string" ? entry : JSON.stringify(entry)).join("\n") || "—";
+      }
+    } catch {
+      // No es JSON, se muestra tal cual
+    }
+  }
+  return String(value);
+};
+
+export function QuoteRevisionsDialog({ open, onOpenChange, quote, canRestore }: QuoteRevisionsDialogProps) {
+  const { toast } = useToast();
+  const [fromRevision, setFromRevision] = useState<number | null>(null);
+  const [toRevision, setToRevision] = useState<number | null>(null);
+
+  const { data: revisions = [], isLoading } = useQuery<QuoteRevisionSummary[]>({
+    queryKey: ["/api/quotes", quote?.id, "revisions"],
+    enabled: open && !!quote,
+  });
+
+  // Por defecto se comparan las dos revisiones más recientes
+  useEffect(() => {
+    if (!open) {
+      setFromRevision(null);
+      setToRevision(null);
+      return;
+    }
+    if (revisions.length >= 2 && fromRevision === null && toRevision === null) {
+      setFromRevision(revisions[1].revisionNumber);
+      setToRevision(revisions[0].revisionNumber);
+    }
+  }, [open, revisions, fromRevision, toRevision]);
+
+  const canCompare = fromRevision !== null && toRevision !== null && fromRevision !== toRevision;
+
+  const { data: diff, isLoading: loadingDiff } = useQuery<RevisionDiff>({
+    queryKey: [`/api/quotes/${quote?.id}/revisions/diff?from=${fromRevision}&to=${toRevision}`],
+    enabled: open && !!quote && canCompare,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionNumber: number) => {
+      const res = await fetch(`/api/quotes/${quote?.id}/revisions/${revisionNumber}/restore`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "Error al restaurar la revisión." }));
+        throw new Error(err.error || "Error al restaurar la revisión.");
+      }
+      return res.json();
+    },
+    onSuccess: (data, revisionNumber) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      setFromRevision(null);
+      setToRevision(null);
+      toast({
+        title: "Revisión restaurada",
+        description: `Se restauró la revisión ${revisionNumber} como revisión ${data.revisionNumber}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const selectForCompare = (revisionNumber: number) => {
+    if (fromRevision === null || (fromRevision !== null && toRevision !== null)) {
+      setFromRevision(revisionNumber);
+      setToRevision(null);
+      return;
+    }
+    if (revisionNumber < fromRevision) {
+      setToRevision(fromRevision);
+      setFromRevision(revisionNumber);
+    } else {
+      setToRevision(revisionNumber);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl w-[95vw] max-h-[90vh] overflow-y-auto bg-card text-foreground">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 border-b border-border pb-4 text-lg">
+            <History className="h-5 w-5 text-blue-600" />
+            Revisiones {quote ? `- ${quote.internalFolio || quote.folio}` : ""}
+          </DialogTitle>
+          <DialogDescription>
+            Selecciona dos revisiones para compararlas lado a lado.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-6 text-sm text-slate-500">Cargando...</div>
+        ) : revisions.length === 0 ? (
+          <div className="text-center py-6 text-sm text-slate-400">Esta cotización aún no tiene revisiones.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs font-bold uppercase">Rev.</TableHead>
+                <TableHead className="text-xs font-bold uppercase">Fecha</TableHead>
+                <TableHead className="text-xs font-bold uppercase">Usuario</TableHead>
+                <TableHead className="text-xs font-bold uppercase">Nota</TableHead>
+                <TableHead className="text-xs font-bold uppercase text-right">Partidas</TableHead>
+                <TableHead className="text-xs font-bold uppercase text-right">Monto</TableHead>
+                <TableHead className="text-xs font-bold uppercase text-center">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {revisions.map(revision => {
+                const selected = revision.revisionNumber === fromRevision || revision.revisionNumber === toRevision;
+                return (
+                  <TableRow key={revision.id} className={selected ? "bg-blue-50 dark:bg-blue-900/20" : ""}>
+                    <TableCell className="text-xs font-bold">{revision.revisionNumber}</TableCell>
+                    <TableCell className="text-xs">{new Date(revision.createdAt).toLocaleString("es-MX")}</TableCell>
+                    <TableCell className="text-xs">{revision.correo || "N/A"}</TableCell>
+                    <TableCell className="text-xs">{revision.note || "—"}</TableCell>
+                    <TableCell className="text-xs text-right">{revision.itemCount}</TableCell>
+                    <TableCell className="text-xs text-right">${Number(revision.total || 0).toLocaleString()}</TableCell>
+                    <TableCell className="text-center">
+                      <div className="flex justify-center gap-2">
+                        <Button variant="outline" size="sm" onClick={() => selectForCompare(revision.revisionNumber)}>
+                          <GitCompare className="h-3 w-3 mr-1" /> Comparar
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={!canRestore || restoreMutation.isPending || revision.revisionNumber === revisions[0].revisionNumber}
+                          onClick={() => {
+                            if (confirm(`¿Restaurar la revisión ${revision.revisionNumber} como la versión actual?`)) {
+                              restoreMutation.mutate(revision.revisionNumber);
+                            }
+                          }}
+                        >
+                          <RotateCcw className="h-3 w-3 mr-1" /> Restaurar
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {canCompare && (
+          <div className="mt-6 space-y-6">
+            <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+              Cambios de la revisión {fromRevision} a la revisión {toRevision}
+            </h4>
+
+            {loadingDiff || !diff ? (
+              <div className="text-center py-6 text-sm text-slate-500">Comparando...</div>
+            ) : diff.fields.length === 0 && diff.items.length === 0 ? (
+              <div className="text-center py-6 text-sm text-slate-400">No hay diferencias entre estas revisiones.</div>
+            ) : (
+              <>
+                {diff.fields.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-xs font-bold uppercase w-1/5">Campo</TableHead>
+                        <TableHead className="text-xs font-bold uppercase">Revisión {diff.from}</TableHead>
+                        <TableHead className="text-xs font-bold uppercase">Revisión {diff.to}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {diff.fields.map(change => (
+                        <TableRow key={change.field}>
+                          <TableCell className="text-xs font-semibold">{change.label}</TableCell>
+                          <TableCell className="text-xs whitespace-pre-wrap bg-red-50/60 dark:bg-red-900/10">{formatValue(change.before)}</TableCell>
+                          <TableCell className="text-xs whitespace-pre-wrap bg-emerald-50/60 dark:bg-emerald-900/10">{formatValue(change.after)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                {diff.items.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-xs font-bold uppercase w-1/5">Partida</TableHead>
+                        <TableHead className="text-xs font-bold uppercase">Revisión {diff.from}</TableHead>
+                        <TableHead className="text-xs font-bold uppercase">Revisión {diff.to}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {diff.items.map(item => (
+                        <TableRow key={`${item.key}-${item.change}`}>
+                          <TableCell className="text-xs font-semibold align-top">
+                            <div>{item.key}</div>
+                            <Badge className={`${itemChangeClasses[item.change]} border-none text-[10px] font-bold mt-1`}>
+                              {itemChangeLabels[item.change]}
+                            </Badge>
+                          </TableCell>
+                          {item.change === "changed" ? (
+                            <>
+                              <TableCell className="text-xs align-top bg-red-50/60 dark:bg-red-900/10">
+                                {item.fields.map(f => <div key={f.field}><span className="font-semibold">{f.label}:</span> {formatValue(f.before)}</div>)}
+                              </TableCell>
+                              <TableCell className="text-xs align-top bg-emerald-50/60 dark:bg-emerald-900/10">
+                                {item.fields.map(f => <div key={f.field}><span className="font-semibold">{f.label}:</span> {formatValue(f.after)}</div>)}
+                              </TableCell>
+                            </>
+                          ) : (
+                            <>
+                              <TableCell className="text-xs align-top bg-red-50/60 dark:bg-red-900/10">
+                                {item.before ? `${item.before.description} (${item.before.quantity} × $${Number(item.before.unitPrice || 0).toLocaleString()})` : "—"}
+                              </TableCell>
+                              <TableCell className="text-xs align-top bg-emerald-50/60 dark:bg-emerald-900/10">
+                                {item.after ? `${item.after.description} (${item.after.quantity} × $${Number(item.after.unitPrice || 0).toLocaleString()})` : "—"}
+                              </TableCell>
+                            </>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import type { PdfJobSummary } from "@shared/schema";
+
+export type PdfJobView = PdfJobSummary & { downloadUrl: string | null };
+
+const POLL_INTERVAL_MS = 1500;
+
+async function requestJob(method: "GET" | "POST", url: string): Promise<PdfJobView> {
+  const res = await fetch(url, { method, credentials: "include" });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: "Error de red al consultar el PDF." }));
+    throw new Error(err.error || "Error al consultar el PDF.");
+  }
+  return res.json();
+}
+
+const isActive = (job: PdfJobView) => job.status === "pendiente" || job.status === "procesando";
+
+/**
+ * Solicita PDFs al worker del servidor y consulta su avance hasta que terminan.
+ * Los trabajos se indexan por cotización para mostrar el estado en cada fila.
+ */
+export function usePdfJobs() {
+  const { toast } = useToast();
+  const [jobs, setJobs] = useState<Record<number, PdfJobView>>({});
+
+  const track = useCallback((job: PdfJobView) => {
+    setJobs(prev => ({ ...prev, [job.quoteId]: job }));
+  }, []);
+
+  const startJob = useCallback(async (quoteId: number) => {
+    try {
+      track(await requestJob("POST", `/api/quotes/${quoteId}/pdf/jobs`));
+    } catch (e: any) {
+      toast({ title: "Error", description: e.message, variant: "destructive" });
+    }
+  }, [toast, track]);
+
+  const retryJob = useCallback(async (job: PdfJobView) => {
+    try {
+      track(await requestJob("POST", `/api/pdf-jobs/${job.id}/retry`));
+    } catch (e: any) {
+      toast({ title: "Error", description: e.message, variant: "destructive" });
+    }
+  }, [toast, track]);
+
+  const activeIds = Object.values(jobs).filter(isActive).map(job => job.id).join(",");
+
+  useEffect(() => {
+    if (!activeIds) return;
+    const timer = setInterval(async () => {
+      for (const id of activeIds.split(",")) {
+        try {
+          const job = await requestJob("GET", `/api/pdf-jobs/${id}`);
+          track(job);
+          if (job.status === "completado" && job.downloadUrl) {
+            toast({ title: "PDF listo", description: job.fileName || "La descarga comenzará en un momento." });
+            window.location.assign(job.downloadUrl);
+          } else if (job.status === "fallido") {
+            toast({ title: "No se pudo generar el PDF", description: job.error || "Error desconocido", variant: "destructive" });
+          }
+        } catch {
+          // Se vuelve a consultar en el siguiente intervalo
+        }
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [activeIds, toast, track]);
+
+  return { jobs, startJob, retryJob };
+}
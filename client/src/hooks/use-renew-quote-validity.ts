@@ -0,0 +1,47 @@
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { QUOTE_STATUS_LABELS, type QuoteExpiry, type QuoteStatus, type QuoteStatusChange } from "@shared/schema";
+
+interface RenewQuoteValidityResult {
+  quote: { internalFolio: string; quoteDate: string; validityDays: number };
+  // Presente si la cotización estaba aprobada o enviada y regresó a revisión
+  change: QuoteStatusChange | null;
+  expiry: QuoteExpiry | null;
+  revisionNumber?: number;
+}
+
+/**
+ * Renueva la vigencia de una cotización con la fecha de hoy. El servidor guarda una revisión
+ * con la fecha anterior para poder restaurarla.
+ */
+export function useRenewQuoteValidity() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (quoteId: number): Promise<RenewQuoteValidityResult> => {
+      const res = await fetch(`/api/quotes/${quoteId}/renew-validity`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({}),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "Error al renovar la vigencia." }));
+        throw new Error(err.error || "Error al renovar la vigencia.");
+      }
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/quotes") });
+      toast({
+        title: "Vigencia renovada",
+        description: `${data.quote.internalFolio}: vigente hasta el ${data.expiry?.expiresAt ?? "—"} (revisión ${data.revisionNumber ?? "—"}).`
+          + (data.change ? ` La cotización pasó a "${QUOTE_STATUS_LABELS[data.change.toStatus as QuoteStatus]}".` : ""),
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
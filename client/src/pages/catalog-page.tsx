@@ -0,0 +1,344 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Package, Plus, Pencil, Trash2 } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CATALOG_ITEM_KINDS,
+  CATALOG_ITEM_KIND_LABELS,
+  type CatalogItemKind,
+  type CatalogItemResponse,
+  type CatalogSupplier,
+} from "@shared/schema";
+
+interface CatalogForm {
+  kind: CatalogItemKind;
+  code: string;
+  description: string;
+  techRequirements: string;
+  unitMeasure: string;
+  suppliers: CatalogSupplier[];
+  isActive: boolean;
+}
+
+const emptyForm: CatalogForm = {
+  kind: "bienes",
+  code: "",
+  description: "",
+  techRequirements: "",
+  unitMeasure: "PZA",
+  suppliers: [],
+  isActive: true,
+};
+
+const emptySupplier: CatalogSupplier = { name: "", lastCost: 0, lastCostDate: "", preferred: false };
+
+const money = (value: number) => value.toLocaleString("es-MX", { style: "currency", currency: "MXN" });
+
+async function sendRequest(method: string, url: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    credentials: "include",
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: "Error de red al procesar la solicitud." }));
+    throw new Error(err.error || "Error al procesar la solicitud.");
+  }
+  return res.status === 204 ? null : res.json();
+}
+
+const invalidateCatalog = () =>
+  queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/catalog") });
+
+export default function CatalogPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<CatalogItemResponse | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<CatalogForm>(emptyForm);
+  const [kindFilter, setKindFilter] = useState<CatalogItemKind | "todos">("todos");
+  const [search, setSearch] = useState("");
+
+  const { data: items = [], isLoading } = useQuery<CatalogItemResponse[]>({
+    queryKey: ["/api/catalog?includeInactive=true"],
+  });
+
+  const onError = (error: any) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const payload = { ...form, suppliers: form.suppliers.filter(s => s.name.trim()) };
+      return editing
+        ? sendRequest("PATCH", `/api/catalog/${editing.id}`, payload)
+        : sendRequest("POST", "/api/catalog", payload);
+    },
+    onSuccess: () => {
+      invalidateCatalog();
+      toast({ title: editing ? "Artículo actualizado" : "Artículo registrado", description: form.description });
+      setIsDialogOpen(false);
+    },
+    onError,
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: (item: CatalogItemResponse) => sendRequest("DELETE", `/api/catalog/${item.id}`),
+    onSuccess: (_data, item) => {
+      invalidateCatalog();
+      toast({ title: "Artículo desactivado", description: item.description });
+    },
+    onError,
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm({ ...emptyForm, kind: kindFilter === "todos" ? emptyForm.kind : kindFilter, suppliers: [] });
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (item: CatalogItemResponse) => {
+    setEditing(item);
+    setForm({
+      kind: item.kind as CatalogItemKind,
+      code: item.code,
+      description: item.description,
+      techRequirements: item.techRequirements,
+      unitMeasure: item.unitMeasure,
+      suppliers: item.suppliers,
+      isActive: item.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const setField = <K extends keyof CatalogForm>(field: K, value: CatalogForm[K]) =>
+    setForm(prev => ({ ...prev, [field]: value }));
+
+  const updateSupplier = (index: number, data: Partial<CatalogSupplier>) =>
+    setForm(prev => ({ ...prev, suppliers: prev.suppliers.map((s, i) => (i === index ? { ...s, ...data } : s)) }));
+
+  const term = search.trim().toLowerCase();
+  const visible = items.filter(item => (kindFilter === "todos" || item.kind === kindFilter)
+    && (!term || `${item.code} ${item.description} ${item.techRequirements}`.toLowerCase().includes(term)));
+
+  if (!user) {
+    return (
+      <div className="p-6 space-y-4">
+        <Skeleton className="h-6 w-64" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Package className="h-6 w-6 text-blue-600" />
+            Catálogo de Productos y Servicios
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Descripciones estándar que se sugieren al capturar partidas, con sus proveedores y último costo de compra.
+          </p>
+        </div>
+        <Button onClick={openCreate} className="bg-blue-600 text-white hover:bg-blue-700">
+          <Plus className="h-4 w-4 mr-1" /> Nuevo artículo
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle>Artículos</CardTitle>
+            <CardDescription>
+              También se agregan o actualizan desde una partida con el botón de guardar en catálogo.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Input className="w-64" placeholder="Buscar" value={search} onChange={(e) => setSearch(e.target.value)} />
+            <Select value={kindFilter} onValueChange={(value) => setKindFilter(value as CatalogItemKind | "todos")}>
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="todos">Todos</SelectItem>
+                {CATALOG_ITEM_KINDS.map(kind => (
+                  <SelectItem key={kind} value={kind}>{CATALOG_ITEM_KIND_LABELS[kind]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4"><Skeleton className="h-10 w-full" /><Skeleton className="h-10 w-full" /></div>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No hay artículos registrados.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Descripción</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>U.M.</TableHead>
+                  <TableHead>Proveedor preferido</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map(item => (
+                  <TableRow key={item.id}>
+                    <TableCell className="max-w-md">
+                      <div className="text-sm font-medium">
+                        {item.code && <span className="mr-2 font-mono text-xs text-blue-600">{item.code}</span>}
+                        {item.description}
+                      </div>
+                      {item.techRequirements && (
+                        <div className="text-xs text-muted-foreground line-clamp-2" title={item.techRequirements}>{item.techRequirements}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs">{CATALOG_ITEM_KIND_LABELS[item.kind as CatalogItemKind] || item.kind}</TableCell>
+                    <TableCell className="text-xs">{item.unitMeasure}</TableCell>
+                    <TableCell className="text-xs">
+                      {item.suppliers[0] ? (
+                        <>
+                          <div>{item.suppliers[0].name}</div>
+                          <div className="text-muted-foreground">
+                            {money(item.suppliers[0].lastCost)}{item.suppliers[0].lastCostDate && ` · ${item.suppliers[0].lastCostDate}`}
+                          </div>
+                          {item.suppliers.length > 1 && <div className="text-muted-foreground">+{item.suppliers.length - 1} más</div>}
+                        </>
+                      ) : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className={item.isActive ? "bg-emerald-100 text-emerald-700" : "bg-slate-100 text-slate-600"}>
+                        {item.isActive ? "Activo" : "Inactivo"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="outline" onClick={() => openEdit(item)}>
+                          <Pencil className="h-3 w-3 mr-1" /> Editar
+                        </Button>
+                        {user.isAdmin && item.isActive && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-red-600"
+                            disabled={deactivateMutation.isPending}
+                            onClick={() => {
+                              if (confirm(`¿Desactivar ${item.description}? Dejará de sugerirse en las partidas.`)) {
+                                deactivateMutation.mutate(item);
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Editar artículo" : "Nuevo artículo"}</DialogTitle>
+            <DialogDescription>El proveedor preferido y su último costo se usan al elegir el artículo en una partida.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={form.kind} onValueChange={(value) => setField("kind", value as CatalogItemKind)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {CATALOG_ITEM_KINDS.map(kind => (
+                    <SelectItem key={kind} value={kind}>{CATALOG_ITEM_KIND_LABELS[kind]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="catalog-code">Clave</Label>
+              <Input id="catalog-code" value={form.code} onChange={(e) => setField("code", e.target.value.toUpperCase())} placeholder="Opcional" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="catalog-unit">Unidad de medida</Label>
+              <Input id="catalog-unit" value={form.unitMeasure} onChange={(e) => setField("unitMeasure", e.target.value.toUpperCase())} />
+            </div>
+            <div className="space-y-2 md:col-span-3">
+              <Label htmlFor="catalog-description">Descripción</Label>
+              <Input id="catalog-description" value={form.description} onChange={(e) => setField("description", e.target.value)} />
+            </div>
+            <div className="space-y-2 md:col-span-3">
+              <Label htmlFor="catalog-tech">Especificaciones técnicas</Label>
+              <Textarea id="catalog-tech" rows={3} value={form.techRequirements} onChange={(e) => setField("techRequirements", e.target.value)} />
+            </div>
+
+            <div className="space-y-2 md:col-span-3">
+              <div className="flex items-center justify-between">
+                <Label>Proveedores</Label>
+                <Button type="button" size="sm" variant="outline" onClick={() => setField("suppliers", [...form.suppliers, { ...emptySupplier, preferred: form.suppliers.length === 0 }])}>
+                  <Plus className="h-3 w-3 mr-1" /> Agregar
+                </Button>
+              </div>
+              {form.suppliers.length === 0 && <p className="text-xs text-muted-foreground">Sin proveedores registrados.</p>}
+              {form.suppliers.map((supplier, index) => (
+                <div key={index} className="grid grid-cols-[1fr_110px_130px_auto_auto] items-center gap-2">
+                  <Input placeholder="Proveedor" value={supplier.name} onChange={(e) => updateSupplier(index, { name: e.target.value })} />
+                  <Input type="number" placeholder="Costo" value={supplier.lastCost || ""} onChange={(e) => updateSupplier(index, { lastCost: Number(e.target.value) })} />
+                  <Input type="date" value={supplier.lastCostDate} onChange={(e) => updateSupplier(index, { lastCostDate: e.target.value })} />
+                  <label className="flex items-center gap-1 text-xs">
+                    <Checkbox checked={supplier.preferred} onCheckedChange={(checked) => updateSupplier(index, { preferred: checked === true })} />
+                    Preferido
+                  </label>
+                  <button type="button" className="text-red-500 hover:text-red-700"
+                    onClick={() => setField("suppliers", form.suppliers.filter((_, i) => i !== index))}>
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Switch checked={form.isActive} onCheckedChange={(checked) => setField("isActive", checked)} />
+              <Label>Activo</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancelar</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !form.description.trim()}
+              className="bg-blue-600 text-white hover:bg-blue-700"
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
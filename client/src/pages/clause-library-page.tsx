@@ -0,0 +1,337 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BookOpen, Plus, Pencil, Trash2, Shield } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CLAUSE_CATEGORIES,
+  CLAUSE_CATEGORY_LABELS,
+  type ClauseCategory,
+  type ClauseLibraryEntry,
+  type CompanyResponse,
+} from "@shared/schema";
+
+interface ClauseForm {
+  code: string;
+  category: ClauseCategory;
+  companyOrigin: string;
+  title: string;
+  content: string;
+  norm: string;
+  sortOrder: string;
+  isActive: boolean;
+}
+
+// Radix Select no admite valores vacíos; las entradas generales se guardan con empresa ""
+const ALL_COMPANIES = "todas";
+
+const emptyForm: ClauseForm = {
+  code: "",
+  category: "garantia_calidad",
+  companyOrigin: ALL_COMPANIES,
+  title: "",
+  content: "",
+  norm: "",
+  sortOrder: "0",
+  isActive: true,
+};
+
+async function sendRequest(method: string, url: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    credentials: "include",
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: "Error de red al procesar la solicitud." }));
+    throw new Error(err.error || "Error al procesar la solicitud.");
+  }
+  return res.status === 204 ? null : res.json();
+}
+
+const invalidateLibrary = () =>
+  queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/clause-library") });
+
+export default function ClauseLibraryPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<ClauseLibraryEntry | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<ClauseForm>(emptyForm);
+  const [categoryFilter, setCategoryFilter] = useState<ClauseCategory | "todas">("todas");
+
+  const { data: entries = [], isLoading } = useQuery<ClauseLibraryEntry[]>({
+    queryKey: ["/api/clause-library?includeInactive=true"],
+  });
+
+  const { data: companies = [] } = useQuery<CompanyResponse[]>({
+    queryKey: ["/api/companies"],
+  });
+
+  const onError = (error: any) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const payload = {
+        ...form,
+        companyOrigin: form.companyOrigin === ALL_COMPANIES ? "" : form.companyOrigin,
+        sortOrder: Number(form.sortOrder) || 0,
+      };
+      return editing
+        ? sendRequest("PATCH", `/api/clause-library/${editing.id}`, payload)
+        : sendRequest("POST", "/api/clause-library", payload);
+    },
+    onSuccess: () => {
+      invalidateLibrary();
+      toast({ title: editing ? "Entrada actualizada" : "Entrada registrada", description: form.code.toUpperCase() });
+      setIsDialogOpen(false);
+    },
+    onError,
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: (entry: ClauseLibraryEntry) => sendRequest("DELETE", `/api/clause-library/${entry.id}`),
+    onSuccess: (_data, entry) => {
+      invalidateLibrary();
+      toast({ title: "Entrada desactivada", description: entry.code });
+    },
+    onError,
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm({ ...emptyForm, category: categoryFilter === "todas" ? emptyForm.category : categoryFilter });
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (entry: ClauseLibraryEntry) => {
+    setEditing(entry);
+    setForm({
+      code: entry.code,
+      category: entry.category as ClauseCategory,
+      companyOrigin: entry.companyOrigin || ALL_COMPANIES,
+      title: entry.title,
+      content: entry.content,
+      norm: entry.norm,
+      sortOrder: String(entry.sortOrder),
+      isActive: entry.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const setField = <K extends keyof ClauseForm>(field: K, value: ClauseForm[K]) =>
+    setForm(prev => ({ ...prev, [field]: value }));
+
+  const visible = categoryFilter === "todas" ? entries : entries.filter(entry => entry.category === categoryFilter);
+
+  if (!user) {
+    return (
+      <div className="p-6 space-y-4">
+        <Skeleton className="h-6 w-64" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <BookOpen className="h-6 w-6 text-blue-600" />
+            Biblioteca de Cláusulas
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Garantías, objetos sociales, documentos, normas y cláusulas de entrega reutilizables en las cotizaciones.
+          </p>
+        </div>
+        {user.isAdmin && (
+          <Button onClick={openCreate} className="bg-blue-600 text-white hover:bg-blue-700">
+            <Plus className="h-4 w-4 mr-1" /> Nueva entrada
+          </Button>
+        )}
+      </div>
+
+      {!user.isAdmin && (
+        <Card className="border-amber-200 bg-amber-50/50">
+          <CardContent className="p-4 flex items-center gap-3">
+            <Shield className="h-5 w-5 text-amber-600" />
+            <p className="text-xs text-amber-800">Solo los administradores pueden modificar la biblioteca.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle>Entradas</CardTitle>
+            <CardDescription>
+              Una entrada con la misma clave para una empresa es su variante. Editar el texto crea una versión nueva; las cotizaciones conservan la que usaron.
+            </CardDescription>
+          </div>
+          <Select value={categoryFilter} onValueChange={(value) => setCategoryFilter(value as ClauseCategory | "todas")}>
+            <SelectTrigger className="w-64"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="todas">Todas las categorías</SelectItem>
+              {CLAUSE_CATEGORIES.map(category => (
+                <SelectItem key={category} value={category}>{CLAUSE_CATEGORY_LABELS[category]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4"><Skeleton className="h-10 w-full" /><Skeleton className="h-10 w-full" /></div>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No hay entradas registradas.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Clave</TableHead>
+                  <TableHead>Categoría</TableHead>
+                  <TableHead>Empresa</TableHead>
+                  <TableHead>Texto</TableHead>
+                  <TableHead>Versión</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-bold">{entry.code}</TableCell>
+                    <TableCell className="text-xs">{CLAUSE_CATEGORY_LABELS[entry.category as ClauseCategory] || entry.category}</TableCell>
+                    <TableCell className="text-xs">{entry.companyOrigin || "Todas"}</TableCell>
+                    <TableCell className="max-w-md">
+                      <div className="text-sm font-medium">{entry.title}</div>
+                      <div className="text-xs text-muted-foreground line-clamp-2" title={entry.content}>{entry.content}</div>
+                      {entry.norm && <div className="text-xs text-muted-foreground">Norma: {entry.norm}</div>}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">v{entry.version}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className={entry.isActive ? "bg-emerald-100 text-emerald-700" : "bg-slate-100 text-slate-600"}>
+                        {entry.isActive ? "Activa" : "Inactiva"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {user.isAdmin && (
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="outline" onClick={() => openEdit(entry)}>
+                            <Pencil className="h-3 w-3 mr-1" /> Editar
+                          </Button>
+                          {entry.isActive && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="text-red-600"
+                              disabled={deactivateMutation.isPending}
+                              onClick={() => {
+                                if (confirm(`¿Desactivar la entrada ${entry.code}? Las cotizaciones que ya la usan conservan su texto.`)) {
+                                  deactivateMutation.mutate(entry);
+                                }
+                              }}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Editar ${editing.code}` : "Nueva entrada"}</DialogTitle>
+            <DialogDescription>Disponible en el selector de la biblioteca de cada formulario de cotización.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="clause-code">Clave</Label>
+              <Input id="clause-code" value={form.code} onChange={(e) => setField("code", e.target.value.toUpperCase())} placeholder="GAR-01" />
+            </div>
+            <div className="space-y-2">
+              <Label>Categoría</Label>
+              <Select value={form.category} onValueChange={(value) => setField("category", value as ClauseCategory)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {CLAUSE_CATEGORIES.map(category => (
+                    <SelectItem key={category} value={category}>{CLAUSE_CATEGORY_LABELS[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Empresa</Label>
+              <Select value={form.companyOrigin} onValueChange={(value) => setField("companyOrigin", value)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_COMPANIES}>Todas las empresas</SelectItem>
+                  {companies.map(company => (
+                    <SelectItem key={company.code} value={company.code}>{company.friendlyName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="clause-order">Orden</Label>
+              <Input id="clause-order" type="number" value={form.sortOrder} onChange={(e) => setField("sortOrder", e.target.value)} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="clause-title">Título</Label>
+              <Input id="clause-title" value={form.title} onChange={(e) => setField("title", e.target.value)} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="clause-content">Texto</Label>
+              <Textarea id="clause-content" rows={6} value={form.content} onChange={(e) => setField("content", e.target.value)} />
+            </div>
+            {form.category === "norma" && (
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="clause-norm">Norma</Label>
+                <Input id="clause-norm" value={form.norm} onChange={(e) => setField("norm", e.target.value)} placeholder="NOM-001-SEDE-2012" />
+              </div>
+            )}
+            <div className="flex items-center gap-3">
+              <Switch checked={form.isActive} onCheckedChange={(checked) => setField("isActive", checked)} />
+              <Label>Activa</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancelar</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !form.code.trim() || !form.title.trim() || !form.content.trim()}
+              className="bg-blue-600 text-white hover:bg-blue-700"
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,509 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Landmark, Plus, Pencil, Trash2, UserPlus } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { QUOTE_STATUS_LABELS, type ClientContact, type ClientResponse, type QuoteStatus } from "@shared/schema";
+
+interface ClientForm {
+  name: string;
+  shortName: string;
+  rfc: string;
+  lugar: string;
+  ubicacion: string;
+  direccion: string;
+  notes: string;
+  isActive: boolean;
+}
+
+interface ContactForm {
+  fullName: string;
+  grado: string;
+  cargo: string;
+  area: string;
+  contacto: string;
+  email: string;
+  phone: string;
+}
+
+interface ClientQuote {
+  id: number;
+  internalFolio: string;
+  projectTitle: string;
+  requisitionNumber: string;
+  quoteDate: string;
+  status: string;
+  companyOrigin: string;
+  contactPerson: string;
+}
+
+const emptyClientForm: ClientForm = {
+  name: "",
+  shortName: "",
+  rfc: "",
+  lugar: "",
+  ubicacion: "",
+  direccion: "",
+  notes: "",
+  isActive: true,
+};
+
+const emptyContactForm: ContactForm = { fullName: "", grado: "", cargo: "", area: "", contacto: "", email: "", phone: "" };
+
+async function sendRequest(method: string, url: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    credentials: "include",
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: "Error de red al procesar la solicitud." }));
+    throw new Error(err.error || "Error al procesar la solicitud.");
+  }
+  return res.status === 204 ? null : res.json();
+}
+
+const invalidateClients = () =>
+  queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/clients") });
+
+export default function ClientsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [editingClient, setEditingClient] = useState<ClientResponse | null>(null);
+  const [clientDialogOpen, setClientDialogOpen] = useState(false);
+  const [clientForm, setClientForm] = useState<ClientForm>(emptyClientForm);
+  const [editingContact, setEditingContact] = useState<ClientContact | null>(null);
+  const [contactDialogOpen, setContactDialogOpen] = useState(false);
+  const [contactForm, setContactForm] = useState<ContactForm>(emptyContactForm);
+
+  const { data: clients = [], isLoading } = useQuery<ClientResponse[]>({
+    queryKey: ["/api/clients?includeInactive=true"],
+  });
+  const selected = clients.find(client => client.id === selectedId) ?? null;
+
+  const { data: clientQuotes = [], isLoading: loadingQuotes } = useQuery<ClientQuote[]>({
+    queryKey: [`/api/clients/${selectedId}/quotes`],
+    enabled: selectedId !== null,
+  });
+
+  const onError = (error: any) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveClientMutation = useMutation({
+    mutationFn: (): Promise<ClientResponse> => editingClient
+      ? sendRequest("PATCH", `/api/clients/${editingClient.id}`, clientForm)
+      : sendRequest("POST", "/api/clients", clientForm),
+    onSuccess: (client) => {
+      invalidateClients();
+      toast({ title: editingClient ? "Dependencia actualizada" : "Dependencia registrada", description: client.name });
+      setSelectedId(client.id);
+      setClientDialogOpen(false);
+    },
+    onError,
+  });
+
+  const deactivateClientMutation = useMutation({
+    mutationFn: (client: ClientResponse) => sendRequest("DELETE", `/api/clients/${client.id}`),
+    onSuccess: (_data, client) => {
+      invalidateClients();
+      toast({ title: "Dependencia desactivada", description: client.name });
+    },
+    onError,
+  });
+
+  const saveContactMutation = useMutation({
+    mutationFn: () => editingContact
+      ? sendRequest("PATCH", `/api/clients/${selectedId}/contacts/${editingContact.id}`, contactForm)
+      : sendRequest("POST", `/api/clients/${selectedId}/contacts`, contactForm),
+    onSuccess: () => {
+      invalidateClients();
+      toast({ title: editingContact ? "Contacto actualizado" : "Contacto registrado", description: contactForm.fullName });
+      setContactDialogOpen(false);
+    },
+    onError,
+  });
+
+  const deactivateContactMutation = useMutation({
+    mutationFn: (contact: ClientContact) => sendRequest("DELETE", `/api/clients/${contact.clientId}/contacts/${contact.id}`),
+    onSuccess: (_data, contact) => {
+      invalidateClients();
+      toast({ title: "Contacto desactivado", description: contact.fullName });
+    },
+    onError,
+  });
+
+  const openCreateClient = () => {
+    setEditingClient(null);
+    setClientForm(emptyClientForm);
+    setClientDialogOpen(true);
+  };
+
+  const openEditClient = (client: ClientResponse) => {
+    setEditingClient(client);
+    setClientForm({
+      name: client.name,
+      shortName: client.shortName,
+      rfc: client.rfc,
+      lugar: client.lugar,
+      ubicacion: client.ubicacion,
+      direccion: client.direccion,
+      notes: client.notes,
+      isActive: client.isActive,
+    });
+    setClientDialogOpen(true);
+  };
+
+  const openContact = (contact: ClientContact | null) => {
+    setEditingContact(contact);
+    setContactForm(contact ? {
+      fullName: contact.fullName,
+      grado: contact.grado,
+      cargo: contact.cargo,
+      area: contact.area,
+      contacto: contact.contacto,
+      email: contact.email,
+      phone: contact.phone,
+    } : emptyContactForm);
+    setContactDialogOpen(true);
+  };
+
+  const setClientField = <K extends keyof ClientForm>(field: K, value: ClientForm[K]) =>
+    setClientForm(prev => ({ ...prev, [field]: value }));
+
+  const setContactField = (field: keyof ContactForm, value: string) =>
+    setContactForm(prev => ({ ...prev, [field]: value }));
+
+  const term = search.trim().toLowerCase();
+  const visible = clients.filter(client => !term || `${client.name} ${client.shortName}`.toLowerCase().includes(term));
+
+  if (!user) {
+    return (
+      <div className="p-6 space-y-4">
+        <Skeleton className="h-6 w-64" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Landmark className="h-6 w-6 text-blue-600" />
+            Directorio de Clientes
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Dependencias y contactos que llenan la sección de "Atención" al elegirlos en una cotización.
+          </p>
+        </div>
+        <Button onClick={openCreateClient} className="bg-blue-600 text-white hover:bg-blue-700">
+          <Plus className="h-4 w-4 mr-1" /> Nueva dependencia
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-5 gap-6">
+        <Card className="xl:col-span-2">
+          <CardHeader className="space-y-3">
+            <div>
+              <CardTitle>Dependencias</CardTitle>
+              <CardDescription>Selecciona una para ver sus contactos y cotizaciones.</CardDescription>
+            </div>
+            <Input placeholder="Buscar" value={search} onChange={(e) => setSearch(e.target.value)} />
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-4"><Skeleton className="h-10 w-full" /><Skeleton className="h-10 w-full" /></div>
+            ) : visible.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No hay dependencias registradas.</p>
+            ) : (
+              <div className="space-y-2">
+                {visible.map(client => (
+                  <button
+                    key={client.id}
+                    type="button"
+                    onClick={() => setSelectedId(client.id)}
+                    className={`w-full rounded-lg border px-3 py-2 text-left transition-colors ${client.id === selectedId ? "border-blue-500 bg-blue-50 dark:bg-blue-950/40" : "border-border hover:bg-muted/50"}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium">{client.name}</span>
+                      {!client.isActive && <Badge variant="secondary" className="bg-slate-100 text-slate-600">Inactiva</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {[client.shortName, `${client.contacts.length} contactos`, `${client.quoteCount} cotizaciones`].filter(Boolean).join(" · ")}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="xl:col-span-3 space-y-6">
+          {!selected ? (
+            <Card>
+              <CardContent className="py-12 text-center text-sm text-muted-foreground">
+                Selecciona una dependencia del directorio.
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between gap-4">
+                  <div>
+                    <CardTitle>{selected.name}</CardTitle>
+                    <CardDescription>
+                      {[selected.shortName, selected.rfc && `RFC ${selected.rfc}`].filter(Boolean).join(" · ") || "Sin datos adicionales"}
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => openEditClient(selected)}>
+                      <Pencil className="h-3 w-3 mr-1" /> Editar
+                    </Button>
+                    {user.isAdmin && selected.isActive && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600"
+                        disabled={deactivateClientMutation.isPending}
+                        onClick={() => {
+                          if (confirm(`¿Desactivar ${selected.name}? Sus cotizaciones conservan la liga.`)) {
+                            deactivateClientMutation.mutate(selected);
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+                    <div><span className="text-muted-foreground">Lugar:</span> {selected.lugar || "—"}</div>
+                    <div><span className="text-muted-foreground">Ubicación:</span> {selected.ubicacion || "—"}</div>
+                    <div><span className="text-muted-foreground">Dirección:</span> {selected.direccion || "—"}</div>
+                  </div>
+                  {selected.notes && <p className="text-xs text-muted-foreground whitespace-pre-line">{selected.notes}</p>}
+
+                  <div className="flex items-center justify-between pt-2">
+                    <h3 className="text-sm font-semibold">Contactos</h3>
+                    <Button size="sm" variant="outline" onClick={() => openContact(null)}>
+                      <UserPlus className="h-3 w-3 mr-1" /> Agregar contacto
+                    </Button>
+                  </div>
+                  {selected.contacts.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">Sin contactos registrados.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Nombre</TableHead>
+                          <TableHead>Cargo / Área</TableHead>
+                          <TableHead>Correo / Teléfono</TableHead>
+                          <TableHead></TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {selected.contacts.map(contact => (
+                          <TableRow key={contact.id}>
+                            <TableCell className="text-sm">{[contact.grado, contact.fullName].filter(Boolean).join(" ")}</TableCell>
+                            <TableCell className="text-xs">
+                              <div>{contact.cargo || "—"}</div>
+                              {contact.area && <div className="text-muted-foreground">{contact.area}</div>}
+                            </TableCell>
+                            <TableCell className="text-xs">
+                              <div>{contact.email || "—"}</div>
+                              {contact.phone && <div className="text-muted-foreground">{contact.phone}</div>}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-2">
+                                <Button size="sm" variant="outline" onClick={() => openContact(contact)}>
+                                  <Pencil className="h-3 w-3" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  className="text-red-600"
+                                  disabled={deactivateContactMutation.isPending}
+                                  onClick={() => {
+                                    if (confirm(`¿Desactivar a ${contact.fullName}?`)) deactivateContactMutation.mutate(contact);
+                                  }}
+                                >
+                                  <Trash2 className="h-3 w-3" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Cotizaciones</CardTitle>
+                  <CardDescription>Cotizaciones ligadas a {selected.shortName || selected.name}.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {loadingQuotes ? (
+                    <Skeleton className="h-10 w-full" />
+                  ) : clientQuotes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">No hay cotizaciones ligadas a esta dependencia.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Folio</TableHead>
+                          <TableHead>Proyecto</TableHead>
+                          <TableHead>Fecha</TableHead>
+                          <TableHead>Atención</TableHead>
+                          <TableHead>Estado</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {clientQuotes.map(quote => (
+                          <TableRow key={quote.id}>
+                            <TableCell className="font-mono text-xs font-bold text-blue-700 dark:text-sky-300">{quote.internalFolio}</TableCell>
+                            <TableCell className="text-xs">{quote.projectTitle || quote.requisitionNumber || "—"}</TableCell>
+                            <TableCell className="text-xs whitespace-nowrap">{quote.quoteDate}</TableCell>
+                            <TableCell className="text-xs">{quote.contactPerson || "—"}</TableCell>
+                            <TableCell>
+                              <Badge variant="secondary">{QUOTE_STATUS_LABELS[quote.status as QuoteStatus] || quote.status}</Badge>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={clientDialogOpen} onOpenChange={setClientDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingClient ? "Editar dependencia" : "Nueva dependencia"}</DialogTitle>
+            <DialogDescription>El nombre, lugar, ubicación y dirección se copian a la sección de "Atención".</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="client-name">Dependencia</Label>
+              <Input id="client-name" value={clientForm.name} onChange={(e) => setClientField("name", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="client-short">Siglas</Label>
+              <Input id="client-short" value={clientForm.shortName} onChange={(e) => setClientField("shortName", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="client-rfc">RFC</Label>
+              <Input id="client-rfc" value={clientForm.rfc} onChange={(e) => setClientField("rfc", e.target.value.toUpperCase())} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="client-lugar">Lugar</Label>
+              <Input id="client-lugar" value={clientForm.lugar} onChange={(e) => setClientField("lugar", e.target.value)} placeholder="Ciudad de México" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="client-ubicacion">Ubicación</Label>
+              <Input id="client-ubicacion" value={clientForm.ubicacion} onChange={(e) => setClientField("ubicacion", e.target.value)} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="client-direccion">Dirección</Label>
+              <Input id="client-direccion" value={clientForm.direccion} onChange={(e) => setClientField("direccion", e.target.value)} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="client-notes">Notas</Label>
+              <Textarea id="client-notes" rows={3} value={clientForm.notes} onChange={(e) => setClientField("notes", e.target.value)} />
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch checked={clientForm.isActive} onCheckedChange={(checked) => setClientField("isActive", checked)} />
+              <Label>Activa</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setClientDialogOpen(false)}>Cancelar</Button>
+            <Button
+              onClick={() => saveClientMutation.mutate()}
+              disabled={saveClientMutation.isPending || !clientForm.name.trim()}
+              className="bg-blue-600 text-white hover:bg-blue-700"
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={contactDialogOpen} onOpenChange={setContactDialogOpen}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{editingContact ? "Editar contacto" : "Nuevo contacto"}</DialogTitle>
+            <DialogDescription>Persona a cuya atención se dirigen las cotizaciones de {selected?.shortName || selected?.name}.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="contact-grado">Grado</Label>
+              <Input id="contact-grado" value={contactForm.grado} onChange={(e) => setContactField("grado", e.target.value)} placeholder="Ing., Lic., Gral." />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-name">Nombre</Label>
+              <Input id="contact-name" value={contactForm.fullName} onChange={(e) => setContactField("fullName", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-cargo">Cargo</Label>
+              <Input id="contact-cargo" value={contactForm.cargo} onChange={(e) => setContactField("cargo", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-area">Área</Label>
+              <Input id="contact-area" value={contactForm.area} onChange={(e) => setContactField("area", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-email">Correo</Label>
+              <Input id="contact-email" type="email" value={contactForm.email} onChange={(e) => setContactField("email", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-phone">Teléfono</Label>
+              <Input id="contact-phone" value={contactForm.phone} onChange={(e) => setContactField("phone", e.target.value)} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="contact-contacto">Contacto para la entrega</Label>
+              <Input id="contact-contacto" value={contactForm.contacto} onChange={(e) => setContactField("contacto", e.target.value)} placeholder="Persona, teléfono y horario" />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setContactDialogOpen(false)}>Cancelar</Button>
+            <Button
+              onClick={() => saveContactMutation.mutate()}
+              disabled={saveContactMutation.isPending || !contactForm.fullName.trim()}
+              className="bg-blue-600 text-white hover:bg-blue-700"
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
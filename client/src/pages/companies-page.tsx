@@ -0,0 +1,593 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Building2, Plus, Pencil, Trash2, Upload, Shield, ImageOff, Percent } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  COMPANY_TEMPLATE_KEYS,
+  COMPANY_IMAGE_KINDS,
+  MARGIN_ENFORCEMENTS,
+  MARGIN_ENFORCEMENT_LABELS,
+  DEFAULT_QUOTE_EMAIL_SUBJECT,
+  DEFAULT_QUOTE_EMAIL_BODY,
+  QUOTE_EMAIL_PLACEHOLDERS,
+  type CompanyImageKind,
+  type CompanyResponse,
+  type MarginEnforcement,
+  type MarginRule,
+} from "@shared/schema";
+
+interface CompanyForm {
+  code: string;
+  friendlyName: string;
+  legalName: string;
+  rfc: string;
+  templateKey: string;
+  primaryColor: string;
+  marginTop: string;
+  marginBottom: string;
+  footerText: string;
+  emailSubjectTemplate: string;
+  emailBodyTemplate: string;
+  showPageNumbers: boolean;
+  isActive: boolean;
+}
+
+const emptyForm: CompanyForm = {
+  code: "",
+  friendlyName: "",
+  legalName: "",
+  rfc: "",
+  templateKey: "azal",
+  primaryColor: "#1E3A8A",
+  marginTop: "190",
+  marginBottom: "150",
+  footerText: "",
+  emailSubjectTemplate: "",
+  emailBodyTemplate: "",
+  showPageNumbers: false,
+  isActive: true,
+};
+
+interface MarginRuleForm {
+  companyOrigin: string;
+  category: string;
+  minMarginPercent: string;
+  enforcement: MarginEnforcement;
+}
+
+// Los Select no aceptan "" como valor; "todas" representa la regla general
+const ALL = "todas";
+const emptyRuleForm: MarginRuleForm = { companyOrigin: ALL, category: ALL, minMarginPercent: "10", enforcement: "advertir" };
+const categoryLabels: Record<string, string> = { bienes: "Bienes", servicios: "Servicios" };
+
+const imageKindLabels: Record<CompanyImageKind, string> = {
+  header: "Encabezado",
+  footer: "Pie de página",
+  logo: "Logotipo",
+};
+
+const hasImage = (company: CompanyResponse, kind: CompanyImageKind) =>
+  kind === "header" ? company.hasHeaderImage : kind === "footer" ? company.hasFooterImage : company.hasLogoImage;
+
+async function sendRequest(method: string, url: string, body?: unknown) {
+  const isForm = body instanceof FormData;
+  const res = await fetch(url, {
+    method,
+    headers: body && !isForm ? { "Content-Type": "application/json" } : undefined,
+    credentials: "include",
+    body: body === undefined ? undefined : isForm ? body : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: "Error de red al procesar la solicitud." }));
+    throw new Error(err.error || "Error al procesar la solicitud.");
+  }
+  return res.status === 204 ? null : res.json();
+}
+
+export default function CompaniesPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<CompanyResponse | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<CompanyForm>(emptyForm);
+  // Cambia al subir una imagen para forzar la recarga de las vistas previas
+  const [imageVersion, setImageVersion] = useState(0);
+
+  const [ruleForm, setRuleForm] = useState<MarginRuleForm>(emptyRuleForm);
+
+  const { data: companies = [], isLoading } = useQuery<CompanyResponse[]>({
+    queryKey: ["/api/companies"],
+  });
+
+  const { data: marginRules = [] } = useQuery<MarginRule[]>({
+    queryKey: ["/api/margin-rules"],
+  });
+
+  const onError = (error: any) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const payload = { ...form, marginTop: Number(form.marginTop), marginBottom: Number(form.marginBottom) };
+      return editing
+        ? sendRequest("PATCH", `/api/companies/${editing.id}`, payload)
+        : sendRequest("POST", "/api/companies", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/folios/settings"] });
+      toast({ title: editing ? "Empresa actualizada" : "Empresa registrada", description: form.code.toUpperCase() });
+      setIsDialogOpen(false);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (company: CompanyResponse) => sendRequest("DELETE", `/api/companies/${company.id}`),
+    onSuccess: (_data, company) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+      toast({ title: "Empresa eliminada", description: company.code });
+    },
+    onError,
+  });
+
+  const imageMutation = useMutation({
+    mutationFn: ({ company, kind, file }: { company: CompanyResponse; kind: CompanyImageKind; file: File | null }) => {
+      if (!file) return sendRequest("DELETE", `/api/companies/${company.id}/images/${kind}`);
+      const formData = new FormData();
+      formData.append("file", file);
+      return sendRequest("POST", `/api/companies/${company.id}/images/${kind}`, formData);
+    },
+    onSuccess: (data: CompanyResponse) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+      setImageVersion(v => v + 1);
+      if (editing?.id === data.id) setEditing(data);
+      toast({ title: "Membrete actualizado", description: data.code });
+    },
+    onError,
+  });
+
+  const ruleMutation = useMutation({
+    mutationFn: () => sendRequest("PUT", "/api/margin-rules", {
+      companyOrigin: ruleForm.companyOrigin === ALL ? "" : ruleForm.companyOrigin,
+      category: ruleForm.category === ALL ? "" : ruleForm.category,
+      minMarginPercent: Number(ruleForm.minMarginPercent),
+      enforcement: ruleForm.enforcement,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/margin-rules"] });
+      toast({ title: "Regla de margen guardada" });
+      setRuleForm(emptyRuleForm);
+    },
+    onError,
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: (rule: MarginRule) => sendRequest("DELETE", `/api/margin-rules/${rule.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/margin-rules"] });
+      toast({ title: "Regla de margen eliminada" });
+    },
+    onError,
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (company: CompanyResponse) => {
+    setEditing(company);
+    setForm({
+      code: company.code,
+      friendlyName: company.friendlyName,
+      legalName: company.legalName,
+      rfc: company.rfc,
+      templateKey: company.templateKey,
+      primaryColor: company.primaryColor,
+      marginTop: String(company.marginTop),
+      marginBottom: String(company.marginBottom),
+      footerText: company.footerText,
+      emailSubjectTemplate: company.emailSubjectTemplate,
+      emailBodyTemplate: company.emailBodyTemplate,
+      showPageNumbers: company.showPageNumbers,
+      isActive: company.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const setField = <K extends keyof CompanyForm>(field: K, value: CompanyForm[K]) =>
+    setForm(prev => ({ ...prev, [field]: value }));
+
+  if (!user) {
+    return (
+      <div className="p-6 space-y-4">
+        <Skeleton className="h-6 w-64" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Building2 className="h-6 w-6 text-blue-600" />
+            Empresas Emisoras
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Membrete, plantilla y márgenes con los que se genera el PDF de cada empresa.
+          </p>
+        </div>
+        {user.isAdmin && (
+          <Button onClick={openCreate} className="bg-blue-600 text-white hover:bg-blue-700">
+            <Plus className="h-4 w-4 mr-1" /> Nueva empresa
+          </Button>
+        )}
+      </div>
+
+      {!user.isAdmin && (
+        <Card className="border-amber-200 bg-amber-50/50">
+          <CardContent className="p-4 flex items-center gap-3">
+            <Shield className="h-5 w-5 text-amber-600" />
+            <p className="text-xs text-amber-800">Solo los administradores pueden modificar las empresas y sus membretes.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Empresas registradas</CardTitle>
+          <CardDescription>Las empresas inactivas no aparecen al crear cotizaciones</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4"><Skeleton className="h-10 w-full" /><Skeleton className="h-10 w-full" /></div>
+          ) : companies.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No hay empresas registradas.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Clave</TableHead>
+                  <TableHead>Nombre</TableHead>
+                  <TableHead>Plantilla</TableHead>
+                  <TableHead>Color</TableHead>
+                  <TableHead>Encabezado</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {companies.map(company => (
+                  <TableRow key={company.id}>
+                    <TableCell className="font-bold">{company.code}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">{company.friendlyName}</div>
+                      <div className="text-xs text-muted-foreground">{company.legalName}{company.rfc ? ` · ${company.rfc}` : ""}</div>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs uppercase">{company.templateKey}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="h-4 w-4 rounded border" style={{ backgroundColor: company.primaryColor }} />
+                        <span className="font-mono text-xs">{company.primaryColor}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {company.hasHeaderImage || company.hasLogoImage ? (
+                        <img
+                          src={`/api/companies/${company.id}/images/${company.hasHeaderImage ? "header" : "logo"}?v=${imageVersion}`}
+                          alt={company.code}
+                          className="h-10 max-w-[160px] object-contain"
+                        />
+                      ) : (
+                        <ImageOff className="h-4 w-4 text-muted-foreground" />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className={company.isActive ? "bg-emerald-100 text-emerald-700" : "bg-slate-100 text-slate-600"}>
+                        {company.isActive ? "Activa" : "Inactiva"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {user.isAdmin && (
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="outline" onClick={() => openEdit(company)}>
+                            <Pencil className="h-3 w-3 mr-1" /> Editar
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-red-600"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => {
+                              if (confirm(`¿Eliminar la empresa ${company.code}? Sus cotizaciones se generarán con el membrete predeterminado.`)) {
+                                deleteMutation.mutate(company);
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="h-4 w-4 text-blue-600" />
+            Márgenes mínimos
+          </CardTitle>
+          <CardDescription>
+            Margen sobre la venta que debe tener cada partida con costo. Se aplica la regla más específica: empresa y tipo, empresa, tipo y por último la general.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {marginRules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Sin reglas: solo se advierte de las partidas vendidas por debajo del costo.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Empresa</TableHead>
+                  <TableHead>Tipo de propuesta</TableHead>
+                  <TableHead>Margen mínimo</TableHead>
+                  <TableHead>Acción</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {marginRules.map(rule => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-bold">{rule.companyOrigin || "Todas"}</TableCell>
+                    <TableCell>{categoryLabels[rule.category] ?? "Todos"}</TableCell>
+                    <TableCell>{Number(rule.minMarginPercent).toFixed(2)}%</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className={rule.enforcement === "bloquear" ? "bg-red-100 text-red-700" : "bg-amber-100 text-amber-700"}>
+                        {MARGIN_ENFORCEMENT_LABELS[rule.enforcement as MarginEnforcement] ?? rule.enforcement}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {user.isAdmin && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600"
+                          disabled={deleteRuleMutation.isPending}
+                          onClick={() => deleteRuleMutation.mutate(rule)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {user.isAdmin && (
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_120px_1fr_auto] items-end gap-3">
+              <div className="space-y-2">
+                <Label>Empresa</Label>
+                <Select value={ruleForm.companyOrigin} onValueChange={(value) => setRuleForm(prev => ({ ...prev, companyOrigin: value }))}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todas</SelectItem>
+                    {companies.map(company => (
+                      <SelectItem key={company.id} value={company.code}>{company.code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Tipo de propuesta</Label>
+                <Select value={ruleForm.category} onValueChange={(value) => setRuleForm(prev => ({ ...prev, category: value }))}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todos</SelectItem>
+                    {Object.entries(categoryLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="margin-min">Mínimo (%)</Label>
+                <Input
+                  id="margin-min"
+                  type="number"
+                  step={0.5}
+                  value={ruleForm.minMarginPercent}
+                  onChange={(e) => setRuleForm(prev => ({ ...prev, minMarginPercent: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Acción</Label>
+                <Select value={ruleForm.enforcement} onValueChange={(value) => setRuleForm(prev => ({ ...prev, enforcement: value as MarginEnforcement }))}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {MARGIN_ENFORCEMENTS.map(value => (
+                      <SelectItem key={value} value={value}>{MARGIN_ENFORCEMENT_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                onClick={() => ruleMutation.mutate()}
+                disabled={ruleMutation.isPending || ruleForm.minMarginPercent === ""}
+                className="bg-blue-600 text-white hover:bg-blue-700"
+              >
+                Guardar regla
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Editar ${editing.code}` : "Nueva empresa"}</DialogTitle>
+            <DialogDescription>Los cambios se aplican al siguiente PDF que se genere.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="company-code">Clave</Label>
+              <Input id="company-code" value={form.code} onChange={(e) => setField("code", e.target.value.toUpperCase())} placeholder="AMS" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company-name">Nombre comercial</Label>
+              <Input id="company-name" value={form.friendlyName} onChange={(e) => setField("friendlyName", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company-legal">Razón social</Label>
+              <Input id="company-legal" value={form.legalName} onChange={(e) => setField("legalName", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company-rfc">RFC</Label>
+              <Input id="company-rfc" value={form.rfc} onChange={(e) => setField("rfc", e.target.value.toUpperCase())} />
+            </div>
+            <div className="space-y-2">
+              <Label>Plantilla</Label>
+              <Select value={form.templateKey} onValueChange={(value) => setField("templateKey", value)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {COMPANY_TEMPLATE_KEYS.map(key => (
+                    <SelectItem key={key} value={key}>{key.toUpperCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company-color">Color principal</Label>
+              <div className="flex gap-2">
+                <Input type="color" value={form.primaryColor} onChange={(e) => setField("primaryColor", e.target.value.toUpperCase())} className="w-14 p-1" />
+                <Input id="company-color" value={form.primaryColor} onChange={(e) => setField("primaryColor", e.target.value)} className="font-mono" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company-margin-top">Margen superior (px)</Label>
+              <Input id="company-margin-top" type="number" min={0} max={400} value={form.marginTop} onChange={(e) => setField("marginTop", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company-margin-bottom">Margen inferior (px)</Label>
+              <Input id="company-margin-bottom" type="number" min={0} max={400} value={form.marginBottom} onChange={(e) => setField("marginBottom", e.target.value)} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="company-footer">Texto del pie de página</Label>
+              <Textarea id="company-footer" rows={3} value={form.footerText} onChange={(e) => setField("footerText", e.target.value)} placeholder="Una línea por renglón" />
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch checked={form.showPageNumbers} onCheckedChange={(checked) => setField("showPageNumbers", checked)} />
+              <Label>Numerar páginas</Label>
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch checked={form.isActive} onCheckedChange={(checked) => setField("isActive", checked)} />
+              <Label>Activa</Label>
+            </div>
+          </div>
+
+          <div className="space-y-3 border-t pt-4">
+            <h4 className="text-sm font-semibold">Correo de envío de cotizaciones</h4>
+            <p className="text-xs text-muted-foreground">
+              Déjalos vacíos para usar la plantilla predeterminada. Variables: {Object.keys(QUOTE_EMAIL_PLACEHOLDERS).map(key => `{${key}}`).join(" ")}
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="company-email-subject">Asunto</Label>
+              <Input id="company-email-subject" value={form.emailSubjectTemplate} onChange={(e) => setField("emailSubjectTemplate", e.target.value)} placeholder={DEFAULT_QUOTE_EMAIL_SUBJECT} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company-email-body">Mensaje</Label>
+              <Textarea id="company-email-body" rows={8} value={form.emailBodyTemplate} onChange={(e) => setField("emailBodyTemplate", e.target.value)} placeholder={DEFAULT_QUOTE_EMAIL_BODY} />
+            </div>
+          </div>
+
+          {editing && (
+            <div className="space-y-3 border-t pt-4">
+              <h4 className="text-sm font-semibold">Membrete</h4>
+              <p className="text-xs text-muted-foreground">Imágenes PNG, JPG o SVG de hasta 2 MB.</p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {COMPANY_IMAGE_KINDS.map(kind => (
+                  <div key={kind} className="space-y-2 rounded-md border p-3">
+                    <Label>{imageKindLabels[kind]}</Label>
+                    <div className="h-16 flex items-center justify-center bg-slate-50 dark:bg-slate-900 rounded">
+                      {hasImage(editing, kind) ? (
+                        <img src={`/api/companies/${editing.id}/images/${kind}?v=${imageVersion}`} alt={kind} className="max-h-16 max-w-full object-contain" />
+                      ) : (
+                        <ImageOff className="h-4 w-4 text-muted-foreground" />
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" asChild disabled={imageMutation.isPending}>
+                        <label className="cursor-pointer">
+                          <Upload className="h-3 w-3 mr-1" /> Subir
+                          <input
+                            type="file"
+                            accept="image/png,image/jpeg,image/svg+xml"
+                            className="hidden"
+                            onChange={(e) => {
+                              const file = e.target.files?.[0];
+                              if (file) imageMutation.mutate({ company: editing, kind, file });
+                              e.target.value = "";
+                            }}
+                          />
+                        </label>
+                      </Button>
+                      {hasImage(editing, kind) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600"
+                          disabled={imageMutation.isPending}
+                          onClick={() => imageMutation.mutate({ company: editing, kind, file: null })}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancelar</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !form.code.trim() || !form.friendlyName.trim()}
+              className="bg-blue-600 text-white hover:bg-blue-700"
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
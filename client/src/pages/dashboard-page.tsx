@@ -6,6 +6,7 @@ import { format, formatDistanceToNow } from "date-fns";
 import { es } from "date-fns/locale";
 import { File as LucideFile, Clock, Upload } from "lucide-react";
 import { formatFileSize } from "@/components/file-icon";
+import { ExpiringQuotesCard } from "@/components/expiring-quotes-card";
 
 const STORAGE_QUOTA_BYTES = 5 * 1024 * 1024 * 1024; // Fallback: 5GB
 
@@ -190,6 +191,8 @@ export default function DashboardPage() {
           </CardContent>
         </Card>
       </div>
+
+      <ExpiringQuotesCard />
     </div>
   );
 }
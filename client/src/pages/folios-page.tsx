@@ -0,0 +1,270 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Hash, Save, Bookmark, SkipForward, Shield } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { FolioReservation } from "@shared/schema";
+import { format } from "date-fns";
+
+interface FolioSettingRow {
+  companyOrigin: string;
+  pattern: string;
+  year: number;
+  lastNumber: number;
+  nextFolio: string;
+}
+
+async function sendJson(method: string, url: string, body: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: "Error de red al procesar la solicitud." }));
+    throw new Error(err.error || "Error al procesar la solicitud.");
+  }
+  return res.json();
+}
+
+export default function FoliosPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const currentYear = new Date().getFullYear();
+  const [patterns, setPatterns] = useState<Record<string, string>>({});
+  const [reserveCompany, setReserveCompany] = useState<string>("");
+  const [reserveCount, setReserveCount] = useState("1");
+  const [reserveNote, setReserveNote] = useState("");
+
+  const { data: settings = [], isLoading } = useQuery<FolioSettingRow[]>({
+    queryKey: ["/api/folios/settings"],
+  });
+
+  const { data: reservations = [], isLoading: loadingReservations } = useQuery<FolioReservation[]>({
+    queryKey: [`/api/folios/reservations?year=${currentYear}`],
+  });
+
+  useEffect(() => {
+    setPatterns(Object.fromEntries(settings.map(s => [s.companyOrigin, s.pattern])));
+    if (!reserveCompany && settings.length > 0) setReserveCompany(settings[0].companyOrigin);
+  }, [settings, reserveCompany]);
+
+  const refreshFolios = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/folios/settings"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/folios/reservations?year=${currentYear}`] });
+  };
+
+  const patternMutation = useMutation({
+    mutationFn: ({ companyOrigin, pattern }: { companyOrigin: string; pattern: string }) =>
+      sendJson("PUT", `/api/folios/settings/${companyOrigin}`, { pattern }),
+    onSuccess: (_data, { companyOrigin }) => {
+      refreshFolios();
+      toast({ title: "Patrón actualizado", description: `Se guardó el patrón de folio de ${companyOrigin}.` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reservationMutation = useMutation({
+    mutationFn: (kind: "reservado" | "omitido") =>
+      sendJson("POST", "/api/folios/reservations", {
+        companyOrigin: reserveCompany,
+        count: Number(reserveCount),
+        note: reserveNote,
+        kind,
+      }),
+    onSuccess: (data: FolioReservation[], kind) => {
+      refreshFolios();
+      setReserveNote("");
+      toast({
+        title: kind === "omitido" ? "Folios omitidos" : "Folios reservados",
+        description: data.map(r => r.folio).join(", "),
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!user) {
+    return (
+      <div className="p-6 space-y-4">
+        <Skeleton className="h-6 w-64" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Hash className="h-6 w-6 text-blue-600" />
+          Folios Internos
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Consecutivos anuales por empresa emisora. Marcadores disponibles: {"{EMPRESA}"}, {"{YYYY}"}, {"{YY}"}, {"{TIPO}"} y {"{####}"}.
+        </p>
+      </div>
+
+      {!user.isAdmin && (
+        <Card className="border-amber-200 bg-amber-50/50">
+          <CardContent className="p-4 flex items-center gap-3">
+            <Shield className="h-5 w-5 text-amber-600" />
+            <p className="text-xs text-amber-800">Solo los administradores pueden modificar patrones o reservar folios.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Patrones y consecutivos {currentYear}</CardTitle>
+          <CardDescription>El siguiente folio se asigna automáticamente al crear la cotización</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4"><Skeleton className="h-10 w-full" /><Skeleton className="h-10 w-full" /></div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Empresa</TableHead>
+                  <TableHead>Patrón</TableHead>
+                  <TableHead className="text-right">Último número</TableHead>
+                  <TableHead>Siguiente folio</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {settings.map(row => (
+                  <TableRow key={row.companyOrigin}>
+                    <TableCell className="font-bold">{row.companyOrigin}</TableCell>
+                    <TableCell>
+                      <Input
+                        value={patterns[row.companyOrigin] ?? row.pattern}
+                        onChange={(e) => setPatterns(prev => ({ ...prev, [row.companyOrigin]: e.target.value }))}
+                        disabled={!user.isAdmin}
+                        className="font-mono text-xs w-64"
+                      />
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{row.lastNumber}</TableCell>
+                    <TableCell className="font-mono text-xs text-blue-700 dark:text-blue-300">{row.nextFolio}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!user.isAdmin || patternMutation.isPending || (patterns[row.companyOrigin] ?? row.pattern) === row.pattern}
+                        onClick={() => patternMutation.mutate({ companyOrigin: row.companyOrigin, pattern: patterns[row.companyOrigin] })}
+                      >
+                        <Save className="h-3 w-3 mr-1" /> Guardar
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {user.isAdmin && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Reservar u omitir números</CardTitle>
+            <CardDescription>
+              Un folio reservado queda disponible para elegirse al crear una cotización; uno omitido se descarta del consecutivo
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Empresa</Label>
+              <Select value={reserveCompany} onValueChange={setReserveCompany}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {settings.map(row => (
+                    <SelectItem key={row.companyOrigin} value={row.companyOrigin}>{row.companyOrigin}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="folio-count">Cantidad</Label>
+              <Input id="folio-count" type="number" min={1} max={50} value={reserveCount} onChange={(e) => setReserveCount(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="folio-note">Nota</Label>
+              <Input id="folio-note" value={reserveNote} onChange={(e) => setReserveNote(e.target.value)} placeholder="Motivo" />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => reservationMutation.mutate("reservado")}
+                disabled={reservationMutation.isPending || !reserveCompany}
+                className="bg-blue-600 text-white hover:bg-blue-700"
+              >
+                <Bookmark className="h-4 w-4 mr-1" /> Reservar
+              </Button>
+              <Button variant="outline" onClick={() => reservationMutation.mutate("omitido")} disabled={reservationMutation.isPending || !reserveCompany}>
+                <SkipForward className="h-4 w-4 mr-1" /> Omitir
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Folios apartados {currentYear}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loadingReservations ? (
+            <Skeleton className="h-10 w-full" />
+          ) : reservations.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No hay folios reservados ni omitidos este año.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Folio</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead>Nota</TableHead>
+                  <TableHead>Usuario</TableHead>
+                  <TableHead className="text-right">Fecha</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reservations.map(r => (
+                  <TableRow key={r.id}>
+                    <TableCell className="font-mono text-xs font-bold">{r.folio}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className={r.kind === "omitido" ? "bg-slate-100 text-slate-600" : "bg-blue-100 text-blue-700"}>
+                        {r.kind === "omitido" ? "Omitido" : "Reservado"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {r.kind === "omitido" ? "—" : r.quoteId ? "Usado" : "Disponible"}
+                    </TableCell>
+                    <TableCell className="text-xs">{r.note || "—"}</TableCell>
+                    <TableCell className="text-xs">{r.correo || "N/A"}</TableCell>
+                    <TableCell className="text-right text-xs font-mono">{format(new Date(r.createdAt), "dd/MM/yyyy HH:mm")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useRoute } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, FileText, FolderOpen, Gavel, Pencil, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { LicitacionDialog, invalidateLicitaciones } from "@/components/licitacion-dialog";
+import { LicitacionEstadoBadge } from "@/components/licitacion-estado-badge";
+import {
+  LICITACION_ESTADO_LABELS,
+  LICITACION_ESTADO_TRANSITIONS,
+  LICITACION_EVENT_LABELS,
+  LICITACION_EVENT_TYPES,
+  LICITACION_OUTCOME_ESTADOS,
+  QUOTE_STATUS_LABELS,
+  type Licitacion,
+  type LicitacionEstado,
+  type LicitacionEvent,
+  type LicitacionQuoteBudget,
+  type QuoteStatus,
+} from "@shared/schema";
+
+interface LicitacionDetail {
+  licitacion: Licitacion;
+  events: LicitacionEvent[];
+  quotes: LicitacionQuoteBudget[];
+  documents: Array<{ id: number; originalName: string; size: number; uploadedAt: string }>;
+}
+
+const money = (value: number) => value.toLocaleString("es-MX", { style: "currency", currency: "MXN" });
+
+async function sendRequest(method: string, url: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    credentials: "include",
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: "Error de red al procesar la solicitud." }));
+    throw new Error(err.error || "Error al procesar la solicitud.");
+  }
+  return res.status === 204 ? null : res.json();
+}
+
+export default function LicitacionDetailPage() {
+  const [, params] = useRoute("/licitaciones/:id");
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const licitacionId = Number(params?.id);
+  const [editOpen, setEditOpen] = useState(false);
+  const [outcomeEstado, setOutcomeEstado] = useState<LicitacionEstado | null>(null);
+  const [outcome, setOutcome] = useState({ ganador: "", montoAdjudicado: "", resultado: "" });
+
+  const { data, isLoading, error } = useQuery<LicitacionDetail>({
+    queryKey: [`/api/licitaciones/${licitacionId}`],
+    enabled: Number.isInteger(licitacionId),
+  });
+
+  const onError = (err: any) => toast({ title: "Error", description: err.message, variant: "destructive" });
+
+  const statusMutation = useMutation({
+    mutationFn: (body: { estado: LicitacionEstado; ganador?: string; montoAdjudicado?: string; resultado?: string }) =>
+      sendRequest("POST", `/api/licitaciones/${licitacionId}/status`, body),
+    onSuccess: (_data, body) => {
+      invalidateLicitaciones();
+      toast({ title: "Estado actualizado", description: LICITACION_ESTADO_LABELS[body.estado] });
+      setOutcomeEstado(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => sendRequest("DELETE", `/api/licitaciones/${licitacionId}`),
+    onSuccess: () => {
+      invalidateLicitaciones();
+      toast({ title: "Licitación eliminada" });
+      setLocation("/licitaciones");
+    },
+    onError,
+  });
+
+  // Los estados con fallo piden el resultado antes de cambiar
+  const changeEstado = (estado: LicitacionEstado) => {
+    if (LICITACION_OUTCOME_ESTADOS.includes(estado)) {
+      setOutcome({
+        ganador: data?.licitacion.ganador ?? "",
+        montoAdjudicado: data?.licitacion.montoAdjudicado ?? "",
+        resultado: data?.licitacion.resultado ?? "",
+      });
+      setOutcomeEstado(estado);
+      return;
+    }
+    if (confirm(`¿Cambiar la licitación a "${LICITACION_ESTADO_LABELS[estado]}"?`)) statusMutation.mutate({ estado });
+  };
+
+  if (!user || isLoading) {
+    return (
+      <div className="p-6 space-y-4">
+        <Skeleton className="h-6 w-64" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="p-6 space-y-4">
+        <Link href="/licitaciones" className="text-sm text-blue-600 hover:underline">Volver a licitaciones</Link>
+        <p className="text-sm text-muted-foreground">{(error as Error)?.message || "Licitación no encontrada."}</p>
+      </div>
+    );
+  }
+
+  const { licitacion, events, quotes, documents } = data;
+  const transitions = LICITACION_ESTADO_TRANSITIONS[licitacion.estado as LicitacionEstado] ?? [];
+  const presupuesto = Number(licitacion.presupuesto) || 0;
+  const lowest = quotes.length > 0 ? Math.min(...quotes.map(quote => quote.totalMxn)) : null;
+  const hasOutcome = !!(licitacion.ganador || licitacion.montoAdjudicado || licitacion.resultado);
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <Link href="/licitaciones" className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline">
+        <ArrowLeft className="h-4 w-4" /> Licitaciones
+      </Link>
+
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Gavel className="h-6 w-6 text-blue-600" />
+            {licitacion.numeroLicitacion}
+            <LicitacionEstadoBadge estado={licitacion.estado} />
+          </h1>
+          <p className="text-base mt-1">{licitacion.titulo}</p>
+          <p className="text-sm text-muted-foreground">{licitacion.cliente}</p>
+          {licitacion.descripcion && <p className="text-xs text-muted-foreground mt-2 whitespace-pre-line">{licitacion.descripcion}</p>}
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          {transitions.map(estado => (
+            <Button key={estado} size="sm" variant="outline" disabled={statusMutation.isPending} onClick={() => changeEstado(estado)}>
+              {LICITACION_ESTADO_LABELS[estado]}
+            </Button>
+          ))}
+          <Button size="sm" variant="outline" onClick={() => setEditOpen(true)}>
+            <Pencil className="h-3 w-3 mr-1" /> Editar
+          </Button>
+          {user.isAdmin && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="text-red-600"
+              disabled={deleteMutation.isPending}
+              onClick={() => {
+                if (confirm(`¿Eliminar la licitación ${licitacion.numeroLicitacion}?`)) deleteMutation.mutate();
+              }}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Etapas</CardTitle>
+            <CardDescription>Hora del centro de México.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-3">
+              {LICITACION_EVENT_TYPES.map(type => {
+                const event = events.find(entry => entry.type === type);
+                return (
+                  <li key={type} className="flex items-start justify-between gap-3 border-b border-border pb-2 last:border-0">
+                    <div>
+                      <p className="text-sm font-medium">{LICITACION_EVENT_LABELS[type]}</p>
+                      {event?.location && <p className="text-xs text-muted-foreground">{event.location}</p>}
+                    </div>
+                    <span className={`text-xs whitespace-nowrap ${event ? "" : "text-muted-foreground"}`}>
+                      {event ? `${event.eventDate}${event.eventTime ? ` ${event.eventTime}` : ""}` : "Sin fecha"}
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+          </CardContent>
+        </Card>
+
+        <Card className="xl:col-span-2">
+          <CardHeader>
+            <CardTitle>Presupuesto y cotizaciones</CardTitle>
+            <CardDescription>
+              {presupuesto > 0 ? `Presupuesto: ${money(presupuesto)}` : "Sin presupuesto capturado"}
+              {lowest !== null && ` · Oferta más baja: ${money(lowest)}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {quotes.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                No hay cotizaciones ligadas. Elige esta licitación al capturar una cotización.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Folio</TableHead>
+                    <TableHead>Empresa</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">% del presupuesto</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {quotes.map(quote => (
+                    <TableRow key={quote.id}>
+                      <TableCell className="font-mono text-xs font-bold text-blue-700 dark:text-sky-300">{quote.internalFolio}</TableCell>
+                      <TableCell className="text-xs">{quote.companyOrigin}</TableCell>
+                      <TableCell className="text-xs">{QUOTE_STATUS_LABELS[quote.status as QuoteStatus] ?? quote.status}</TableCell>
+                      <TableCell className="text-right text-xs">
+                        <div>{money(quote.totalMxn)}</div>
+                        {quote.currency !== "MXN" && (
+                          <div className="text-muted-foreground">{quote.total.toLocaleString("es-MX", { style: "currency", currency: quote.currency })}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right text-xs">
+                        {quote.budgetPercent === null ? "—" : (
+                          <Badge variant="secondary" className={quote.overBudget ? "bg-red-100 text-red-700" : "bg-emerald-100 text-emerald-700"}>
+                            {quote.budgetPercent}%
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div>
+              <CardTitle>Documentos</CardTitle>
+              <CardDescription>Bases, anexos y actas de la carpeta ligada.</CardDescription>
+            </div>
+            {licitacion.folderId && (
+              <Link href={`/folders/${licitacion.folderId}`} className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline">
+                <FolderOpen className="h-3 w-3" /> Abrir carpeta
+              </Link>
+            )}
+          </CardHeader>
+          <CardContent>
+            {!licitacion.folderId ? (
+              <p className="text-sm text-muted-foreground">Sin carpeta ligada. Elígela al editar la licitación.</p>
+            ) : documents.length === 0 ? (
+              <p className="text-sm text-muted-foreground">La carpeta no tiene archivos.</p>
+            ) : (
+              <ul className="space-y-2">
+                {documents.map(document => (
+                  <li key={document.id}>
+                    <a href={`/api/files/${document.id}/download`} className="flex items-center gap-2 text-sm text-blue-600 hover:underline">
+                      <FileText className="h-4 w-4 shrink-0" />
+                      <span className="truncate">{document.originalName}</span>
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="xl:col-span-2">
+          <CardHeader>
+            <CardTitle>Resultado</CardTitle>
+            <CardDescription>Se captura al registrar el fallo.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!hasOutcome ? (
+              <p className="text-sm text-muted-foreground">Sin fallo registrado.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                <div><span className="text-muted-foreground">Ganador:</span> {licitacion.ganador || "—"}</div>
+                <div>
+                  <span className="text-muted-foreground">Monto adjudicado:</span>{" "}
+                  {licitacion.montoAdjudicado ? money(Number(licitacion.montoAdjudicado)) : "—"}
+                </div>
+                {licitacion.resultado && <p className="md:col-span-2 text-xs whitespace-pre-line">{licitacion.resultado}</p>}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <LicitacionDialog open={editOpen} onOpenChange={setEditOpen} licitacion={licitacion} events={events} />
+
+      <Dialog open={outcomeEstado !== null} onOpenChange={(open) => !open && setOutcomeEstado(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{outcomeEstado ? LICITACION_ESTADO_LABELS[outcomeEstado] : ""}</DialogTitle>
+            <DialogDescription>Resultado del fallo de {licitacion.numeroLicitacion}.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="outcome-ganador">Ganador</Label>
+              <Input id="outcome-ganador" value={outcome.ganador} onChange={(e) => setOutcome(prev => ({ ...prev, ganador: e.target.value }))} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="outcome-monto">Monto adjudicado (MXN)</Label>
+              <Input id="outcome-monto" type="number" min={0} value={outcome.montoAdjudicado} onChange={(e) => setOutcome(prev => ({ ...prev, montoAdjudicado: e.target.value }))} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="outcome-resultado">Observaciones</Label>
+              <Textarea id="outcome-resultado" rows={3} value={outcome.resultado} onChange={(e) => setOutcome(prev => ({ ...prev, resultado: e.target.value }))} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOutcomeEstado(null)}>Cancelar</Button>
+            <Button
+              onClick={() => outcomeEstado && statusMutation.mutate({ estado: outcomeEstado, ...outcome })}
+              disabled={statusMutation.isPending}
+              className="bg-blue-600 text-white hover:bg-blue-700"
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
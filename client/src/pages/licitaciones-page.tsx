@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Gavel, Plus } from "lucide-react";
+import { LicitacionDialog } from "@/components/licitacion-dialog";
+import { LicitacionCalendar } from "@/components/licitacion-calendar";
+import { CalendarFeedCard } from "@/components/calendar-feed-card";
+import { LicitacionEstadoBadge } from "@/components/licitacion-estado-badge";
+import {
+  LICITACION_ESTADOS,
+  LICITACION_ESTADO_LABELS,
+  LICITACION_EVENT_LABELS,
+  type LicitacionEstado,
+  type LicitacionEventType,
+  type LicitacionResponse,
+} from "@shared/schema";
+
+const money = (value: number) => value.toLocaleString("es-MX", { style: "currency", currency: "MXN" });
+
+function nextEvent(licitacion: LicitacionResponse, today: string) {
+  return licitacion.events.find(event => event.eventDate >= today);
+}
+
+export default function LicitacionesPage() {
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [estadoFilter, setEstadoFilter] = useState<LicitacionEstado | "todos">("todos");
+  const [search, setSearch] = useState("");
+
+  const { data: licitaciones = [], isLoading } = useQuery<LicitacionResponse[]>({ queryKey: ["/api/licitaciones"] });
+
+  const today = new Date().toISOString().split("T")[0];
+  const term = search.trim().toLowerCase();
+  const visible = licitaciones.filter(licitacion => (estadoFilter === "todos" || licitacion.estado === estadoFilter)
+    && (!term || `${licitacion.numeroLicitacion} ${licitacion.titulo} ${licitacion.cliente}`.toLowerCase().includes(term)));
+
+  if (!user) {
+    return (
+      <div className="p-6 space-y-4">
+        <Skeleton className="h-6 w-64" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Gavel className="h-6 w-6 text-blue-600" />
+            Licitaciones
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Procedimientos de contratación con sus etapas, cotizaciones ligadas y resultado del fallo.
+          </p>
+        </div>
+        <Button onClick={() => setIsDialogOpen(true)} className="bg-blue-600 text-white hover:bg-blue-700">
+          <Plus className="h-4 w-4 mr-1" /> Nueva licitación
+        </Button>
+      </div>
+
+      <Tabs defaultValue="lista">
+        <TabsList>
+          <TabsTrigger value="lista">Lista</TabsTrigger>
+          <TabsTrigger value="calendario">Calendario</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="lista">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div>
+                <CardTitle>Procedimientos</CardTitle>
+                <CardDescription>La próxima etapa se toma de las fechas capturadas.</CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Input className="w-64" placeholder="Buscar" value={search} onChange={(e) => setSearch(e.target.value)} />
+                <Select value={estadoFilter} onValueChange={(value) => setEstadoFilter(value as LicitacionEstado | "todos")}>
+                  <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="todos">Todos los estados</SelectItem>
+                    {LICITACION_ESTADOS.map(estado => (
+                      <SelectItem key={estado} value={estado}>{LICITACION_ESTADO_LABELS[estado]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-4"><Skeleton className="h-10 w-full" /><Skeleton className="h-10 w-full" /></div>
+              ) : visible.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">No hay licitaciones registradas.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Licitación</TableHead>
+                      <TableHead>Convocante</TableHead>
+                      <TableHead>Próxima etapa</TableHead>
+                      <TableHead className="text-right">Presupuesto</TableHead>
+                      <TableHead className="text-center">Cotizaciones</TableHead>
+                      <TableHead>Estado</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visible.map(licitacion => {
+                      const upcoming = nextEvent(licitacion, today);
+                      return (
+                        <TableRow key={licitacion.id} className="cursor-pointer" onClick={() => setLocation(`/licitaciones/${licitacion.id}`)}>
+                          <TableCell className="max-w-md">
+                            <Link href={`/licitaciones/${licitacion.id}`} className="font-mono text-xs font-bold text-blue-700 dark:text-sky-300">
+                              {licitacion.numeroLicitacion}
+                            </Link>
+                            <div className="text-sm truncate">{licitacion.titulo}</div>
+                          </TableCell>
+                          <TableCell className="text-xs">{licitacion.cliente}</TableCell>
+                          <TableCell className="text-xs">
+                            {upcoming ? (
+                              <>
+                                <div>{LICITACION_EVENT_LABELS[upcoming.type as LicitacionEventType] ?? upcoming.type}</div>
+                                <div className="text-muted-foreground">{upcoming.eventDate}{upcoming.eventTime && ` ${upcoming.eventTime}`}</div>
+                              </>
+                            ) : "—"}
+                          </TableCell>
+                          <TableCell className="text-right text-xs">{licitacion.presupuesto ? money(licitacion.presupuesto) : "—"}</TableCell>
+                          <TableCell className="text-center text-xs">{licitacion.quoteCount}</TableCell>
+                          <TableCell>
+                            <LicitacionEstadoBadge estado={licitacion.estado} />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="calendario" className="space-y-6">
+          <Card>
+            <CardContent className="pt-6">
+              <LicitacionCalendar />
+            </CardContent>
+          </Card>
+          <CalendarFeedCard />
+        </TabsContent>
+      </Tabs>
+
+      <LicitacionDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        licitacion={null}
+        onSaved={(saved) => setLocation(`/licitaciones/${saved.id}`)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useRoute } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, FileText, Trash2, Upload, Users } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ProviderDocumentStatusBadge, PROVIDER_DOCUMENT_STATUS_COLORS } from "@/components/provider-document-status-badge";
+import {
+  PROVIDER_DOCUMENT_TYPES,
+  PROVIDER_DOCUMENT_TYPE_LABELS,
+  PROVIDER_DOCUMENT_VALIDITY_DAYS,
+  type Provider,
+  type ProviderCompliance,
+  type ProviderDocumentResponse,
+  type ProviderDocumentType,
+} from "@shared/schema";
+
+interface ProviderDocumentsInfo {
+  compliance: ProviderCompliance;
+  documents: ProviderDocumentResponse[];
+}
+
+interface UploadForm {
+  type: ProviderDocumentType;
+  issueDate: string;
+  expiryDate: string;
+  notes: string;
+  file: File | null;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+function addDays(isoDate: string, days: number) {
+  return new Date(Date.parse(`${isoDate}T00:00:00Z`) + days * 86400000).toISOString().split("T")[0];
+}
+
+// Vencimiento sugerido a partir de la emisión; el acta y el poder no vencen
+function suggestedExpiry(type: ProviderDocumentType, issueDate: string) {
+  const days = PROVIDER_DOCUMENT_VALIDITY_DAYS[type];
+  return days && issueDate ? addDays(issueDate, days) : "";
+}
+
+function remainingLabel(daysRemaining: number | null) {
+  if (daysRemaining === null) return "Sin vencimiento";
+  if (daysRemaining < 0) return `Venció hace ${-daysRemaining} día${daysRemaining === -1 ? "" : "s"}`;
+  if (daysRemaining === 0) return "Vence hoy";
+  return `Vence en ${daysRemaining} día${daysRemaining === 1 ? "" : "s"}`;
+}
+
+export default function ProviderDetailPage() {
+  const [, params] = useRoute("/providers/:id");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const providerId = Number(params?.id);
+  const [upload, setUpload] = useState<UploadForm | null>(null);
+
+  const { data: provider, isLoading, error } = useQuery<Provider>({
+    queryKey: [`/api/providers/${providerId}`],
+    enabled: Number.isInteger(providerId),
+  });
+  const { data: info } = useQuery<ProviderDocumentsInfo>({
+    queryKey: [`/api/providers/${providerId}/documents`],
+    enabled: Number.isInteger(providerId),
+  });
+
+  const invalidateDocuments = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/providers/${providerId}/documents`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/providers/compliance"] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (form: UploadForm) => {
+      const body = new FormData();
+      body.append("file", form.file!);
+      body.append("type", form.type);
+      body.append("issueDate", form.issueDate);
+      body.append("expiryDate", form.expiryDate);
+      body.append("notes", form.notes);
+      const res = await fetch(`/api/providers/${providerId}/documents`, { method: "POST", body, credentials: "include" });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "Error al subir el documento." }));
+        throw new Error(err.error || "Error al subir el documento.");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateDocuments();
+      toast({ title: "Documento guardado" });
+      setUpload(null);
+    },
+    onError: (err: any) => toast({ title: "Error", description: err.message, variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (documentId: number) => {
+      const res = await fetch(`/api/providers/${providerId}/documents/${documentId}`, { method: "DELETE", credentials: "include" });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "Error al eliminar el documento." }));
+        throw new Error(err.error || "Error al eliminar el documento.");
+      }
+    },
+    onSuccess: () => {
+      invalidateDocuments();
+      toast({ title: "Documento eliminado" });
+    },
+    onError: (err: any) => toast({ title: "Error", description: err.message, variant: "destructive" }),
+  });
+
+  const openUpload = (type: ProviderDocumentType) => {
+    const issueDate = today();
+    setUpload({ type, issueDate, expiryDate: suggestedExpiry(type, issueDate), notes: "", file: null });
+  };
+
+  // Cambiar el tipo o la emisión recalcula el vencimiento sugerido
+  const updateUpload = (data: Partial<UploadForm>) => setUpload(prev => {
+    if (!prev) return prev;
+    const next = { ...prev, ...data };
+    if (data.type !== undefined || data.issueDate !== undefined) next.expiryDate = suggestedExpiry(next.type, next.issueDate);
+    return next;
+  });
+
+  if (!user || isLoading) {
+    return (
+      <div className="p-6 space-y-4">
+        <Skeleton className="h-6 w-64" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !provider) {
+    return (
+      <div className="p-6 space-y-4">
+        <Link href="/providers" className="text-sm text-blue-600 hover:underline">Volver a proveedores</Link>
+        <p className="text-sm text-muted-foreground">{(error as Error)?.message || "Proveedor no encontrado."}</p>
+      </div>
+    );
+  }
+
+  const fileUrl = (document: ProviderDocumentResponse) => `/api/providers/${providerId}/documents/${document.id}/file`;
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <Link href="/providers" className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline">
+        <ArrowLeft className="h-4 w-4" /> Proveedores
+      </Link>
+
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Users className="h-6 w-6 text-blue-600" />
+            {provider.companyName}
+            {info && <ProviderDocumentStatusBadge status={info.compliance.status} />}
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">{provider.businessActivity}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Datos generales</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div><span className="text-muted-foreground">RFC:</span> <span className="font-mono">{provider.rfc || "—"}</span></div>
+            <div><span className="text-muted-foreground">Representante legal:</span> {provider.legalRepresentative}</div>
+            <div><span className="text-muted-foreground">Domicilio:</span> {provider.legalAddress || "—"}</div>
+            <div><span className="text-muted-foreground">Teléfono:</span> {provider.phone}</div>
+            <div><span className="text-muted-foreground">Correo:</span> {provider.email}</div>
+            <div className="border-t border-border pt-2">
+              <span className="text-muted-foreground">Banco:</span> {provider.bankName || "—"}
+              {provider.bankAccount && <div className="font-mono text-xs">CLABE {provider.bankAccount}</div>}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="xl:col-span-2">
+          <CardHeader>
+            <CardTitle>Documentos de cumplimiento</CardTitle>
+            <CardDescription>Se toma el documento de emisión más reciente de cada tipo.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!info ? (
+              <Skeleton className="h-40 w-full" />
+            ) : (
+              <ul className="space-y-2">
+                {info.compliance.items.map(item => (
+                  <li key={item.type} className={`flex items-center justify-between gap-3 rounded-lg px-3 py-2 ${PROVIDER_DOCUMENT_STATUS_COLORS[item.status]}`}>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">{PROVIDER_DOCUMENT_TYPE_LABELS[item.type]}</p>
+                      {item.document ? (
+                        <p className="text-xs">
+                          Emitido {item.document.issueDate} · {remainingLabel(item.daysRemaining)} ·{" "}
+                          <a href={fileUrl(item.document)} target="_blank" rel="noopener noreferrer" className="underline">{item.document.fileName}</a>
+                        </p>
+                      ) : (
+                        <p className="text-xs">Sin documento cargado</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <ProviderDocumentStatusBadge status={item.status} />
+                      <Button size="sm" variant="outline" className="bg-white/70" onClick={() => openUpload(item.type)}>
+                        <Upload className="h-3 w-3 mr-1" /> {item.document ? "Actualizar" : "Subir"}
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="xl:col-span-3">
+          <CardHeader>
+            <CardTitle>Historial de documentos</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!info || info.documents.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No hay documentos cargados.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Archivo</TableHead>
+                    <TableHead>Emisión</TableHead>
+                    <TableHead>Vencimiento</TableHead>
+                    <TableHead>Notas</TableHead>
+                    <TableHead className="w-10"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {info.documents.map(document => (
+                    <TableRow key={document.id}>
+                      <TableCell className="text-xs">{PROVIDER_DOCUMENT_TYPE_LABELS[document.type as ProviderDocumentType] ?? document.type}</TableCell>
+                      <TableCell className="text-xs">
+                        <a href={fileUrl(document)} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-blue-600 hover:underline">
+                          <FileText className="h-3 w-3" /> {document.fileName}
+                        </a>
+                      </TableCell>
+                      <TableCell className="text-xs">{document.issueDate}</TableCell>
+                      <TableCell className="text-xs">{document.expiryDate || "Sin vencimiento"}</TableCell>
+                      <TableCell className="text-xs max-w-xs truncate">{document.notes}</TableCell>
+                      <TableCell>
+                        {(user.isAdmin || document.uploadedBy === user.id) && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-red-600"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => {
+                              if (confirm(`¿Eliminar ${document.fileName}?`)) deleteMutation.mutate(document.id);
+                            }}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={upload !== null} onOpenChange={(open) => !open && setUpload(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Subir documento</DialogTitle>
+            <DialogDescription>PDF, JPG o PNG de hasta 10 MB.</DialogDescription>
+          </DialogHeader>
+          {upload && (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label>Tipo</Label>
+                <Select value={upload.type} onValueChange={(value) => updateUpload({ type: value as ProviderDocumentType })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {PROVIDER_DOCUMENT_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{PROVIDER_DOCUMENT_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="document-issue">Fecha de emisión</Label>
+                  <Input id="document-issue" type="date" max={today()} value={upload.issueDate} onChange={(e) => updateUpload({ issueDate: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="document-expiry">Vencimiento</Label>
+                  <Input id="document-expiry" type="date" min={upload.issueDate} value={upload.expiryDate} onChange={(e) => setUpload({ ...upload, expiryDate: e.target.value })} />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="document-file">Archivo</Label>
+                <Input id="document-file" type="file" accept=".pdf,.jpg,.jpeg,.png" onChange={(e) => setUpload({ ...upload, file: e.target.files?.[0] ?? null })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="document-notes">Notas</Label>
+                <Textarea id="document-notes" rows={2} value={upload.notes} onChange={(e) => setUpload({ ...upload, notes: e.target.value })} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUpload(null)}>Cancelar</Button>
+            <Button
+              onClick={() => upload && uploadMutation.mutate(upload)}
+              disabled={uploadMutation.isPending || !upload?.file || !upload.issueDate}
+              className="bg-blue-600 text-white hover:bg-blue-700"
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Users } from "lucide-react";
+import { ProviderDocumentStatusBadge } from "@/components/provider-document-status-badge";
+import type { Provider, ProviderCompliance } from "@shared/schema";
+
+export default function ProvidersPage() {
+  const [, setLocation] = useLocation();
+  const [search, setSearch] = useState("");
+
+  const { data: providers = [], isLoading } = useQuery<Provider[]>({ queryKey: ["/api/providers"] });
+  const { data: compliance = [] } = useQuery<ProviderCompliance[]>({ queryKey: ["/api/providers/compliance"] });
+
+  const term = search.trim().toLowerCase();
+  const visible = providers.filter(provider => !term || `${provider.companyName} ${provider.rfc}`.toLowerCase().includes(term));
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Users className="h-6 w-6 text-blue-600" />
+          Proveedores
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Empresas que cotizan y el estado de sus documentos de cumplimiento para las licitaciones.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle>Empresas registradas</CardTitle>
+            <CardDescription>Los proveedores nuevos se registran desde Cotizaciones.</CardDescription>
+          </div>
+          <Input className="w-64" placeholder="Buscar por razón social o RFC" value={search} onChange={(e) => setSearch(e.target.value)} />
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4"><Skeleton className="h-10 w-full" /><Skeleton className="h-10 w-full" /></div>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No hay proveedores registrados.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Razón social</TableHead>
+                  <TableHead>RFC</TableHead>
+                  <TableHead>Banco</TableHead>
+                  <TableHead>Documentos</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map(provider => {
+                  const summary = compliance.find(entry => entry.providerId === provider.id);
+                  const expired = summary?.items.filter(item => item.status === "vencido").length ?? 0;
+                  return (
+                    <TableRow key={provider.id} className="cursor-pointer" onClick={() => setLocation(`/providers/${provider.id}`)}>
+                      <TableCell>
+                        <Link href={`/providers/${provider.id}`} className="font-medium text-blue-700 dark:text-sky-300">{provider.companyName}</Link>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{provider.rfc || "—"}</TableCell>
+                      <TableCell className="text-xs">
+                        <div>{provider.bankName || "—"}</div>
+                        {provider.bankAccount && <div className="font-mono text-muted-foreground">{provider.bankAccount}</div>}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {summary && (
+                          <div className="flex items-center gap-2">
+                            <ProviderDocumentStatusBadge status={summary.status} />
+                            {expired > 0 && <span className="text-red-600">{expired} vencido{expired === 1 ? "" : "s"}</span>}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
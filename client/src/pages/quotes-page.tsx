@@ -3,18 +3,82 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 // 🚀 AÑADIDOS LOS ICONOS NUEVOS PARA LAS TARJETAS (Building2, Package, Wrench, ArrowLeft)
-import { Plus, Trash2, Users, FileText, Clock, Award, Building, Folder, MoreVertical, Download, Edit3, Building2, Package, Wrench, ArrowLeft } from "lucide-react";
+import { Plus, Trash2, Users, FileText, Clock, Award, Building, Folder, MoreVertical, Download, Edit3, Building2, Package, Wrench, ArrowLeft, GitBranch, History, FolderInput, Layers, Loader2, RotateCcw, FileSpreadsheet, Copy, BookOpen, CalendarClock, Mail, Eye } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { useMutation, useQuery } from "@tanstack/react-query";
-import { queryClient } from "@/lib/queryClient";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuSub, DropdownMenuSubContent, DropdownMenuSubTrigger, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useInfiniteQuery, useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { DynamicFormRenderer } from "@/components/quotations/DynamicFormRenderer";
+import { useAuth } from "@/hooks/use-auth";
+import { useRenewQuoteValidity } from "@/hooks/use-renew-quote-validity";
+import { usePdfJobs } from "@/hooks/use-pdf-jobs";
+import { DynamicFormRenderer, formClauseCategories } from "@/components/quotations/DynamicFormRenderer";
+import { ImportPartidasDialog, type PartidaImportMode } from "@/components/quotations/ImportPartidasDialog";
+import { QuoteTaxPanel } from "@/components/quotations/QuoteTaxPanel";
+import { QuoteCurrencyPanel } from "@/components/quotations/QuoteCurrencyPanel";
+import { ClientContactPicker } from "@/components/quotations/ClientContactPicker";
+import { QuoteLicitacionSelect } from "@/components/quotations/QuoteLicitacionSelect";
+import { ProviderComplianceWarning } from "@/components/quotations/ProviderComplianceWarning";
+import { QuotePreviewPane } from "@/components/quotations/QuotePreviewPane";
+import { ClauseLibraryDialog, applyClauseEntries } from "@/components/quotations/ClauseLibraryDialog";
 import type { AMSFormData, QuoteFormType } from "@/components/quotations/forms/form-types";
-import { defaultAMSFormData, defaultLineItem } from "@/components/quotations/forms/form-types";
+import { clientContactFields, defaultAMSFormData, defaultLineItem, type LineItem as FormLineItem } from "@/components/quotations/forms/form-types";
+import { QuoteRevisionsDialog } from "@/components/quote-revisions-dialog";
+import { QuoteCloneDialog } from "@/components/quote-clone-dialog";
+import { QuoteEmailDialog } from "@/components/quote-email-dialog";
+import { daysRemainingLabel } from "@/components/expiring-quotes-card";
+import { clabeBankName, validateClabe, validateRfc } from "@shared/fiscal";
+import { quoteFieldErrorMessages, type QuoteFieldErrors } from "@shared/quote-input";
+import {
+  QUOTE_STATUSES,
+  QUOTE_STATUS_LABELS,
+  QUOTE_STATUS_TRANSITIONS,
+  quoteTransitionRequiresAdmin,
+  PDF_ENABLED_QUOTE_STATUSES,
+  EDITABLE_QUOTE_STATUSES,
+  canRenewQuoteValidity,
+  type QuoteStatus,
+  type QuoteStatusChange,
+  type FolioReservation,
+  type CompanyResponse,
+  type QuoteTaxSettings,
+  type QuoteCurrencySettings,
+  type ClauseLibraryEntry,
+  type ClientContact,
+  type ClientResponse,
+  type QuoteMarginSummary,
+  type QuoteMarginWarning,
+  type QuoteExpiryFilter,
+  type QuoteListResponse,
+  QUOTE_EXPIRY_STATUS_LABELS,
+  QUOTE_SORT_OPTIONS,
+  PDF_JOB_STATUS_LABELS,
+  DEFAULT_QUOTE_TAX_SETTINGS,
+  DEFAULT_QUOTE_CURRENCY_SETTINGS,
+  isQuoteCurrency,
+} from "@shared/schema";
+
+// Error del servidor cuando una partida queda debajo del margen mínimo
+class QuoteMarginError extends Error {
+  constructor(message: string, public marginWarnings: QuoteMarginWarning[]) {
+    super(message);
+  }
+}
+
+// Error del servidor con los campos de la cotización que no pasaron la validación
+class QuoteInputError extends Error {
+  constructor(message: string, public fieldErrors: QuoteFieldErrors) {
+    super(message);
+  }
+}
+
+const marginSummaryText = (margins?: QuoteMarginSummary) =>
+  margins && margins.weightedMarginPercent !== null
+    ? `Utilidad ${margins.totalUtility.toLocaleString("es-MX", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} · margen ${margins.weightedMarginPercent.toFixed(2)}%`
+    : "";
 
 interface LineItem {
   id: number;
@@ -45,11 +109,26 @@ const normalizeUnitMeasure = (value: string) => {
   return unitMeasureAbbreviations[normalized] || value;
 };
 
+const quoteStatusBadgeClasses: Record<QuoteStatus, string> = {
+  borrador: "bg-slate-100 text-slate-700",
+  en_revision: "bg-amber-100 text-amber-700",
+  aprobada: "bg-sky-100 text-sky-700",
+  enviada: "bg-indigo-100 text-indigo-700",
+  ganada: "bg-emerald-100 text-emerald-700",
+  perdida: "bg-red-100 text-red-700",
+  cancelada: "bg-zinc-200 text-zinc-600",
+};
+
+const resolveQuoteStatus = (value: string | undefined): QuoteStatus =>
+  (QUOTE_STATUSES as readonly string[]).includes(value || "") ? (value as QuoteStatus) : "borrador";
+
 export default function QuotesPage() {
   const { toast } = useToast();
+  const { user } = useAuth();
   
   const [isVendorModalOpen, setIsVendorModalOpen] = useState(false);
   const [isQuoteModalOpen, setIsQuoteModalOpen] = useState(false);
+  const [quoteFieldErrors, setQuoteFieldErrors] = useState<QuoteFieldErrors>({});
 
   // 🚀 NUEVOS ESTADOS PARA EL WIZARD (PASOS)
   const [wizardStep, setWizardStep] = useState(1);
@@ -70,6 +149,18 @@ export default function QuotesPage() {
     bankAccount: "",
     bankBeneficiary: ""
   });
+  // Errores por campo que devuelve el servidor al guardar el proveedor
+  const [vendorFieldErrors, setVendorFieldErrors] = useState<Record<string, string>>({});
+  const vendorRfcError = validateRfc(vendorData.rfc);
+  const vendorClabeError = validateClabe(vendorData.bankAccount);
+
+  // El banco se llena con el prefijo de la CLABE mientras no se haya capturado otro a mano
+  const handleVendorClabeChange = (bankAccount: string) => setVendorData(prev => {
+    const previousBank = clabeBankName(prev.bankAccount);
+    const bank = clabeBankName(bankAccount);
+    const autoFilled = !prev.bankName || prev.bankName === previousBank;
+    return { ...prev, bankAccount, bankName: autoFilled ? bank ?? "" : prev.bankName };
+  });
 
   // ================= ESTADOS DE COTIZACIÓN (QUOTES) =================
   const [quoteData, setQuoteData] = useState({
@@ -99,12 +190,41 @@ export default function QuotesPage() {
 
   const [quoteType, setQuoteType] = useState<QuoteFormType>("bienes");
   const [amsFormData, setAmsFormData] = useState<AMSFormData>(defaultAMSFormData);
+  // Los formularios solo leen sus valores al montarse; al importar partidas se vuelven a montar
+  const [formVersion, setFormVersion] = useState(0);
+  const [importPartidasOpen, setImportPartidasOpen] = useState(false);
+  const [clauseLibraryOpen, setClauseLibraryOpen] = useState(false);
+  const [previewOpen, setPreviewOpen] = useState(false);
+  // Impuestos de la propuesta; las partidas exentas se identifican por el id de la partida del formulario
+  const [taxSettings, setTaxSettings] = useState<QuoteTaxSettings>(DEFAULT_QUOTE_TAX_SETTINGS);
+  const [exemptItemIds, setExemptItemIds] = useState<number[]>([]);
+  const [currencySettings, setCurrencySettings] = useState<QuoteCurrencySettings>(DEFAULT_QUOTE_CURRENCY_SETTINGS);
 
   // 🚀 INICIALIZAMOS LOS NUEVOS CAMPOS INTERNOS EN LA PARTIDA VACÍA
   const [lineItems, setLineItems] = useState<LineItem[]>([
     { id: 1, description: "", techRequirements: "", versionReference: "", reqDate: "", quantity: 1, unitMeasure: "KG", unitPrice: 0, supplier: "", purchaseCost: 0, profitMargin: 0, profitFactor: 1 }
   ]);
   const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<QuoteStatus | "todos">("todos");
+  const [expiryFilter, setExpiryFilter] = useState<QuoteExpiryFilter | "todas">("todas");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [listFilters, setListFilters] = useState({
+    companyOrigin: "todas",
+    proposalType: "todos",
+    providerId: "todos",
+    from: "",
+    to: "",
+    minTotal: "",
+    maxTotal: "",
+    totalCurrency: "MXN",
+    sort: "auto",
+  });
+  const [historyQuote, setHistoryQuote] = useState<any | null>(null);
+  const [revisionsQuote, setRevisionsQuote] = useState<any | null>(null);
+  const [cloneQuote, setCloneQuote] = useState<any | null>(null);
+  const [emailQuote, setEmailQuote] = useState<any | null>(null);
+  const [exportModalOpen, setExportModalOpen] = useState(false);
+  const [exportFilters, setExportFilters] = useState({ from: "", to: "", companyOrigin: "todas" });
 
   const [selectedVendorId, setSelectedVendorId] = useState<string>("");
 
@@ -113,11 +233,13 @@ export default function QuotesPage() {
   // Estado de edición: id y folio original de la cotización que se está editando
   const [editingQuoteId, setEditingQuoteId] = useState<number | null>(null);
   const [editingFolio, setEditingFolio] = useState<string>("");
+  const [reservedFolio, setReservedFolio] = useState<string>("");
   const [rootFolders, setRootFolders] = useState<any[]>([]);
   const [subfolders, setSubfolders] = useState<any[]>([]);
   const [currentPathBreadcrumbs, setCurrentPathBreadcrumbs] = useState<any[]>([]);
   const [selectedFolder, setSelectedFolder] = useState<any | null>(null);
   const [savingPdf, setSavingPdf] = useState(false);
+  const { jobs: pdfJobs, startJob: startPdfJob, retryJob: retryPdfJob } = usePdfJobs();
 
   useEffect(() => {
     if (!selectFolderModalOpen) return;
@@ -192,26 +314,89 @@ export default function QuotesPage() {
   });
 
   const selectedVendor = vendors.find(v => v.id?.toString() === selectedVendorId);
+  // M-01/M-02: proveedor registrado que corresponde a la empresa seleccionada
+  const quoteVendor = selectedCompany
+    ? vendors.find(v => v.companyName && v.companyName.toUpperCase().includes(selectedCompany.toUpperCase()))
+    : undefined;
 
-  const { data: quotes = [], isLoading: loadingQuotes } = useQuery<any[]>({ 
-    queryKey: ["/api/quotes"],
-    refetchInterval: 2000,
-    refetchIntervalInBackground: true
+  const { data: companies = [] } = useQuery<CompanyResponse[]>({
+    queryKey: ["/api/companies"],
   });
+  const activeCompanies = companies.filter(company => company.isActive);
+
+  // El reporte se descarga directo del servidor con los filtros como parámetros
+  const downloadQuotesReport = () => {
+    const params = new URLSearchParams();
+    if (exportFilters.from) params.set("from", exportFilters.from);
+    if (exportFilters.to) params.set("to", exportFilters.to);
+    if (exportFilters.companyOrigin !== "todas") params.set("companyOrigin", exportFilters.companyOrigin);
+    window.location.assign(`/api/quotes/export.xlsx?${params.toString()}`);
+    setExportModalOpen(false);
+  };
+
+  const renewValidityMutation = useRenewQuoteValidity();
 
-  const normalizedSearch = searchTerm.trim().toLowerCase();
-  const filteredQuotes = quotes.filter((q) => {
-    if (!normalizedSearch) return true;
-    const searchFields = [
-      q.internalFolio,
-      q.folio,
-      q.requisitionNumber,
-      q.destinationCompany,
-      q.total?.toString(),
-    ];
-    return searchFields.some((field) =>
-      field?.toString().toLowerCase().includes(normalizedSearch)
-    );
+  // La búsqueda se manda al servidor cuando se deja de escribir
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const quoteListParams = new URLSearchParams();
+  if (debouncedSearch) quoteListParams.set("q", debouncedSearch);
+  if (statusFilter !== "todos") quoteListParams.set("status", statusFilter);
+  if (expiryFilter !== "todas") quoteListParams.set("expiry", expiryFilter);
+  if (listFilters.companyOrigin !== "todas") quoteListParams.set("companyOrigin", listFilters.companyOrigin);
+  if (listFilters.proposalType !== "todos") quoteListParams.set("proposalType", listFilters.proposalType);
+  if (listFilters.providerId !== "todos") quoteListParams.set("providerId", listFilters.providerId);
+  if (listFilters.from) quoteListParams.set("from", listFilters.from);
+  if (listFilters.to) quoteListParams.set("to", listFilters.to);
+  if (listFilters.minTotal) quoteListParams.set("minTotal", listFilters.minTotal);
+  if (listFilters.maxTotal) quoteListParams.set("maxTotal", listFilters.maxTotal);
+  if (listFilters.minTotal || listFilters.maxTotal) quoteListParams.set("totalCurrency", listFilters.totalCurrency);
+  if (listFilters.sort !== "auto") {
+    const [sort, order] = listFilters.sort.split(":");
+    quoteListParams.set("sort", sort);
+    quoteListParams.set("order", order);
+  }
+  const quoteListQuery = quoteListParams.toString();
+
+  const {
+    data: quotePages,
+    isLoading: loadingQuotes,
+    fetchNextPage: fetchMoreQuotes,
+    hasNextPage: hasMoreQuotes,
+    isFetchingNextPage: loadingMoreQuotes,
+  } = useInfiniteQuery({
+    queryKey: ["/api/quotes", "list", quoteListQuery],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams(quoteListQuery);
+      if (pageParam) params.set("cursor", pageParam);
+      const res = await apiRequest("GET", `/api/quotes?${params.toString()}`);
+      return await res.json() as QuoteListResponse;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+  const quotes = quotePages?.pages.flatMap(page => page.quotes) ?? [];
+  const quoteCount = quotePages?.pages[0]?.total ?? 0;
+  const hasListFilters = !!debouncedSearch || statusFilter !== "todos" || expiryFilter !== "todas"
+    || Object.entries(listFilters).some(([key, value]) => key !== "sort" && key !== "totalCurrency" && value !== "" && value !== "todas" && value !== "todos");
+
+  const { data: statusHistory = [], isLoading: loadingHistory } = useQuery<QuoteStatusChange[]>({
+    queryKey: ["/api/quotes", historyQuote?.id, "status-history"],
+    enabled: !!historyQuote,
+  });
+
+  // El folio se asigna en el servidor; aquí solo se muestra el siguiente consecutivo
+  const folioQueryEnabled = isQuoteModalOpen && wizardStep === 3 && editingQuoteId === null && !!selectedCompany;
+  const { data: suggestedFolio } = useQuery<{ folio: string }>({
+    queryKey: [`/api/folios/next?companyOrigin=${encodeURIComponent(selectedCompany)}&proposalType=${quoteType}`],
+    enabled: folioQueryEnabled,
+  });
+  const { data: reservedFolios = [] } = useQuery<FolioReservation[]>({
+    queryKey: [`/api/folios/reservations?companyOrigin=${encodeURIComponent(selectedCompany)}&available=true`],
+    enabled: folioQueryEnabled,
   });
 
   const addLineItem = () => {
@@ -271,6 +456,9 @@ export default function QuotesPage() {
         projectTitle: fullQuote.requisitionNumber || fullQuote.projectTitle || "",
         attnContacto: fullQuote.attnContacto || "",
         attnCargo: fullQuote.attnCargo || "",
+        clientId: fullQuote.clientId ?? null,
+        clientContactId: fullQuote.clientContactId ?? null,
+        licitacionId: fullQuote.licitacionId ?? null,
         // ─── Sección 2 ──────────────────────────────────────────────────────
         validityDays: Number(fullQuote.validityDays) || 120,
         paymentTerms: fullQuote.paymentTerms || "",
@@ -288,7 +476,7 @@ export default function QuotesPage() {
         // ─── Sección HGW: Región Militar y Garantía ─────────────────────────
         hasRegionalMilitary: fullQuote.hasRegionalMilitary ?? false,
         warrantyPercentageApplies: fullQuote.warrantyPercentageApplies ?? false,
-        warrantyPercentage: fullQuote.warrantyPercentage ? Number(fullQuote.warrantyPercentage) : undefined,
+        warrantyPercentage: Number(fullQuote.warrantyPercentage) || 0,
         deliveryNotes: fullQuote.deliveryNotes ?? "",
         // ─── Sección 3 ──────────────────────────────────────────────────────
         qualityGuarantees: Array.isArray(fullQuote.qualityGuarantees) && fullQuote.qualityGuarantees.length > 0
@@ -299,6 +487,7 @@ export default function QuotesPage() {
         requiredDocuments: Array.isArray(fullQuote.requiredDocuments) ? fullQuote.requiredDocuments : [],
         normsTable: Array.isArray(fullQuote.normsTable) ? fullQuote.normsTable : [],
         serviceNormsTable: Array.isArray(fullQuote.serviceNormsTable) ? fullQuote.serviceNormsTable : [],
+        clauseRefs: Array.isArray(fullQuote.clauseRefs) ? fullQuote.clauseRefs : [],
         // ─── Partidas ────────────────────────────────────────────────────────
         lineItems: Array.isArray(fullLineItems) && fullLineItems.length > 0
           ? fullLineItems.map((li: any, idx: number) => ({
@@ -321,6 +510,18 @@ export default function QuotesPage() {
       };
 
       setAmsFormData(mapped as AMSFormData);
+      setTaxSettings({
+        ivaRate: fullQuote.ivaRate || DEFAULT_QUOTE_TAX_SETTINGS.ivaRate,
+        ivaRetentionRate: Number(fullQuote.ivaRetentionRate) || 0,
+        isrRetentionRate: Number(fullQuote.isrRetentionRate) || 0,
+      });
+      setExemptItemIds(Array.isArray(fullLineItems) ? fullLineItems.filter((li: any) => li.taxExempt).map((li: any) => li.id) : []);
+      setCurrencySettings({
+        currency: isQuoteCurrency(fullQuote.currency) ? fullQuote.currency : "MXN",
+        costCurrency: isQuoteCurrency(fullQuote.costCurrency) ? fullQuote.costCurrency : "MXN",
+        exchangeRate: Number(fullQuote.exchangeRate) || null,
+        exchangeRateDate: fullQuote.exchangeRateDate || "",
+      });
       setEditingQuoteId(q.id);
       setEditingFolio(fullQuote.internalFolio || fullQuote.folio || "");
 
@@ -345,12 +546,14 @@ export default function QuotesPage() {
       });
       if (!res.ok) {
         const err = await res.json();
+        setVendorFieldErrors(err.fieldErrors ?? {});
         throw new Error(err.error || "Error al guardar el proveedor");
       }
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/providers"] });
+      setVendorFieldErrors({});
       toast({ title: "¡Proveedor Guardado!", description: "El proveedor se registró correctamente." });
       setIsVendorModalOpen(false);
       setVendorData({
@@ -363,8 +566,143 @@ export default function QuotesPage() {
     }
   });
 
+  const handleImportPartidas = (items: FormLineItem[], mode: PartidaImportMode) => {
+    setAmsFormData(prev => ({
+      ...prev,
+      lineItems: mode === "replace"
+        ? items
+        : [...(prev.lineItems ?? []).filter(item => item.description?.trim()), ...items],
+    }));
+    setFormVersion(v => v + 1);
+  };
+
+  const handleInsertClauses = (entries: ClauseLibraryEntry[]) => {
+    setAmsFormData(prev => applyClauseEntries(prev, entries, quoteType));
+    setFormVersion(v => v + 1);
+  };
+
+  const handleSelectClient = (client: ClientResponse | null, contact: ClientContact | null) => {
+    setAmsFormData(prev => client
+      ? { ...prev, ...clientContactFields(client, contact) }
+      : { ...prev, clientId: null, clientContactId: null });
+    setFormVersion(v => v + 1);
+  };
+
+  // M-03: Payload construido con el formato exacto que espera el backend; también alimenta la vista previa
+  const buildQuotePayload = () => {
+    const provId = quoteVendor ? Number(quoteVendor.id) : undefined;
+    // En edición se conserva el folio original; en creación se usa la reserva elegida o el servidor asigna el consecutivo
+    const folio = editingQuoteId !== null ? editingFolio : reservedFolio;
+
+    return {
+      internalFolio: folio,
+      destinationCompany: amsFormData.destinationCompany?.trim() || "",
+      requisitionNumber: amsFormData.projectTitle?.trim() || "S/N",
+      companyOrigin: selectedCompany,
+      proposalType: quoteType,
+      projectTitle: amsFormData.projectTitle?.trim() || "",
+      quoteDate: new Date().toISOString().split('T')[0],
+      deliveryPlace: amsFormData.deliveryLocation?.trim() || amsFormData.deliveryLocations?.[0]?.address?.trim() || "Por definir",
+      deliveryTime: amsFormData.deliveryTime || "Por definir",
+      guaranteeMonths: 12,
+      validityDays: Number(amsFormData.validityDays) || 120,
+      paymentDays: 17,
+      contactPerson: amsFormData.contactPerson?.trim() || "",
+      commercialTerms: "Precios en Moneda Nacional. IVA Incluido.",
+
+      providerId: provId,
+
+      goodsOrigin: amsFormData.goodsOrigin || "Nacional",
+      providerNationality: "Mexicana",
+      manufacturingTime: amsFormData.hasManufacturingTime ? (amsFormData.manufacturingTime || "") : "",
+      complianceWarranty: 10,
+      experienceYears: 5,
+      specialtyYears: 5,
+      similarContracts: 3,
+
+      bankName: quoteVendor?.bankName || "",
+      bankAccount: quoteVendor?.bankAccount || "",
+      bankBeneficiary: quoteVendor?.bankBeneficiary || "",
+      empresaId: provId,
+      templateName: `${selectedCompany}:${quoteType}`,
+
+      // ─── Sección 1 "Atención" ──────────────────────────────────────────
+      attnDia: amsFormData.attnDia || "",
+      attnMes: amsFormData.attnMes || "",
+      attnAnio: amsFormData.attnAnio || "",
+      attnLugar: amsFormData.attnLugar || "",
+      attnGrado: amsFormData.attnGrado || "",
+      attnArea: amsFormData.attnArea || "",
+      attnUbicacion: amsFormData.attnUbicacion || "",
+      attnDireccion: amsFormData.attnDireccion || "",
+      attnCargo: amsFormData.attnCargo || "",
+      attnContacto: amsFormData.attnContacto || "",
+      clientId: amsFormData.clientId ?? null,
+      clientContactId: amsFormData.clientContactId ?? null,
+      licitacionId: amsFormData.licitacionId ?? null,
+
+      // ─── Sección 2 "Condiciones" ───────────────────────────────────────
+      paymentTerms: amsFormData.paymentTerms || "",
+      hasManufacturingTime: amsFormData.hasManufacturingTime ?? false,
+      deliverySingle: amsFormData.deliverySingle ?? true,
+      deliveryLocations: amsFormData.deliveryLocations || [],
+      partidaDescriptionItems: amsFormData.partidaDescriptionItems || [],
+
+      // ─── Sección 2: Fechas y condiciones de entrega ────────────────────
+      deliveryDates: amsFormData.deliveryDates || [],
+      deliveryConditions: amsFormData.deliveryConditions || [],
+      selectedDeliveryClauses: amsFormData.selectedDeliveryClauses || [],
+
+      // ─── Sección HGW: Región Militar y Garantía ────────────────────────
+      hasRegionalMilitary: amsFormData.hasRegionalMilitary ?? false,
+      warrantyPercentageApplies: amsFormData.warrantyPercentageApplies ?? false,
+      warrantyPercentage: amsFormData.warrantyPercentage ?? 0,
+      deliveryNotes: amsFormData.deliveryNotes ?? "",
+
+      // ─── Sección 3 "Garantías y objetos sociales" ─────────────────────
+      qualityGuarantees: amsFormData.qualityGuarantees || [],
+      selectedSocialObjects: amsFormData.selectedSocialObjects || [],
+
+      // ─── Campos DEMA ───────────────────────────────────────────────────
+      requiredDocuments: amsFormData.requiredDocuments || [],
+      normsTable: amsFormData.normsTable || [],
+      serviceNormsTable: amsFormData.serviceNormsTable || [],
+      clauseRefs: amsFormData.clauseRefs || [],
+
+      // ─── Impuestos ─────────────────────────────────────────────────────
+      ivaRate: taxSettings.ivaRate,
+      ivaRetentionRate: taxSettings.ivaRetentionRate,
+      isrRetentionRate: taxSettings.isrRetentionRate,
+
+      // ─── Moneda ────────────────────────────────────────────────────────
+      currency: currencySettings.currency,
+      costCurrency: currencySettings.costCurrency,
+      exchangeRate: currencySettings.exchangeRate,
+      exchangeRateDate: currencySettings.exchangeRateDate,
+
+      lineItems: (amsFormData.lineItems ?? []).map(item => ({
+        noPartida: item.noPartida || "",
+        description: item.description,
+        techRequirements: item.techRequirements || "",
+        versionReference: item.versionReference || "",
+        reqDate: item.reqDate || "",
+        quantity: Math.round(Number(item.quantity)),
+        unit: item.unitMeasure || "PZA",
+        unitMeasure: item.unitMeasure || "PZA",
+        unitPrice: Number(item.unitPrice) || 0,
+        supplier: item.supplier || "",
+        purchaseCost: Number(item.purchaseCost) || 0,
+        profitFactor: Number(item.profitFactor) || 1,
+        importe: Number(item.importe) || 0,
+        previo: Number(item.previo) || 0,
+        taxExempt: exemptItemIds.includes(item.id),
+      })),
+    };
+  };
+
   const quoteMutation = useMutation({
-    mutationFn: async () => {
+    // allowLowMargin: un administrador autoriza guardar partidas debajo del margen mínimo
+    mutationFn: async (options: { allowLowMargin?: boolean }) => {
       const items = amsFormData.lineItems ?? [];
       if (items.length === 0) {
         throw new Error("Debe agregar al menos una partida antes de generar la propuesta.");
@@ -378,110 +716,12 @@ export default function QuotesPage() {
         throw new Error("La cantidad de cada partida debe ser un número entero mayor a cero.");
       }
 
-      // M-01/M-02: Buscar proveedor correspondiente a la empresa seleccionada
-      const matchedVendor = vendors.find(v =>
-        v.companyName && v.companyName.toUpperCase().includes(selectedCompany.toUpperCase())
-      );
-      if (!matchedVendor) {
+      if (!quoteVendor) {
         throw new Error(`No se encontró un proveedor registrado para "${selectedCompany}". Regístralo primero en "Nuevo Proveedor".`);
       }
-      const provId = Number(matchedVendor.id);
 
-      // En edición se conserva el folio original; en creación se genera uno único
       const isEditing = editingQuoteId !== null;
-      const folio = isEditing
-        ? editingFolio
-        : `${selectedCompany.toUpperCase()}-${quoteType === 'bienes' ? 'B' : 'S'}-${Date.now()}`;
-
-      // M-03: Payload construido con el formato exacto que espera el backend
-      const payload = {
-        internalFolio: folio,
-        destinationCompany: amsFormData.destinationCompany?.trim() || "",
-        requisitionNumber: amsFormData.projectTitle?.trim() || "S/N",
-        companyOrigin: selectedCompany,
-        proposalType: quoteType,
-        projectTitle: amsFormData.projectTitle?.trim() || "",
-        quoteDate: new Date().toISOString().split('T')[0],
-        deliveryPlace: amsFormData.deliveryLocation?.trim() || amsFormData.deliveryLocations?.[0]?.address?.trim() || "Por definir",
-        deliveryTime: amsFormData.deliveryTime || "Por definir",
-        guaranteeMonths: 12,
-        validityDays: Number(amsFormData.validityDays) || 120,
-        paymentDays: 17,
-        contactPerson: amsFormData.contactPerson?.trim() || "",
-        commercialTerms: "Precios en Moneda Nacional. IVA Incluido.",
-
-        providerId: provId,
-
-        goodsOrigin: amsFormData.goodsOrigin || "Nacional",
-        providerNationality: "Mexicana",
-        manufacturingTime: amsFormData.hasManufacturingTime ? (amsFormData.manufacturingTime || "") : "",
-        complianceWarranty: 10,
-        experienceYears: 5,
-        specialtyYears: 5,
-        similarContracts: 3,
-
-        bankName: matchedVendor.bankName || "",
-        bankAccount: matchedVendor.bankAccount || "",
-        bankBeneficiary: matchedVendor.bankBeneficiary || "",
-        empresaId: provId,
-        templateName: `${selectedCompany}:${quoteType}`,
-
-        // ─── Sección 1 "Atención" ──────────────────────────────────────────
-        attnDia: amsFormData.attnDia || "",
-        attnMes: amsFormData.attnMes || "",
-        attnAnio: amsFormData.attnAnio || "",
-        attnLugar: amsFormData.attnLugar || "",
-        attnGrado: amsFormData.attnGrado || "",
-        attnArea: amsFormData.attnArea || "",
-        attnUbicacion: amsFormData.attnUbicacion || "",
-        attnDireccion: amsFormData.attnDireccion || "",
-        attnCargo: amsFormData.attnCargo || "",
-        attnContacto: amsFormData.attnContacto || "",
-
-        // ─── Sección 2 "Condiciones" ───────────────────────────────────────
-        paymentTerms: amsFormData.paymentTerms || "",
-        hasManufacturingTime: amsFormData.hasManufacturingTime ?? false,
-        deliverySingle: amsFormData.deliverySingle ?? true,
-        deliveryLocations: amsFormData.deliveryLocations || [],
-        partidaDescriptionItems: (amsFormData as any).partidaDescriptionItems || [],
-
-        // ─── Sección 2: Fechas y condiciones de entrega ────────────────────
-        deliveryDates: (amsFormData as any).deliveryDates || [],
-        deliveryConditions: (amsFormData as any).deliveryConditions || [],
-        selectedDeliveryClauses: (amsFormData as any).selectedDeliveryClauses || [],
-
-        // ─── Sección HGW: Región Militar y Garantía ────────────────────────
-        hasRegionalMilitary: (amsFormData as any).hasRegionalMilitary ?? false,
-        warrantyPercentageApplies: (amsFormData as any).warrantyPercentageApplies ?? false,
-        warrantyPercentage: (amsFormData as any).warrantyPercentage ?? 0,
-        deliveryNotes: (amsFormData as any).deliveryNotes ?? "",
-
-        // ─── Sección 3 "Garantías y objetos sociales" ─────────────────────
-        qualityGuarantees: amsFormData.qualityGuarantees || [],
-        selectedSocialObjects: amsFormData.selectedSocialObjects || [],
-
-        // ─── Campos DEMA ───────────────────────────────────────────────────
-        requiredDocuments: amsFormData.requiredDocuments || [],
-        normsTable: amsFormData.normsTable || [],
-        serviceNormsTable: amsFormData.serviceNormsTable || [],
-
-        lineItems: items.map(item => ({
-          noPartida: item.noPartida || "",
-          description: item.description,
-          techRequirements: item.techRequirements || "",
-          versionReference: item.versionReference || "",
-          reqDate: item.reqDate || "",
-          quantity: Math.round(Number(item.quantity)),
-          unit: item.unitMeasure || "PZA",
-          unitMeasure: item.unitMeasure || "PZA",
-          unitPrice: Number(item.unitPrice) || 0,
-          supplier: item.supplier || "",
-          purchaseCost: Number(item.purchaseCost) || 0,
-          profitFactor: Number(item.profitFactor) || 1,
-          importe: Number(item.importe) || 0,
-          previo: Number(item.previo) || 0,
-        })),
-      };
+      const payload = buildQuotePayload();
 
       const url = isEditing ? `/api/quotes/${editingQuoteId}` : "/api/quotes";
       const method = isEditing ? "PATCH" : "POST";
@@ -489,11 +729,17 @@ export default function QuotesPage() {
         method,
         headers: { "Content-Type": "application/json" },
         credentials: "include",
-        body: JSON.stringify(payload),
+        body: JSON.stringify({ ...payload, allowLowMargin: options.allowLowMargin === true }),
       });
 
       if (!res.ok) {
         const err = await res.json().catch(() => ({ error: "Error de red al procesar la solicitud." }));
+        if (res.status === 422 && Array.isArray(err.marginWarnings)) {
+          throw new QuoteMarginError(err.error, err.marginWarnings);
+        }
+        if (res.status === 400 && err.fieldErrors) {
+          throw new QuoteInputError(err.error, err.fieldErrors);
+        }
         throw new Error(err.error || "Error al generar la cotización.");
       }
 
@@ -503,16 +749,31 @@ export default function QuotesPage() {
       queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
       const wasEditing = editingQuoteId !== null;
       const folio = data.quote?.internalFolio || data.internalFolio || "";
+      const marginWarnings: QuoteMarginWarning[] = data.marginWarnings ?? [];
+      const details = [
+        folio ? `Folio: ${folio}` : "La operación se realizó correctamente.",
+        marginSummaryText(data.margins),
+        marginWarnings.length > 0
+          ? `Margen bajo en ${marginWarnings.map(w => `partida ${w.partida} (${w.marginPercent.toFixed(2)}%)`).join(", ")}`
+          : "",
+      ];
       toast({
         title: wasEditing ? "¡Propuesta actualizada!" : "¡Propuesta generada con éxito!",
-        description: folio ? `Folio: ${folio}` : "La operación se realizó correctamente.",
+        description: details.filter(Boolean).join(" · "),
       });
       setIsQuoteModalOpen(false);
+      setQuoteFieldErrors({});
       setAmsFormData(defaultAMSFormData);
+      setTaxSettings(DEFAULT_QUOTE_TAX_SETTINGS);
+      setExemptItemIds([]);
+      setCurrencySettings(DEFAULT_QUOTE_CURRENCY_SETTINGS);
       setEditingQuoteId(null);
       setEditingFolio("");
-      // Abrir selector de carpeta sólo al crear (no al actualizar)
-      if (!wasEditing) {
+      setReservedFolio("");
+      queryClient.invalidateQueries({ queryKey: [`/api/folios/next?companyOrigin=${encodeURIComponent(selectedCompany)}&proposalType=${quoteType}`] });
+      // Abrir selector de carpeta sólo al crear (no al actualizar) y si el estado ya permite el PDF final
+      const createdStatus = resolveQuoteStatus(data.quote?.status);
+      if (!wasEditing && PDF_ENABLED_QUOTE_STATUSES.includes(createdStatus)) {
         const generatedId = data.id || data.quote?.id;
         if (generatedId) {
           setSelectedQuoteId(generatedId);
@@ -521,10 +782,39 @@ export default function QuotesPage() {
       }
     },
     onError: (error: any) => {
+      if (error instanceof QuoteMarginError && user?.isAdmin
+        && confirm(`${error.message}.\n\n¿Autorizar y guardar de todos modos?`)) {
+        quoteMutation.mutate({ allowLowMargin: true });
+        return;
+      }
+      if (error instanceof QuoteInputError) setQuoteFieldErrors(error.fieldErrors);
       const title = editingQuoteId !== null ? "Error al actualizar propuesta" : "Error al generar propuesta";
       toast({ title, description: error.message, variant: "destructive" });
     }
   });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ quoteId, status }: { quoteId: number; status: QuoteStatus }) => {
+      const res = await fetch(`/api/quotes/${quoteId}/status`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ status }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "Error al cambiar el estado." }));
+        throw new Error(err.error || "Error al cambiar el estado.");
+      }
+      return res.json();
+    },
+    onSuccess: (_data, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      toast({ title: "Estado actualizado", description: `La cotización ahora está en "${QUOTE_STATUS_LABELS[status]}".` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error al cambiar el estado", description: error.message, variant: "destructive" });
+    }
+  });
   
 
   return (
@@ -533,16 +823,88 @@ export default function QuotesPage() {
         
         {/* BOTONERA SUPERIOR */}
         <div className="flex items-center justify-end gap-4 w-full">
-          <div className="w-44 min-w-0">
+          <div className="w-72 min-w-0">
             <Input
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
-              placeholder="Buscar por Folio, Requisición, Empresa o Monto"
+              placeholder="Buscar por folio, proyecto, empresa, requisición o partida"
               className="min-w-0 bg-white border border-slate-200 text-slate-900 placeholder:text-slate-400 shadow-sm transition duration-300 focus:border-sky-500 focus:ring-2 focus:ring-sky-200/60 dark:bg-[rgba(28,37,65,0.72)] dark:border-[rgba(0,180,216,0.22)] dark:text-[#E0FBFC] dark:placeholder:text-slate-500 dark:shadow-[0_0_24px_rgba(0,180,216,0.12)] dark:backdrop-blur-xl dark:focus:border-cyan-400 dark:focus:ring-cyan-400/25"
             />
           </div>
 
+          <div className="w-44 min-w-0">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as QuoteStatus | "todos")}>
+              <SelectTrigger className="bg-white border border-slate-200 text-slate-900 shadow-sm dark:bg-[rgba(28,37,65,0.72)] dark:border-[rgba(0,180,216,0.22)] dark:text-[#E0FBFC]">
+                <SelectValue placeholder="Estado" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="todos">Todos los estados</SelectItem>
+                {QUOTE_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{QUOTE_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="w-40 min-w-0">
+            <Select value={expiryFilter} onValueChange={(value) => setExpiryFilter(value as QuoteExpiryFilter | "todas")}>
+              <SelectTrigger className="bg-white border border-slate-200 text-slate-900 shadow-sm dark:bg-[rgba(28,37,65,0.72)] dark:border-[rgba(0,180,216,0.22)] dark:text-[#E0FBFC]">
+                <SelectValue placeholder="Vigencia" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="todas">Toda vigencia</SelectItem>
+                <SelectItem value="por_vencer">Por vencer</SelectItem>
+                <SelectItem value="vencidas">Vencidas</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
           <div className="flex flex-wrap justify-end gap-3">
+
+          {/* MODAL: EXPORTAR A EXCEL */}
+          <Dialog open={exportModalOpen} onOpenChange={setExportModalOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" className="bg-white border-slate-200 text-slate-700 shadow-sm dark:bg-slate-800 dark:text-slate-200">
+                <FileSpreadsheet className="mr-2 h-4 w-4 text-emerald-600" /> Exportar Excel
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[480px] bg-card text-foreground">
+              <DialogHeader>
+                <DialogTitle className="border-b border-border pb-4 text-xl">Exportar cotizaciones</DialogTitle>
+              </DialogHeader>
+              <div className="grid grid-cols-2 gap-4 py-4">
+                <div className="space-y-1">
+                  <span className="text-xs font-medium text-slate-500">Desde</span>
+                  <Input type="date" value={exportFilters.from} onChange={e => setExportFilters({ ...exportFilters, from: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <span className="text-xs font-medium text-slate-500">Hasta</span>
+                  <Input type="date" value={exportFilters.to} onChange={e => setExportFilters({ ...exportFilters, to: e.target.value })} />
+                </div>
+                <div className="col-span-2 space-y-1">
+                  <span className="text-xs font-medium text-slate-500">Empresa emisora</span>
+                  <Select value={exportFilters.companyOrigin} onValueChange={(value) => setExportFilters({ ...exportFilters, companyOrigin: value })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="todas">Todas las empresas</SelectItem>
+                      {companies.map(company => (
+                        <SelectItem key={company.code} value={company.code}>{company.friendlyName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <p className="col-span-2 text-xs text-muted-foreground">
+                  Incluye una hoja de resumen por cotización y el detalle de partidas con costo, utilidad y margen.
+                </p>
+              </div>
+              <div className="flex justify-end gap-3 pt-4 border-t mt-2">
+                <Button variant="outline" onClick={() => setExportModalOpen(false)}>Cancelar</Button>
+                <Button onClick={downloadQuotesReport} className="bg-emerald-600 text-white hover:bg-emerald-700">
+                  <Download className="mr-2 h-4 w-4" /> Descargar
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
           
           {/* MODAL: NUEVO PROVEEDOR */}
           <Dialog open={isVendorModalOpen} onOpenChange={setIsVendorModalOpen}>
@@ -556,19 +918,40 @@ export default function QuotesPage() {
                 <DialogTitle className="border-b border-border pb-4 text-xl">Registrar Proveedor</DialogTitle>
               </DialogHeader>
               <div className="grid grid-cols-2 gap-4 py-4">
-                <Input className="col-span-2" placeholder="Razón social" value={vendorData.companyName} onChange={e => setVendorData({...vendorData, companyName: e.target.value})} />
+                <div className="col-span-2">
+                  <Input placeholder="Razón social" value={vendorData.companyName} onChange={e => setVendorData({...vendorData, companyName: e.target.value})} />
+                  {vendorFieldErrors.companyName && <p className="text-xs text-red-600 mt-1">{vendorFieldErrors.companyName}</p>}
+                </div>
                 <Input className="col-span-2" placeholder="Objeto social o actividad que desarrolla" value={vendorData.businessActivity} onChange={e => setVendorData({...vendorData, businessActivity: e.target.value})} />
                 <Input className="col-span-2" placeholder="Domicilio legal" value={vendorData.legalAddress} onChange={e => setVendorData({...vendorData, legalAddress: e.target.value})} />
-                <Input placeholder="RFC" value={vendorData.rfc} onChange={e => setVendorData({...vendorData, rfc: e.target.value})} />
-                <Input placeholder="Nombre del representante legal" value={vendorData.legalRep} onChange={e => setVendorData({...vendorData, legalRep: e.target.value})} />
-                <Input placeholder="Teléfono(s)" value={vendorData.phone} onChange={e => setVendorData({...vendorData, phone: e.target.value})} />
-                <Input placeholder="Correo electrónico" type="email" value={vendorData.email} onChange={e => setVendorData({...vendorData, email: e.target.value})} />
+                <div>
+                  <Input placeholder="RFC" value={vendorData.rfc} onChange={e => setVendorData({...vendorData, rfc: e.target.value.toUpperCase()})} className={vendorRfcError ? "border-red-500" : ""} />
+                  {vendorRfcError && <p className="text-xs text-red-600 mt-1">{vendorRfcError}</p>}
+                </div>
+                <div>
+                  <Input placeholder="Nombre del representante legal" value={vendorData.legalRep} onChange={e => setVendorData({...vendorData, legalRep: e.target.value})} />
+                  {vendorFieldErrors.legalRepresentative && <p className="text-xs text-red-600 mt-1">{vendorFieldErrors.legalRepresentative}</p>}
+                </div>
+                <div>
+                  <Input placeholder="Teléfono(s)" value={vendorData.phone} onChange={e => setVendorData({...vendorData, phone: e.target.value})} />
+                  {vendorFieldErrors.phone && <p className="text-xs text-red-600 mt-1">{vendorFieldErrors.phone}</p>}
+                </div>
+                <div>
+                  <Input placeholder="Correo electrónico" type="email" value={vendorData.email} onChange={e => setVendorData({...vendorData, email: e.target.value})} />
+                  {vendorFieldErrors.email && <p className="text-xs text-red-600 mt-1">{vendorFieldErrors.email}</p>}
+                </div>
                 <Input className="col-span-2" placeholder="Página web" value={vendorData.website} onChange={e => setVendorData({...vendorData, website: e.target.value})} />
                 <div className="col-span-2 mt-2 pt-4 border-t border-slate-200 dark:border-slate-700">
                   <h3 className="text-sm font-bold text-slate-700 dark:text-slate-300">Datos Bancarios</h3>
                 </div>
-                <Input placeholder="Nombre del Banco (Ej. INBURSA)" value={vendorData.bankName} onChange={e => setVendorData({...vendorData, bankName: e.target.value})} />
-                <Input placeholder="CLABE / Cuenta" maxLength={18} value={vendorData.bankAccount} onChange={e => setVendorData({...vendorData, bankAccount: e.target.value})} />
+                <div>
+                  <Input placeholder="CLABE (18 dígitos)" inputMode="numeric" maxLength={18} value={vendorData.bankAccount} onChange={e => handleVendorClabeChange(e.target.value)} className={vendorClabeError ? "border-red-500" : ""} />
+                  {vendorClabeError && <p className="text-xs text-red-600 mt-1">{vendorClabeError}</p>}
+                  {!vendorClabeError && vendorData.bankAccount && !clabeBankName(vendorData.bankAccount) && (
+                    <p className="text-xs text-amber-600 mt-1">La clave de banco no está en el catálogo; captura el nombre del banco.</p>
+                  )}
+                </div>
+                <Input placeholder="Nombre del Banco (se llena con la CLABE)" value={vendorData.bankName} onChange={e => setVendorData({...vendorData, bankName: e.target.value})} />
                 <Input className="col-span-2" placeholder="Beneficiario" value={vendorData.bankBeneficiary} onChange={e => setVendorData({...vendorData, bankBeneficiary: e.target.value})} />
               </div>
               <div className="flex justify-end gap-3 pt-4 border-t mt-2">
@@ -576,7 +959,7 @@ export default function QuotesPage() {
                 <Button 
                   className="bg-[#1E40AF] text-white hover:bg-blue-800" 
                   onClick={() => vendorMutation.mutate()}
-                  disabled={vendorMutation.status === 'pending'}
+                  disabled={vendorMutation.status === 'pending' || !!vendorRfcError || !!vendorClabeError}
                 >
                   {vendorMutation.status === 'pending' ? "Guardando..." : "Guardar Proveedor"}
                 </Button>
@@ -634,7 +1017,7 @@ export default function QuotesPage() {
           {/* MODAL: NUEVA PROPUESTA ECONÓMICA CON WIZARD */}
           <Dialog open={isQuoteModalOpen} onOpenChange={(open) => {
             setIsQuoteModalOpen(open);
-            if (!open) { setEditingQuoteId(null); setEditingFolio(""); }
+            if (!open) { setEditingQuoteId(null); setEditingFolio(""); setQuoteFieldErrors({}); }
           }}>
             <DialogTrigger asChild>
               <Button
@@ -644,7 +1027,11 @@ export default function QuotesPage() {
                   setSelectedType("");
                   setEditingQuoteId(null);
                   setEditingFolio("");
+                  setReservedFolio("");
                   setAmsFormData(defaultAMSFormData);
+                  setTaxSettings(DEFAULT_QUOTE_TAX_SETTINGS);
+                  setExemptItemIds([]);
+                  setCurrencySettings(DEFAULT_QUOTE_CURRENCY_SETTINGS);
                 }}
                 className="bg-blue-600 hover:bg-blue-700 text-white dark:bg-blue-600 dark:hover:bg-blue-700 dark:text-white shadow-md px-6 font-semibold"
               >
@@ -665,15 +1052,20 @@ export default function QuotesPage() {
               {/* 🚀 PASO 1: TARJETAS DE EMPRESA */}
               {wizardStep === 1 && (
                 <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-6 p-4 mt-8">
-                  {['AMS', 'HGW', 'DEMA', 'HERMAL', 'HYH'].map(company => (
+                  {activeCompanies.map(company => (
                     <Card 
-                      key={company} 
+                      key={company.code} 
                       className="cursor-pointer border-2 border-transparent hover:border-blue-500 hover:shadow-lg transition-all duration-300 bg-white dark:bg-slate-900" 
-                      onClick={() => { setSelectedCompany(company); setWizardStep(2); }}
+                      onClick={() => { setSelectedCompany(company.code); setWizardStep(2); }}
                     >
                       <CardContent className="flex flex-col items-center justify-center p-8 h-48">
-                        <Building2 size={56} className="mb-4 text-slate-400 dark:text-slate-300 group-hover:text-blue-500 transition-colors" />
-                        <span className="font-bold text-2xl dark:text-white">{company}</span>
+                        {company.hasLogoImage ? (
+                          <img src={`/api/companies/${company.id}/images/logo`} alt={company.code} className="mb-4 h-14 w-auto object-contain" />
+                        ) : (
+                          <Building2 size={56} className="mb-4 text-slate-400 dark:text-slate-300 group-hover:text-blue-500 transition-colors" />
+                        )}
+                        <span className="font-bold text-2xl dark:text-white">{company.code}</span>
+                        <span className="text-xs text-muted-foreground mt-1 text-center">{company.friendlyName}</span>
                       </CardContent>
                     </Card>
                   ))}
@@ -721,27 +1113,117 @@ export default function QuotesPage() {
                       <Badge variant="outline" className="ml-2 mr-6 text-blue-700 dark:text-blue-300 border-blue-300 bg-white dark:bg-slate-800 text-sm">{selectedCompany}</Badge>
                       <span className="text-sm font-semibold text-slate-500 dark:text-slate-400">Tipo:</span> 
                       <Badge variant="outline" className="ml-2 text-emerald-700 dark:text-emerald-300 border-emerald-300 bg-white dark:bg-slate-800 text-sm">{selectedType}</Badge>
+                      <span className="ml-6 text-sm font-semibold text-slate-500 dark:text-slate-400">Folio:</span>
+                      {editingQuoteId !== null ? (
+                        <Badge variant="outline" className="ml-2 font-mono text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-800 text-sm">{editingFolio}</Badge>
+                      ) : reservedFolios.length > 0 ? (
+                        <Select value={reservedFolio || "auto"} onValueChange={(value) => setReservedFolio(value === "auto" ? "" : value)}>
+                          <SelectTrigger className="ml-2 inline-flex w-64 h-8 font-mono text-xs bg-white dark:bg-slate-800">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="auto">{suggestedFolio?.folio || "Automático"} (siguiente)</SelectItem>
+                            {reservedFolios.map(r => (
+                              <SelectItem key={r.id} value={r.folio}>{r.folio} (reservado)</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant="outline" className="ml-2 font-mono text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-800 text-sm">
+                          {suggestedFolio?.folio || "Automático"}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setImportPartidasOpen(true)} className="dark:text-white dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-100 dark:hover:bg-slate-700">
+                        <FileSpreadsheet className="w-4 h-4 mr-1 text-emerald-600" /> Importar partidas
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setClauseLibraryOpen(true)} className="dark:text-white dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-100 dark:hover:bg-slate-700">
+                        <BookOpen className="w-4 h-4 mr-1 text-blue-600" /> Biblioteca
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setPreviewOpen(open => !open)} className="dark:text-white dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-100 dark:hover:bg-slate-700">
+                        <Eye className="w-4 h-4 mr-1 text-blue-600" /> {previewOpen ? "Ocultar vista previa" : "Vista previa"}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setWizardStep(2)} className="dark:text-white dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-100 dark:hover:bg-slate-700">
+                        Cambiar Selección
+                      </Button>
                     </div>
-                    <Button variant="outline" size="sm" onClick={() => setWizardStep(2)} className="dark:text-white dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-100 dark:hover:bg-slate-700">
-                      Cambiar Selección
-                    </Button>
                   </div>
 
+                  <ImportPartidasDialog
+                    open={importPartidasOpen}
+                    onOpenChange={setImportPartidasOpen}
+                    onImport={handleImportPartidas}
+                  />
+
+                  <ClauseLibraryDialog
+                    open={clauseLibraryOpen}
+                    onOpenChange={setClauseLibraryOpen}
+                    company={selectedCompany}
+                    categories={formClauseCategories(selectedCompany, quoteType)}
+                    onInsert={handleInsertClauses}
+                  />
 
-                  <div className="col-span-4">
-                    <DynamicFormRenderer
-                      type={quoteType}
-                      company={selectedCompany}
-                      companyName={selectedVendor?.companyName}
-                      data={amsFormData}
-                      onChange={setAmsFormData}
-                    />
+
+                  <div className={previewOpen ? "grid grid-cols-1 xl:grid-cols-2 gap-6 items-start" : ""}>
+                    <div className="space-y-6 min-w-0">
+                      <ProviderComplianceWarning providerId={quoteVendor?.id} />
+
+                      <ClientContactPicker
+                        clientId={amsFormData.clientId}
+                        clientContactId={amsFormData.clientContactId}
+                        onSelect={handleSelectClient}
+                      />
+
+                      <QuoteLicitacionSelect
+                        licitacionId={amsFormData.licitacionId}
+                        onChange={(licitacionId) => setAmsFormData(prev => ({ ...prev, licitacionId }))}
+                      />
+
+                      <div className="col-span-4">
+                        <DynamicFormRenderer
+                          key={formVersion}
+                          type={quoteType}
+                          company={selectedCompany}
+                          companyName={selectedVendor?.companyName}
+                          data={amsFormData}
+                          onChange={setAmsFormData}
+                          fieldErrors={quoteFieldErrors}
+                        />
+                      </div>
+
+                      <QuoteCurrencyPanel
+                        settings={currencySettings}
+                        onChange={setCurrencySettings}
+                        quoteDate={new Date().toISOString().split('T')[0]}
+                      />
+
+                      <QuoteTaxPanel
+                        settings={taxSettings}
+                        onChange={setTaxSettings}
+                        isService={quoteType === "servicios"}
+                        lineItems={amsFormData.lineItems ?? []}
+                        exemptItemIds={exemptItemIds}
+                        onToggleExempt={(itemId, exempt) => setExemptItemIds(prev =>
+                          exempt ? [...prev, itemId] : prev.filter(id => id !== itemId))}
+                      />
+
+                      {Object.keys(quoteFieldErrors).length > 0 && (
+                        <div className="rounded-lg border border-red-200 bg-red-50/60 p-3 text-xs text-red-800 dark:border-red-900 dark:bg-red-900/10 dark:text-red-300">
+                          <p className="font-semibold mb-1">Corrige los siguientes datos antes de guardar:</p>
+                          <ul className="list-disc pl-4 space-y-0.5">
+                            {quoteFieldErrorMessages(quoteFieldErrors).map(message => <li key={message}>{message}</li>)}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+                    {previewOpen && <QuotePreviewPane payload={buildQuotePayload()} />}
                   </div>
 
                   <div className="flex justify-end gap-3 pt-4 border-t border-slate-200 dark:border-slate-800">
-                    <Button variant="ghost" onClick={() => { setIsQuoteModalOpen(false); setEditingQuoteId(null); setEditingFolio(""); }}>Cancelar</Button>
-                    <Button onClick={() => quoteMutation.mutate()} disabled={quoteMutation.status === 'pending'} className="bg-blue-600 hover:bg-blue-700 text-white dark:bg-blue-600 dark:hover:bg-blue-700 dark:text-white px-10 font-bold">
-                      {quoteMutation.status === 'pending' ? "Generando..." : "Finalizar y Generar PDF"}
+                    <Button variant="ghost" onClick={() => { setIsQuoteModalOpen(false); setEditingQuoteId(null); setEditingFolio(""); setQuoteFieldErrors({}); }}>Cancelar</Button>
+                    <Button onClick={() => quoteMutation.mutate({})} disabled={quoteMutation.status === 'pending'} className="bg-blue-600 hover:bg-blue-700 text-white dark:bg-blue-600 dark:hover:bg-blue-700 dark:text-white px-10 font-bold">
+                      {quoteMutation.status === 'pending' ? "Guardando..." : "Guardar Propuesta"}
                     </Button>
                   </div>
                 </div>
@@ -754,9 +1236,60 @@ export default function QuotesPage() {
 
         {/* HISTORIAL */}
       <div className="w-full bg-white dark:bg-slate-900/40 border border-slate-200 dark:border-slate-800 rounded-lg shadow-xl p-4">
-        <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-400 uppercase tracking-wider mb-4">
-          Historial de Cotizaciones Generadas
-        </h3>
+        <div className="flex items-baseline justify-between gap-4 mb-4">
+          <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-400 uppercase tracking-wider">
+            Historial de Cotizaciones Generadas
+          </h3>
+          {!loadingQuotes && <span className="text-xs text-slate-500">{quoteCount} cotizaci{quoteCount === 1 ? "ón" : "ones"}</span>}
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-9 gap-3 mb-4">
+          <Select value={listFilters.companyOrigin} onValueChange={(value) => setListFilters({ ...listFilters, companyOrigin: value })}>
+            <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="todas">Todas las empresas</SelectItem>
+              {companies.map(company => (
+                <SelectItem key={company.code} value={company.code}>{company.friendlyName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={listFilters.proposalType} onValueChange={(value) => setListFilters({ ...listFilters, proposalType: value })}>
+            <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="todos">Bienes y servicios</SelectItem>
+              <SelectItem value="bienes">Bienes</SelectItem>
+              <SelectItem value="servicios">Servicios</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={listFilters.providerId} onValueChange={(value) => setListFilters({ ...listFilters, providerId: value })}>
+            <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="todos">Todos los proveedores</SelectItem>
+              {vendors.map(vendor => (
+                <SelectItem key={vendor.id} value={String(vendor.id)}>{vendor.companyName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input type="date" className="h-9 text-xs" title="Desde" value={listFilters.from} onChange={e => setListFilters({ ...listFilters, from: e.target.value })} />
+          <Input type="date" className="h-9 text-xs" title="Hasta" value={listFilters.to} onChange={e => setListFilters({ ...listFilters, to: e.target.value })} />
+          <Input type="number" min={0} className="h-9 text-xs" placeholder="Monto mínimo" value={listFilters.minTotal} onChange={e => setListFilters({ ...listFilters, minTotal: e.target.value })} />
+          <Input type="number" min={0} className="h-9 text-xs" placeholder="Monto máximo" value={listFilters.maxTotal} onChange={e => setListFilters({ ...listFilters, maxTotal: e.target.value })} />
+          <Select value={listFilters.totalCurrency} onValueChange={(value) => setListFilters({ ...listFilters, totalCurrency: value })}>
+            <SelectTrigger className="h-9 text-xs" title="Moneda de los montos"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="MXN">Montos en MXN</SelectItem>
+              <SelectItem value="USD">Montos en USD</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={listFilters.sort} onValueChange={(value) => setListFilters({ ...listFilters, sort: value })}>
+            <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Orden predeterminado</SelectItem>
+              {QUOTE_SORT_OPTIONS.map(option => (
+                <SelectItem key={`${option.sort}:${option.order}`} value={`${option.sort}:${option.order}`}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         <div className="w-full overflow-x-auto">
           <Table>
             <TableHeader>
@@ -771,15 +1304,50 @@ export default function QuotesPage() {
             </TableHeader>
             <TableBody>
               {loadingQuotes ? <TableRow><TableCell colSpan={6} className="text-center py-10">Cargando...</TableCell></TableRow> :
-               !loadingQuotes && filteredQuotes.length === 0 ? <TableRow><TableCell colSpan={6} className="text-center py-10 text-slate-400">No se encontraron resultados para tu búsqueda.</TableCell></TableRow> :
-               filteredQuotes.map(q => (
+               !loadingQuotes && quotes.length === 0 ? <TableRow><TableCell colSpan={6} className="text-center py-10 text-slate-400">{hasListFilters ? "No se encontraron resultados para tu búsqueda." : "Todavía no hay cotizaciones."}</TableCell></TableRow> :
+               quotes.map(q => {
+                const status = resolveQuoteStatus(q.status);
+                const nextStatuses = QUOTE_STATUS_TRANSITIONS[status].filter(next => user?.isAdmin || !quoteTransitionRequiresAdmin(status, next));
+                const pdfEnabled = PDF_ENABLED_QUOTE_STATUSES.includes(status);
+                const pdfJob = pdfJobs[q.id];
+                const pdfJobActive = pdfJob?.status === "pendiente" || pdfJob?.status === "procesando";
+                return (
                 <TableRow key={q.id} className="hover:bg-slate-50 transition-colors dark:hover:bg-[rgba(0,180,216,0.08)] dark:hover:border-l-4 dark:hover:border-cyan-400/70 dark:hover:shadow-[inset_0_0_0_1px_rgba(0,180,216,0.15)] dark:text-[#E0FBFC]">
                   <TableCell className="px-6 py-4 font-mono text-xs font-bold text-blue-700 dark:text-[#E0FBFC]">{q.internalFolio || q.folio}</TableCell>
                   <TableCell className="px-6 py-4 text-xs text-slate-600 dark:text-[#E0FBFC]">{q.requisitionNumber || 'N/A'}</TableCell>
                   <TableCell className="px-6 py-4 text-sm font-medium dark:text-[#E0FBFC]">{q.destinationCompany || 'Sin asignar'}</TableCell>
-                  <TableCell className="px-6 py-4 text-right font-bold text-sm dark:text-[#E0FBFC]">${Number(q.total || 0).toLocaleString()}</TableCell>
+                  <TableCell className="px-6 py-4 text-right font-bold text-sm dark:text-[#E0FBFC]">
+                    ${Number(q.total || 0).toLocaleString()}{q.currency === "USD" && <span className="ml-1 text-xs font-semibold text-emerald-600">USD</span>}
+                  </TableCell>
                   <TableCell className="px-6 py-4 text-center">
-                    <Badge className="bg-emerald-100 text-emerald-700 border-none text-[10px] font-bold">COMPLETADO</Badge>
+                    <Badge className={`${quoteStatusBadgeClasses[status]} border-none text-[10px] font-bold uppercase`}>{QUOTE_STATUS_LABELS[status]}</Badge>
+                    {(q.expiryStatus === "por_vencer" || q.expiryStatus === "vencida") && (
+                      <div
+                        title={`${QUOTE_EXPIRY_STATUS_LABELS[q.expiryStatus as keyof typeof QUOTE_EXPIRY_STATUS_LABELS]}: ${q.expiresAt}`}
+                        className={`mt-1 text-[10px] font-medium ${q.expiryStatus === "vencida" ? "text-red-600" : "text-amber-600"}`}
+                      >
+                        {daysRemainingLabel(q.daysRemaining ?? 0)}
+                      </div>
+                    )}
+                    {pdfJob && (
+                      <div className="mt-1 flex items-center justify-center gap-1 text-[10px] font-medium">
+                        {pdfJobActive && (
+                          <span className="flex items-center gap-1 text-blue-600">
+                            <Loader2 size={10} className="animate-spin" /> {PDF_JOB_STATUS_LABELS[pdfJob.status as keyof typeof PDF_JOB_STATUS_LABELS]} {pdfJob.progress}%
+                          </span>
+                        )}
+                        {pdfJob.status === "completado" && pdfJob.downloadUrl && (
+                          <a href={pdfJob.downloadUrl} className="flex items-center gap-1 text-emerald-600 hover:underline">
+                            <Download size={10} /> Descargar PDF
+                          </a>
+                        )}
+                        {pdfJob.status === "fallido" && (
+                          <button type="button" onClick={() => retryPdfJob(pdfJob)} title={pdfJob.error || undefined} className="flex items-center gap-1 text-red-600 hover:underline">
+                            <RotateCcw size={10} /> Reintentar PDF
+                          </button>
+                        )}
+                      </div>
+                    )}
                   </TableCell>
                   
                   <TableCell className="px-6 py-4 text-center">
@@ -792,14 +1360,42 @@ export default function QuotesPage() {
                       <DropdownMenuContent align="end" className="bg-white shadow-lg border rounded-lg p-1 min-w-[150px] z-50">
                         
                         <DropdownMenuItem 
-                          onClick={() => window.open(`/api/quotes/${q.id}/pdf`, '_blank')}
+                          disabled={!pdfEnabled || pdfJobActive}
+                          onClick={() => startPdfJob(q.id)}
                           className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-slate-700 rounded hover:bg-slate-100 cursor-pointer"
                         >
                           <Download size={14} className="text-blue-600" />
-                          <span>Descargar PDF</span>
+                          <span>{!pdfEnabled ? "PDF (requiere aprobación)" : pdfJobActive ? "Generando PDF…" : "Descargar PDF"}</span>
+                        </DropdownMenuItem>
+
+                        <DropdownMenuItem
+                          onClick={() => window.location.assign(`/api/quotes/${q.id}/export.xlsx`)}
+                          className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-slate-700 rounded hover:bg-slate-100 cursor-pointer"
+                        >
+                          <FileSpreadsheet size={14} className="text-emerald-600" />
+                          <span>Exportar Excel (con costeo)</span>
                         </DropdownMenuItem>
 
                         <DropdownMenuItem
+                          disabled={!pdfEnabled}
+                          onClick={() => { setSelectedQuoteId(q.id); setSelectFolderModalOpen(true); }}
+                          className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-slate-700 rounded hover:bg-slate-100 cursor-pointer"
+                        >
+                          <FolderInput size={14} className="text-blue-600" />
+                          <span>Guardar PDF en carpeta</span>
+                        </DropdownMenuItem>
+
+                        <DropdownMenuItem
+                          disabled={!pdfEnabled}
+                          onClick={() => setEmailQuote(q)}
+                          className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-slate-700 rounded hover:bg-slate-100 cursor-pointer"
+                        >
+                          <Mail size={14} className="text-blue-600" />
+                          <span>Enviar por correo</span>
+                        </DropdownMenuItem>
+
+                        <DropdownMenuItem
+                          disabled={!EDITABLE_QUOTE_STATUSES.includes(status)}
                           onClick={() => handleEditQuote(q)}
                           className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-slate-700 rounded hover:bg-slate-100 cursor-pointer"
                         >
@@ -807,6 +1403,67 @@ export default function QuotesPage() {
                           <span>Editar</span>
                         </DropdownMenuItem>
 
+                        <DropdownMenuItem
+                          disabled={!q.expiresAt || !canRenewQuoteValidity(status, !!user?.isAdmin) || renewValidityMutation.isPending}
+                          title={EDITABLE_QUOTE_STATUSES.includes(status)
+                            ? undefined
+                            : user?.isAdmin
+                              ? "La cotización regresará a revisión con la nueva fecha"
+                              : "Sólo un administrador puede renovar una cotización aprobada o enviada"}
+                          onClick={() => renewValidityMutation.mutate(q.id)}
+                          className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-slate-700 rounded hover:bg-slate-100 cursor-pointer"
+                        >
+                          <CalendarClock size={14} className="text-amber-600" />
+                          <span>Renovar vigencia</span>
+                        </DropdownMenuItem>
+
+                        <DropdownMenuItem
+                          onClick={() => setCloneQuote(q)}
+                          className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-slate-700 rounded hover:bg-slate-100 cursor-pointer"
+                        >
+                          <Copy size={14} className="text-blue-600" />
+                          <span>Duplicar</span>
+                        </DropdownMenuItem>
+
+                        <DropdownMenuSub>
+                          <DropdownMenuSubTrigger
+                            disabled={nextStatuses.length === 0}
+                            className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-slate-700 rounded hover:bg-slate-100 cursor-pointer"
+                          >
+                            <GitBranch size={14} className="text-amber-600" />
+                            <span>Cambiar estado</span>
+                          </DropdownMenuSubTrigger>
+                          <DropdownMenuSubContent className="bg-white shadow-lg border rounded-lg p-1 min-w-[150px] z-50">
+                            {nextStatuses.map(next => (
+                              <DropdownMenuItem
+                                key={next}
+                                onClick={() => statusMutation.mutate({ quoteId: q.id, status: next })}
+                                className="px-3 py-2 text-xs font-medium text-slate-700 rounded hover:bg-slate-100 cursor-pointer"
+                              >
+                                {QUOTE_STATUS_LABELS[next]}
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuSubContent>
+                        </DropdownMenuSub>
+
+                        <DropdownMenuItem
+                          onClick={() => setHistoryQuote(q)}
+                          className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-slate-700 rounded hover:bg-slate-100 cursor-pointer"
+                        >
+                          <History size={14} className="text-slate-500" />
+                          <span>Historial de estados</span>
+                        </DropdownMenuItem>
+
+                        <DropdownMenuItem
+                          onClick={() => setRevisionsQuote(q)}
+                          className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-slate-700 rounded hover:bg-slate-100 cursor-pointer"
+                        >
+                          <Layers size={14} className="text-slate-500" />
+                          <span>Revisiones</span>
+                        </DropdownMenuItem>
+
+                        <DropdownMenuSeparator />
+
                         <DropdownMenuItem 
                           onClick={async () => {
                             if (confirm(`¿Estás seguro de que deseas eliminar la cotización ${q.internalFolio || q.folio}?`)) {
@@ -831,11 +1488,85 @@ export default function QuotesPage() {
                     </DropdownMenu>
                   </TableCell>
                 </TableRow>
-              ))}
+                );
+              })}
             </TableBody>
           </Table>
         </div>
+        {hasMoreQuotes && (
+          <div className="flex items-center justify-between gap-4 pt-4 text-xs text-slate-500">
+            <span>Mostrando {quotes.length} de {quoteCount}</span>
+            <Button variant="outline" size="sm" disabled={loadingMoreQuotes} onClick={() => fetchMoreQuotes()}>
+              {loadingMoreQuotes && <Loader2 className="mr-2 h-3 w-3 animate-spin" />} Cargar más
+            </Button>
+          </div>
+        )}
       </div>
+
+      {/* MODAL: Historial de estados de la cotización */}
+      <Dialog open={!!historyQuote} onOpenChange={(open) => { if (!open) setHistoryQuote(null); }}>
+        <DialogContent className="sm:max-w-xl bg-card text-foreground">
+          <DialogHeader>
+            <DialogTitle className="border-b border-border pb-4 text-lg">
+              Historial de estados {historyQuote ? `- ${historyQuote.internalFolio || historyQuote.folio}` : ""}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="max-h-96 overflow-y-auto">
+            {loadingHistory ? (
+              <div className="text-center py-6 text-sm text-slate-500">Cargando...</div>
+            ) : statusHistory.length === 0 ? (
+              <div className="text-center py-6 text-sm text-slate-400">Sin movimientos registrados.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs font-bold uppercase">Fecha</TableHead>
+                    <TableHead className="text-xs font-bold uppercase">Movimiento</TableHead>
+                    <TableHead className="text-xs font-bold uppercase">Usuario</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statusHistory.map(change => (
+                    <TableRow key={change.id}>
+                      <TableCell className="text-xs">{new Date(change.createdAt).toLocaleString("es-MX")}</TableCell>
+                      <TableCell className="text-xs">
+                        {change.fromStatus ? `${QUOTE_STATUS_LABELS[resolveQuoteStatus(change.fromStatus)]} → ` : ""}
+                        <span className="font-semibold">{QUOTE_STATUS_LABELS[resolveQuoteStatus(change.toStatus)]}</span>
+                        {change.comment ? <div className="text-slate-500">{change.comment}</div> : null}
+                      </TableCell>
+                      <TableCell className="text-xs">{change.correo || "N/A"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* MODAL: Revisiones de la cotización */}
+      <QuoteRevisionsDialog
+        open={!!revisionsQuote}
+        onOpenChange={(open) => { if (!open) setRevisionsQuote(null); }}
+        quote={revisionsQuote}
+        canRestore={!!revisionsQuote && EDITABLE_QUOTE_STATUSES.includes(resolveQuoteStatus(revisionsQuote.status))}
+      />
+
+      {/* MODAL: Duplicar cotización */}
+      <QuoteCloneDialog
+        open={!!cloneQuote}
+        onOpenChange={(open) => { if (!open) setCloneQuote(null); }}
+        quote={cloneQuote}
+        companies={activeCompanies}
+        onCloned={handleEditQuote}
+      />
+
+      {/* MODAL: Enviar por correo */}
+      <QuoteEmailDialog
+        open={!!emailQuote}
+        onOpenChange={(open) => { if (!open) setEmailQuote(null); }}
+        quote={emailQuote}
+      />
       </main>
     </div>
   );
@@ -0,0 +1,17 @@
+-- Migración: Ciclo de vida de cotizaciones
+-- Agrega el estado de la cotización (borrador por defecto) y la bitácora de cambios de estado
+
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'borrador';
+
+CREATE TABLE IF NOT EXISTS quote_status_history (
+  id serial PRIMARY KEY NOT NULL,
+  quote_id integer NOT NULL REFERENCES quotes(id),
+  from_status text,
+  to_status text NOT NULL,
+  comment text NOT NULL DEFAULT '',
+  correo varchar(255),
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS quote_status_history_quote_id_idx ON quote_status_history (quote_id);
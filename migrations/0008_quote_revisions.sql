@@ -0,0 +1,14 @@
+-- Migración: Revisiones inmutables de cotizaciones
+-- Cada guardado almacena una instantánea numerada de la cotización y sus partidas
+
+CREATE TABLE IF NOT EXISTS quote_revisions (
+  id serial PRIMARY KEY NOT NULL,
+  quote_id integer NOT NULL REFERENCES quotes(id),
+  revision_number integer NOT NULL,
+  snapshot_json text NOT NULL,
+  note text NOT NULL DEFAULT '',
+  correo varchar(255),
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS quote_revisions_quote_id_revision_number_idx ON quote_revisions (quote_id, revision_number);
@@ -0,0 +1,32 @@
+-- Migración: Folios internos automáticos por empresa y año
+-- Patrón configurable por empresa, consecutivo anual y números reservados u omitidos
+
+CREATE TABLE IF NOT EXISTS folio_settings (
+  id serial PRIMARY KEY NOT NULL,
+  company_origin text NOT NULL UNIQUE,
+  pattern text NOT NULL DEFAULT '{EMPRESA}-{YYYY}-{####}',
+  correo varchar(255),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS folio_sequences (
+  id serial PRIMARY KEY NOT NULL,
+  company_origin text NOT NULL,
+  year integer NOT NULL,
+  last_number integer NOT NULL DEFAULT 0
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS folio_sequences_company_origin_year_idx ON folio_sequences (company_origin, year);
+
+CREATE TABLE IF NOT EXISTS folio_reservations (
+  id serial PRIMARY KEY NOT NULL,
+  company_origin text NOT NULL,
+  year integer NOT NULL,
+  number integer NOT NULL,
+  folio text NOT NULL UNIQUE,
+  kind text NOT NULL DEFAULT 'reservado',
+  note text NOT NULL DEFAULT '',
+  quote_id integer REFERENCES quotes(id),
+  correo varchar(255),
+  created_at timestamp NOT NULL DEFAULT now()
+);
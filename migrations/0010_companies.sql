@@ -0,0 +1,33 @@
+-- Migración: Registro de empresas emisoras
+-- Membrete, márgenes, pie de página y plantilla de cada empresa dejan de estar en el código
+
+CREATE TABLE IF NOT EXISTS companies (
+  id serial PRIMARY KEY NOT NULL,
+  code text NOT NULL UNIQUE,
+  friendly_name text NOT NULL,
+  legal_name text NOT NULL DEFAULT '',
+  rfc text NOT NULL DEFAULT '',
+  template_key text NOT NULL DEFAULT 'azal',
+  primary_color text NOT NULL DEFAULT '#1E3A8A',
+  header_image text,
+  footer_image text,
+  logo_image text,
+  margin_top integer NOT NULL DEFAULT 190,
+  margin_bottom integer NOT NULL DEFAULT 150,
+  footer_text text NOT NULL DEFAULT '',
+  show_page_numbers boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+-- Empresas existentes con los membretes que ya viven en server/assets
+INSERT INTO companies (code, friendly_name, legal_name, rfc, template_key, primary_color, header_image, footer_image, logo_image, margin_top, margin_bottom, footer_text, show_page_numbers)
+VALUES
+  ('AMS', 'AZAL', 'Azal Mechanical Supports, S.A. de C.V.', 'AMS161027SY5', 'azal', '#5A69D4', 'encabezado.png', 'pie.png', NULL, 190, 150, '', false),
+  ('HGW', 'HGW', 'HGW PROCESS AND SOLUTIONS, S.A. DE C.V.', 'HPS200624FG1', 'hgw', '#000000', 'encabezado-hgw.png', 'pie-hgw.png', NULL, 190, 150,
+    E'hgw@hgwprocessolutions.com\nAv. Jorge Jiménez Cantú No. Ext. 1, No. Int. 124, Valle Escondido, 52937, Atizapán de Zaragoza, Estado de México\nTeléfonos: 56 1080 9920 – 55 4556 6367', true),
+  ('DEMA', 'DEMA', 'DEMA Ingeniería y Soluciones Industriales, S.A. de C.V.', 'DIS2302154R4', 'dema', '#2E7D32', 'encabezado-DEMA.png', 'Pie_pagina_DEMA.png', NULL, 190, 150, '', false),
+  ('HERMAL', 'HERMAL', 'HERMAL Industrial, S.A. de C.V.', 'HIN2305193K1', 'hermal', '#F5D0C9', 'encabezado-hermal.png', 'pie-hermal.png', NULL, 230, 150, '', false),
+  ('HYH', 'HYH', 'HYH SUMINISTROS Y MANTENIMIENTO INDUSTRIAL, S.A.S. DE C.V.', '', 'hyh', '#B91C1C', NULL, NULL, 'logo-hyh.svg', 190, 150, '', true)
+ON CONFLICT (code) DO NOTHING;
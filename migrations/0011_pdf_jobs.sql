@@ -0,0 +1,21 @@
+-- Migración: Cola persistente de trabajos de PDF
+-- El worker toma los trabajos pendientes, guarda el PDF en base64 y conserva el error si falla
+
+CREATE TABLE IF NOT EXISTS pdf_jobs (
+  id serial PRIMARY KEY NOT NULL,
+  quote_id integer NOT NULL REFERENCES quotes(id),
+  status text NOT NULL DEFAULT 'pendiente',
+  progress integer NOT NULL DEFAULT 0,
+  attempts integer NOT NULL DEFAULT 0,
+  error text,
+  file_name text,
+  pdf_base64 text,
+  size integer,
+  correo varchar(255),
+  created_at timestamp NOT NULL DEFAULT now(),
+  started_at timestamp,
+  finished_at timestamp
+);
+
+CREATE INDEX IF NOT EXISTS pdf_jobs_status_created_at_idx ON pdf_jobs (status, created_at);
+CREATE INDEX IF NOT EXISTS pdf_jobs_quote_id_idx ON pdf_jobs (quote_id);
@@ -0,0 +1,10 @@
+-- Migración: Impuestos configurables por cotización
+-- Tasa de IVA y retenciones en la cotización; exención de IVA por partida
+
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS iva_rate text NOT NULL DEFAULT '16',
+  ADD COLUMN IF NOT EXISTS iva_retention_rate numeric(7, 4) NOT NULL DEFAULT '0',
+  ADD COLUMN IF NOT EXISTS isr_retention_rate numeric(7, 4) NOT NULL DEFAULT '0';
+
+ALTER TABLE quote_items
+  ADD COLUMN IF NOT EXISTS tax_exempt boolean NOT NULL DEFAULT false;
@@ -0,0 +1,8 @@
+-- Migración: Cotizaciones en moneda extranjera
+-- Moneda de la propuesta, tipo de cambio DOF usado y moneda de los costos de compra
+
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'MXN',
+  ADD COLUMN IF NOT EXISTS exchange_rate numeric(12, 6),
+  ADD COLUMN IF NOT EXISTS exchange_rate_date text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS cost_currency text NOT NULL DEFAULT 'MXN';
@@ -0,0 +1,35 @@
+-- Migración: Biblioteca de cláusulas y garantías
+-- Textos reutilizables por categoría con variantes por empresa; las cotizaciones guardan la copia usada
+
+CREATE TABLE IF NOT EXISTS clause_library (
+  id serial PRIMARY KEY NOT NULL,
+  code text NOT NULL,
+  category text NOT NULL,
+  company_origin text NOT NULL DEFAULT '',
+  title text NOT NULL,
+  content text NOT NULL,
+  norm text NOT NULL DEFAULT '',
+  sort_order integer NOT NULL DEFAULT 0,
+  version integer NOT NULL DEFAULT 1,
+  is_active boolean NOT NULL DEFAULT true,
+  correo varchar(255),
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS clause_library_code_company_origin_idx ON clause_library (code, company_origin);
+CREATE INDEX IF NOT EXISTS clause_library_category_idx ON clause_library (category);
+
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS clause_refs_json text NOT NULL DEFAULT '[]';
+
+-- Cláusulas de lugar de entrega que estaban fijas en client/src/lib/clausulas.ts
+INSERT INTO clause_library (code, category, company_origin, title, content, sort_order)
+VALUES
+  ('A', 'clausula_entrega', 'HGW', 'CFE División Sureste',
+    'Mantenimiento del sistema de procesamiento de datos: CFE División Sureste, Av. Manuel Álvarez Bravo No. 600, Fracc. Colinas de la Soledad, San Felipe del Agua, Oaxaca de Juárez, Oaxaca, C.P. 68020.', 1),
+  ('B', 'clausula_entrega', 'HGW', 'Firewalls Dirección General de Materiales de Guerra',
+    'Mantenimiento a un firewall Watch Guard Firebox XTM 505 y un firewall Watch Guard Firebox m200 (incluye U.P.S.) ubicado en la Dirección General de Materiales de Guerra, Interior del Campo No. 1-A "Gral. Div. Alvaro Obregon", Cd. Méx.', 2),
+  ('C', 'clausula_entrega', 'HGW', 'Sitios de medición del sistema de porteo',
+    'Mantenimiento de 41 sitios de medición del sistema de porteo en los siguientes sitios:', 3)
+ON CONFLICT (code, company_origin) DO NOTHING;
@@ -0,0 +1,18 @@
+-- Migración: Catálogo de productos y servicios
+-- Descripciones estándar de partidas con proveedores preferidos y su último costo de compra
+
+CREATE TABLE IF NOT EXISTS catalog_items (
+  id serial PRIMARY KEY NOT NULL,
+  kind text NOT NULL DEFAULT 'bienes',
+  code text NOT NULL DEFAULT '',
+  description text NOT NULL,
+  tech_requirements text NOT NULL DEFAULT '',
+  unit_measure text NOT NULL DEFAULT '',
+  suppliers_json text NOT NULL DEFAULT '[]',
+  is_active boolean NOT NULL DEFAULT true,
+  correo varchar(255),
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS catalog_items_kind_description_idx ON catalog_items (kind, description);
@@ -0,0 +1,8 @@
+-- Migración: Búsqueda indexada del historial de precios
+-- Índices trigram y de texto completo sobre la descripción de las partidas
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS quote_items_description_trgm_idx ON quote_items USING gin (description gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS quote_items_description_fts_idx ON quote_items USING gin (to_tsvector('spanish', description));
+CREATE INDEX IF NOT EXISTS quote_items_quote_id_idx ON quote_items (quote_id);
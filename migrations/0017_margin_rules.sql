@@ -0,0 +1,17 @@
+-- Migración: Márgenes mínimos por empresa y tipo de propuesta
+-- El servidor calcula el precio desde el costo; el factor guarda cuatro decimales para no perder centavos
+
+CREATE TABLE IF NOT EXISTS margin_rules (
+  id serial PRIMARY KEY NOT NULL,
+  company_origin text NOT NULL DEFAULT '',
+  category text NOT NULL DEFAULT '',
+  min_margin_percent numeric(6, 2) NOT NULL DEFAULT '0',
+  enforcement text NOT NULL DEFAULT 'advertir',
+  correo varchar(255),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS margin_rules_company_origin_category_idx ON margin_rules (company_origin, category);
+
+ALTER TABLE quote_items
+  ALTER COLUMN profit_factor TYPE numeric(10, 4);
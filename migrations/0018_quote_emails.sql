@@ -0,0 +1,25 @@
+-- Migración: Envío de cotizaciones por correo
+-- Bitácora de envíos por cotización, plantillas de correo por empresa y correo del contacto
+
+CREATE TABLE IF NOT EXISTS quote_emails (
+  id serial PRIMARY KEY NOT NULL,
+  quote_id integer NOT NULL REFERENCES quotes(id),
+  recipients text NOT NULL,
+  cc text NOT NULL DEFAULT '',
+  subject text NOT NULL,
+  attachments_json text NOT NULL DEFAULT '[]',
+  status text NOT NULL DEFAULT 'enviado',
+  message_id text,
+  error text,
+  correo varchar(255),
+  sent_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS quote_emails_quote_id_idx ON quote_emails (quote_id);
+
+ALTER TABLE companies
+  ADD COLUMN IF NOT EXISTS email_subject_template text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS email_body_template text NOT NULL DEFAULT '';
+
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS contact_email text NOT NULL DEFAULT '';
@@ -0,0 +1,42 @@
+-- Migración: Directorio de clientes (dependencias) y contactos
+-- Las cotizaciones guardan la dependencia y el contacto con los que se llenó la sección de atención
+
+CREATE TABLE IF NOT EXISTS clients (
+  id serial PRIMARY KEY NOT NULL,
+  name text NOT NULL,
+  short_name text NOT NULL DEFAULT '',
+  rfc text NOT NULL DEFAULT '',
+  lugar text NOT NULL DEFAULT '',
+  ubicacion text NOT NULL DEFAULT '',
+  direccion text NOT NULL DEFAULT '',
+  notes text NOT NULL DEFAULT '',
+  is_active boolean NOT NULL DEFAULT true,
+  correo varchar(255),
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS clients_name_idx ON clients (name);
+
+CREATE TABLE IF NOT EXISTS client_contacts (
+  id serial PRIMARY KEY NOT NULL,
+  client_id integer NOT NULL REFERENCES clients(id),
+  full_name text NOT NULL,
+  grado text NOT NULL DEFAULT '',
+  cargo text NOT NULL DEFAULT '',
+  area text NOT NULL DEFAULT '',
+  contacto text NOT NULL DEFAULT '',
+  email text NOT NULL DEFAULT '',
+  phone text NOT NULL DEFAULT '',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS client_contacts_client_id_idx ON client_contacts (client_id);
+
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS client_id integer REFERENCES clients(id),
+  ADD COLUMN IF NOT EXISTS client_contact_id integer REFERENCES client_contacts(id);
+
+CREATE INDEX IF NOT EXISTS quotes_client_id_idx ON quotes (client_id);
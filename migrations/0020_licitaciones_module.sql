@@ -0,0 +1,48 @@
+-- Migración: Módulo de licitaciones
+-- Etapas con fecha (calendario), resultado del fallo, liga con cotizaciones y suscripción .ics por usuario
+
+ALTER TABLE licitaciones
+  ADD COLUMN IF NOT EXISTS descripcion text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS client_id integer REFERENCES clients(id),
+  ADD COLUMN IF NOT EXISTS folder_id integer REFERENCES folders(id),
+  ADD COLUMN IF NOT EXISTS ganador text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS monto_adjudicado numeric(14, 2),
+  ADD COLUMN IF NOT EXISTS resultado text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS correo varchar(255),
+  ADD COLUMN IF NOT EXISTS updated_at timestamp NOT NULL DEFAULT now();
+
+CREATE TABLE IF NOT EXISTS licitacion_events (
+  id serial PRIMARY KEY NOT NULL,
+  licitacion_id integer NOT NULL REFERENCES licitaciones(id),
+  type text NOT NULL,
+  event_date text NOT NULL,
+  event_time text NOT NULL DEFAULT '',
+  location text NOT NULL DEFAULT '',
+  notes text NOT NULL DEFAULT '',
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS licitacion_events_licitacion_id_type_idx ON licitacion_events (licitacion_id, type);
+CREATE INDEX IF NOT EXISTS licitacion_events_event_date_idx ON licitacion_events (event_date);
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id serial PRIMARY KEY NOT NULL,
+  user_id integer NOT NULL REFERENCES users(id),
+  token text NOT NULL,
+  reminder_minutes_json text NOT NULL DEFAULT '[1440,60]',
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS calendar_feeds_user_id_idx ON calendar_feeds (user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS calendar_feeds_token_idx ON calendar_feeds (token);
+
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS licitacion_id integer REFERENCES licitaciones(id);
+
+CREATE INDEX IF NOT EXISTS quotes_licitacion_id_idx ON quotes (licitacion_id);
+
+-- Las licitaciones existentes con estados fuera del ciclo quedan abiertas
+UPDATE licitaciones
+SET estado = 'abierta'
+WHERE estado NOT IN ('abierta', 'en_preparacion', 'presentada', 'ganada', 'perdida', 'desierta', 'cancelada');
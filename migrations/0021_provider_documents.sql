@@ -0,0 +1,16 @@
+-- Migración: Documentos de cumplimiento de proveedores
+-- Constancia de situación fiscal, opiniones de cumplimiento, acta constitutiva y poder notarial con su vigencia
+
+CREATE TABLE IF NOT EXISTS provider_documents (
+  id serial PRIMARY KEY NOT NULL,
+  provider_id integer NOT NULL REFERENCES providers(id),
+  type text NOT NULL,
+  file_id integer NOT NULL REFERENCES files(id),
+  issue_date text NOT NULL,
+  expiry_date text,
+  notes text NOT NULL DEFAULT '',
+  uploaded_by integer REFERENCES users(id),
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS provider_documents_provider_id_idx ON provider_documents (provider_id);
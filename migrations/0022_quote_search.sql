@@ -0,0 +1,18 @@
+-- Migración: Búsqueda, filtros y paginación del listado de cotizaciones
+-- Total guardado para filtrar y ordenar por importe, e índices para las consultas de GET /api/quotes
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- El total de las cotizaciones existentes lo calcula el servidor al arrancar (backfillQuoteTotals)
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS total_cents bigint NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS quotes_search_trgm_idx ON quotes
+  USING gin ((internal_folio || ' ' || project_title || ' ' || destination_company || ' ' || requisition_number) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS quotes_quote_date_idx ON quotes (quote_date, id);
+CREATE INDEX IF NOT EXISTS quotes_total_cents_idx ON quotes (total_cents, id);
+CREATE INDEX IF NOT EXISTS quotes_internal_folio_idx ON quotes (internal_folio, id);
+CREATE INDEX IF NOT EXISTS quotes_company_origin_idx ON quotes (upper(company_origin));
+CREATE INDEX IF NOT EXISTS quotes_proposal_type_idx ON quotes (proposal_type);
+CREATE INDEX IF NOT EXISTS quotes_provider_id_idx ON quotes (provider_id);
+CREATE INDEX IF NOT EXISTS quotes_status_idx ON quotes (status);
@@ -0,0 +1,5 @@
+-- Migración: Conservar las revisiones de cotizaciones eliminadas
+-- Al borrar la cotización sus revisiones quedan sin liga (quote_id nulo) en lugar de eliminarse
+
+ALTER TABLE quote_revisions
+  ALTER COLUMN quote_id DROP NOT NULL;
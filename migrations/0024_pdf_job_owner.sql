@@ -0,0 +1,5 @@
+-- Migración: Usuario que pidió cada trabajo de PDF
+-- Solo ese usuario o un administrador puede consultar, descargar o reintentar el trabajo
+
+ALTER TABLE pdf_jobs
+  ADD COLUMN IF NOT EXISTS requested_by integer REFERENCES users(id);
@@ -0,0 +1,5 @@
+-- Migración: Conservar la bitácora de correos de cotizaciones eliminadas
+-- Al borrar la cotización sus envíos quedan sin liga (quote_id nulo) en lugar de eliminarse
+
+ALTER TABLE quote_emails
+  ALTER COLUMN quote_id DROP NOT NULL;
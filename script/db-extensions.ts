@@ -0,0 +1,20 @@
+import "dotenv/config";
+import { Pool } from '@neondatabase/serverless';
+
+// drizzle-kit push no crea extensiones: los índices trigram de shared/schema.ts necesitan pg_trgm antes
+async function createExtensions() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  const client = await pool.connect();
+  try {
+    await client.query(`CREATE EXTENSION IF NOT EXISTS pg_trgm;`);
+    console.log("Extensions ready");
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+createExtensions().catch(error => {
+  console.error("Error creating extensions:", error);
+  process.exit(1);
+});
@@ -0,0 +1,159 @@
+import {
+  isCatalogItemKind,
+  type CatalogItem,
+  type CatalogItemKind,
+  type CatalogItemResponse,
+  type CatalogSupplier,
+  type InsertCatalogItem,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// ==========================================
+// CATÁLOGO DE PRODUCTOS Y SERVICIOS
+// ==========================================
+
+export class CatalogError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "CatalogError";
+  }
+}
+
+const roundCost = (value: number) => Math.round(value * 100) / 100;
+
+// Preferidos primero y, dentro de cada grupo, el costo más reciente
+function sortSuppliers(suppliers: CatalogSupplier[]): CatalogSupplier[] {
+  return [...suppliers].sort((a, b) => Number(b.preferred) - Number(a.preferred) || b.lastCostDate.localeCompare(a.lastCostDate));
+}
+
+export function parseCatalogSuppliers(value: unknown): CatalogSupplier[] {
+  let list: unknown = value;
+  if (typeof value === "string") {
+    try {
+      list = JSON.parse(value || "[]");
+    } catch {
+      list = [];
+    }
+  }
+  if (!Array.isArray(list)) return [];
+
+  const suppliers: CatalogSupplier[] = [];
+  for (const raw of list) {
+    const name = (raw?.name ?? "").toString().trim();
+    if (!name || suppliers.some(s => s.name.toLowerCase() === name.toLowerCase())) continue;
+    const cost = Number(raw?.lastCost);
+    suppliers.push({
+      name,
+      lastCost: Number.isFinite(cost) && cost > 0 ? roundCost(cost) : 0,
+      lastCostDate: (raw?.lastCostDate ?? "").toString().trim(),
+      preferred: raw?.preferred === true,
+    });
+  }
+  return sortSuppliers(suppliers);
+}
+
+export function toCatalogItemResponse(item: CatalogItem): CatalogItemResponse {
+  const { suppliersJson, ...rest } = item;
+  return { ...rest, suppliers: parseCatalogSuppliers(suppliersJson) };
+}
+
+export function parseCatalogItemInput(body: any, partial: boolean): { data?: Partial<InsertCatalogItem>; error?: string } {
+  const data: Partial<InsertCatalogItem> = {};
+
+  if (!partial || body.kind !== undefined) {
+    if (!isCatalogItemKind(body.kind)) return { error: "El tipo debe ser bienes o servicios" };
+    data.kind = body.kind;
+  }
+  if (!partial || body.description !== undefined) {
+    const description = (body.description ?? "").toString().trim();
+    if (!description) return { error: "La descripción es requerida" };
+    data.description = description;
+  }
+  if (body.code !== undefined) data.code = body.code.toString().trim().toUpperCase();
+  if (body.techRequirements !== undefined) data.techRequirements = body.techRequirements.toString().trim();
+  if (body.unitMeasure !== undefined) data.unitMeasure = body.unitMeasure.toString().trim().toUpperCase();
+  if (body.suppliers !== undefined) {
+    if (!Array.isArray(body.suppliers)) return { error: "Los proveedores deben enviarse como lista" };
+    data.suppliersJson = JSON.stringify(parseCatalogSuppliers(body.suppliers));
+  }
+  if (body.isActive !== undefined) data.isActive = body.isActive === true || body.isActive === "true";
+
+  return { data };
+}
+
+// Registra el costo de un proveedor; si es el primero del artículo queda como preferido
+export function mergeCatalogSupplier(suppliers: CatalogSupplier[], name: string, cost: number, date: string): CatalogSupplier[] {
+  const trimmed = name.trim();
+  if (!trimmed) return suppliers;
+
+  const existing = suppliers.find(s => s.name.toLowerCase() === trimmed.toLowerCase());
+  const lastCost = Number.isFinite(cost) && cost > 0 ? roundCost(cost) : existing?.lastCost ?? 0;
+  const updated: CatalogSupplier = {
+    name: existing?.name ?? trimmed,
+    lastCost,
+    lastCostDate: lastCost !== existing?.lastCost || !existing ? date : existing.lastCostDate,
+    preferred: existing?.preferred ?? suppliers.length === 0,
+  };
+  return sortSuppliers([...suppliers.filter(s => s !== existing), updated]);
+}
+
+export interface CatalogPartidaInput {
+  catalogItemId?: unknown;
+  description?: unknown;
+  techRequirements?: unknown;
+  unitMeasure?: unknown;
+  supplier?: unknown;
+  purchaseCost?: unknown;
+}
+
+/**
+ * Da de alta o actualiza el artículo del catálogo a partir de una partida de cotización. Se busca
+ * por el artículo del que salió la partida o, si no hay, por la descripción exacta; los textos
+ * vacíos de la partida no borran los del catálogo.
+ */
+export async function upsertCatalogItemFromPartida(
+  partida: CatalogPartidaInput,
+  kind: CatalogItemKind,
+  correo: string | null,
+): Promise<{ item: CatalogItem; created: boolean }> {
+  const description = (partida.description ?? "").toString().trim();
+  if (!description) {
+    throw new CatalogError("La partida no tiene descripción");
+  }
+  const techRequirements = (partida.techRequirements ?? "").toString().trim();
+  const unitMeasure = (partida.unitMeasure ?? "").toString().trim().toUpperCase();
+  const today = new Date().toISOString().slice(0, 10);
+
+  const catalogItemId = Number(partida.catalogItemId);
+  let existing = Number.isInteger(catalogItemId) && catalogItemId > 0 ? await storage.getCatalogItem(catalogItemId) : undefined;
+  if (existing && existing.kind !== kind) existing = undefined;
+  existing ??= await storage.getCatalogItemByDescription(description, kind);
+
+  const suppliers = mergeCatalogSupplier(
+    parseCatalogSuppliers(existing?.suppliersJson),
+    (partida.supplier ?? "").toString(),
+    Number(partida.purchaseCost),
+    today,
+  );
+
+  if (!existing) {
+    const item = await storage.createCatalogItem({
+      kind,
+      description,
+      techRequirements,
+      unitMeasure,
+      suppliersJson: JSON.stringify(suppliers),
+      correo,
+    });
+    return { item, created: true };
+  }
+
+  const item = await storage.updateCatalogItem(existing.id, {
+    description,
+    techRequirements: techRequirements || existing.techRequirements,
+    unitMeasure: unitMeasure || existing.unitMeasure,
+    suppliersJson: JSON.stringify(suppliers),
+    isActive: true,
+  });
+  return { item: item!, created: false };
+}
@@ -0,0 +1,168 @@
+import {
+  isClauseCategory,
+  normalizeCompanyCode,
+  type ClauseCategory,
+  type ClauseLibraryEntry,
+  type InsertClauseLibraryEntry,
+  type InsertQuote,
+  type QuoteClauseRef,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// ==========================================
+// BIBLIOTECA DE CLÁUSULAS Y GARANTÍAS
+// ==========================================
+
+export function parseClauseInput(body: any, partial: boolean): { data?: Partial<InsertClauseLibraryEntry>; error?: string } {
+  const data: Partial<InsertClauseLibraryEntry> = {};
+
+  if (!partial || body.code !== undefined) {
+    const code = (body.code ?? "").toString().trim().toUpperCase();
+    if (!/^[A-Z0-9_-]{1,40}$/.test(code)) {
+      return { error: "La clave debe tener hasta 40 letras, números, guiones o guiones bajos" };
+    }
+    data.code = code;
+  }
+  if (!partial || body.category !== undefined) {
+    if (!isClauseCategory(body.category)) return { error: "Categoría no válida" };
+    data.category = body.category;
+  }
+  if (!partial || body.title !== undefined) {
+    const title = (body.title ?? "").toString().trim();
+    if (!title) return { error: "El título es requerido" };
+    data.title = title;
+  }
+  if (!partial || body.content !== undefined) {
+    const content = (body.content ?? "").toString().trim();
+    if (!content) return { error: "El texto es requerido" };
+    data.content = content;
+  }
+  // Vacío = aplica a todas las empresas
+  if (body.companyOrigin !== undefined) data.companyOrigin = normalizeCompanyCode(body.companyOrigin);
+  if (body.norm !== undefined) data.norm = (body.norm ?? "").toString().trim();
+  if (body.sortOrder !== undefined) {
+    const sortOrder = Number(body.sortOrder);
+    if (!Number.isInteger(sortOrder)) return { error: "El orden debe ser un número entero" };
+    data.sortOrder = sortOrder;
+  }
+  if (body.isActive !== undefined) data.isActive = body.isActive === true || body.isActive === "true";
+
+  return { data };
+}
+
+// Las entradas de una empresa reemplazan a las generales con la misma clave
+export async function getClauseLibraryForCompany(companyOrigin: unknown, category?: ClauseCategory): Promise<ClauseLibraryEntry[]> {
+  const code = normalizeCompanyCode(companyOrigin);
+  const entries = await storage.getClauseLibrary({ category, companyOrigins: code ? ["", code] : [""] });
+
+  const byCode = new Map<string, ClauseLibraryEntry>();
+  for (const entry of entries) {
+    const key = `${entry.category}:${entry.code}`;
+    if (!byCode.has(key) || entry.companyOrigin) byCode.set(key, entry);
+  }
+  return Array.from(byCode.values());
+}
+
+type QuoteClauseColumns = Pick<InsertQuote,
+  | "qualityGuaranteesJson" | "selectedSocialObjectsJson" | "requiredDocumentsJson"
+  | "normsTableJson" | "serviceNormsTableJson" | "selectedDeliveryClausesJson"
+>;
+
+function parseList(value: string | null | undefined): any[] {
+  try {
+    const parsed = JSON.parse(value || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function parseClauseRefs(value: unknown): QuoteClauseRef[] {
+  const list = Array.isArray(value) ? value : parseList(typeof value === "string" ? value : "[]");
+  return list
+    .filter((ref: any) => ref && Number.isInteger(Number(ref.clauseId)) && isClauseCategory(ref.category))
+    .map((ref: any) => ({
+      clauseId: Number(ref.clauseId),
+      code: (ref.code ?? "").toString(),
+      category: ref.category,
+      version: Number(ref.version) || 1,
+      content: (ref.content ?? "").toString(),
+    }));
+}
+
+// Texto con el que cada categoría queda en la cotización; las cláusulas de entrega se guardan por clave
+function quoteClauseValues(columns: QuoteClauseColumns): Record<ClauseCategory, string[]> {
+  const normDescriptions = [...parseList(columns.normsTableJson), ...parseList(columns.serviceNormsTableJson)]
+    .map((row: any) => (row?.description ?? "").toString());
+  return {
+    clausula_entrega: parseList(columns.selectedDeliveryClausesJson).map(String),
+    garantia_calidad: parseList(columns.qualityGuaranteesJson).map(String),
+    objeto_social: parseList(columns.selectedSocialObjectsJson).map(String),
+    documento_requerido: parseList(columns.requiredDocumentsJson).map(String),
+    norma: normDescriptions,
+  };
+}
+
+/**
+ * Referencias a la biblioteca que se guardan con la cotización. Se descartan las que ya no
+ * aparecen en la propuesta (texto borrado o editado a mano) y una referencia existente nunca
+ * se reemplaza, así el texto queda como estaba cuando se usó aunque la biblioteca cambie.
+ */
+export async function freezeQuoteClauseRefs(
+  incoming: unknown,
+  columns: QuoteClauseColumns,
+  companyOrigin: unknown,
+  existing: QuoteClauseRef[] = [],
+): Promise<string> {
+  const values = quoteClauseValues(columns);
+  const inUse = (ref: QuoteClauseRef) => values[ref.category].includes(
+    ref.category === "clausula_entrega" ? ref.code : ref.content,
+  );
+
+  const refs: QuoteClauseRef[] = [];
+  const seen = new Set<string>();
+  const add = (ref: QuoteClauseRef) => {
+    const key = `${ref.category}:${ref.code}:${ref.content}`;
+    if (seen.has(key) || !inUse(ref)) return;
+    seen.add(key);
+    refs.push(ref);
+  };
+
+  existing.forEach(add);
+  for (const ref of parseClauseRefs(incoming)) {
+    const entry = await storage.getClauseLibraryEntry(ref.clauseId);
+    if (!entry) continue;
+    add({ ...ref, code: entry.code, version: ref.version || entry.version });
+  }
+
+  // Las cláusulas de entrega se eligen por clave; se congela el texto vigente al guardarlas
+  const missingCodes = values.clausula_entrega.filter(code => !refs.some(ref => ref.category === "clausula_entrega" && ref.code === code));
+  if (missingCodes.length > 0) {
+    const library = await getClauseLibraryForCompany(companyOrigin, "clausula_entrega");
+    for (const code of missingCodes) {
+      const entry = library.find(item => item.code === code);
+      if (entry) add({ clauseId: entry.id, code, category: "clausula_entrega", version: entry.version, content: entry.content });
+    }
+  }
+
+  return JSON.stringify(refs);
+}
+
+// Texto de cada cláusula de entrega para el PDF: la copia congelada o, en cotizaciones anteriores
+// a la biblioteca, el texto vigente
+export async function resolveDeliveryClauseTexts(quote: any): Promise<Record<string, string>> {
+  const texts: Record<string, string> = {};
+  for (const ref of parseClauseRefs(quote?.clauseRefsJson)) {
+    if (ref.category === "clausula_entrega") texts[ref.code] = ref.content;
+  }
+
+  const selected: string[] = Array.isArray(quote?.selectedDeliveryClauses)
+    ? quote.selectedDeliveryClauses
+    : parseList(quote?.selectedDeliveryClausesJson);
+  if (selected.some(code => texts[code] === undefined)) {
+    for (const entry of await getClauseLibraryForCompany(quote?.companyOrigin, "clausula_entrega")) {
+      if (texts[entry.code] === undefined) texts[entry.code] = entry.content;
+    }
+  }
+  return texts;
+}
@@ -0,0 +1,139 @@
+import type {
+  Client,
+  ClientContact,
+  ClientResponse,
+  InsertClient,
+  InsertClientContact,
+  Quote,
+} from "@shared/schema";
+import { normalizeRfc, validateRfc } from "@shared/fiscal";
+import { storage } from "./storage";
+
+// ==========================================
+// DIRECTORIO DE CLIENTES (DEPENDENCIAS)
+// ==========================================
+
+export class ClientError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ClientError";
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@,;<>]+@[^\s@,;<>]+\.[^\s@,;<>]+$/;
+
+const text = (value: unknown) => (value ?? "").toString().trim();
+
+const CLIENT_TEXT_FIELDS = ["shortName", "lugar", "ubicacion", "direccion", "notes"] as const;
+const CONTACT_TEXT_FIELDS = ["grado", "cargo", "area", "contacto", "phone"] as const;
+
+export function parseClientInput(body: any, partial: boolean): { data?: Partial<InsertClient>; error?: string } {
+  const data: Partial<InsertClient> = {};
+
+  if (!partial || body.name !== undefined) {
+    const name = text(body.name);
+    if (!name) return { error: "El nombre de la dependencia es requerido" };
+    data.name = name;
+  }
+  for (const field of CLIENT_TEXT_FIELDS) {
+    if (body[field] !== undefined) data[field] = text(body[field]);
+  }
+  if (body.rfc !== undefined) {
+    const rfcError = validateRfc(body.rfc);
+    if (rfcError) return { error: rfcError };
+    data.rfc = normalizeRfc(body.rfc);
+  }
+  if (body.isActive !== undefined) data.isActive = body.isActive === true || body.isActive === "true";
+
+  return { data };
+}
+
+export function parseClientContactInput(body: any, partial: boolean): { data?: Partial<InsertClientContact>; error?: string } {
+  const data: Partial<InsertClientContact> = {};
+
+  if (!partial || body.fullName !== undefined) {
+    const fullName = text(body.fullName);
+    if (!fullName) return { error: "El nombre del contacto es requerido" };
+    data.fullName = fullName;
+  }
+  for (const field of CONTACT_TEXT_FIELDS) {
+    if (body[field] !== undefined) data[field] = text(body[field]);
+  }
+  if (body.email !== undefined) {
+    const email = text(body.email).toLowerCase();
+    if (email && !EMAIL_PATTERN.test(email)) return { error: `Correo no válido: ${email}` };
+    data.email = email;
+  }
+  if (body.isActive !== undefined) data.isActive = body.isActive === true || body.isActive === "true";
+
+  return { data };
+}
+
+// Dependencias con sus contactos activos y el número de cotizaciones ligadas a cada una
+export async function listClientResponses(filters: { search?: string; includeInactive?: boolean } = {}): Promise<ClientResponse[]> {
+  const list = await storage.getClients(filters);
+  const [contacts, quoteCounts] = await Promise.all([
+    storage.getClientContacts(list.map(client => client.id)),
+    storage.countQuotesByClient(),
+  ]);
+  return list.map(client => ({
+    ...client,
+    contacts: contacts.filter(contact => contact.clientId === client.id),
+    quoteCount: quoteCounts.get(client.id) ?? 0,
+  }));
+}
+
+export async function getClientResponse(id: number, includeInactiveContacts = false): Promise<ClientResponse | undefined> {
+  const client = await storage.getClient(id);
+  if (!client) return undefined;
+  const [contacts, quoteCounts] = await Promise.all([
+    storage.getClientContacts([id], includeInactiveContacts),
+    storage.countQuotesByClient(),
+  ]);
+  return { ...client, contacts, quoteCount: quoteCounts.get(id) ?? 0 };
+}
+
+export async function ensureUniqueClientName(name: string, excludeId?: number): Promise<void> {
+  const duplicate = await storage.getClientByName(name);
+  if (duplicate && duplicate.id !== excludeId) {
+    throw new ClientError(`Ya existe la dependencia "${duplicate.name}"`, 409);
+  }
+}
+
+export interface QuoteClientLink {
+  clientId: number | null;
+  clientContactId: number | null;
+  client?: Client;
+  contact?: ClientContact;
+}
+
+const parseOptionalId = (value: unknown): number | null | "invalid" => {
+  if (value === null || value === "" || value === 0 || value === "0") return null;
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : "invalid";
+};
+
+/**
+ * Dependencia y contacto ligados a la cotización. Si el cuerpo no los trae se conservan los de la
+ * cotización existente; el contacto debe pertenecer a la dependencia elegida.
+ */
+export async function resolveQuoteClientLink(body: any, existing?: Pick<Quote, "clientId" | "clientContactId">): Promise<QuoteClientLink> {
+  const clientId = body.clientId !== undefined ? parseOptionalId(body.clientId) : existing?.clientId ?? null;
+  let clientContactId = body.clientContactId !== undefined ? parseOptionalId(body.clientContactId) : existing?.clientContactId ?? null;
+  if (clientId === "invalid") throw new ClientError("Dependencia inválida");
+  if (clientContactId === "invalid") throw new ClientError("Contacto inválido");
+  if (!clientId) return { clientId: null, clientContactId: null };
+
+  const client = await storage.getClient(clientId);
+  if (!client) throw new ClientError("La dependencia seleccionada no existe");
+
+  // Al cambiar de dependencia sin indicar contacto, el contacto anterior deja de aplicar
+  if (body.clientContactId === undefined && existing?.clientId !== clientId) clientContactId = null;
+  if (!clientContactId) return { clientId, clientContactId: null, client };
+
+  const contact = await storage.getClientContact(clientContactId);
+  if (!contact || contact.clientId !== clientId) {
+    throw new ClientError("El contacto seleccionado no pertenece a la dependencia");
+  }
+  return { clientId, clientContactId, client, contact };
+}
@@ -0,0 +1,188 @@
+import fs from "fs";
+import path from "path";
+import {
+  COMPANY_TEMPLATE_KEYS,
+  normalizeCompanyCode,
+  type Company,
+  type CompanyResponse,
+  type CompanyTemplateKey,
+  type InsertCompany
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// ==========================================
+// EMPRESAS EMISORAS: MEMBRETE Y OPCIONES DEL PDF
+// ==========================================
+
+const ASSETS_DIR = path.join(process.cwd(), "server", "assets");
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".svg": "image/svg+xml",
+};
+
+// Empresa emisora registrada con la clave de la cotización; sin coincidencia no se aplica ningún membrete
+export async function findCompanyForQuote(quote: { companyOrigin?: string | null }): Promise<Company | undefined> {
+  const code = normalizeCompanyCode(quote.companyOrigin);
+  if (!code) return undefined;
+  const company = await storage.getCompanyByCode(code);
+  return company?.isActive ? company : undefined;
+}
+
+// Los archivos de server/assets solo cambian con un despliegue, así que se leen una vez
+const assetCache = new Map<string, string>();
+const assetCacheStats = { hits: 0, misses: 0 };
+
+function readAssetDataUrl(fileName: string): string {
+  const cached = assetCache.get(fileName);
+  if (cached !== undefined) {
+    assetCacheStats.hits++;
+    return cached;
+  }
+
+  assetCacheStats.misses++;
+  const filePath = path.join(ASSETS_DIR, fileName);
+  const mime = IMAGE_MIME_TYPES[path.extname(fileName).toLowerCase()];
+  if (!mime || !fs.existsSync(filePath)) return "";
+
+  const dataUrl = `data:${mime};base64,${fs.readFileSync(filePath).toString("base64")}`;
+  assetCache.set(fileName, dataUrl);
+  return dataUrl;
+}
+
+export function getAssetCacheStats() {
+  let bytes = 0;
+  assetCache.forEach(value => { bytes += value.length; });
+  return { entries: assetCache.size, bytes, ...assetCacheStats };
+}
+
+// Acepta un data URL subido desde la UI o el nombre de un archivo dentro de server/assets
+export function resolveBrandingImage(value: string | null | undefined): string {
+  if (!value) return "";
+  if (value.startsWith("data:")) return value;
+  return readAssetDataUrl(path.basename(value));
+}
+
+export function imageDataUrlFromUpload(file: { mimetype: string; size: number; buffer: Buffer }): { dataUrl?: string; error?: string } {
+  if (!Object.values(IMAGE_MIME_TYPES).includes(file.mimetype)) {
+    return { error: "Solo se permiten imágenes PNG, JPG o SVG" };
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return { error: "La imagen no puede exceder 2 MB" };
+  }
+  return { dataUrl: `data:${file.mimetype};base64,${file.buffer.toString("base64")}` };
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Contenido del membrete; el PDF lo usa como encabezado y pie de cada página y la vista previa lo incrusta
+export function buildCompanyLetterhead(company: Company): { header: string; footer: string } {
+  const header = resolveBrandingImage(company.headerImage);
+  const footer = resolveBrandingImage(company.footerImage);
+  const logo = resolveBrandingImage(company.logoImage);
+  const footerLines = company.footerText.split("\n").map(line => escapeHtml(line.trim())).filter(Boolean);
+
+  // Sin imagen de encabezado se arma un membrete con el logotipo y la razón social
+  const headerContent = header
+    ? `<img src="${header}" style="width: 100vw; display: block; margin: 0; padding: 0;" />`
+    : `<div style="margin: 30px 45px 0 45px; padding-bottom: 8px; border-bottom: 4px solid ${company.primaryColor}; display: flex; align-items: center; justify-content: space-between; font-family: Arial, sans-serif;">
+        ${logo ? `<img src="${logo}" style="height: 70px; width: auto;" />` : ""}
+        <span style="font-size: 11pt; font-weight: bold; color: ${company.primaryColor};">${escapeHtml(company.legalName || company.friendlyName)}</span>
+      </div>`;
+
+  const hasFooterText = footerLines.length > 0 || company.showPageNumbers;
+  const footerContent = `
+    ${footer ? `<img src="${footer}" style="width: 100vw; display: block; margin: 0; padding: 0; position: absolute; bottom: 0; left: 0; z-index: -1;" />` : ""}
+    ${hasFooterText ? `
+      <div style="position: relative; width: 100%; padding: 0 45px 35px 45px; box-sizing: border-box; display: flex; justify-content: space-between; align-items: flex-end; ${footer ? "" : `border-top: 2px solid ${company.primaryColor}; padding-top: 6px;`}">
+        <div style="line-height: 1.4; color: #000000;">${footerLines.join("<br>")}</div>
+        ${company.showPageNumbers ? `<div style="text-align: right; font-weight: bold; color: #000000;">Página <span class="pageNumber"></span> de <span class="totalPages"></span></div>` : ""}
+      </div>
+    ` : ""}
+  `;
+
+  return { header: headerContent, footer: footerContent };
+}
+
+export function buildCompanyPdfOptions(company: Company | undefined) {
+  if (!company) {
+    return { displayHeaderFooter: false, margin: { top: "0px", bottom: "0px", right: "0px", left: "0px" } };
+  }
+
+  const { header: headerContent, footer: footerContent } = buildCompanyLetterhead(company);
+  return {
+    displayHeaderFooter: true,
+    headerTemplate: `
+      <style>html, body { margin: 0 !important; padding: 0 !important; width: 100%; height: 100%; -webkit-print-color-adjust: exact; }</style>
+      <div style="position: absolute; top: 0; left: 0; width: 100vw; margin: 0; padding: 0;">
+        ${headerContent}
+      </div>
+    `,
+    footerTemplate: `
+      <style>html, body { margin: 0 !important; padding: 0 !important; width: 100%; height: 100%; font-family: 'Arial Narrow', Arial, sans-serif; font-size: 9pt; -webkit-print-color-adjust: exact; }</style>
+      <div style="position: absolute; bottom: 0; left: 0; width: 100vw; margin: 0; padding: 0; display: flex; flex-direction: column; justify-content: flex-end;">
+        ${footerContent}
+      </div>
+    `,
+    margin: { top: `${company.marginTop}px`, right: "0px", bottom: `${company.marginBottom}px`, left: "0px" },
+  };
+}
+
+export function toCompanyResponse(company: Company): CompanyResponse {
+  const { headerImage, footerImage, logoImage, ...rest } = company;
+  return {
+    ...rest,
+    hasHeaderImage: !!resolveBrandingImage(headerImage),
+    hasFooterImage: !!resolveBrandingImage(footerImage),
+    hasLogoImage: !!resolveBrandingImage(logoImage),
+  };
+}
+
+export function parseCompanyInput(body: any, partial: boolean): { data?: Partial<InsertCompany>; error?: string } {
+  const data: Partial<InsertCompany> = {};
+
+  if (!partial || body.code !== undefined) {
+    const code = normalizeCompanyCode(body.code);
+    if (!code || !/^[A-Z0-9_-]{2,20}$/.test(code)) {
+      return { error: "La clave debe tener de 2 a 20 letras, números, guiones o guiones bajos" };
+    }
+    data.code = code;
+  }
+  if (!partial || body.friendlyName !== undefined) {
+    const friendlyName = (body.friendlyName || "").toString().trim();
+    if (!friendlyName) return { error: "El nombre comercial es requerido" };
+    data.friendlyName = friendlyName;
+  }
+  if (body.templateKey !== undefined || !partial) {
+    const templateKey = (body.templateKey || "azal").toString().trim().toLowerCase();
+    if (!(COMPANY_TEMPLATE_KEYS as readonly string[]).includes(templateKey)) {
+      return { error: "La plantilla seleccionada no existe" };
+    }
+    data.templateKey = templateKey as CompanyTemplateKey;
+  }
+  if (body.primaryColor !== undefined) {
+    const primaryColor = body.primaryColor.toString().trim();
+    if (!/^#[0-9A-Fa-f]{6}$/.test(primaryColor)) return { error: "El color debe tener el formato #RRGGBB" };
+    data.primaryColor = primaryColor;
+  }
+  for (const field of ["marginTop", "marginBottom"] as const) {
+    if (body[field] === undefined) continue;
+    const value = Number(body[field]);
+    if (!Number.isInteger(value) || value < 0 || value > 400) {
+      return { error: "Los márgenes deben ser enteros entre 0 y 400 px" };
+    }
+    data[field] = value;
+  }
+  if (body.legalName !== undefined) data.legalName = body.legalName.toString().trim();
+  if (body.rfc !== undefined) data.rfc = body.rfc.toString().trim().toUpperCase();
+  if (body.footerText !== undefined) data.footerText = body.footerText.toString();
+  if (body.emailSubjectTemplate !== undefined) data.emailSubjectTemplate = body.emailSubjectTemplate.toString().trim();
+  if (body.emailBodyTemplate !== undefined) data.emailBodyTemplate = body.emailBodyTemplate.toString();
+  if (body.showPageNumbers !== undefined) data.showPageNumbers = body.showPageNumbers === true || body.showPageNumbers === "true";
+  if (body.isActive !== undefined) data.isActive = body.isActive === true || body.isActive === "true";
+
+  return { data };
+}
@@ -0,0 +1,98 @@
+import type { ExchangeRateQuote } from "@shared/schema";
+import { parseQuoteCurrency } from "./quotes";
+
+// ==========================================
+// TIPO DE CAMBIO DOF (API SIE DE BANXICO)
+// ==========================================
+
+// SF60653: tipo de cambio para solventar obligaciones en dólares, publicado en el DOF
+const DOF_SERIES = "SF60653";
+const SIE_URL = "https://www.banxico.org.mx/SieAPIRest/service/v1/series";
+// El DOF no publica en fines de semana ni días inhábiles; se busca el último publicado
+const LOOKBACK_DAYS = 10;
+const REQUEST_TIMEOUT_MS = 10000;
+
+export class ExchangeRateError extends Error {
+  constructor(message: string, public status = 502) {
+    super(message);
+    this.name = "ExchangeRateError";
+  }
+}
+
+// Los tipos de cambio publicados no cambian; se conservan en memoria por fecha consultada
+const cache = new Map<string, ExchangeRateQuote>();
+
+function isoDate(date: Date) {
+  return date.toISOString().split("T")[0];
+}
+
+// Banxico responde las fechas como DD/MM/YYYY
+function fromSieDate(value: string) {
+  const [day, month, year] = value.split("/");
+  return `${year}-${month}-${day}`;
+}
+
+export function resolveRateDate(value: unknown): string {
+  const text = (value ?? "").toString().trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  return isoDate(new Date());
+}
+
+export async function getDofUsdRate(dateValue?: unknown): Promise<ExchangeRateQuote> {
+  const date = resolveRateDate(dateValue);
+  const cached = cache.get(date);
+  if (cached) return cached;
+
+  const token = process.env.BANXICO_TOKEN;
+  if (!token) {
+    throw new ExchangeRateError("No está configurado BANXICO_TOKEN; captura el tipo de cambio manualmente", 503);
+  }
+
+  const end = new Date(`${date}T12:00:00Z`);
+  const start = new Date(end.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const url = `${SIE_URL}/${DOF_SERIES}/datos/${isoDate(start)}/${date}`;
+
+  let body: any;
+  try {
+    const res = await fetch(url, {
+      headers: { "Bmx-Token": token, Accept: "application/json" },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    body = await res.json();
+  } catch (e: any) {
+    throw new ExchangeRateError(`No se pudo consultar el tipo de cambio en Banxico (${e.message})`);
+  }
+
+  const observations: Array<{ fecha: string; dato: string }> = body?.bmx?.series?.[0]?.datos ?? [];
+  const latest = observations
+    .map(obs => ({ date: fromSieDate(obs.fecha), rate: Number(obs.dato.replace(/,/g, "")) }))
+    .filter(obs => Number.isFinite(obs.rate) && obs.rate > 0 && obs.date <= date)
+    .sort((a, b) => b.date.localeCompare(a.date))[0];
+
+  if (!latest) {
+    throw new ExchangeRateError(`Banxico no tiene tipo de cambio publicado para el ${date}`, 404);
+  }
+
+  const quote: ExchangeRateQuote = { currency: "USD", rate: latest.rate, date: latest.date, source: "DOF" };
+  cache.set(date, quote);
+  return quote;
+}
+
+// Columnas de moneda de la cotización; en dólares sin tipo de cambio capturado se usa el DOF de la fecha
+export async function resolveQuoteCurrencyColumns(source: any, quoteDate: string) {
+  const currency = parseQuoteCurrency(source?.currency);
+  const costCurrency = parseQuoteCurrency(source?.costCurrency);
+  if (currency === "MXN" && costCurrency === "MXN") {
+    return { currency, costCurrency, exchangeRate: null, exchangeRateDate: "" };
+  }
+
+  const manualRate = Number(source?.exchangeRate);
+  if (Number.isFinite(manualRate) && manualRate > 0) {
+    const manualDate = (source?.exchangeRateDate ?? "").toString().trim();
+    return { currency, costCurrency, exchangeRate: String(manualRate), exchangeRateDate: manualDate || resolveRateDate(quoteDate) };
+  }
+
+  const dof = await getDofUsdRate(quoteDate);
+  return { currency, costCurrency, exchangeRate: String(dof.rate), exchangeRateDate: dof.date };
+}
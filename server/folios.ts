@@ -0,0 +1,80 @@
+import { DEFAULT_FOLIO_PATTERN, normalizeCompanyCode } from "@shared/schema";
+import { storage } from "./storage";
+
+// ==========================================
+// FOLIOS INTERNOS AUTOMÁTICOS
+// ==========================================
+
+export interface FolioContext {
+  companyOrigin: string;
+  year: number;
+  number: number;
+  proposalType?: string;
+}
+
+const NUMBER_TOKEN = /\{(#+)\}/;
+const KNOWN_TOKENS = /\{(EMPRESA|YYYY|YY|TIPO|#+)\}/g;
+
+export function validateFolioPattern(pattern: string): string | null {
+  const value = (pattern || "").trim();
+  if (!value) return "El patrón del folio es requerido.";
+  if (value.length > 60) return "El patrón del folio no puede exceder 60 caracteres.";
+  const numberTokens = value.match(/\{#+\}/g) || [];
+  if (numberTokens.length !== 1) return "El patrón debe incluir exactamente un consecutivo, por ejemplo {####}.";
+  const unknown = value.replace(KNOWN_TOKENS, "").match(/\{[^}]*\}/);
+  if (unknown) return `Marcador desconocido en el patrón: ${unknown[0]}`;
+  return null;
+}
+
+export function formatFolio(pattern: string, context: FolioContext): string {
+  const year = String(context.year);
+  const type = (context.proposalType || "").toLowerCase() === "servicios" ? "S" : "B";
+  return pattern
+    .replace(/\{EMPRESA\}/g, context.companyOrigin)
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(-2))
+    .replace(/\{TIPO\}/g, type)
+    .replace(NUMBER_TOKEN, (_, hashes: string) => String(context.number).padStart(hashes.length, "0"));
+}
+
+// El año del folio sigue a la fecha de la cotización cuando viene capturada
+export function resolveFolioYear(quoteDate?: string | null): number {
+  const match = (quoteDate || "").toString().match(/^(\d{4})-\d{2}-\d{2}/);
+  return match ? Number(match[1]) : new Date().getFullYear();
+}
+
+// Solo las empresas registradas pueden emitir folios
+export async function resolveFolioCompany(value: unknown): Promise<string | null> {
+  const code = normalizeCompanyCode(value);
+  if (!code) return null;
+  const company = await storage.getCompanyByCode(code);
+  return company ? company.code : null;
+}
+
+export async function getFolioPattern(companyOrigin: string): Promise<string> {
+  const setting = await storage.getFolioSetting(companyOrigin);
+  return setting?.pattern || DEFAULT_FOLIO_PATTERN;
+}
+
+export async function previewNextFolio(companyOrigin: string, year: number, proposalType?: string) {
+  const pattern = await getFolioPattern(companyOrigin);
+  const number = await storage.peekFolioNumber(companyOrigin, year);
+  return { folio: formatFolio(pattern, { companyOrigin, year, number, proposalType }), number, year, pattern };
+}
+
+// Consume números del consecutivo de forma atómica
+export async function issueFolios(companyOrigin: string, year: number, count: number, proposalType?: string) {
+  const pattern = await getFolioPattern(companyOrigin);
+  const numbers = await storage.consumeFolioNumbers(companyOrigin, year, count);
+  return numbers.map(number => ({ number, folio: formatFolio(pattern, { companyOrigin, year, number, proposalType }) }));
+}
+
+// Emite el siguiente folio libre; salta números que choquen con folios capturados a mano
+export async function issueQuoteFolio(companyOrigin: string, year: number, proposalType?: string): Promise<string> {
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const [issued] = await issueFolios(companyOrigin, year, 1, proposalType);
+    const existing = await storage.getQuoteByFolio(issued.folio);
+    if (!existing) return issued.folio;
+  }
+  throw new Error("No se pudo generar un folio disponible. Revisa el patrón configurado.");
+}
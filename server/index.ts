@@ -4,6 +4,8 @@ import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { setupAuth } from "./auth";
+import { startPdfJobWorker } from "./pdf-jobs";
+import { backfillQuoteTotals } from "./quote-update";
 
 const app = express();
 const httpServer = createServer(app);
@@ -17,6 +19,12 @@ app.use(express.urlencoded({ extended: false }));
   setupAuth(app);
   // 1. Registramos las rutas de la API (incluyendo el login de Microsoft)
   await registerRoutes(app, httpServer);
+  // Worker que procesa los PDF solicitados en segundo plano
+  startPdfJobWorker().catch(e => console.error("[PDF-JOBS] No se pudo iniciar el worker:", e));
+  // Total guardado de las cotizaciones anteriores a la búsqueda por importe
+  backfillQuoteTotals()
+    .then(updated => { if (updated > 0) console.log(`[QUOTES] Total calculado para ${updated} cotización(es)`); })
+    .catch(e => console.error("[QUOTES] No se pudo calcular el total de las cotizaciones:", e));
 
   // Manejo de errores
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,134 @@
+import { randomBytes } from "crypto";
+import {
+  DEFAULT_CALENDAR_REMINDER_MINUTES,
+  LICITACION_EVENT_LABELS,
+  MAX_CALENDAR_REMINDERS,
+  type CalendarFeed,
+  type LicitacionCalendarEvent,
+  type LicitacionEstado,
+  type LicitacionEventType,
+} from "@shared/schema";
+
+// ==========================================
+// CALENDARIO DE LICITACIONES (iCalendar)
+// ==========================================
+
+// Las licitaciones terminadas sin contrato ya no aportan fechas al calendario
+export const CALENDAR_EXCLUDED_ESTADOS: LicitacionEstado[] = ["perdida", "desierta", "cancelada"];
+
+// El feed incluye los eventos de los últimos 90 días para no perder el historial reciente en Outlook
+export const CALENDAR_FEED_PAST_DAYS = 90;
+
+const MAX_REMINDER_MINUTES = 28 * 24 * 60;
+const EVENT_DURATION_MINUTES = 60;
+// Hora del centro de México; sin horario de verano desde 2022
+const MEXICO_UTC_OFFSET_MINUTES = -6 * 60;
+
+export const newCalendarToken = () => randomBytes(24).toString("hex");
+
+export function parseReminderMinutes(value: unknown): { data?: number[]; error?: string } {
+  if (!Array.isArray(value)) return { error: "Los recordatorios deben enviarse como lista de minutos" };
+  const minutes = value.map(Number);
+  if (minutes.some(entry => !Number.isInteger(entry) || entry < 0 || entry > MAX_REMINDER_MINUTES)) {
+    return { error: "Cada recordatorio debe ser un número entero de minutos entre 0 y 28 días" };
+  }
+  const unique = Array.from(new Set(minutes)).sort((a, b) => b - a);
+  if (unique.length > MAX_CALENDAR_REMINDERS) {
+    return { error: `Se permiten hasta ${MAX_CALENDAR_REMINDERS} recordatorios` };
+  }
+  return { data: unique };
+}
+
+export function feedReminderMinutes(feed: Pick<CalendarFeed, "reminderMinutesJson"> | undefined): number[] {
+  if (!feed) return DEFAULT_CALENDAR_REMINDER_MINUTES;
+  try {
+    return parseReminderMinutes(JSON.parse(feed.reminderMinutesJson)).data ?? DEFAULT_CALENDAR_REMINDER_MINUTES;
+  } catch {
+    return DEFAULT_CALENDAR_REMINDER_MINUTES;
+  }
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+function formatUtc(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+const formatDate = (isoDate: string) => isoDate.replace(/-/g, "");
+
+function nextDay(isoDate: string): string {
+  return new Date(Date.parse(`${isoDate}T00:00:00Z`) + 86400000).toISOString().split("T")[0];
+}
+
+function localToUtc(isoDate: string, time: string): Date {
+  return new Date(Date.parse(`${isoDate}T${time}:00Z`) - MEXICO_UTC_OFFSET_MINUTES * 60000);
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545: líneas de máximo 75 octetos, las siguientes inician con un espacio
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function eventLines(event: LicitacionCalendarEvent, reminders: number[], stamp: string, appUrl: string): string[] {
+  const label = LICITACION_EVENT_LABELS[event.type as LicitacionEventType] || event.type;
+  const timing = event.eventTime
+    ? [
+        `DTSTART:${formatUtc(localToUtc(event.eventDate, event.eventTime))}`,
+        `DTEND:${formatUtc(new Date(localToUtc(event.eventDate, event.eventTime).getTime() + EVENT_DURATION_MINUTES * 60000))}`,
+      ]
+    : [`DTSTART;VALUE=DATE:${formatDate(event.eventDate)}`, `DTEND;VALUE=DATE:${formatDate(nextDay(event.eventDate))}`];
+  const description = [event.titulo, event.cliente, event.notes, `${appUrl}/licitaciones/${event.licitacionId}`].filter(Boolean).join("\n");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:licitacion-${event.licitacionId}-${event.type}@cotizaciones`,
+    `DTSTAMP:${stamp}`,
+    ...timing,
+    `SUMMARY:${escapeText(`${label}: ${event.numeroLicitacion}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    ...reminders.flatMap(minutes => [
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeText(`${label}: ${event.numeroLicitacion}`)}`,
+      `TRIGGER:-PT${minutes}M`,
+      "END:VALARM",
+    ]),
+    "END:VEVENT",
+  ];
+}
+
+export function buildLicitacionesCalendar(events: LicitacionCalendarEvent[], reminders: number[], appUrl: string, now = new Date()): string {
+  const stamp = formatUtc(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Cotizaciones//Licitaciones//ES",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Licitaciones",
+    "X-WR-TIMEZONE:America/Mexico_City",
+    ...events.flatMap(event => eventLines(event, reminders, stamp, appUrl)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
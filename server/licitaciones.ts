@@ -0,0 +1,172 @@
+import {
+  LICITACION_EVENT_LABELS,
+  LICITACION_EVENT_TYPES,
+  isLicitacionEventType,
+  type InsertLicitacion,
+  type InsertLicitacionEvent,
+  type Licitacion,
+  type LicitacionEventType,
+  type LicitacionQuoteBudget,
+  type LicitacionResponse,
+  type Quote,
+  type QuoteItem,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { convertCurrency, parseQuoteCurrency, quoteTotalsFromDb } from "./quotes";
+
+// ==========================================
+// LICITACIONES
+// ==========================================
+
+export class LicitacionError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "LicitacionError";
+  }
+}
+
+const isIsoDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+const isTime = (value: string) => /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+const text = (value: unknown) => (value ?? "").toString().trim();
+
+const parseOptionalId = (value: unknown): number | null | "invalid" => {
+  if (value === null || value === undefined || value === "" || value === 0 || value === "0") return null;
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : "invalid";
+};
+
+// El estado no se captura aquí: cambia solo por POST /api/licitaciones/:id/status
+export function parseLicitacionInput(body: any, partial: boolean): { data?: Partial<InsertLicitacion>; error?: string } {
+  const data: Partial<InsertLicitacion> = {};
+
+  if (!partial || body.titulo !== undefined) {
+    const titulo = text(body.titulo);
+    if (!titulo) return { error: "El título de la licitación es requerido" };
+    data.titulo = titulo;
+  }
+  if (!partial || body.numeroLicitacion !== undefined) {
+    const numeroLicitacion = text(body.numeroLicitacion).toUpperCase();
+    if (!numeroLicitacion) return { error: "El número de licitación es requerido" };
+    data.numeroLicitacion = numeroLicitacion;
+  }
+  if (!partial || body.cliente !== undefined) {
+    const cliente = text(body.cliente);
+    if (!cliente) return { error: "La dependencia convocante es requerida" };
+    data.cliente = cliente;
+  }
+  if (body.descripcion !== undefined) data.descripcion = text(body.descripcion);
+  if (body.presupuesto !== undefined) {
+    const presupuesto = body.presupuesto === "" || body.presupuesto === null ? 0 : Number(body.presupuesto);
+    if (!Number.isFinite(presupuesto) || presupuesto < 0) return { error: "El presupuesto debe ser un monto positivo" };
+    data.presupuesto = Math.round(presupuesto);
+  }
+  for (const field of ["clientId", "folderId"] as const) {
+    if (body[field] === undefined) continue;
+    const id = parseOptionalId(body[field]);
+    if (id === "invalid") return { error: field === "clientId" ? "Dependencia inválida" : "Carpeta inválida" };
+    data[field] = id;
+  }
+  if (body.ganador !== undefined) data.ganador = text(body.ganador);
+  if (body.resultado !== undefined) data.resultado = text(body.resultado);
+  if (body.montoAdjudicado !== undefined) {
+    if (body.montoAdjudicado === null || body.montoAdjudicado === "") {
+      data.montoAdjudicado = null;
+    } else {
+      const monto = Number(body.montoAdjudicado);
+      if (!Number.isFinite(monto) || monto < 0) return { error: "El monto adjudicado debe ser un monto positivo" };
+      data.montoAdjudicado = monto.toFixed(2);
+    }
+  }
+
+  return { data };
+}
+
+export type LicitacionEventInput = Omit<InsertLicitacionEvent, "licitacionId">;
+
+// Una fecha por etapa; las etapas sin fecha se omiten
+export function parseLicitacionEvents(value: unknown): { data?: LicitacionEventInput[]; error?: string } {
+  if (!Array.isArray(value)) return { error: "Las etapas deben enviarse como lista" };
+
+  const events: LicitacionEventInput[] = [];
+  for (const raw of value) {
+    const type = raw?.type;
+    if (!isLicitacionEventType(type)) return { error: `Etapa de licitación inválida: ${text(type) || "(vacía)"}` };
+    const label = LICITACION_EVENT_LABELS[type];
+    const eventDate = text(raw.eventDate);
+    if (!eventDate) continue;
+    if (!isIsoDate(eventDate)) return { error: `La fecha de "${label}" no es válida` };
+    const eventTime = text(raw.eventTime);
+    if (eventTime && !isTime(eventTime)) return { error: `La hora de "${label}" debe tener el formato HH:MM` };
+    if (events.some(event => event.type === type)) return { error: `La etapa "${label}" está repetida` };
+    events.push({ type, eventDate, eventTime, location: text(raw.location), notes: text(raw.notes) });
+  }
+
+  return { data: events.sort((a, b) => LICITACION_EVENT_TYPES.indexOf(a.type as LicitacionEventType) - LICITACION_EVENT_TYPES.indexOf(b.type as LicitacionEventType)) };
+}
+
+export async function ensureUniqueNumeroLicitacion(numeroLicitacion: string, excludeId?: number): Promise<void> {
+  const duplicate = await storage.getLicitacionByNumero(numeroLicitacion);
+  if (duplicate && duplicate.id !== excludeId) {
+    throw new LicitacionError(`Ya existe la licitación ${duplicate.numeroLicitacion}`, 409);
+  }
+}
+
+// La carpeta de documentos debe existir y ser del usuario, salvo para administradores
+export async function validateLicitacionLinks(data: Partial<InsertLicitacion>, user: { id: number; isAdmin: boolean }): Promise<void> {
+  if (data.clientId) {
+    const client = await storage.getClient(data.clientId);
+    if (!client) throw new LicitacionError("La dependencia seleccionada no existe");
+  }
+  if (data.folderId) {
+    const folder = await storage.getFolderById(data.folderId);
+    if (!folder) throw new LicitacionError("La carpeta seleccionada no existe");
+    if (folder.userId !== user.id && !user.isAdmin) throw new LicitacionError("No tienes acceso a la carpeta seleccionada", 403);
+  }
+}
+
+export async function listLicitacionResponses(): Promise<LicitacionResponse[]> {
+  const list = await storage.getLicitaciones();
+  const [events, quoteCounts] = await Promise.all([
+    storage.getLicitacionEvents(list.map(licitacion => licitacion.id)),
+    storage.countQuotesByLicitacion(),
+  ]);
+  return list.map(licitacion => ({
+    ...licitacion,
+    events: events.filter(event => event.licitacionId === licitacion.id),
+    quoteCount: quoteCounts.get(licitacion.id) ?? 0,
+  }));
+}
+
+/**
+ * Total con impuestos de cada cotización en pesos contra el presupuesto de la licitación.
+ * Sin presupuesto capturado no hay porcentaje ni alerta de excedente.
+ */
+export function licitacionQuoteBudgets(licitacion: Licitacion, quotes: Array<{ quote: Quote; items: QuoteItem[] }>): LicitacionQuoteBudget[] {
+  const presupuesto = Number(licitacion.presupuesto) || 0;
+  return quotes.map(({ quote, items }) => {
+    const currency = parseQuoteCurrency(quote.currency);
+    const total = quoteTotalsFromDb(quote, items).total;
+    const totalMxn = Number(convertCurrency(total, currency, "MXN", Number(quote.exchangeRate)).toFixed(2));
+    return {
+      id: quote.id,
+      internalFolio: quote.internalFolio,
+      companyOrigin: quote.companyOrigin,
+      status: quote.status,
+      currency,
+      total,
+      totalMxn,
+      budgetPercent: presupuesto > 0 ? Number((totalMxn / presupuesto * 100).toFixed(1)) : null,
+      overBudget: presupuesto > 0 && totalMxn > presupuesto,
+    };
+  });
+}
+
+// Licitación a la que responde la cotización; si el cuerpo no la trae se conserva la anterior
+export async function resolveQuoteLicitacionId(body: any, existing?: Pick<Quote, "licitacionId">): Promise<number | null> {
+  if (body.licitacionId === undefined) return existing?.licitacionId ?? null;
+  const id = parseOptionalId(body.licitacionId);
+  if (id === "invalid") throw new LicitacionError("Licitación inválida");
+  if (id && !(await storage.getLicitacion(id))) throw new LicitacionError("La licitación seleccionada no existe");
+  return id;
+}
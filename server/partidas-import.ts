@@ -0,0 +1,218 @@
+import path from "path";
+import ExcelJS from "exceljs";
+import {
+  PARTIDA_IMPORT_FIELDS,
+  type PartidaImportField,
+  type PartidaImportMapping,
+  type PartidaImportPreview,
+  type PartidaImportRow
+} from "@shared/schema";
+import { validateQuoteItems } from "./quotes";
+
+// ==========================================
+// IMPORTACIÓN DE PARTIDAS DESDE EXCEL / CSV
+// ==========================================
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_ROWS = 1000;
+
+export class PartidaImportError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "PartidaImportError";
+  }
+}
+
+const normalizeHeader = (value: string) =>
+  value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+
+// Se evalúan en este orden para que "Descripción de la partida" no se tome como número de partida
+const HEADER_PATTERNS: Array<[PartidaImportField, RegExp]> = [
+  ["description", /descrip|concepto|articulo|material|producto|bien/],
+  ["techRequirements", /requisit|especific|tecnic|caracteristic/],
+  ["unitPrice", /precio|p\.?\s?u\.?$|costo unit|valor unit/],
+  ["quantity", /cant|qty|piezas/],
+  ["unitMeasure", /unidad|medida|^u\.?\s?m\.?$|^um$/],
+  ["noPartida", /partida|^no\.?$|^num|^#|^item|renglon/],
+];
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().split("T")[0];
+  if (typeof value === "object") {
+    if ("richText" in value) return value.richText.map(part => part.text).join("");
+    if ("result" in value) return cellText(value.result as ExcelJS.CellValue);
+    if ("text" in value) return String(value.text);
+    if ("error" in value) return "";
+  }
+  return String(value);
+}
+
+interface SheetRow {
+  rowNumber: number;
+  values: string[];
+}
+
+async function readXlsx(buffer: Buffer): Promise<SheetRow[]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer);
+  } catch {
+    throw new PartidaImportError("No se pudo leer el archivo de Excel. Verifica que sea un .xlsx válido.");
+  }
+
+  const sheet = workbook.worksheets.find(ws => ws.actualRowCount > 0);
+  if (!sheet) return [];
+
+  const rows: SheetRow[] = [];
+  sheet.eachRow({ includeEmpty: false }, row => {
+    const values: string[] = [];
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      values.push(cellText(row.getCell(col).value).trim());
+    }
+    if (values.some(Boolean)) rows.push({ rowNumber: row.number, values });
+  });
+  return rows;
+}
+
+function readCsv(buffer: Buffer): SheetRow[] {
+  const text = buffer.toString("utf8").replace(/^\uFEFF/, "");
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  // Excel en español exporta con punto y coma
+  const delimiter = [";", "\t", ","].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ",");
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows
+    .map((values, i) => ({ rowNumber: i + 1, values }))
+    .filter(row => row.values.some(Boolean));
+}
+
+// Acepta "$1,234.50", "1 234,50" y números de Excel
+function parseNumber(value: string): number {
+  let clean = value.replace(/[$\s]/g, "");
+  if (!clean) return 0;
+  if (/,\d{1,2}$/.test(clean)) clean = clean.replace(/\./g, "").replace(",", ".");
+  else clean = clean.replace(/,/g, "");
+  const parsed = Number(clean);
+  return Number.isFinite(parsed) ? parsed : NaN;
+}
+
+export function suggestColumnMapping(headers: string[]): PartidaImportMapping {
+  const mapping: PartidaImportMapping = {};
+  const used = new Set<number>();
+  const normalized = headers.map(normalizeHeader);
+
+  for (const [field, pattern] of HEADER_PATTERNS) {
+    const index = normalized.findIndex((header, i) => header && !used.has(i) && pattern.test(header));
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+function parseMapping(raw: unknown, headerCount: number): PartidaImportMapping | null {
+  if (raw === undefined || raw === null || raw === "") return null;
+  let value: any = raw;
+  if (typeof raw === "string") {
+    try { value = JSON.parse(raw); } catch { throw new PartidaImportError("El mapeo de columnas no es válido"); }
+  }
+
+  const mapping: PartidaImportMapping = {};
+  for (const field of PARTIDA_IMPORT_FIELDS) {
+    if (value?.[field] === undefined || value[field] === null || value[field] === "") continue;
+    const index = Number(value[field]);
+    if (!Number.isInteger(index) || index < 0 || index >= headerCount) {
+      throw new PartidaImportError(`La columna asignada a "${field}" no existe en el archivo`);
+    }
+    mapping[field] = index;
+  }
+  return mapping;
+}
+
+function buildRow(values: string[], mapping: PartidaImportMapping, rowNumber: number): PartidaImportRow {
+  const pick = (field: PartidaImportField) => mapping[field] === undefined ? "" : (values[mapping[field]!] ?? "");
+
+  const item = {
+    noPartida: pick("noPartida"),
+    description: pick("description"),
+    techRequirements: pick("techRequirements"),
+    quantity: parseNumber(pick("quantity")),
+    unitMeasure: pick("unitMeasure").toUpperCase(),
+    unitPrice: parseNumber(pick("unitPrice")),
+  };
+
+  // Cada fila se valida sola para reportar los errores con su número de fila en la hoja
+  const { errors } = validateQuoteItems([{ ...item, unit: item.unitMeasure }]);
+  return {
+    rowNumber,
+    item,
+    errors: errors.map(error => error.replace(/^La partida 1 /, "La fila ")),
+  };
+}
+
+export async function previewPartidaImport(
+  file: { originalname: string; size: number; buffer: Buffer },
+  rawMapping?: unknown
+): Promise<PartidaImportPreview> {
+  if (file.size > MAX_FILE_BYTES) throw new PartidaImportError("El archivo no puede exceder 5 MB");
+
+  const extension = path.extname(file.originalname).toLowerCase();
+  let rows: SheetRow[];
+  if (extension === ".xlsx") rows = await readXlsx(file.buffer);
+  else if (extension === ".csv" || extension === ".txt") rows = readCsv(file.buffer);
+  else throw new PartidaImportError("Solo se aceptan archivos .xlsx o .csv");
+
+  if (rows.length < 2) throw new PartidaImportError("El archivo debe tener una fila de encabezados y al menos una partida");
+
+  const [headerRow, ...dataRows] = rows;
+  if (dataRows.length > MAX_ROWS) {
+    throw new PartidaImportError(`El archivo tiene ${dataRows.length} filas; el máximo por importación es ${MAX_ROWS}`);
+  }
+
+  const headers = headerRow.values.map((header, i) => header || `Columna ${i + 1}`);
+  const mapping = parseMapping(rawMapping, headers.length) ?? suggestColumnMapping(headers);
+  const parsedRows = dataRows.map(row => buildRow(row.values, mapping, row.rowNumber));
+  const errorCount = parsedRows.filter(row => row.errors.length > 0).length;
+
+  return {
+    fileName: file.originalname,
+    headers,
+    mapping,
+    rows: parsedRows,
+    validCount: parsedRows.length - errorCount,
+    errorCount,
+  };
+}
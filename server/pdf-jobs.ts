@@ -0,0 +1,109 @@
+import type { PdfJob, PdfJobSummary } from "@shared/schema";
+import { storage } from "./storage";
+import { buildQuotePdf } from "./quote-pdf";
+
+// ==========================================
+// COLA DE TRABAJOS DE PDF EN SEGUNDO PLANO
+// ==========================================
+
+const POLL_INTERVAL_MS = 5000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+// Los PDF terminados se conservan un día para descargarse
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+// Si el renderizador está saturado (503) el trabajo vuelve a la cola en lugar de fallar
+const MAX_BUSY_ATTEMPTS = 3;
+// Un trabajo en proceso por más tiempo se da por abandonado (el proceso que lo tomó se reinició)
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+let draining = false;
+let started = false;
+
+export function toPdfJobSummary(job: PdfJob): PdfJobSummary & { downloadUrl: string | null } {
+  const { pdfBase64, ...summary } = job;
+  return {
+    ...summary,
+    downloadUrl: job.status === "completado" ? `/api/pdf-jobs/${job.id}/download` : null,
+  };
+}
+
+// Devuelve false si el trabajo volvió a la cola; en ese caso se espera al siguiente sondeo
+async function processJob(job: PdfJob): Promise<boolean> {
+  try {
+    const { quote, buffer, filename } = await buildQuotePdf(job.quoteId, progress => storage.updatePdfJob(job.id, { progress }));
+    const data = Buffer.from(buffer);
+
+    await storage.updatePdfJob(job.id, {
+      status: "completado",
+      progress: 100,
+      fileName: filename,
+      pdfBase64: data.toString("base64"),
+      size: data.length,
+      finishedAt: new Date(),
+    });
+
+    await storage.createAuditLog({
+      correo: job.correo,
+      action: "Generar PDF de cotización",
+      details: `Se generó el PDF para la cotización ${quote.internalFolio} (trabajo #${job.id})`,
+      resourceType: "pdf_job",
+      resourceId: job.id,
+    });
+    return true;
+  } catch (e: any) {
+    if (e.status === 503 && job.attempts < MAX_BUSY_ATTEMPTS) {
+      await storage.updatePdfJob(job.id, { status: "pendiente", progress: 0, error: e.message });
+      return false;
+    }
+    console.error(`[PDF-JOBS] Falló el trabajo #${job.id}:`, e);
+    await storage.updatePdfJob(job.id, {
+      status: "fallido",
+      error: e.message || "Error desconocido al generar el PDF",
+      finishedAt: new Date(),
+    });
+    return true;
+  }
+}
+
+async function drainQueue() {
+  if (draining) return;
+  draining = true;
+  try {
+    let job = await storage.claimNextPdfJob();
+    while (job && await processJob(job)) {
+      job = await storage.claimNextPdfJob();
+    }
+  } catch (e) {
+    console.error("[PDF-JOBS] Error al leer la cola:", e);
+  } finally {
+    draining = false;
+  }
+}
+
+// Trabajos que quedaron a medias por un reinicio; los recientes pueden seguir en otra instancia
+async function requeueStaleJobs() {
+  const requeued = await storage.requeueStalePdfJobs(new Date(Date.now() - STALE_JOB_MS));
+  if (requeued > 0) console.log(`[PDF-JOBS] ${requeued} trabajo(s) devueltos a la cola`);
+}
+
+// Se llama al encolar un trabajo para no esperar al siguiente sondeo
+export function notifyPdfJobWorker() {
+  setImmediate(drainQueue);
+}
+
+export async function startPdfJobWorker() {
+  if (started) return;
+  started = true;
+
+  await requeueStaleJobs();
+
+  setInterval(drainQueue, POLL_INTERVAL_MS).unref();
+  setInterval(() => {
+    requeueStaleJobs().catch(e => console.error("[PDF-JOBS] Error al revisar trabajos abandonados:", e));
+  }, STALE_JOB_MS).unref();
+  setInterval(() => {
+    storage.deletePdfJobsFinishedBefore(new Date(Date.now() - RETENTION_MS))
+      .catch(e => console.error("[PDF-JOBS] Error al depurar trabajos:", e));
+  }, CLEANUP_INTERVAL_MS).unref();
+
+  notifyPdfJobWorker();
+}
@@ -0,0 +1,217 @@
+import puppeteer, { type Browser, type PDFOptions } from "puppeteer";
+
+// ==========================================
+// RENDERIZADO DE PDF: NAVEGADOR COMPARTIDO Y COLA
+// ==========================================
+
+const readIntEnv = (name: string, fallback: number) => {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const MAX_CONCURRENT_PAGES = readIntEnv("PDF_MAX_CONCURRENCY", 2);
+const MAX_QUEUE_DEPTH = readIntEnv("PDF_MAX_QUEUE", 20);
+const QUEUE_TIMEOUT_MS = readIntEnv("PDF_QUEUE_TIMEOUT_MS", 60000);
+const RENDER_TIMEOUT_MS = readIntEnv("PDF_RENDER_TIMEOUT_MS", 45000);
+// El navegador se recicla tras cierto número de PDFs o si queda ocioso, para contener su memoria
+const MAX_RENDERS_PER_BROWSER = readIntEnv("PDF_BROWSER_MAX_RENDERS", 200);
+const BROWSER_IDLE_MS = readIntEnv("PDF_BROWSER_IDLE_MS", 5 * 60 * 1000);
+const DURATION_SAMPLES = 100;
+
+const LAUNCH_ARGS = [
+  '--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas', '--no-first-run', '--no-zygote', '--disable-gpu'
+];
+
+// Lleva el código HTTP para que las rutas respondan 503 cuando el servicio está saturado
+export class PdfRenderError extends Error {
+  constructor(message: string, public status = 500) {
+    super(message);
+    this.name = "PdfRenderError";
+  }
+}
+
+interface QueuedRender {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  enqueuedAt: number;
+  timer: NodeJS.Timeout;
+}
+
+let browserPromise: Promise<Browser> | null = null;
+let rendersSinceLaunch = 0;
+let idleTimer: NodeJS.Timeout | null = null;
+let activePages = 0;
+const queue: QueuedRender[] = [];
+
+const metrics = {
+  browserLaunches: 0,
+  completed: 0,
+  failed: 0,
+  rejected: 0,
+  queueTimeouts: 0,
+  renderDurations: [] as number[],
+  waitDurations: [] as number[],
+};
+
+const pushSample = (samples: number[], value: number) => {
+  samples.push(value);
+  if (samples.length > DURATION_SAMPLES) samples.shift();
+};
+
+function getBrowser(): Promise<Browser> {
+  if (!browserPromise) {
+    metrics.browserLaunches++;
+    rendersSinceLaunch = 0;
+    const launching = puppeteer.launch({ headless: true, args: LAUNCH_ARGS });
+    browserPromise = launching;
+    launching
+      .then(browser => browser.on("disconnected", () => {
+        if (browserPromise === launching) browserPromise = null;
+      }))
+      .catch(() => {
+        if (browserPromise === launching) browserPromise = null;
+      });
+  }
+  return browserPromise;
+}
+
+async function closeBrowser() {
+  const current = browserPromise;
+  browserPromise = null;
+  if (!current) return;
+  try {
+    await (await current).close();
+  } catch {
+    // El proceso ya había terminado
+  }
+}
+
+function scheduleIdleClose() {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = setTimeout(() => {
+    idleTimer = null;
+    if (activePages === 0 && queue.length === 0) closeBrowser();
+  }, BROWSER_IDLE_MS);
+  idleTimer.unref();
+}
+
+function acquireSlot(): Promise<void> {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+  if (activePages < MAX_CONCURRENT_PAGES && queue.length === 0) {
+    activePages++;
+    pushSample(metrics.waitDurations, 0);
+    return Promise.resolve();
+  }
+  if (queue.length >= MAX_QUEUE_DEPTH) {
+    metrics.rejected++;
+    return Promise.reject(new PdfRenderError("Hay demasiados PDF en proceso. Intenta de nuevo en unos momentos.", 503));
+  }
+
+  return new Promise((resolve, reject) => {
+    const entry: QueuedRender = {
+      resolve,
+      reject,
+      enqueuedAt: Date.now(),
+      timer: setTimeout(() => {
+        const index = queue.indexOf(entry);
+        if (index !== -1) queue.splice(index, 1);
+        metrics.queueTimeouts++;
+        reject(new PdfRenderError("El PDF esperó demasiado en la cola de generación. Intenta de nuevo.", 503));
+      }, QUEUE_TIMEOUT_MS),
+    };
+    queue.push(entry);
+  });
+}
+
+// El lugar liberado pasa directo al siguiente en la cola, sin bajar el contador
+function releaseSlot() {
+  const next = queue.shift();
+  if (next) {
+    clearTimeout(next.timer);
+    pushSample(metrics.waitDurations, Date.now() - next.enqueuedAt);
+    next.resolve();
+    return;
+  }
+
+  activePages--;
+  if (activePages === 0) {
+    if (rendersSinceLaunch >= MAX_RENDERS_PER_BROWSER) closeBrowser();
+    else scheduleIdleClose();
+  }
+}
+
+function withTimeout<T>(work: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new PdfRenderError("La generación del PDF excedió el tiempo límite.", 504)), ms);
+  });
+  return Promise.race([work, timeout]).finally(() => clearTimeout(timer));
+}
+
+export async function renderPdf(html: string, options: PDFOptions): Promise<Uint8Array> {
+  await acquireSlot();
+  const startedAt = Date.now();
+  let page: Awaited<ReturnType<Browser["newPage"]>> | null = null;
+
+  try {
+    const browser = await getBrowser();
+    page = await browser.newPage();
+    const activePage = page;
+    const pdf = await withTimeout((async () => {
+      // Las imágenes del membrete y las plantillas van embebidas como data URL
+      await activePage.setContent(html, { waitUntil: "load", timeout: RENDER_TIMEOUT_MS });
+      return activePage.pdf({ ...options, timeout: RENDER_TIMEOUT_MS });
+    })(), RENDER_TIMEOUT_MS);
+
+    metrics.completed++;
+    pushSample(metrics.renderDurations, Date.now() - startedAt);
+    return pdf;
+  } catch (e) {
+    metrics.failed++;
+    throw e;
+  } finally {
+    rendersSinceLaunch++;
+    if (page) await page.close().catch(() => {});
+    releaseSlot();
+  }
+}
+
+const summarize = (samples: number[]) => {
+  if (samples.length === 0) return { samples: 0, avgMs: 0, p95Ms: 0, maxMs: 0, lastMs: 0 };
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    samples: samples.length,
+    avgMs: Math.round(samples.reduce((sum, value) => sum + value, 0) / samples.length),
+    p95Ms: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+    maxMs: sorted[sorted.length - 1],
+    lastMs: samples[samples.length - 1],
+  };
+};
+
+export function getPdfRendererMetrics() {
+  return {
+    browser: {
+      running: browserPromise !== null,
+      launches: metrics.browserLaunches,
+      rendersSinceLaunch,
+    },
+    limits: {
+      maxConcurrentPages: MAX_CONCURRENT_PAGES,
+      maxQueueDepth: MAX_QUEUE_DEPTH,
+      queueTimeoutMs: QUEUE_TIMEOUT_MS,
+      renderTimeoutMs: RENDER_TIMEOUT_MS,
+    },
+    activePages,
+    queueDepth: queue.length,
+    completed: metrics.completed,
+    failed: metrics.failed,
+    rejected: metrics.rejected,
+    queueTimeouts: metrics.queueTimeouts,
+    render: summarize(metrics.renderDurations),
+    wait: summarize(metrics.waitDurations),
+  };
+}
@@ -0,0 +1,163 @@
+import type {
+  PriceHistoryEntry,
+  PriceHistoryResponse,
+  PriceHistorySupplierStats,
+  PriceHistoryTrendPoint,
+  PriceRangeStats,
+} from "@shared/schema";
+import { convertCurrency, fromCents, parseQuoteCurrency } from "./quotes";
+import type { PriceHistoryBucket, PriceHistoryFilters, PriceHistoryRow } from "./storage";
+
+// ==========================================
+// HISTORIAL DE PRECIOS
+// ==========================================
+
+const MIN_QUERY_LENGTH = 3;
+const MAX_ITEMS = 50;
+const DAYS_PER_YEAR = 365.25;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const isIsoDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+export function parsePriceHistoryQuery(query: any): { filters?: PriceHistoryFilters; inflationRate: number | null; error?: string } {
+  const search = (query.q ?? query.search ?? "").toString().trim();
+  if (search.length < MIN_QUERY_LENGTH) {
+    return { inflationRate: null, error: `La búsqueda debe tener al menos ${MIN_QUERY_LENGTH} caracteres` };
+  }
+
+  const from = (query.from ?? "").toString().trim();
+  const to = (query.to ?? "").toString().trim();
+  if ((from && !isIsoDate(from)) || (to && !isIsoDate(to))) {
+    return { inflationRate: null, error: "Las fechas deben tener el formato AAAA-MM-DD" };
+  }
+
+  // Tasa anual en porcentaje; solo se aplica si se pide el ajuste
+  let inflationRate: number | null = null;
+  if (query.adjustInflation === "true") {
+    inflationRate = Number(query.inflationRate ?? 0);
+    if (!Number.isFinite(inflationRate) || inflationRate < 0 || inflationRate > 100) {
+      return { inflationRate: null, error: "La inflación anual debe estar entre 0 y 100%" };
+    }
+  }
+
+  return {
+    filters: {
+      query: search,
+      supplier: (query.supplier ?? "").toString().trim() || undefined,
+      from: from || undefined,
+      to: to || undefined,
+    },
+    inflationRate,
+  };
+}
+
+// Factor para llevar un importe de la fecha de la cotización a hoy con interés compuesto anual
+function inflationFactor(quoteDate: string, inflationRate: number | null, today: Date): number {
+  if (!inflationRate || !isIsoDate(quoteDate)) return 1;
+  const years = (today.getTime() - new Date(`${quoteDate}T00:00:00`).getTime()) / (DAYS_PER_YEAR * 86400000);
+  return years > 0 ? Math.pow(1 + inflationRate / 100, years) : 1;
+}
+
+type BucketTotals = Omit<PriceHistoryBucket, "supplier" | "period">;
+
+// Junta los agregados de varios meses o proveedores sin perder el promedio ponderado
+function mergeBuckets(buckets: BucketTotals[]): BucketTotals {
+  const pick = (values: (number | null)[], choose: (...values: number[]) => number) => {
+    const present = values.filter((value): value is number => value !== null);
+    return present.length > 0 ? choose(...present) : null;
+  };
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  return {
+    count: sum(buckets.map(b => b.count)),
+    lastQuoteDate: buckets.reduce((last, b) => b.lastQuoteDate > last ? b.lastQuoteDate : last, ""),
+    saleCount: sum(buckets.map(b => b.saleCount)),
+    saleSum: sum(buckets.map(b => b.saleSum)),
+    saleMin: pick(buckets.map(b => b.saleMin), Math.min),
+    saleMax: pick(buckets.map(b => b.saleMax), Math.max),
+    costCount: sum(buckets.map(b => b.costCount)),
+    costSum: sum(buckets.map(b => b.costSum)),
+    costMin: pick(buckets.map(b => b.costMin), Math.min),
+    costMax: pick(buckets.map(b => b.costMax), Math.max),
+  };
+}
+
+function rangeStats(count: number, total: number, min: number | null, max: number | null): PriceRangeStats | null {
+  if (count === 0 || min === null || max === null) return null;
+  return { min: round2(min), avg: round2(total / count), max: round2(max) };
+}
+
+const salePrice = (totals: BucketTotals) => rangeStats(totals.saleCount, totals.saleSum, totals.saleMin, totals.saleMax);
+const purchaseCost = (totals: BucketTotals) => rangeStats(totals.costCount, totals.costSum, totals.costMin, totals.costMax);
+
+function groupBuckets(buckets: PriceHistoryBucket[], key: (bucket: PriceHistoryBucket) => string): Map<string, BucketTotals> {
+  const groups = new Map<string, PriceHistoryBucket[]>();
+  for (const bucket of buckets) groups.set(key(bucket), [...(groups.get(key(bucket)) ?? []), bucket]);
+  return new Map(Array.from(groups, ([group, list]) => [group, mergeBuckets(list)]));
+}
+
+// Precios en pesos con el tipo de cambio guardado en cada cotización
+function toEntry(row: PriceHistoryRow, inflationRate: number | null, today: Date): PriceHistoryEntry {
+  const factor = inflationFactor(row.quoteDate, inflationRate, today);
+  const rate = row.exchangeRate === null ? null : Number(row.exchangeRate);
+  const unitPrice = convertCurrency(fromCents(Number(row.unitPrice) || 0), parseQuoteCurrency(row.currency), "MXN", rate);
+  const purchaseCost = convertCurrency(Number(row.purchaseCost || 0), parseQuoteCurrency(row.costCurrency), "MXN", rate);
+
+  return {
+    quoteId: row.quoteId,
+    internalFolio: row.internalFolio,
+    quoteDate: row.quoteDate,
+    companyOrigin: row.companyOrigin,
+    destinationCompany: row.destinationCompany,
+    status: row.status,
+    description: row.description,
+    supplier: (row.supplier || "").trim(),
+    quantity: row.quantity,
+    unitMeasure: row.unitMeasure,
+    unitPrice: round2(unitPrice * factor),
+    purchaseCost: round2(purchaseCost * factor),
+    currency: row.currency,
+  };
+}
+
+/**
+ * Las estadísticas salen de los agregados por proveedor y mes que calcula la base sobre todas las
+ * coincidencias; las partidas en detalle son solo las más parecidas a la búsqueda.
+ */
+export function buildPriceHistory(
+  query: string,
+  rows: PriceHistoryRow[],
+  buckets: PriceHistoryBucket[],
+  inflationRate: number | null,
+  today = new Date(),
+): PriceHistoryResponse {
+  const entries = rows
+    .map(row => toEntry(row, inflationRate, today))
+    .sort((a, b) => b.quoteDate.localeCompare(a.quoteDate));
+
+  const suppliers: PriceHistorySupplierStats[] = Array.from(groupBuckets(buckets, b => b.supplier || "Sin proveedor"), ([supplier, totals]) => ({
+    supplier,
+    count: totals.count,
+    salePrice: salePrice(totals),
+    purchaseCost: purchaseCost(totals),
+    lastQuoteDate: totals.lastQuoteDate,
+  })).sort((a, b) => b.count - a.count || b.lastQuoteDate.localeCompare(a.lastQuoteDate));
+
+  const trend: PriceHistoryTrendPoint[] = Array.from(groupBuckets(buckets.filter(b => b.period), b => b.period), ([period, totals]) => ({
+    period,
+    count: totals.count,
+    salePrice: salePrice(totals)?.avg ?? null,
+    purchaseCost: purchaseCost(totals)?.avg ?? null,
+  })).sort((a, b) => a.period.localeCompare(b.period));
+
+  const totals = mergeBuckets(buckets);
+  return {
+    query,
+    count: totals.count,
+    inflationRate,
+    salePrice: salePrice(totals),
+    purchaseCost: purchaseCost(totals),
+    suppliers,
+    trend,
+    items: entries.slice(0, MAX_ITEMS),
+  };
+}
@@ -0,0 +1,97 @@
+import {
+  PROVIDER_DOCUMENT_TYPES,
+  PROVIDER_DOCUMENT_VALIDITY_DAYS,
+  PROVIDER_DOCUMENT_WARNING_DAYS,
+  isProviderDocumentType,
+  type InsertProviderDocument,
+  type ProviderCompliance,
+  type ProviderComplianceItem,
+  type ProviderDocumentResponse,
+  type ProviderDocumentStatus,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { todayIso } from "./quote-expiry";
+
+// ==========================================
+// DOCUMENTOS DE CUMPLIMIENTO DE PROVEEDORES
+// ==========================================
+
+const DAY_MS = 86400000;
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+const ALLOWED_MIME_TYPES = ["application/pdf", "image/jpeg", "image/png"];
+
+// Orden de gravedad para el estado general del proveedor
+const STATUS_SEVERITY: ProviderDocumentStatus[] = ["vigente", "por_vencer", "faltante", "vencido"];
+
+const text = (value: unknown) => (value ?? "").toString().trim();
+
+function toDayNumber(isoDate: string): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(isoDate)) return null;
+  const time = Date.parse(`${isoDate}T00:00:00Z`);
+  return Number.isNaN(time) ? null : Math.floor(time / DAY_MS);
+}
+
+export function validateProviderDocumentFile(file: { mimetype: string; size: number } | undefined): string | null {
+  if (!file) return "No se recibió el archivo del documento";
+  if (!ALLOWED_MIME_TYPES.includes(file.mimetype)) return "El documento debe ser PDF, JPG o PNG";
+  if (file.size > MAX_DOCUMENT_BYTES) return "El documento no debe exceder 10 MB";
+  return null;
+}
+
+/**
+ * Tipo y fechas del documento (viene en multipart, todo como texto). Sin vencimiento capturado
+ * se aplica la vigencia sugerida del tipo; el acta y el poder quedan sin vencimiento.
+ */
+export function parseProviderDocumentInput(body: any): {
+  data?: Pick<InsertProviderDocument, "type" | "issueDate" | "expiryDate" | "notes">;
+  error?: string;
+} {
+  const type = text(body.type);
+  if (!isProviderDocumentType(type)) return { error: "Tipo de documento no válido" };
+
+  const issueDate = text(body.issueDate);
+  const issueDay = toDayNumber(issueDate);
+  if (issueDay === null) return { error: "La fecha de emisión es requerida (AAAA-MM-DD)" };
+  if (issueDay > toDayNumber(todayIso())!) return { error: "La fecha de emisión no puede ser futura" };
+
+  let expiryDate: string | null = text(body.expiryDate) || null;
+  if (expiryDate) {
+    const expiryDay = toDayNumber(expiryDate);
+    if (expiryDay === null) return { error: "La fecha de vencimiento no es válida (AAAA-MM-DD)" };
+    if (expiryDay < issueDay) return { error: "El vencimiento no puede ser anterior a la emisión" };
+  } else if (PROVIDER_DOCUMENT_VALIDITY_DAYS[type]) {
+    expiryDate = new Date((issueDay + PROVIDER_DOCUMENT_VALIDITY_DAYS[type]!) * DAY_MS).toISOString().split("T")[0];
+  }
+
+  return { data: { type, issueDate, expiryDate, notes: text(body.notes) } };
+}
+
+export function providerDocumentStatus(expiryDate: string | null, today = todayIso()): { status: ProviderDocumentStatus; daysRemaining: number | null } {
+  const expiryDay = expiryDate ? toDayNumber(expiryDate) : null;
+  if (expiryDay === null) return { status: "vigente", daysRemaining: null };
+  const daysRemaining = expiryDay - toDayNumber(today)!;
+  return {
+    status: daysRemaining < 0 ? "vencido" : daysRemaining <= PROVIDER_DOCUMENT_WARNING_DAYS ? "por_vencer" : "vigente",
+    daysRemaining,
+  };
+}
+
+// Los documentos llegan del más reciente al más antiguo; el primero de cada tipo es el que cuenta
+export function buildProviderCompliance(providerId: number, documents: ProviderDocumentResponse[], today = todayIso()): ProviderCompliance {
+  const items: ProviderComplianceItem[] = PROVIDER_DOCUMENT_TYPES.map(type => {
+    const document = documents.find(entry => entry.providerId === providerId && entry.type === type) ?? null;
+    if (!document) return { type, status: "faltante", daysRemaining: null, document: null };
+    return { type, ...providerDocumentStatus(document.expiryDate, today), document };
+  });
+  const status = items.reduce<ProviderDocumentStatus>(
+    (worst, item) => STATUS_SEVERITY.indexOf(item.status) > STATUS_SEVERITY.indexOf(worst) ? item.status : worst,
+    "vigente",
+  );
+  return { providerId, status, items };
+}
+
+export async function listProviderCompliance(providerIds: number[]): Promise<ProviderCompliance[]> {
+  const documents = await storage.getProviderDocuments(providerIds);
+  const today = todayIso();
+  return providerIds.map(providerId => buildProviderCompliance(providerId, documents, today));
+}
@@ -0,0 +1,64 @@
+import type { InsertProvider } from "@shared/schema";
+import { clabeBankName, normalizeClabe, normalizeRfc, validateClabe, validateRfc } from "@shared/fiscal";
+
+// ==========================================
+// PROVEEDORES: CAPTURA Y VALIDACIÓN FISCAL
+// ==========================================
+
+export type ProviderFieldErrors = Partial<Record<keyof InsertProvider, string>>;
+
+const text = (value: unknown) => (value ?? "").toString().trim();
+
+const PROVIDER_TEXT_FIELDS = ["businessActivity", "legalAddress", "website", "bankBeneficiary"] as const;
+const PROVIDER_REQUIRED_FIELDS = {
+  companyName: "La razón social es obligatoria",
+  legalRepresentative: "El representante legal es obligatorio",
+  phone: "El teléfono es obligatorio",
+  email: "El correo es obligatorio",
+} as const;
+
+/**
+ * Normaliza el RFC y la CLABE y devuelve los errores por campo para que el modal los
+ * marque junto a cada input. Si el banco viene vacío se toma del prefijo de la CLABE.
+ */
+export function parseProviderInput(body: any, partial: boolean): {
+  data?: Partial<InsertProvider>;
+  error?: string;
+  fieldErrors?: ProviderFieldErrors;
+} {
+  const data: Partial<InsertProvider> = {};
+  const fieldErrors: ProviderFieldErrors = {};
+
+  // El modal histórico envía el representante como legalRep
+  const input = { ...body, legalRepresentative: body.legalRepresentative ?? body.legalRep };
+
+  for (const [field, message] of Object.entries(PROVIDER_REQUIRED_FIELDS) as Array<[keyof typeof PROVIDER_REQUIRED_FIELDS, string]>) {
+    if (partial && input[field] === undefined) continue;
+    const value = text(input[field]);
+    if (!value) fieldErrors[field] = message;
+    data[field] = value;
+  }
+  for (const field of PROVIDER_TEXT_FIELDS) {
+    if (input[field] !== undefined) data[field] = text(input[field]);
+  }
+
+  if (input.rfc !== undefined) {
+    const rfcError = validateRfc(input.rfc);
+    if (rfcError) fieldErrors.rfc = rfcError;
+    data.rfc = normalizeRfc(input.rfc);
+  }
+
+  if (input.bankAccount !== undefined) {
+    const clabeError = validateClabe(input.bankAccount);
+    if (clabeError) fieldErrors.bankAccount = clabeError;
+    data.bankAccount = normalizeClabe(input.bankAccount);
+  }
+  if (input.bankName !== undefined) data.bankName = text(input.bankName);
+  if (data.bankAccount && !fieldErrors.bankAccount && !data.bankName) {
+    data.bankName = clabeBankName(data.bankAccount) ?? "";
+  }
+
+  const messages = Object.values(fieldErrors);
+  if (messages.length > 0) return { error: messages.join(". "), fieldErrors };
+  return { data };
+}
@@ -0,0 +1,99 @@
+import type { InsertQuote, InsertQuoteItem, Quote, QuoteItem } from "@shared/schema";
+import { normalizeCompanyCode } from "@shared/schema";
+import { quoteItemsInCaptureOrder, quoteTaxColumns, type NormalizedQuoteLineItem } from "./quotes";
+import { priceQuoteItems, type QuoteCostContext } from "./quote-margins";
+
+// ==========================================
+// DUPLICADO DE COTIZACIONES
+// ==========================================
+
+const PROPOSAL_TYPES = ["bienes", "servicios"];
+
+export class QuoteCloneError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "QuoteCloneError";
+  }
+}
+
+export interface QuoteCloneOptions {
+  companyOrigin?: unknown;
+  proposalType?: unknown;
+}
+
+export interface QuoteCloneTarget {
+  companyOrigin: string;
+  proposalType: string;
+}
+
+export function resolveQuoteCloneTarget(source: Quote, options: QuoteCloneOptions): QuoteCloneTarget {
+  const companyOrigin = options.companyOrigin ? normalizeCompanyCode(options.companyOrigin) : source.companyOrigin;
+  if (!companyOrigin) {
+    throw new QuoteCloneError("Empresa emisora no válida para el duplicado");
+  }
+
+  const proposalType = options.proposalType ? String(options.proposalType).toLowerCase().trim() : source.proposalType;
+  if (!PROPOSAL_TYPES.includes(proposalType)) {
+    throw new QuoteCloneError("El tipo de propuesta debe ser bienes o servicios");
+  }
+
+  return { companyOrigin, proposalType };
+}
+
+/**
+ * Copia todo el contenido de la propuesta; el folio, la fecha, el estado y el tipo de cambio son
+ * del nuevo borrador. El total se recalcula al guardar las partidas.
+ */
+export function buildQuoteClone(
+  source: Quote,
+  target: QuoteCloneTarget,
+  internalFolio: string,
+  quoteDate: string,
+  currencyColumns: Pick<InsertQuote, "currency" | "costCurrency" | "exchangeRate" | "exchangeRateDate">,
+): InsertQuote {
+  const { id, createdAt, status, internalFolio: _folio, quoteDate: _date, totalCents, ...fields } = source;
+  const sameTemplate = target.companyOrigin === source.companyOrigin && target.proposalType === source.proposalType;
+
+  return {
+    ...fields,
+    ...target,
+    internalFolio,
+    quoteDate,
+    templateName: sameTemplate ? source.templateName : `${target.companyOrigin}:${target.proposalType}`,
+    ...quoteTaxColumns(source, target.proposalType),
+    ...currencyColumns,
+  };
+}
+
+function itemForPricing(item: QuoteItem): NormalizedQuoteLineItem {
+  return {
+    description: item.description,
+    quantity: item.quantity,
+    unit: item.unit,
+    unitMeasure: item.unitMeasure,
+    techRequirements: item.techRequirements,
+    versionReference: item.versionReference,
+    reqDate: item.reqDate,
+    unitPriceCents: item.unitPrice,
+    amountCents: item.amount,
+    supplier: item.supplier ?? "",
+    purchaseCost: Number(item.purchaseCost) || 0,
+    profitMargin: Number(item.profitMargin) || 0,
+    profitFactor: Number(item.profitFactor) || 1,
+    taxExempt: item.taxExempt,
+  };
+}
+
+// Partidas en el orden de captura; las que tienen costo se valúan con el tipo de cambio del duplicado
+export function buildQuoteItemClones(items: QuoteItem[], quoteId: number, context: QuoteCostContext): InsertQuoteItem[] {
+  const ordered = quoteItemsInCaptureOrder(items);
+  const priced = priceQuoteItems(ordered.map(itemForPricing), context);
+  return ordered.map(({ id, quoteId: _quoteId, createdAt, ...item }, index) => ({
+    ...item,
+    quoteId,
+    unitPrice: priced[index].unitPriceCents,
+    amount: priced[index].amountCents,
+    profitMargin: String(priced[index].profitMargin),
+    profitFactor: String(priced[index].profitFactor),
+  }));
+}
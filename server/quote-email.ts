@@ -0,0 +1,177 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import {
+  DEFAULT_QUOTE_EMAIL_BODY,
+  DEFAULT_QUOTE_EMAIL_SUBJECT,
+  type Company,
+  type Quote,
+} from "@shared/schema";
+import { findCompanyForQuote } from "./companies";
+import { quoteExpiryDate } from "./quote-expiry";
+
+// ==========================================
+// ENVÍO DE COTIZACIONES POR CORREO (SMTP)
+// ==========================================
+
+export const MAX_EMAIL_ANNEXES = 10;
+const MAX_ATTACHMENTS_BYTES = 20 * 1024 * 1024;
+const MAX_RECIPIENTS = 20;
+const EMAIL_PATTERN = /^[^\s@,;<>]+@[^\s@,;<>]+\.[^\s@,;<>]+$/;
+
+export class QuoteEmailError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "QuoteEmailError";
+  }
+}
+
+interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  pass: string;
+  from: string;
+}
+
+/**
+ * Configuración tomada del entorno. Sin SMTP_HOST el envío queda deshabilitado; para pruebas
+ * locales basta apuntar SMTP_HOST/SMTP_PORT a un capturador como MailHog (localhost:1025).
+ */
+export function getSmtpSettings(): SmtpSettings | null {
+  const host = (process.env.SMTP_HOST || "").trim();
+  if (!host) return null;
+  const user = (process.env.SMTP_USER || "").trim();
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === "true",
+    user,
+    pass: process.env.SMTP_PASS || "",
+    from: (process.env.SMTP_FROM || user).trim(),
+  };
+}
+
+let transport: { key: string; transporter: Transporter } | null = null;
+
+// Un solo transporte por configuración; se recrea si cambian las variables de entorno
+function getTransport(settings: SmtpSettings): Transporter {
+  const key = JSON.stringify(settings);
+  if (!transport || transport.key !== key) {
+    transport = {
+      key,
+      transporter: nodemailer.createTransport({
+        host: settings.host,
+        port: settings.port,
+        secure: settings.secure,
+        auth: settings.user ? { user: settings.user, pass: settings.pass } : undefined,
+      }),
+    };
+  }
+  return transport.transporter;
+}
+
+export function parseEmailList(value: unknown): { emails: string[]; invalid: string[] } {
+  const raw = Array.isArray(value) ? value.join(",") : (value ?? "").toString();
+  const entries = raw.split(/[,;\n]/).map(entry => entry.trim()).filter(Boolean);
+  const unique = Array.from(new Set(entries.map(entry => entry.toLowerCase())));
+  return {
+    emails: unique.filter(entry => EMAIL_PATTERN.test(entry)),
+    invalid: unique.filter(entry => !EMAIL_PATTERN.test(entry)),
+  };
+}
+
+export interface QuoteEmailInput {
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+}
+
+// El asunto y el cuerpo vacíos se llenan con la plantilla de la empresa
+export function parseQuoteEmailInput(body: any): { data?: QuoteEmailInput; error?: string } {
+  const to = parseEmailList(body.to);
+  const cc = parseEmailList(body.cc);
+  const invalid = [...to.invalid, ...cc.invalid];
+  if (invalid.length > 0) return { error: `Correos no válidos: ${invalid.join(", ")}` };
+  if (to.emails.length === 0) return { error: "Indica al menos un destinatario" };
+  if (to.emails.length + cc.emails.length > MAX_RECIPIENTS) {
+    return { error: `No se puede enviar a más de ${MAX_RECIPIENTS} destinatarios` };
+  }
+
+  return {
+    data: {
+      to: to.emails,
+      cc: cc.emails.filter(email => !to.emails.includes(email)),
+      subject: (body.subject ?? "").toString().trim(),
+      body: (body.body ?? "").toString(),
+    },
+  };
+}
+
+export function validateEmailAnnexes(files: Array<{ originalname: string; size: number }>, pdfBytes: number): string | null {
+  if (files.length > MAX_EMAIL_ANNEXES) return `Se permiten hasta ${MAX_EMAIL_ANNEXES} anexos`;
+  const total = files.reduce((sum, file) => sum + file.size, pdfBytes);
+  if (total > MAX_ATTACHMENTS_BYTES) return "El PDF y los anexos no pueden exceder 20 MB en total";
+  return null;
+}
+
+export function renderQuoteEmailTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+function quoteEmailValues(quote: Quote, company: Company | undefined, senderName: string, totalText: string): Record<string, string> {
+  return {
+    folio: quote.internalFolio,
+    proyecto: quote.projectTitle || "",
+    requisicion: quote.requisitionNumber || "",
+    cliente: quote.destinationCompany || "",
+    contacto: quote.contactPerson || quote.attnContacto || "",
+    empresa: company?.legalName || company?.friendlyName || quote.companyOrigin,
+    total: totalText,
+    vigencia: quoteExpiryDate(quote.quoteDate, quote.validityDays) ?? "",
+    remitente: senderName,
+  };
+}
+
+// Asunto y cuerpo propuestos con la plantilla de la empresa emisora
+export async function buildQuoteEmailDraft(quote: Quote, senderName: string, totalText: string) {
+  const company = await findCompanyForQuote(quote);
+  const values = quoteEmailValues(quote, company, senderName, totalText);
+  return {
+    to: quote.contactEmail,
+    subject: renderQuoteEmailTemplate(company?.emailSubjectTemplate || DEFAULT_QUOTE_EMAIL_SUBJECT, values),
+    body: renderQuoteEmailTemplate(company?.emailBodyTemplate || DEFAULT_QUOTE_EMAIL_BODY, values),
+    fromName: company?.friendlyName || "",
+  };
+}
+
+export interface OutgoingEmail {
+  to: string[];
+  cc?: string[];
+  replyTo?: string | null;
+  fromName?: string;
+  subject: string;
+  text: string;
+  attachments?: Array<{ filename: string; content: Buffer; contentType?: string }>;
+}
+
+export async function sendEmail(email: OutgoingEmail): Promise<{ messageId: string }> {
+  const settings = getSmtpSettings();
+  if (!settings) {
+    throw new QuoteEmailError("El envío de correo no está configurado (SMTP_HOST)", 503);
+  }
+  if (!settings.from) {
+    throw new QuoteEmailError("Falta el remitente del correo (SMTP_FROM)", 503);
+  }
+
+  const info = await getTransport(settings).sendMail({
+    from: email.fromName ? { name: email.fromName, address: settings.from } : settings.from,
+    to: email.to,
+    cc: email.cc && email.cc.length > 0 ? email.cc : undefined,
+    replyTo: email.replyTo || undefined,
+    subject: email.subject,
+    text: email.text,
+    attachments: email.attachments,
+  });
+  return { messageId: info.messageId };
+}
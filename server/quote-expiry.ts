@@ -0,0 +1,86 @@
+import {
+  DEFAULT_EXPIRY_WARNING_DAYS,
+  EXPIRY_TRACKED_QUOTE_STATUSES,
+  QUOTE_EXPIRY_FILTERS,
+  type Quote,
+  type QuoteExpiry,
+  type QuoteExpiryFilter,
+  type QuoteStatus,
+} from "@shared/schema";
+
+// ==========================================
+// VIGENCIA DE COTIZACIONES
+// ==========================================
+
+const DAY_MS = 86400000;
+const MAX_WARNING_DAYS = 365;
+const MAX_VALIDITY_DAYS = 3650;
+
+const isIsoDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// La fecha de hoy en la Ciudad de México; en UTC ya sería mañana desde las 18:00
+const todayFormat = new Intl.DateTimeFormat("en-CA", { timeZone: "America/Mexico_City", year: "numeric", month: "2-digit", day: "2-digit" });
+export const todayIso = () => todayFormat.format(new Date());
+
+// Fechas como días en UTC para que el horario de verano no mueva el conteo
+function toDayNumber(isoDate: string): number | null {
+  if (!isIsoDate(isoDate)) return null;
+  const time = Date.parse(`${isoDate}T00:00:00Z`);
+  return Number.isNaN(time) ? null : Math.floor(time / DAY_MS);
+}
+
+export function quoteExpiryDate(quoteDate: string, validityDays: number): string | null {
+  const start = toDayNumber((quoteDate || "").trim());
+  if (start === null) return null;
+  return new Date((start + Math.max(0, Math.round(validityDays) || 0)) * DAY_MS).toISOString().split("T")[0];
+}
+
+/**
+ * Vencimiento de la cotización. Devuelve null si su estado ya no vence o si la fecha no es válida.
+ * El último día de vigencia cuenta como "por vencer" con 0 días restantes.
+ */
+export function computeQuoteExpiry(
+  quote: Pick<Quote, "quoteDate" | "validityDays" | "status">,
+  today = todayIso(),
+  warningDays = DEFAULT_EXPIRY_WARNING_DAYS,
+): QuoteExpiry | null {
+  if (!EXPIRY_TRACKED_QUOTE_STATUSES.includes(quote.status as QuoteStatus)) return null;
+  const expiresAt = quoteExpiryDate(quote.quoteDate, quote.validityDays);
+  const todayNumber = toDayNumber(today);
+  if (!expiresAt || todayNumber === null) return null;
+
+  const daysRemaining = toDayNumber(expiresAt)! - todayNumber;
+  return {
+    expiresAt,
+    daysRemaining,
+    expiryStatus: daysRemaining < 0 ? "vencida" : daysRemaining <= warningDays ? "por_vencer" : "vigente",
+  };
+}
+
+export function parseQuoteExpiryQuery(query: any): { filter?: QuoteExpiryFilter; days: number; error?: string } {
+  const rawDays = query.days ?? query.expiryDays;
+  const days = rawDays === undefined || rawDays === "" ? DEFAULT_EXPIRY_WARNING_DAYS : Number(rawDays);
+  if (!Number.isInteger(days) || days < 0 || days > MAX_WARNING_DAYS) {
+    return { days: DEFAULT_EXPIRY_WARNING_DAYS, error: `Los días deben ser un entero entre 0 y ${MAX_WARNING_DAYS}` };
+  }
+
+  const filter = (query.expiry ?? "").toString().trim();
+  if (!filter) return { days };
+  if (!(QUOTE_EXPIRY_FILTERS as readonly string[]).includes(filter)) {
+    return { days, error: "El filtro de vigencia debe ser por_vencer o vencidas" };
+  }
+  return { filter: filter as QuoteExpiryFilter, days };
+}
+
+// Renovar solo cambia la fecha (y opcionalmente los días); precios y tipo de cambio se conservan
+export function parseQuoteRenewal(quote: Quote, body: any, today = todayIso()): { data?: { quoteDate: string; validityDays: number }; error?: string } {
+  const rawDays = body?.validityDays;
+  const validityDays = rawDays === undefined || rawDays === null || rawDays === "" ? quote.validityDays : Number(rawDays);
+  if (!Number.isInteger(validityDays) || validityDays <= 0 || validityDays > MAX_VALIDITY_DAYS) {
+    return { error: `La vigencia debe ser un número entero de días entre 1 y ${MAX_VALIDITY_DAYS}` };
+  }
+  if (quote.quoteDate === today && quote.validityDays === validityDays) {
+    return { error: "La cotización ya tiene la fecha de hoy y la misma vigencia" };
+  }
+  return { data: { quoteDate: today, validityDays } };
+}
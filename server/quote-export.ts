@@ -0,0 +1,298 @@
+import ExcelJS from "exceljs";
+import { QUOTE_STATUS_LABELS, isQuoteStatus, normalizeCompanyCode, type Quote, type QuoteItem } from "@shared/schema";
+import { convertCurrency, fromCents, parseQuoteCurrency, quoteItemsInCaptureOrder, quoteTotalsFromDb } from "./quotes";
+import { quoteCostContext, unitCostInQuoteCurrency } from "./quote-margins";
+
+// ==========================================
+// EXPORTACIÓN DE COTIZACIONES A EXCEL
+// ==========================================
+
+const MONEY_FORMAT = '"$"#,##0.00';
+const USD_FORMAT = '"US$"#,##0.00';
+const PERCENT_FORMAT = "0.00%";
+const HEADER_FILL: ExcelJS.Fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FF1E3A8A" } };
+
+export interface QuoteExportFilters {
+  from?: string;
+  to?: string;
+  companyOrigin?: string;
+}
+
+// Costeo interno de una partida: el costo se captura por unidad y el importe ya viene en centavos.
+// El costo se convierte a la moneda de la cotización con el tipo de cambio guardado.
+export function costItem(item: QuoteItem, quote: Quote) {
+  const quantity = Number(item.quantity || 0);
+  const unitPrice = fromCents(Number(item.unitPrice) || 0);
+  const amount = fromCents(Number(item.amount) || 0);
+  const unitCost = unitCostInQuoteCurrency(Number(item.purchaseCost || 0), quoteCostContext(quote));
+  const totalCost = Number((unitCost * quantity).toFixed(2));
+  const utility = Number((amount - totalCost).toFixed(2));
+  return {
+    quantity,
+    unitPrice,
+    amount,
+    unitCost,
+    totalCost,
+    profitFactor: Number(item.profitFactor || 1),
+    profitMargin: Number(item.profitMargin || 0),
+    utility,
+    marginRatio: amount > 0 ? utility / amount : 0,
+  };
+}
+
+const statusLabel = (status: string) => isQuoteStatus(status) ? QUOTE_STATUS_LABELS[status] : status;
+
+function addSheet(workbook: ExcelJS.Workbook, name: string, columns: Array<{ header: string; key: string; width: number; numFmt?: string }>) {
+  const sheet = workbook.addWorksheet(name, { views: [{ state: "frozen", ySplit: 1 }] });
+  sheet.columns = columns.map(({ header, key, width }) => ({ header, key, width }));
+  columns.forEach((column, i) => {
+    if (column.numFmt) sheet.getColumn(i + 1).numFmt = column.numFmt;
+  });
+  const header = sheet.getRow(1);
+  header.font = { bold: true, color: { argb: "FFFFFFFF" } };
+  header.fill = HEADER_FILL;
+  header.alignment = { vertical: "middle", wrapText: true };
+  return sheet;
+}
+
+// Fila de totales con fórmulas para que el archivo siga cuadrando si alguien lo edita
+function addTotalsRow(sheet: ExcelJS.Worksheet, label: string, labelKey: string, sumKeys: string[], values: Record<string, number>) {
+  const firstDataRow = 2;
+  const lastDataRow = sheet.rowCount;
+  const row = sheet.addRow({ [labelKey]: label });
+  for (const key of sumKeys) {
+    const letter = sheet.getColumn(key).letter;
+    row.getCell(key).value = lastDataRow >= firstDataRow
+      ? { formula: `SUM(${letter}${firstDataRow}:${letter}${lastDataRow})`, result: values[key] ?? 0 }
+      : 0;
+  }
+  row.font = { bold: true };
+  return row;
+}
+
+const sum = (values: number[]) => Number(values.reduce((acc, value) => acc + value, 0).toFixed(2));
+
+export async function buildQuoteWorkbook(quote: Quote, items: QuoteItem[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const costed = quoteItemsInCaptureOrder(items).map(item => ({ item, cost: costItem(item, quote) }));
+  const money = parseQuoteCurrency(quote.currency) === "USD" ? USD_FORMAT : MONEY_FORMAT;
+
+  const partidas = addSheet(workbook, "Partidas", [
+    { header: "No. Partida", key: "noPartida", width: 12 },
+    { header: "Descripción", key: "description", width: 48 },
+    { header: "Requisitos técnicos", key: "techRequirements", width: 40 },
+    { header: "Cantidad", key: "quantity", width: 12 },
+    { header: "Unidad", key: "unitMeasure", width: 12 },
+    { header: "Precio unitario", key: "unitPrice", width: 16, numFmt: money },
+    { header: "Importe", key: "amount", width: 18, numFmt: money },
+    { header: "Exenta de IVA", key: "taxExempt", width: 10 },
+  ]);
+  for (const { item, cost } of costed) {
+    partidas.addRow({
+      noPartida: item.noPartida,
+      description: item.description,
+      techRequirements: item.techRequirements,
+      quantity: cost.quantity,
+      unitMeasure: item.unitMeasure || item.unit,
+      unitPrice: cost.unitPrice,
+      amount: cost.amount,
+      taxExempt: item.taxExempt ? "Sí" : "",
+    });
+  }
+  addTotalsRow(partidas, "Subtotal", "description", ["amount"], { amount: sum(costed.map(c => c.cost.amount)) });
+
+  // Los impuestos salen del mismo cálculo que el PDF
+  const taxes = quoteTotalsFromDb(quote, items);
+  const taxRows: Array<[string, number]> = [[taxes.ivaLabel, taxes.iva]];
+  if (taxes.ivaRetention > 0) taxRows.push([`Retención IVA (${taxes.ivaRetentionRate}%)`, -taxes.ivaRetention]);
+  if (taxes.isrRetention > 0) taxRows.push([`Retención ISR (${taxes.isrRetentionRate}%)`, -taxes.isrRetention]);
+  taxRows.push(["Total", taxes.total]);
+  for (const [label, value] of taxRows) {
+    partidas.addRow({ description: label, amount: value }).font = { bold: true };
+  }
+
+  const costeo = addSheet(workbook, "Costeo interno", [
+    { header: "No. Partida", key: "noPartida", width: 12 },
+    { header: "Descripción", key: "description", width: 40 },
+    { header: "Proveedor", key: "supplier", width: 24 },
+    { header: "Cantidad", key: "quantity", width: 12 },
+    { header: "Costo unitario", key: "unitCost", width: 16, numFmt: money },
+    { header: "Costo total", key: "totalCost", width: 18, numFmt: money },
+    { header: "Factor", key: "profitFactor", width: 10, numFmt: "0.00" },
+    { header: "Margen capturado %", key: "profitMargin", width: 14, numFmt: "0.00" },
+    { header: "Precio unitario", key: "unitPrice", width: 16, numFmt: money },
+    { header: "Importe", key: "amount", width: 18, numFmt: money },
+    { header: "Utilidad", key: "utility", width: 18, numFmt: money },
+    { header: "Margen real", key: "marginRatio", width: 12, numFmt: PERCENT_FORMAT },
+  ]);
+  for (const { item, cost } of costed) {
+    costeo.addRow({
+      noPartida: item.noPartida,
+      description: item.description,
+      supplier: item.supplier || "",
+      quantity: cost.quantity,
+      unitCost: cost.unitCost,
+      totalCost: cost.totalCost,
+      profitFactor: cost.profitFactor,
+      profitMargin: cost.profitMargin,
+      unitPrice: cost.unitPrice,
+      amount: cost.amount,
+      utility: cost.utility,
+      marginRatio: cost.marginRatio,
+    });
+  }
+  const totals = {
+    totalCost: sum(costed.map(c => c.cost.totalCost)),
+    amount: sum(costed.map(c => c.cost.amount)),
+    utility: sum(costed.map(c => c.cost.utility)),
+  };
+  const totalsRow = addTotalsRow(costeo, "Totales", "description", ["totalCost", "amount", "utility"], totals);
+  const amountCell = `${costeo.getColumn("amount").letter}${totalsRow.number}`;
+  const utilityCell = `${costeo.getColumn("utility").letter}${totalsRow.number}`;
+  totalsRow.getCell("marginRatio").value = {
+    formula: `IF(${amountCell}=0,0,${utilityCell}/${amountCell})`,
+    result: totals.amount > 0 ? totals.utility / totals.amount : 0,
+  };
+
+  const resumen = workbook.addWorksheet("Datos");
+  resumen.columns = [{ key: "field", width: 24 }, { key: "value", width: 48 }];
+  [
+    ["Folio", quote.internalFolio],
+    ["Empresa emisora", quote.companyOrigin],
+    ["Tipo", quote.proposalType],
+    ["Estado", statusLabel(quote.status)],
+    ["Fecha", quote.quoteDate],
+    ["Moneda", parseQuoteCurrency(quote.currency)],
+    ["Tipo de cambio", quote.exchangeRate ? `${quote.exchangeRate} (${quote.exchangeRateDate})` : ""],
+    ["Empresa destino", quote.destinationCompany],
+    ["Requisición", quote.requisitionNumber],
+    ["Proyecto", quote.projectTitle],
+  ].forEach(([field, value]) => resumen.addRow({ field, value }).getCell("field").font = { bold: true });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// Filtra por fecha de la cotización (YYYY-MM-DD) y empresa emisora
+export function filterQuotesForExport(quotes: Quote[], filters: QuoteExportFilters): Quote[] {
+  const company = filters.companyOrigin ? normalizeCompanyCode(filters.companyOrigin) : "";
+  return quotes.filter(quote => {
+    const date = (quote.quoteDate || "").slice(0, 10);
+    if (filters.from && date < filters.from) return false;
+    if (filters.to && date > filters.to) return false;
+    if (company && normalizeCompanyCode(quote.companyOrigin) !== company) return false;
+    return true;
+  });
+}
+
+export async function buildQuotesReportWorkbook(quotes: Quote[], itemsByQuote: Map<number, QuoteItem[]>): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const resumen = addSheet(workbook, "Cotizaciones", [
+    { header: "Folio", key: "folio", width: 22 },
+    { header: "Fecha", key: "quoteDate", width: 12 },
+    { header: "Empresa emisora", key: "companyOrigin", width: 14 },
+    { header: "Tipo", key: "proposalType", width: 12 },
+    { header: "Estado", key: "status", width: 14 },
+    { header: "Empresa destino", key: "destinationCompany", width: 32 },
+    { header: "Requisición", key: "requisitionNumber", width: 18 },
+    { header: "Moneda", key: "currency", width: 10 },
+    { header: "Tipo de cambio", key: "exchangeRate", width: 14, numFmt: "0.0000" },
+    { header: "Partidas", key: "itemCount", width: 10 },
+    { header: "Importe (MXN)", key: "amount", width: 18, numFmt: MONEY_FORMAT },
+    { header: "Costo (MXN)", key: "totalCost", width: 18, numFmt: MONEY_FORMAT },
+    { header: "Utilidad (MXN)", key: "utility", width: 18, numFmt: MONEY_FORMAT },
+    { header: "Margen", key: "marginRatio", width: 12, numFmt: PERCENT_FORMAT },
+    { header: "Total con impuestos (MXN)", key: "totalWithTaxes", width: 20, numFmt: MONEY_FORMAT },
+  ]);
+
+  const detalle = addSheet(workbook, "Partidas", [
+    { header: "Folio", key: "folio", width: 22 },
+    { header: "Empresa emisora", key: "companyOrigin", width: 14 },
+    { header: "No. Partida", key: "noPartida", width: 12 },
+    { header: "Descripción", key: "description", width: 40 },
+    { header: "Proveedor", key: "supplier", width: 24 },
+    { header: "Cantidad", key: "quantity", width: 12 },
+    { header: "Costo unitario (MXN)", key: "unitCost", width: 16, numFmt: MONEY_FORMAT },
+    { header: "Factor", key: "profitFactor", width: 10, numFmt: "0.00" },
+    { header: "Precio unitario (MXN)", key: "unitPrice", width: 16, numFmt: MONEY_FORMAT },
+    { header: "Importe (MXN)", key: "amount", width: 18, numFmt: MONEY_FORMAT },
+    { header: "Costo total (MXN)", key: "totalCost", width: 18, numFmt: MONEY_FORMAT },
+    { header: "Utilidad (MXN)", key: "utility", width: 18, numFmt: MONEY_FORMAT },
+  ]);
+
+  const totals = { amount: 0, totalCost: 0, utility: 0, totalWithTaxes: 0 };
+  for (const quote of quotes) {
+    const quoteItems = quoteItemsInCaptureOrder(itemsByQuote.get(quote.id) ?? []);
+    // El reporte consolida en pesos para poder sumar cotizaciones en distintas monedas
+    const currency = parseQuoteCurrency(quote.currency);
+    const toMxn = (value: number) => Number(convertCurrency(value, currency, "MXN", Number(quote.exchangeRate)).toFixed(2));
+    const costed = quoteItems.map(item => {
+      const cost = costItem(item, quote);
+      return {
+        item,
+        cost: {
+          ...cost,
+          unitCost: toMxn(cost.unitCost),
+          unitPrice: toMxn(cost.unitPrice),
+          amount: toMxn(cost.amount),
+          totalCost: toMxn(cost.totalCost),
+          utility: toMxn(cost.utility),
+        },
+      };
+    });
+    const totalWithTaxes = toMxn(quoteTotalsFromDb(quote, quoteItems).total);
+    const amount = sum(costed.map(c => c.cost.amount));
+    const totalCost = sum(costed.map(c => c.cost.totalCost));
+    const utility = Number((amount - totalCost).toFixed(2));
+    totals.amount += amount;
+    totals.totalCost += totalCost;
+    totals.utility += utility;
+    totals.totalWithTaxes += totalWithTaxes;
+
+    resumen.addRow({
+      folio: quote.internalFolio,
+      quoteDate: quote.quoteDate,
+      companyOrigin: quote.companyOrigin,
+      proposalType: quote.proposalType,
+      status: statusLabel(quote.status),
+      destinationCompany: quote.destinationCompany,
+      requisitionNumber: quote.requisitionNumber,
+      currency,
+      exchangeRate: currency === "USD" ? Number(quote.exchangeRate) || null : null,
+      itemCount: costed.length,
+      amount,
+      totalCost,
+      utility,
+      marginRatio: amount > 0 ? utility / amount : 0,
+      totalWithTaxes,
+    });
+
+    for (const { item, cost } of costed) {
+      detalle.addRow({
+        folio: quote.internalFolio,
+        companyOrigin: quote.companyOrigin,
+        noPartida: item.noPartida,
+        description: item.description,
+        supplier: item.supplier || "",
+        quantity: cost.quantity,
+        unitCost: cost.unitCost,
+        profitFactor: cost.profitFactor,
+        unitPrice: cost.unitPrice,
+        amount: cost.amount,
+        totalCost: cost.totalCost,
+        utility: cost.utility,
+      });
+    }
+  }
+
+  addTotalsRow(resumen, "Totales", "folio", ["amount", "totalCost", "utility", "totalWithTaxes"], totals);
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+export function buildExportFileName(prefix: string, suffix = "") {
+  const stamp = new Date().toISOString().split("T")[0];
+  return `${prefix}${suffix ? `_${suffix}` : ""}_${stamp}.xlsx`.replace(/[^a-zA-Z0-9_\-.]/g, "");
+}
@@ -0,0 +1,141 @@
+import type { z } from "zod";
+import type { InsertQuote } from "@shared/schema";
+import {
+  quoteFieldErrorMessages,
+  quoteFieldErrors,
+  quoteInputSchema,
+  quotePatchInputSchema,
+  type QuoteFieldErrors,
+  type QuoteInput,
+  type QuotePatchInput,
+} from "@shared/quote-input";
+
+// ==========================================
+// PAYLOAD DE COTIZACIONES: ALIAS Y COLUMNAS
+// ==========================================
+
+// Nombres en español que siguen mandando las integraciones anteriores al formulario actual
+const QUOTE_INPUT_ALIASES: Record<string, string[]> = {
+  internalFolio: ["folio"],
+  destinationCompany: ["empresaDestino"],
+  requisitionNumber: ["requisicion"],
+  projectTitle: ["proyecto"],
+  quoteDate: ["fecha"],
+  commercialTerms: ["condiciones"],
+  validityDays: ["diasValidez"],
+  paymentDays: ["diasPago"],
+  deliveryTime: ["tiempoEntrega"],
+  manufacturingTime: ["tiempoFabricacion"],
+  guaranteeMonths: ["garantiaMeses"],
+  compliancePercentage: ["porcentajeCumplimiento"],
+  deliveryPlace: ["lugarEntrega"],
+  contactPerson: ["contacto", "personaContacto", "attnNombre", "nombre"],
+  providerId: ["proveedorId"],
+  lineItems: ["partidas"],
+};
+
+const LINE_ITEM_ALIASES: Record<string, string[]> = {
+  description: ["descripcion"],
+  quantity: ["cantidad"],
+  unit: ["unidad"],
+  unitMeasure: ["medidaUnidad"],
+  techRequirements: ["requisitosTecnicos"],
+  versionReference: ["referenciaVersion"],
+  unitPrice: ["precio"],
+};
+
+// Listas del formulario que se guardan serializadas en columnas *_json
+const QUOTE_JSON_COLUMNS = {
+  deliveryLocations: "deliveryLocationsJson",
+  partidaDescriptionItems: "partidaDescriptionItemsJson",
+  qualityGuarantees: "qualityGuaranteesJson",
+  selectedSocialObjects: "selectedSocialObjectsJson",
+  deliveryDates: "deliveryDatesJson",
+  deliveryConditions: "deliveryConditionsJson",
+  selectedDeliveryClauses: "selectedDeliveryClausesJson",
+  requiredDocuments: "requiredDocumentsJson",
+  normsTable: "normsTableJson",
+  serviceNormsTable: "serviceNormsTableJson",
+} as const satisfies Partial<Record<keyof QuoteInput, keyof InsertQuote>>;
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === "";
+
+function withAliases(body: any, aliases: Record<string, string[]>): any {
+  if (!body || typeof body !== "object") return body;
+  const input = { ...body };
+  for (const [field, names] of Object.entries(aliases)) {
+    if (!isBlank(input[field])) continue;
+    const alias = names.find(name => !isBlank(body[name]));
+    if (alias) input[field] = body[alias];
+  }
+  return input;
+}
+
+function parseWith<T extends z.ZodTypeAny>(schema: T, body: any): {
+  data?: z.infer<T>;
+  error?: string;
+  fieldErrors?: QuoteFieldErrors;
+} {
+  const input = withAliases(body ?? {}, QUOTE_INPUT_ALIASES);
+  if (Array.isArray(input.lineItems)) {
+    input.lineItems = input.lineItems.map((item: any) => withAliases(item, LINE_ITEM_ALIASES));
+  }
+  const parsed = schema.safeParse(input);
+  if (parsed.success) return { data: parsed.data };
+  const fieldErrors = quoteFieldErrors(parsed.error);
+  return { error: quoteFieldErrorMessages(fieldErrors).join(". "), fieldErrors };
+}
+
+export function parseQuoteInput(body: any) {
+  return parseWith(quoteInputSchema, body);
+}
+
+// En la edición los campos ausentes conservan el valor guardado
+export function parseQuotePatchInput(body: any) {
+  return parseWith(quotePatchInputSchema, body);
+}
+
+/**
+ * Columnas de la cotización para los campos presentes en el payload validado. Las partidas
+ * no se incluyen: se valúan y se guardan aparte.
+ */
+export function quoteInputColumns(input: QuotePatchInput): Partial<InsertQuote> {
+  const { lineItems, compliancePercentage, warrantyPercentage, empresaId, ...fields } = input;
+  const columns: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    const jsonColumn = QUOTE_JSON_COLUMNS[field as keyof typeof QUOTE_JSON_COLUMNS];
+    columns[jsonColumn ?? field] = jsonColumn ? JSON.stringify(value) : value;
+  }
+  if (compliancePercentage !== undefined) columns.compliancePercentage = compliancePercentage.toFixed(2);
+  if (warrantyPercentage !== undefined) columns.warrantyPercentage = warrantyPercentage.toFixed(2);
+  if (empresaId != null) columns.empresaId = empresaId;
+
+  return columns as Partial<InsertQuote>;
+}
+
+// Listas guardadas como JSON; un valor que no se pueda leer se toma como lista vacía
+function parseJsonList(value: unknown): unknown[] {
+  try {
+    const parsed = JSON.parse((value ?? "[]").toString());
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Inverso de quoteInputColumns: payload de edición con los campos de una cotización guardada.
+ * Las columnas nulas se omiten para que el PATCH conserve el valor actual.
+ */
+export function quoteInputFromColumns(quote: Record<string, any>): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+  for (const field of Object.keys(quotePatchInputSchema.shape)) {
+    if (field === "lineItems") continue;
+    const jsonColumn = QUOTE_JSON_COLUMNS[field as keyof typeof QUOTE_JSON_COLUMNS];
+    const value = jsonColumn ? parseJsonList(quote[jsonColumn]) : quote[field];
+    if (value !== undefined && value !== null) input[field] = value;
+  }
+  return input;
+}
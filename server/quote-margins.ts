@@ -0,0 +1,205 @@
+import {
+  isMarginEnforcement,
+  normalizeCompanyCode,
+  type MarginRule,
+  type QuoteCurrency,
+  type QuoteMarginSummary,
+  type QuoteMarginWarning,
+} from "@shared/schema";
+import { convertCurrency, normalizeMoney, parseQuoteCurrency, toCents, type NormalizedQuoteLineItem } from "./quotes";
+import { storage } from "./storage";
+
+// ==========================================
+// MÁRGENES Y PRECIO DESDE EL COSTO
+// ==========================================
+
+const PROPOSAL_CATEGORIES = ["bienes", "servicios"];
+
+// Moneda de la cotización y de los costos; acepta el cuerpo de una petición o una fila de quotes
+export interface QuoteCostContext {
+  currency: QuoteCurrency;
+  costCurrency: QuoteCurrency;
+  exchangeRate: number | null;
+}
+
+export function quoteCostContext(source: any): QuoteCostContext {
+  const rate = Number(source?.exchangeRate);
+  return {
+    currency: parseQuoteCurrency(source?.currency),
+    costCurrency: parseQuoteCurrency(source?.costCurrency),
+    exchangeRate: Number.isFinite(rate) && rate > 0 ? rate : null,
+  };
+}
+
+// Costo unitario capturado, convertido a la moneda de la cotización
+export function unitCostInQuoteCurrency(purchaseCost: number, context: QuoteCostContext): number {
+  return normalizeMoney(convertCurrency(Number(purchaseCost) || 0, context.costCurrency, context.currency, context.exchangeRate));
+}
+
+// El factor manda; el margen capturado (sobre el costo) solo se usa si el factor no se indicó
+function resolveFactor(item: Pick<NormalizedQuoteLineItem, "profitFactor" | "profitMargin">): number {
+  const factor = Number(item.profitFactor);
+  if (Number.isFinite(factor) && factor > 0 && factor !== 1) return factor;
+  const margin = Number(item.profitMargin);
+  if (Number.isFinite(margin) && margin !== 0) return 1 + margin / 100;
+  return 1;
+}
+
+/**
+ * Precio de venta calculado en el servidor: costo × factor. Las partidas sin costo conservan
+ * el precio capturado porque no hay con qué calcularlo.
+ */
+export function priceQuoteItems(items: NormalizedQuoteLineItem[], context: QuoteCostContext): NormalizedQuoteLineItem[] {
+  return items.map(item => {
+    if (!(item.purchaseCost > 0)) return item;
+    const factor = resolveFactor(item);
+    const unitPriceCents = toCents(unitCostInQuoteCurrency(item.purchaseCost, context) * factor);
+    return {
+      ...item,
+      unitPriceCents,
+      amountCents: Math.round(item.quantity * unitPriceCents),
+      profitFactor: Math.round(factor * 10000) / 10000,
+      profitMargin: normalizeMoney((factor - 1) * 100),
+    };
+  });
+}
+
+interface MarginLine {
+  description: string;
+  quantity: number;
+  amountCents: number;
+  purchaseCost: number;
+}
+
+// Partidas tal como están en la base de datos (importe en centavos, costo como texto)
+export function marginLinesFromDb(rawItems: any[]): MarginLine[] {
+  return rawItems.map(item => ({
+    description: item.description,
+    quantity: Number(item.quantity) || 0,
+    amountCents: Number(item.amount) || 0,
+    purchaseCost: Number(item.purchaseCost || 0),
+  }));
+}
+
+const marginPercent = (saleCents: number, costCents: number) =>
+  saleCents > 0 ? normalizeMoney(((saleCents - costCents) / saleCents) * 100) : -100;
+
+export function summarizeQuoteMargins(lines: MarginLine[], context: QuoteCostContext): QuoteMarginSummary {
+  let totalSaleCents = 0;
+  let costedSaleCents = 0;
+  let totalCostCents = 0;
+  let itemsWithoutCost = 0;
+
+  for (const line of lines) {
+    totalSaleCents += line.amountCents;
+    if (!(line.purchaseCost > 0)) {
+      itemsWithoutCost++;
+      continue;
+    }
+    costedSaleCents += line.amountCents;
+    totalCostCents += Math.round(line.quantity * toCents(unitCostInQuoteCurrency(line.purchaseCost, context)));
+  }
+
+  return {
+    totalSale: totalSaleCents / 100,
+    totalCost: totalCostCents / 100,
+    totalUtility: (costedSaleCents - totalCostCents) / 100,
+    weightedMarginPercent: costedSaleCents > 0 || totalCostCents > 0 ? marginPercent(costedSaleCents, totalCostCents) : null,
+    itemsWithoutCost,
+  };
+}
+
+// Sin regla configurada solo se advierte de las partidas vendidas por debajo del costo
+export function checkQuoteMargins(lines: MarginLine[], context: QuoteCostContext, rule?: MarginRule): QuoteMarginWarning[] {
+  const minMarginPercent = rule ? Number(rule.minMarginPercent) || 0 : 0;
+  const warnings: QuoteMarginWarning[] = [];
+
+  lines.forEach((line, index) => {
+    if (!(line.purchaseCost > 0)) return;
+    const costCents = Math.round(line.quantity * toCents(unitCostInQuoteCurrency(line.purchaseCost, context)));
+    const percent = marginPercent(line.amountCents, costCents);
+    if (percent < minMarginPercent) {
+      warnings.push({
+        partida: index + 1,
+        description: line.description,
+        marginPercent: percent,
+        minMarginPercent,
+        belowCost: line.amountCents < costCents,
+      });
+    }
+  });
+  return warnings;
+}
+
+export function parseMarginRuleInput(body: any): { data?: { companyOrigin: string; category: string; minMarginPercent: string; enforcement: string }; error?: string } {
+  const category = (body.category ?? "").toString().trim().toLowerCase();
+  if (category && !PROPOSAL_CATEGORIES.includes(category)) {
+    return { error: "El tipo de propuesta debe ser bienes, servicios o vacío para todos" };
+  }
+  const minMarginPercent = Number(body.minMarginPercent);
+  if (!Number.isFinite(minMarginPercent) || minMarginPercent < -100 || minMarginPercent >= 100) {
+    return { error: "El margen mínimo debe ser un porcentaje menor a 100" };
+  }
+  const enforcement = body.enforcement ?? "advertir";
+  if (!isMarginEnforcement(enforcement)) return { error: "La regla debe advertir o bloquear" };
+
+  return {
+    data: {
+      companyOrigin: normalizeCompanyCode(body.companyOrigin ?? ""),
+      category,
+      minMarginPercent: minMarginPercent.toFixed(2),
+      enforcement,
+    },
+  };
+}
+
+// Empresa y tipo > empresa > tipo > regla general
+export async function resolveMarginRule(companyOrigin: unknown, proposalType: unknown): Promise<MarginRule | undefined> {
+  const company = normalizeCompanyCode(companyOrigin);
+  const category = (proposalType ?? "").toString().trim().toLowerCase();
+  const rules = await storage.getMarginRules();
+  const candidates: Array<[string, string]> = [[company, category], [company, ""], ["", category], ["", ""]];
+  for (const [ruleCompany, ruleCategory] of candidates) {
+    const rule = rules.find(r => r.companyOrigin === ruleCompany && r.category === ruleCategory);
+    if (rule) return rule;
+  }
+  return undefined;
+}
+
+export interface QuotePricingResult {
+  items: NormalizedQuoteLineItem[];
+  margins: QuoteMarginSummary;
+  marginWarnings: QuoteMarginWarning[];
+  // Motivo del bloqueo cuando la regla no permite guardar
+  blockingError: string | null;
+}
+
+const describeWarnings = (warnings: QuoteMarginWarning[]) => warnings
+  .map(w => `partida ${w.partida} (${w.marginPercent.toFixed(2)}%${w.belowCost ? ", debajo del costo" : ""})`)
+  .join(", ");
+
+/**
+ * Calcula precios y márgenes de las partidas de una cotización. Si la regla aplicable bloquea y
+ * alguna partida queda debajo del mínimo se devuelve `blockingError`, salvo que `allowLowMargin`
+ * lo autorice.
+ */
+export async function applyQuotePricing(
+  items: NormalizedQuoteLineItem[],
+  quote: { companyOrigin: unknown; proposalType: unknown; currency?: unknown; costCurrency?: unknown; exchangeRate?: unknown },
+  allowLowMargin = false,
+): Promise<QuotePricingResult> {
+  const context = quoteCostContext(quote);
+  const priced = priceQuoteItems(items, context);
+  const rule = await resolveMarginRule(quote.companyOrigin, quote.proposalType);
+  const marginWarnings = checkQuoteMargins(priced, context, rule);
+  const blocked = rule?.enforcement === "bloquear" && marginWarnings.length > 0 && !allowLowMargin;
+
+  return {
+    items: priced,
+    margins: summarizeQuoteMargins(priced, context),
+    marginWarnings,
+    blockingError: blocked
+      ? `Margen menor al mínimo de ${Number(rule!.minMarginPercent).toFixed(2)}% en ${describeWarnings(marginWarnings)}`
+      : null,
+  };
+}
@@ -0,0 +1,129 @@
+import { storage } from "./storage";
+import { getTemplateForProvider } from "./templates/manager";
+import { convertQuoteItemsFromDb, quoteTotalsFromDb } from "./quotes";
+import { findCompanyForQuote, buildCompanyPdfOptions } from "./companies";
+import { resolveDeliveryClauseTexts } from "./clause-library";
+import { renderPdf, PdfRenderError } from "./pdf-renderer";
+import { PDF_ENABLED_QUOTE_STATUSES, type Quote, type QuoteStatus } from "@shared/schema";
+
+// ==========================================
+// PDF DE COTIZACIONES
+// ==========================================
+
+// HTML de la plantilla de la empresa emisora; lo usan el PDF y la vista previa
+export async function renderQuoteHtml(quote: any, provider: any, lineItems: any[]) {
+  const safeParse = (val: string | null | undefined): any[] => {
+    try { return JSON.parse(val || "[]"); } catch { return []; }
+  };
+
+  const enrichedQuote = {
+    ...quote,
+    folio: quote.internalFolio,
+    destinationCompany: quote.destinationCompany,
+    totalText: quote.totalText,
+    qualityGuarantees: quote.qualityGuarantees || safeParse(quote.qualityGuaranteesJson),
+    selectedSocialObjects: quote.selectedSocialObjects || safeParse(quote.selectedSocialObjectsJson),
+    deliveryLocations: quote.deliveryLocations || safeParse(quote.deliveryLocationsJson),
+    deliveryConditions: quote.deliveryConditions || safeParse(quote.deliveryConditionsJson),
+
+    selectedDeliveryClauses: quote.selectedDeliveryClauses || safeParse(quote.selectedDeliveryClausesJson),
+    deliveryDates: quote.deliveryDates || safeParse(quote.deliveryDatesJson),
+    deliveryLocation: quote.deliveryLocation || safeParse(quote.deliveryLocationJson), 
+    deliveryClauseTexts: await resolveDeliveryClauseTexts(quote),
+  };
+
+  // Membrete, márgenes y plantilla salen del registro de empresas
+  const company = await findCompanyForQuote(quote);
+  const html = getTemplateForProvider(provider, enrichedQuote, lineItems, company?.templateKey);
+  return { html, company };
+}
+
+//  FUNCIÓN MAESTRA: INYECCIÓN DE IMÁGENES AL BORDE DE LA HOJA
+export async function generateQuotePdfBuffer(quote: any, provider: any, lineItems: any[]) {
+  const { html, company } = await renderQuoteHtml(quote, provider, lineItems);
+
+  const pdfOptions: any = {
+    format: 'A4',
+    printBackground: true,
+    preferCSSPageSize: false,
+    ...buildCompanyPdfOptions(company)
+  };
+
+  // El navegador es compartido; la cola limita cuántas páginas se renderizan a la vez
+  return renderPdf(html, pdfOptions);
+}
+
+function sanitizeFileName(value: string) {
+  return value
+    .replace(/\s+/g, '_')
+    .replace(/[^a-zA-Z0-9_\-.]/g, '')
+    .replace(/_+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+export function buildQuotePdfFileName(quote: any) {
+  const folio = quote.internalFolio || `Q${quote.id}`;
+  const cliente = quote.destinationCompany || quote.projectTitle || 'PropuestaEconomica';
+  const fecha = quote.quoteDate ? new Date(quote.quoteDate).toISOString().split('T')[0] : '';
+
+  const tipo = quote.proposalType ? `${quote.proposalType.toUpperCase()}-` : ''; 
+  
+  const safeCliente = sanitizeFileName(cliente);
+  const safeFolio = sanitizeFileName(folio);
+  const safeFecha = sanitizeFileName(fecha);
+  
+  const filename = `COT-${tipo}${safeFolio}_${safeCliente}${safeFecha ? `_${safeFecha}` : ''}.pdf`;
+  return filename.replace(/__+/g, '_');
+}
+
+export async function getPdfReadyQuote(quoteId: number) {
+  const quote = await storage.getQuoteById(quoteId);
+  if (!quote) throw new PdfRenderError("Cotización no encontrada", 404);
+
+  if (!PDF_ENABLED_QUOTE_STATUSES.includes(quote.status as QuoteStatus)) {
+    throw new PdfRenderError("La cotización debe estar aprobada antes de generar el PDF final", 409);
+  }
+  return quote;
+}
+
+type TemplateQuoteColumns = Pick<Quote,
+  "internalFolio" | "destinationCompany" | "qualityGuaranteesJson" | "selectedSocialObjectsJson"
+  | "deliveryLocationsJson" | "partidaDescriptionItemsJson" | "selectedDeliveryClausesJson">;
+
+// Campos que las plantillas esperan ya interpretados, además de las columnas de la cotización
+export function withTemplateFields<T extends Partial<TemplateQuoteColumns>>(quote: T, totalText: string) {
+  const safeParse = (val: string | null | undefined): any[] => {
+    try { return JSON.parse(val || "[]"); } catch { return []; }
+  };
+
+  return {
+    ...quote,
+    folio: quote.internalFolio,
+    destinationCompany: quote.destinationCompany,
+    totalText: totalText,
+    parsedGuarantees: safeParse(quote.qualityGuaranteesJson),
+    parsedObjetos: safeParse(quote.selectedSocialObjectsJson),
+    deliveryLocations: safeParse(quote.deliveryLocationsJson),
+    partidaDescriptionItems: safeParse(quote.partidaDescriptionItemsJson),
+    selectedDeliveryClauses: safeParse(quote.selectedDeliveryClausesJson)
+  };
+}
+
+// Reúne cotización, proveedor y partidas y genera el PDF final; lo usan la descarga directa y los trabajos en segundo plano
+export async function buildQuotePdf(quoteId: number, onProgress?: (progress: number) => Promise<unknown> | void) {
+  const quote = await getPdfReadyQuote(quoteId);
+
+  const provider = quote.providerId ? await storage.getProviderById(Number(quote.providerId)) : undefined;
+  if (!provider) throw new PdfRenderError("Proveedor no encontrado", 404);
+
+  const rawItems = await storage.getQuoteItems(quoteId);
+  const lineItems = convertQuoteItemsFromDb(rawItems);
+
+  const { totalText } = quoteTotalsFromDb(quote, rawItems);
+
+  const quoteWithText = withTemplateFields(quote, totalText);
+
+  await onProgress?.(40);
+  const buffer = await generateQuotePdfBuffer(quoteWithText, provider, lineItems);
+  return { quote, buffer, filename: buildQuotePdfFileName(quoteWithText) };
+}
@@ -0,0 +1,103 @@
+import type { QuotePreviewResponse } from "@shared/schema";
+import type { QuoteFieldErrors } from "@shared/quote-input";
+import { storage } from "./storage";
+import { parseQuotePatchInput, quoteInputColumns } from "./quote-input";
+import { convertQuoteItemsFromDb, quoteTaxColumns, quoteTotalsFromDb, validateQuoteItems } from "./quotes";
+import { priceQuoteItems, quoteCostContext } from "./quote-margins";
+import { resolveQuoteCurrencyColumns } from "./exchange-rates";
+import { freezeQuoteClauseRefs } from "./clause-library";
+import { buildCompanyLetterhead } from "./companies";
+import { renderQuoteHtml, withTemplateFields } from "./quote-pdf";
+import { todayIso } from "./quote-expiry";
+
+// ==========================================
+// VISTA PREVIA DE COTIZACIONES SIN GUARDAR
+// ==========================================
+
+// Hoja A4 a 96 ppp, como la arma Chromium al generar el PDF
+const A4_WIDTH_PX = 794;
+const A4_HEIGHT_PX = 1123;
+const PREVIEW_FOLIO = "POR ASIGNAR";
+
+const isBlankItem = (item: any) => !(item?.description ?? item?.descripcion ?? "").toString().trim();
+
+/**
+ * Coloca el membrete dentro del documento: el encabezado en el margen superior y el pie en el
+ * inferior. En el PDF se repiten en cada hoja; aquí aparecen una vez.
+ */
+function inlineLetterhead(html: string, letterhead: { header: string; footer: string }, marginTop: number, marginBottom: number): string {
+  const style = `<style>
+    html { position: relative; padding: ${marginTop}px 0 ${marginBottom}px 0; }
+    .quote-preview-header, .quote-preview-footer { position: absolute; left: 0; width: 100%; overflow: hidden; }
+    .quote-preview-header { top: 0; height: ${marginTop}px; }
+    .quote-preview-footer { bottom: 0; height: ${marginBottom}px; font-family: 'Arial Narrow', Arial, sans-serif; font-size: 9pt; }
+    .quote-preview-footer .pageNumber::after, .quote-preview-footer .totalPages::after { content: "#"; }
+  </style>`;
+
+  return html
+    .replace(/<\/head>/i, match => `${style}${match}`)
+    .replace(/<body[^>]*>/i, match => `${match}<div class="quote-preview-header">${letterhead.header}</div>`)
+    .replace(/<\/body>/i, match => `<div class="quote-preview-footer">${letterhead.footer}</div>${match}`);
+}
+
+/**
+ * HTML de la plantilla para el payload del formulario, sin guardar nada ni consumir folio.
+ * Acepta datos incompletos: las partidas sin descripción se omiten y el proveedor es opcional.
+ */
+export async function buildQuotePreview(body: any): Promise<{ data?: QuotePreviewResponse; error?: string; fieldErrors?: QuoteFieldErrors }> {
+  const lineItems = Array.isArray(body?.lineItems) ? body.lineItems.filter((item: any) => !isBlankItem(item)) : [];
+  const parsed = parseQuotePatchInput({ ...body, lineItems });
+  if (!parsed.data) return { error: parsed.error, fieldErrors: parsed.fieldErrors };
+
+  const input = parsed.data;
+  const columns = quoteInputColumns(input);
+  const companyOrigin = input.companyOrigin ?? "AZAL";
+  const proposalType = input.proposalType ?? "bienes";
+  const quoteDate = input.quoteDate || todayIso();
+
+  const provider = input.providerId ? await storage.getProviderById(input.providerId) : undefined;
+  const currencyColumns = await resolveQuoteCurrencyColumns(body, quoteDate);
+  const quote = {
+    ...columns,
+    internalFolio: input.internalFolio || PREVIEW_FOLIO,
+    quoteDate,
+    companyOrigin,
+    proposalType,
+    ...quoteTaxColumns(body, proposalType),
+    ...currencyColumns,
+    clauseRefsJson: await freezeQuoteClauseRefs(body?.clauseRefs, columns, companyOrigin),
+  };
+
+  // Partidas con el mismo formato que las guardadas en quote_items (importes en centavos)
+  const inputItems = input.lineItems ?? [];
+  const pricedItems = priceQuoteItems(validateQuoteItems(inputItems).normalizedItems, quoteCostContext(currencyColumns));
+  const rawItems = pricedItems.map((item, index) => ({
+    description: item.description,
+    quantity: item.quantity,
+    unit: item.unit,
+    unitMeasure: item.unitMeasure,
+    techRequirements: item.techRequirements,
+    versionReference: item.versionReference,
+    reqDate: inputItems[index].reqDate,
+    unitPrice: item.unitPriceCents,
+    amount: item.amountCents,
+    supplier: item.supplier,
+    purchaseCost: String(item.purchaseCost || 0),
+    profitMargin: String(item.profitMargin || 0),
+    profitFactor: String(item.profitFactor || 1),
+    noPartida: inputItems[index].noPartida,
+    taxExempt: item.taxExempt,
+  }));
+
+  const { totalText } = quoteTotalsFromDb(quote, rawItems);
+  const { html, company } = await renderQuoteHtml(withTemplateFields(quote, totalText), provider, convertQuoteItemsFromDb(rawItems));
+  const marginTop = company?.marginTop ?? 0;
+  const marginBottom = company?.marginBottom ?? 0;
+
+  return {
+    data: {
+      html: company ? inlineLetterhead(html, buildCompanyLetterhead(company), marginTop, marginBottom) : html,
+      page: { width: A4_WIDTH_PX, height: A4_HEIGHT_PX, marginTop, marginBottom },
+    },
+  };
+}
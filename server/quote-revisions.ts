@@ -0,0 +1,213 @@
+import { getTableColumns } from "drizzle-orm";
+import { quotes, type Quote, type QuoteItem } from "@shared/schema";
+import { fromCents, quoteItemsInCaptureOrder } from "./quotes";
+import { quoteInputFromColumns } from "./quote-input";
+import { parseClauseRefs } from "./clause-library";
+
+// ==========================================
+// REVISIONES INMUTABLES DE COTIZACIONES
+// ==========================================
+
+export interface QuoteRevisionSnapshot {
+  quote: Record<string, any>;
+  items: Array<Record<string, any>>;
+}
+
+export interface QuoteFieldChange {
+  field: string;
+  label: string;
+  before: any;
+  after: any;
+}
+
+export interface QuoteItemChange {
+  key: string;
+  change: "added" | "removed" | "changed";
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  fields: QuoteFieldChange[];
+}
+
+export interface QuoteRevisionDiff {
+  fields: QuoteFieldChange[];
+  items: QuoteItemChange[];
+}
+
+// Campos que no forman parte del contenido de la propuesta; totalCents se deriva de las partidas
+const IGNORED_QUOTE_FIELDS = new Set(["id", "createdAt", "status", "totalCents"]);
+const IGNORED_ITEM_FIELDS = new Set(["id", "quoteId", "createdAt"]);
+const MONEY_ITEM_FIELDS = new Set(["unitPrice", "amount"]);
+
+const QUOTE_FIELD_LABELS: Record<string, string> = {
+  internalFolio: "Folio interno",
+  destinationCompany: "Empresa destino",
+  requisitionNumber: "Requisición",
+  projectTitle: "Proyecto",
+  quoteDate: "Fecha",
+  commercialTerms: "Términos comerciales",
+  validityDays: "Días de vigencia",
+  paymentDays: "Días de pago",
+  deliveryTime: "Tiempo de entrega",
+  manufacturingTime: "Tiempo de fabricación",
+  guaranteeMonths: "Meses de garantía",
+  compliancePercentage: "Porcentaje de cumplimiento",
+  deliveryPlace: "Lugar de entrega",
+  contactPerson: "Persona de contacto",
+  providerId: "Proveedor",
+  bankName: "Banco",
+  bankAccount: "Cuenta bancaria",
+  bankBeneficiary: "Beneficiario",
+  companyOrigin: "Empresa emisora",
+  proposalType: "Tipo de propuesta",
+  paymentTerms: "Condiciones de pago",
+  deliveryNotes: "Notas de entrega",
+  qualityGuaranteesJson: "Garantías de calidad",
+  selectedSocialObjectsJson: "Objetos sociales",
+  deliveryLocationsJson: "Lugares de entrega",
+  deliveryConditionsJson: "Condiciones de entrega",
+  selectedDeliveryClausesJson: "Cláusulas de entrega",
+  requiredDocumentsJson: "Documentos requeridos",
+  normsTableJson: "Tabla de normas",
+  serviceNormsTableJson: "Tabla de normas de servicio",
+  clauseRefsJson: "Cláusulas de la biblioteca",
+  ivaRate: "Tasa de IVA",
+  ivaRetentionRate: "Retención de IVA",
+  isrRetentionRate: "Retención de ISR",
+};
+
+const ITEM_FIELD_LABELS: Record<string, string> = {
+  noPartida: "No. partida",
+  description: "Descripción",
+  quantity: "Cantidad",
+  unit: "Unidad",
+  unitMeasure: "Unidad de medida",
+  techRequirements: "Requisitos técnicos",
+  versionReference: "Versión / referencia",
+  reqDate: "Fecha requerida",
+  unitPrice: "Precio unitario",
+  amount: "Importe",
+  supplier: "Proveedor",
+  purchaseCost: "Costo de compra",
+  profitMargin: "Margen",
+  profitFactor: "Factor",
+  taxExempt: "Exenta de IVA",
+};
+
+export function buildQuoteSnapshot(quote: Quote, items: QuoteItem[]): QuoteRevisionSnapshot {
+  return {
+    quote: { ...quote },
+    items: quoteItemsInCaptureOrder(items).map(item => ({ ...item })),
+  };
+}
+
+function sameValue(a: any, b: any): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function itemDisplayValue(field: string, value: any) {
+  return MONEY_ITEM_FIELDS.has(field) ? fromCents(Number(value) || 0) : value;
+}
+
+function itemForDisplay(item: Record<string, any>) {
+  const result: Record<string, any> = {};
+  for (const [field, value] of Object.entries(item)) {
+    if (IGNORED_ITEM_FIELDS.has(field)) continue;
+    result[field] = itemDisplayValue(field, value);
+  }
+  return result;
+}
+
+function itemKey(item: Record<string, any>, index: number): string {
+  const noPartida = (item.noPartida || "").toString().trim();
+  return noPartida ? `Partida ${noPartida}` : `Partida #${index + 1}`;
+}
+
+export function diffQuoteRevisions(from: QuoteRevisionSnapshot, to: QuoteRevisionSnapshot): QuoteRevisionDiff {
+  const fields: QuoteFieldChange[] = [];
+  const quoteKeys = new Set([...Object.keys(from.quote), ...Object.keys(to.quote)]);
+  for (const field of Array.from(quoteKeys)) {
+    if (IGNORED_QUOTE_FIELDS.has(field)) continue;
+    if (sameValue(from.quote[field], to.quote[field])) continue;
+    fields.push({
+      field,
+      label: QUOTE_FIELD_LABELS[field] || field,
+      before: from.quote[field] ?? null,
+      after: to.quote[field] ?? null,
+    });
+  }
+
+  const fromItems = new Map(from.items.map((item, index) => [itemKey(item, index), item]));
+  const toItems = new Map(to.items.map((item, index) => [itemKey(item, index), item]));
+  const items: QuoteItemChange[] = [];
+
+  for (const [key, before] of Array.from(fromItems.entries())) {
+    const after = toItems.get(key);
+    if (!after) {
+      items.push({ key, change: "removed", before: itemForDisplay(before), after: null, fields: [] });
+      continue;
+    }
+
+    const itemFields: QuoteFieldChange[] = [];
+    const itemKeys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const field of Array.from(itemKeys)) {
+      if (IGNORED_ITEM_FIELDS.has(field)) continue;
+      if (sameValue(before[field], after[field])) continue;
+      itemFields.push({
+        field,
+        label: ITEM_FIELD_LABELS[field] || field,
+        before: itemDisplayValue(field, before[field]),
+        after: itemDisplayValue(field, after[field]),
+      });
+    }
+    if (itemFields.length > 0) {
+      items.push({ key, change: "changed", before: itemForDisplay(before), after: itemForDisplay(after), fields: itemFields });
+    }
+  }
+
+  for (const [key, after] of Array.from(toItems.entries())) {
+    if (!fromItems.has(key)) {
+      items.push({ key, change: "added", before: null, after: itemForDisplay(after), fields: [] });
+    }
+  }
+
+  return { fields, items };
+}
+
+// Valor inicial de cada columna; las revisiones anteriores a una columna no la traen en el snapshot
+function quoteWithColumnDefaults(snapshotQuote: Record<string, any>): Record<string, any> {
+  const quote: Record<string, any> = {};
+  for (const [field, column] of Object.entries(getTableColumns(quotes))) {
+    const fallback = typeof column.default === "object" ? null : column.default ?? null;
+    quote[field] = snapshotQuote[field] !== undefined ? snapshotQuote[field] : fallback;
+  }
+  return quote;
+}
+
+/**
+ * Payload de PATCH /api/quotes/:id con el contenido de la revisión. El folio no se restaura;
+ * impuestos, moneda, dependencia y licitación se mandan siempre para no conservar los actuales.
+ */
+export function quotePayloadFromSnapshot(snapshot: QuoteRevisionSnapshot): Record<string, unknown> {
+  const quote = quoteWithColumnDefaults(snapshot.quote);
+  const { internalFolio, ...fields } = quoteInputFromColumns(quote);
+
+  return {
+    ...fields,
+    ivaRate: quote.ivaRate,
+    ivaRetentionRate: quote.ivaRetentionRate,
+    isrRetentionRate: quote.isrRetentionRate,
+    currency: quote.currency,
+    costCurrency: quote.costCurrency,
+    exchangeRate: quote.exchangeRate,
+    exchangeRateDate: quote.exchangeRateDate,
+    clientId: quote.clientId,
+    clientContactId: quote.clientContactId,
+    licitacionId: quote.licitacionId,
+    clauseRefs: parseClauseRefs(quote.clauseRefsJson),
+    // En la base el precio está en centavos; el payload lo lleva en pesos
+    lineItems: snapshot.items.map(({ id, quoteId, createdAt, amount, ...item }) => ({
+      ...item,
+      unitPrice: fromCents(Number(item.unitPrice) || 0),
+    })),
+  };
+}
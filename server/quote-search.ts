@@ -0,0 +1,138 @@
+import {
+  QUOTE_SORT_FIELDS,
+  isQuoteCurrency,
+  isQuoteStatus,
+  normalizeCompanyCode,
+  type QuoteSortField,
+  type QuoteStatus,
+} from "@shared/schema";
+import { parseQuoteExpiryQuery, quoteExpiryDate, todayIso } from "./quote-expiry";
+import { toCents } from "./quotes";
+import type { QuoteSearchCursor, QuoteSearchFilters } from "./storage";
+
+// ==========================================
+// BÚSQUEDA DEL LISTADO DE COTIZACIONES
+// ==========================================
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const MAX_QUERY_LENGTH = 200;
+
+const isIsoDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const text = (value: unknown) => (value ?? "").toString().trim();
+
+// El cursor viaja como base64url de [valor, id] para que el cliente lo trate como texto opaco
+export function encodeQuoteCursor(cursor: QuoteSearchCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString("base64url");
+}
+
+function decodeQuoteCursor(raw: string): QuoteSearchCursor | null {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if ((typeof value !== "string" && typeof value !== "number") || !Number.isInteger(id)) return null;
+    return { value, id };
+  } catch {
+    return null;
+  }
+}
+
+// Importe en pesos (o dólares, según la cotización) a centavos
+function parseAmount(raw: unknown): number | null | undefined {
+  const value = text(raw);
+  if (!value) return undefined;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? toCents(amount) : null;
+}
+
+/**
+ * Filtros de GET /api/quotes. Sin sort explícito, el filtro de vigencia ordena por vencimiento
+ * y el resto por fecha descendente. days es la anticipación para "por vencer".
+ */
+export function parseQuoteSearchQuery(query: any, today = todayIso()): { filters?: QuoteSearchFilters; expiryDays: number; error?: string } {
+  const { filter: expiry, days: expiryDays, error: expiryError } = parseQuoteExpiryQuery(query);
+  if (expiryError) return { expiryDays, error: expiryError };
+
+  const search = text(query.q ?? query.search);
+  if (search.length > MAX_QUERY_LENGTH) {
+    return { expiryDays, error: `La búsqueda no puede tener más de ${MAX_QUERY_LENGTH} caracteres` };
+  }
+
+  const status = text(query.status);
+  if (status && !isQuoteStatus(status)) return { expiryDays, error: "Estado de cotización inválido" };
+
+  const from = text(query.from);
+  const to = text(query.to);
+  if ((from && !isIsoDate(from)) || (to && !isIsoDate(to))) {
+    return { expiryDays, error: "Las fechas deben tener el formato AAAA-MM-DD" };
+  }
+
+  const rawProvider = text(query.providerId);
+  const providerId = rawProvider ? Number(rawProvider) : undefined;
+  if (providerId !== undefined && (!Number.isInteger(providerId) || providerId <= 0)) {
+    return { expiryDays, error: "Proveedor inválido" };
+  }
+
+  const minTotalCents = parseAmount(query.minTotal);
+  const maxTotalCents = parseAmount(query.maxTotal);
+  if (minTotalCents === null || maxTotalCents === null) {
+    return { expiryDays, error: "Los importes deben ser números no negativos" };
+  }
+  if (minTotalCents !== undefined && maxTotalCents !== undefined && minTotalCents > maxTotalCents) {
+    return { expiryDays, error: "El importe mínimo no puede ser mayor al máximo" };
+  }
+  // Sin conversión de moneda: el rango de importes aplica a una sola moneda (pesos si no se indica)
+  const hasTotalRange = minTotalCents !== undefined || maxTotalCents !== undefined;
+  const totalCurrency = hasTotalRange ? text(query.totalCurrency).toUpperCase() || "MXN" : undefined;
+  if (totalCurrency !== undefined && !isQuoteCurrency(totalCurrency)) {
+    return { expiryDays, error: "La moneda del importe debe ser MXN o USD" };
+  }
+
+  const rawSort = text(query.sort);
+  if (rawSort && !(QUOTE_SORT_FIELDS as readonly string[]).includes(rawSort)) {
+    return { expiryDays, error: `El orden debe ser uno de: ${QUOTE_SORT_FIELDS.join(", ")}` };
+  }
+  const sort = (rawSort || (expiry ? "expiresAt" : "quoteDate")) as QuoteSortField;
+
+  const rawOrder = text(query.order);
+  if (rawOrder && rawOrder !== "asc" && rawOrder !== "desc") {
+    return { expiryDays, error: "El sentido del orden debe ser asc o desc" };
+  }
+  const order = rawOrder ? (rawOrder as QuoteSearchFilters["order"]) : sort === "expiresAt" || sort === "folio" ? "asc" : "desc";
+
+  const rawLimit = text(query.limit);
+  const limit = rawLimit ? Number(rawLimit) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { expiryDays, error: `El tamaño de página debe ser un entero entre 1 y ${MAX_PAGE_SIZE}` };
+  }
+
+  const rawCursor = text(query.cursor);
+  const cursor = rawCursor ? decodeQuoteCursor(rawCursor) : undefined;
+  if (cursor === null) return { expiryDays, error: "Cursor de paginación inválido" };
+
+  const company = normalizeCompanyCode(query.company ?? query.companyOrigin);
+
+  return {
+    filters: {
+      query: search || undefined,
+      companyOrigin: company || undefined,
+      proposalType: text(query.proposalType).toLowerCase() || undefined,
+      status: status ? (status as QuoteStatus) : undefined,
+      from: from || undefined,
+      to: to || undefined,
+      providerId,
+      minTotalCents,
+      maxTotalCents,
+      totalCurrency,
+      // Mismos criterios que computeQuoteExpiry: vencida antes de hoy, por vencer hasta hoy + days
+      expiresBefore: expiry === "vencidas" ? today : undefined,
+      expiresFrom: expiry === "por_vencer" ? today : undefined,
+      expiresTo: expiry === "por_vencer" ? quoteExpiryDate(today, expiryDays) ?? undefined : undefined,
+      sort,
+      order,
+      cursor,
+      limit,
+    },
+    expiryDays,
+  };
+}
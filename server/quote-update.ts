@@ -0,0 +1,146 @@
+import type { Quote, QuoteItem } from "@shared/schema";
+import type { QuoteFieldErrors } from "@shared/quote-input";
+import { validateClabe } from "@shared/fiscal";
+import { storage } from "./storage";
+import { parseQuotePatchInput, quoteInputColumns } from "./quote-input";
+import { quoteItemsInCaptureOrder, quoteTaxColumns, quoteTotalsFromDb, toCents, validateQuoteItems } from "./quotes";
+import { applyQuotePricing, type QuotePricingResult } from "./quote-margins";
+import { resolveQuoteCurrencyColumns } from "./exchange-rates";
+import { resolveQuoteClientLink } from "./clients";
+import { resolveQuoteLicitacionId } from "./licitaciones";
+import { freezeQuoteClauseRefs, parseClauseRefs } from "./clause-library";
+
+// ==========================================
+// EDICIÓN DE COTIZACIONES
+// ==========================================
+
+export class QuoteUpdateError extends Error {
+  constructor(message: string, public status = 400, public details: { fieldErrors?: QuoteFieldErrors } & Partial<QuotePricingResult> = {}) {
+    super(message);
+    this.name = "QuoteUpdateError";
+  }
+}
+
+/**
+ * Único lugar donde se escribe total_cents. Se llama después de guardar la cotización o sus
+ * partidas y usa el mismo cálculo que el PDF y la API.
+ */
+export async function syncQuoteTotal(quoteId: number): Promise<Quote | undefined> {
+  const quote = await storage.getQuoteById(quoteId);
+  if (!quote) return undefined;
+  const totalCents = toCents(quoteTotalsFromDb(quote, await storage.getQuoteItems(quoteId)).total);
+  return quote.totalCents === totalCents ? quote : storage.updateQuote(quoteId, { totalCents });
+}
+
+// total_cents se agregó con valor 0 en la migración 0022: al arrancar se calcula el de las cotizaciones que aún no lo tienen
+export async function backfillQuoteTotals(): Promise<number> {
+  let updated = 0;
+  for (const quote of await storage.getQuotesWithZeroTotal()) {
+    const synced = await syncQuoteTotal(quote.id);
+    if (synced && synced.totalCents !== 0) updated++;
+  }
+  return updated;
+}
+
+const QUOTE_TAX_FIELDS = ["ivaRate", "ivaRetentionRate", "isrRetentionRate"] as const;
+
+// Cada tasa que llega en el payload reemplaza solo su columna; las demás se conservan
+function mergeTaxFields(existing: Quote, body: any) {
+  return {
+    ...existing,
+    ...Object.fromEntries(QUOTE_TAX_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]])),
+  };
+}
+
+export interface QuoteUpdateResult {
+  quote: Quote;
+  items: QuoteItem[];
+  pricing: QuotePricingResult | null;
+}
+
+/**
+ * Aplica un payload de PATCH /api/quotes/:id sobre la cotización guardada. Restaurar una revisión
+ * pasa por aquí para que valide y valúe igual que una edición.
+ */
+export async function updateQuoteFromPayload(existing: Quote, body: any, allowLowMargin: boolean): Promise<QuoteUpdateResult> {
+  const parsed = parseQuotePatchInput(body);
+  if (!parsed.data) {
+    throw new QuoteUpdateError(parsed.error || "Datos de cotización inválidos", 400, { fieldErrors: parsed.fieldErrors });
+  }
+  const lineItems = parsed.data.lineItems;
+  const columns = quoteInputColumns(parsed.data);
+  // Lo que llega en el payload sobre lo guardado
+  const merged = { ...existing, ...columns };
+  const quoteDate = merged.quoteDate;
+  const companyOrigin = merged.companyOrigin || "AZAL";
+  const proposalType = merged.proposalType || "bienes";
+
+  // Solo se valida la CLABE que cambia, para no bloquear cotizaciones guardadas antes de la validación
+  const bankAccountError = columns.bankAccount !== undefined && columns.bankAccount !== (existing.bankAccount ?? "")
+    ? validateClabe(columns.bankAccount)
+    : null;
+  if (bankAccountError) {
+    throw new QuoteUpdateError(bankAccountError, 400, { fieldErrors: { bankAccount: bankAccountError } });
+  }
+
+  const currencyColumns = await resolveQuoteCurrencyColumns(body.currency !== undefined ? body : existing, quoteDate);
+  const clientLink = await resolveQuoteClientLink(body, existing);
+  const licitacionId = await resolveQuoteLicitacionId(body, existing);
+  const clauseRefsJson = await freezeQuoteClauseRefs(body.clauseRefs, merged, companyOrigin, parseClauseRefs(existing.clauseRefsJson));
+
+  // Las partidas se validan y se valúan antes de guardar para no dejar la cotización a medias
+  let pricing: QuotePricingResult | null = null;
+  if (lineItems) {
+    const validation = validateQuoteItems(lineItems);
+    if (validation.errors.length > 0) {
+      throw new QuoteUpdateError(validation.errors.join("; "));
+    }
+    pricing = await applyQuotePricing(validation.normalizedItems, { companyOrigin, proposalType, ...currencyColumns }, allowLowMargin);
+    if (pricing.blockingError) {
+      throw new QuoteUpdateError(pricing.blockingError, 422, { marginWarnings: pricing.marginWarnings, margins: pricing.margins });
+    }
+  }
+
+  await storage.updateQuote(existing.id, {
+    ...columns,
+    ...quoteTaxColumns(mergeTaxFields(existing, body), proposalType),
+    ...currencyColumns,
+    clauseRefsJson,
+    clientId: clientLink.clientId,
+    clientContactId: clientLink.clientContactId,
+    // El correo del contacto elegido se propone como destinatario si aún no hay uno
+    ...(clientLink.contact?.email && !existing.contactEmail ? { contactEmail: clientLink.contact.email } : {}),
+    licitacionId,
+  });
+
+  if (pricing && lineItems) {
+    await storage.deleteQuoteItems(existing.id);
+
+    for (let i = 0; i < pricing.items.length; i++) {
+      const item = pricing.items[i];
+      const rawItem = lineItems[i];
+      await storage.createQuoteItem({
+        quoteId: existing.id,
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        unitMeasure: item.unitMeasure,
+        techRequirements: item.techRequirements,
+        versionReference: item.versionReference,
+        reqDate: rawItem.reqDate,
+        unitPrice: item.unitPriceCents,
+        amount: item.amountCents,
+        supplier: item.supplier,
+        purchaseCost: item.purchaseCost ? String(item.purchaseCost) : "0",
+        profitMargin: item.profitMargin ? String(item.profitMargin) : "0",
+        profitFactor: item.profitFactor ? String(item.profitFactor) : "1",
+        noPartida: rawItem.noPartida,
+        taxExempt: item.taxExempt,
+      });
+    }
+  }
+
+  const quote = await syncQuoteTotal(existing.id);
+  if (!quote) throw new QuoteUpdateError("Cotización no encontrada", 404);
+  return { quote, items: quoteItemsInCaptureOrder(await storage.getQuoteItems(existing.id)), pricing };
+}
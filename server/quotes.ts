@@ -1,6 +1,14 @@
 import { pgTable, text, varchar, timestamp, integer, serial, boolean, bigint, numeric } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import {
+  DEFAULT_QUOTE_TAX_SETTINGS,
+  isIvaRate,
+  isQuoteCurrency,
+  type QuoteCurrency,
+  type QuoteTaxSettings,
+  type QuoteTotals
+} from "@shared/schema";
 
 // ==========================================
 // INTERFACES Y TIPOS
@@ -20,6 +28,7 @@ export interface RawQuoteLineItem {
   purchaseCost?: number;
   profitMargin?: number;
   profitFactor?: number;
+  taxExempt?: boolean;
 }
 
 export interface NormalizedQuoteLineItem {
@@ -37,6 +46,7 @@ export interface NormalizedQuoteLineItem {
   purchaseCost: number;
   profitMargin: number;
   profitFactor: number;
+  taxExempt: boolean;
 }
 
 export function normalizeMoney(value: number): number {
@@ -78,6 +88,7 @@ export function validateQuoteItems(items: any[]): { normalizedItems: NormalizedQ
     const purchaseCost = Number(rawItem.purchaseCost || 0);
     const profitMargin = Number(rawItem.profitMargin || 0);
     const profitFactor = Number(rawItem.profitFactor || 1);
+    const taxExempt = rawItem.taxExempt === true || rawItem.taxExempt === "true";
 
     if (!description) { errors.push(`La partida ${index + 1} requiere descripción`); continue; }
     if (!unit) { errors.push(`La partida ${index + 1} requiere unidad`); continue; }
@@ -101,7 +112,8 @@ export function validateQuoteItems(items: any[]): { normalizedItems: NormalizedQ
       supplier,
       purchaseCost,
       profitMargin,
-      profitFactor
+      profitFactor,
+      taxExempt
     });
   }
 
@@ -124,6 +136,122 @@ export function convertQuoteItemsFromDb(items: any[]): any[] {
   return items.map(convertQuoteItemFromDb);
 }
 
+// Partidas en el orden en que fueron capturadas (storage.getQuoteItems las devuelve de la más reciente a la más antigua)
+export function quoteItemsInCaptureOrder<T extends { id: number }>(items: T[]): T[] {
+  return [...items].sort((a, b) => a.id - b.id);
+}
+
+// ==========================================
+// MONEDA Y TIPO DE CAMBIO
+// ==========================================
+export function parseQuoteCurrency(value: unknown): QuoteCurrency {
+  const currency = (value ?? "").toString().trim().toUpperCase();
+  return isQuoteCurrency(currency) ? currency : "MXN";
+}
+
+// El tipo de cambio siempre está expresado en pesos por dólar
+export function convertCurrency(amount: number, from: QuoteCurrency, to: QuoteCurrency, exchangeRate: number | null): number {
+  if (from === to) return amount;
+  const rate = Number(exchangeRate);
+  if (!Number.isFinite(rate) || rate <= 0) return amount;
+  return from === "USD" ? amount * rate : amount / rate;
+}
+
+const CURRENCY_NAMES: Record<QuoteCurrency, string> = {
+  MXN: "Moneda Nacional",
+  USD: "Dólares de los Estados Unidos de América (USD)",
+};
+
+// ==========================================
+// IMPUESTOS Y TOTALES
+// ==========================================
+function parseRetentionRate(value: unknown): number {
+  const rate = Number(value);
+  return Number.isFinite(rate) && rate > 0 && rate < 100 ? rate : 0;
+}
+
+// Acepta tanto el cuerpo de una petición como una fila de la tabla quotes
+export function parseQuoteTaxSettings(source: any): QuoteTaxSettings {
+  const ivaRate = (source?.ivaRate ?? "").toString().trim();
+  return {
+    ivaRate: isIvaRate(ivaRate) ? ivaRate : DEFAULT_QUOTE_TAX_SETTINGS.ivaRate,
+    ivaRetentionRate: parseRetentionRate(source?.ivaRetentionRate),
+    isrRetentionRate: parseRetentionRate(source?.isrRetentionRate),
+  };
+}
+
+// Columnas de la tabla quotes; las retenciones solo aplican a servicios
+export function quoteTaxColumns(source: any, proposalType: string) {
+  const settings = parseQuoteTaxSettings(source);
+  const isService = proposalType.toLowerCase().trim() === "servicios";
+  return {
+    ivaRate: settings.ivaRate,
+    ivaRetentionRate: String(isService ? settings.ivaRetentionRate : 0),
+    isrRetentionRate: String(isService ? settings.isrRetentionRate : 0),
+  };
+}
+
+/**
+ * Cálculo único de subtotal, IVA, retenciones y total. Se trabaja en centavos y
+ * cada impuesto se redondea una sola vez para que el PDF y la API coincidan.
+ */
+export function calculateQuoteTotals(
+  lines: Array<{ amountCents: number; taxExempt?: boolean }>,
+  settings: QuoteTaxSettings,
+  currency: QuoteCurrency = "MXN"
+): QuoteTotals {
+  const subtotalCents = lines.reduce((acc, line) => acc + line.amountCents, 0);
+  const exemptCents = settings.ivaRate === "exento"
+    ? subtotalCents
+    : lines.filter(line => line.taxExempt).reduce((acc, line) => acc + line.amountCents, 0);
+  const taxableCents = subtotalCents - exemptCents;
+
+  const ivaPercent = settings.ivaRate === "exento" ? 0 : Number(settings.ivaRate);
+  const ivaCents = Math.round(taxableCents * ivaPercent / 100);
+  const ivaRetentionCents = ivaCents > 0 ? Math.round(taxableCents * settings.ivaRetentionRate / 100) : 0;
+  const isrRetentionCents = Math.round(subtotalCents * settings.isrRetentionRate / 100);
+  const total = fromCents(subtotalCents + ivaCents - ivaRetentionCents - isrRetentionCents);
+
+  return {
+    currency,
+    currencyName: CURRENCY_NAMES[currency],
+    subtotal: fromCents(subtotalCents),
+    taxableSubtotal: fromCents(taxableCents),
+    exemptSubtotal: fromCents(exemptCents),
+    ivaRate: settings.ivaRate,
+    ivaLabel: settings.ivaRate === "exento" ? "IVA EXENTO" : `IVA ${settings.ivaRate}%`,
+    ivaLegend: settings.ivaRate === "exento" ? "EXENTO DE IVA" : settings.ivaRate === "0" ? "IVA TASA 0%" : "IVA INCLUIDO",
+    iva: fromCents(ivaCents),
+    ivaRetentionRate: settings.ivaRetentionRate,
+    ivaRetention: fromCents(ivaRetentionCents),
+    isrRetentionRate: settings.isrRetentionRate,
+    isrRetention: fromCents(isrRetentionCents),
+    total,
+    totalText: amountToSpanishText(total, currency),
+  };
+}
+
+// Partidas tal como están en la base de datos (importes en centavos)
+export function quoteTotalsFromDb(quote: any, rawItems: any[]): QuoteTotals {
+  return calculateQuoteTotals(
+    rawItems.map(item => ({ amountCents: Number(item.amount) || 0, taxExempt: !!item.taxExempt })),
+    parseQuoteTaxSettings(quote),
+    parseQuoteCurrency(quote?.currency)
+  );
+}
+
+// Partidas ya convertidas a pesos, como las reciben las plantillas
+export function quoteTotalsFromLineItems(quote: any, items: any[]): QuoteTotals {
+  return calculateQuoteTotals(
+    items.map(item => {
+      const unitPriceCents = item.unitPriceCents ?? toCents(Number(item.unitPrice) || 0);
+      return { amountCents: Math.round((Number(item.quantity) || 0) * unitPriceCents), taxExempt: !!item.taxExempt };
+    }),
+    parseQuoteTaxSettings(quote),
+    parseQuoteCurrency(quote?.currency)
+  );
+}
+
 // Lógica de traducción de dinero (Sin cambios)
 const units = ["cero", "un", "dos", "tres", "cuatro", "cinco", "seis", "siete", "ocho", "nueve"];
 const specialTens: Record<number, string> = { 10: "diez", 11: "once", 12: "doce", 13: "trece", 14: "catorce", 15: "quince", 20: "veinte" };
@@ -165,12 +293,15 @@ function spanishNumber(n: number): string {
   return parts.join(" ").trim();
 }
 
-export function amountToSpanishText(amount: number): string {
+export function amountToSpanishText(amount: number, currency: QuoteCurrency = "MXN"): string {
   const cents = toCents(amount);
   const pesos = Math.floor(cents / 100);
   const centavos = cents % 100;
-  const pesosText = pesos === 1 ? "peso" : "pesos";
+  const unitText = currency === "USD"
+    ? (pesos === 1 ? "dólar" : "dólares")
+    : (pesos === 1 ? "peso" : "pesos");
+  const suffix = currency === "USD" ? "USD" : "M.N.";
   const integerWords = spanishNumber(pesos);
   const capitalizedWords = integerWords.charAt(0).toUpperCase() + integerWords.slice(1);
-  return `${capitalizedWords} ${pesosText} ${String(centavos).padStart(2, "0")}/100 M.N.`;
+  return `${capitalizedWords} ${unitText} ${String(centavos).padStart(2, "0")}/100 ${suffix}`;
 }
\ No newline at end of file
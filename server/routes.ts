@@ -1,3 +1,4 @@
+import type { Express } from "express";
 import { createServer, type Server } from "http";
 import path from "path";
 import fs from "fs";
@@ -5,17 +6,124 @@ import { Readable } from "stream";
 import { pipeline } from "stream/promises";
 import archiver from "archiver";
 import multer from "multer";
-import puppeteer from "puppeteer";
 import { storage } from "./storage";
-import { getTemplateForProvider } from "./templates/manager";
 import {
-  validateQuoteItems,
-  amountToSpanishText,
-  fromCents,
-  convertQuoteItemFromDb,
-  convertQuoteItemsFromDb
+  validateQuoteItems,
+  convertQuoteItemFromDb,
+  convertQuoteItemsFromDb,
+  calculateQuoteTotals,
+  parseQuoteTaxSettings,
+  parseQuoteCurrency,
+  quoteTaxColumns,
+  quoteItemsInCaptureOrder,
+  quoteTotalsFromDb
 } from "./quotes";
-import { insertLicitacionSchema, files } from "@shared/schema";
+import {
+  buildQuoteSnapshot,
+  diffQuoteRevisions,
+  quotePayloadFromSnapshot,
+  type QuoteRevisionSnapshot
+} from "./quote-revisions";
+import {
+  validateFolioPattern,
+  resolveFolioYear,
+  previewNextFolio,
+  issueFolios,
+  issueQuoteFolio,
+  resolveFolioCompany
+} from "./folios";
+import {
+  resolveBrandingImage,
+  imageDataUrlFromUpload,
+  toCompanyResponse,
+  parseCompanyInput,
+  getAssetCacheStats
+} from "./companies";
+import { getPdfRendererMetrics } from "./pdf-renderer";
+import { buildQuotePdf, getPdfReadyQuote } from "./quote-pdf";
+import { toPdfJobSummary, notifyPdfJobWorker } from "./pdf-jobs";
+import { previewPartidaImport } from "./partidas-import";
+import { buildQuoteWorkbook, buildQuotesReportWorkbook, filterQuotesForExport, buildExportFileName } from "./quote-export";
+import { buildQuoteClone, buildQuoteItemClones, resolveQuoteCloneTarget } from "./quote-clone";
+import { freezeQuoteClauseRefs, getClauseLibraryForCompany, parseClauseInput, parseClauseRefs } from "./clause-library";
+import { parseCatalogItemInput, toCatalogItemResponse, upsertCatalogItemFromPartida } from "./catalog";
+import {
+  ensureUniqueNumeroLicitacion,
+  licitacionQuoteBudgets,
+  listLicitacionResponses,
+  parseLicitacionEvents,
+  parseLicitacionInput,
+  resolveQuoteLicitacionId,
+  validateLicitacionLinks,
+} from "./licitaciones";
+import {
+  CALENDAR_EXCLUDED_ESTADOS,
+  CALENDAR_FEED_PAST_DAYS,
+  buildLicitacionesCalendar,
+  feedReminderMinutes,
+  newCalendarToken,
+  parseReminderMinutes,
+} from "./licitacion-calendar";
+import {
+  ensureUniqueClientName,
+  getClientResponse,
+  listClientResponses,
+  parseClientContactInput,
+  parseClientInput,
+  resolveQuoteClientLink,
+} from "./clients";
+import { parseProviderInput } from "./providers";
+import { parseQuoteInput, quoteInputColumns } from "./quote-input";
+import { buildQuotePreview } from "./quote-preview";
+import { QuoteUpdateError, syncQuoteTotal, updateQuoteFromPayload } from "./quote-update";
+import { buildProviderCompliance, listProviderCompliance, parseProviderDocumentInput, validateProviderDocumentFile } from "./provider-documents";
+import { validateClabe } from "@shared/fiscal";
+import { buildPriceHistory, parsePriceHistoryQuery } from "./price-history";
+import { getDofUsdRate, resolveQuoteCurrencyColumns } from "./exchange-rates";
+import { applyQuotePricing, marginLinesFromDb, parseMarginRuleInput, quoteCostContext, summarizeQuoteMargins } from "./quote-margins";
+import { computeQuoteExpiry, parseQuoteRenewal, todayIso } from "./quote-expiry";
+import { encodeQuoteCursor, parseQuoteSearchQuery } from "./quote-search";
+import { MAX_EMAIL_ANNEXES, buildQuoteEmailDraft, getSmtpSettings, parseEmailList, parseQuoteEmailInput, sendEmail, validateEmailAnnexes } from "./quote-email";
+import {
+  LICITACION_ESTADO_LABELS,
+  LICITACION_OUTCOME_ESTADOS,
+  canTransitionLicitacionEstado,
+  isLicitacionEstado,
+  type LicitacionEstado,
+  type InsertLicitacion,
+  type CalendarFeed,
+  files,
+  QUOTE_STATUS_LABELS,
+  EDITABLE_QUOTE_STATUSES,
+  isQuoteStatus,
+  canTransitionQuoteStatus,
+  quoteTransitionRequiresAdmin,
+  canRenewQuoteValidity,
+  quoteStatusAfterRenewal,
+  type QuoteStatus,
+  COMPANY_IMAGE_KINDS,
+  normalizeCompanyCode,
+  type CompanyImageKind,
+  type InsertCompany,
+  CLAUSE_CATEGORY_LABELS,
+  isClauseCategory,
+  type ClauseCategory,
+  type InsertClauseLibraryEntry,
+  CATALOG_ITEM_KIND_LABELS,
+  isCatalogItemKind,
+  type CatalogItemKind,
+  type InsertCatalogItem,
+  type InsertClient,
+  type InsertClientContact,
+  type InsertProvider,
+  PROVIDER_DOCUMENT_TYPE_LABELS,
+  type ProviderDocumentResponse,
+  type ProviderDocumentType,
+  EXPIRY_TRACKED_QUOTE_STATUSES,
+  type QuoteItem,
+  type QuoteListItem,
+  type QuoteListResponse
+} from "@shared/schema";
 import { db } from "./db";
 import { eq } from "drizzle-orm";
 import "isomorphic-fetch";
@@ -43,241 +151,35 @@ if (!fs.existsSync(uploadsDir)) {
   fs.mkdirSync(uploadsDir, { recursive: true });
 }
 
-//  FUNCIÓN MAESTRA: INYECCIÓN DE IMÁGENES AL BORDE DE LA HOJA
-async function generateQuotePdfBuffer(quote: any, provider: any, lineItems: any[]) {
-  const safeParse = (val: string | null | undefined): any[] => {
-    try { return JSON.parse(val || "[]"); } catch { return []; }
-  };
-
-  const enrichedQuote = {
-    ...quote,
-    folio: quote.internalFolio,
-    destinationCompany: quote.destinationCompany,
-    totalText: quote.totalText,
-    qualityGuarantees: quote.qualityGuarantees || safeParse(quote.qualityGuaranteesJson),
-    selectedSocialObjects: quote.selectedSocialObjects || safeParse(quote.selectedSocialObjectsJson),
-    deliveryLocations: quote.deliveryLocations || safeParse(quote.deliveryLocationsJson),
-    deliveryConditions: quote.deliveryConditions || safeParse(quote.deliveryConditionsJson),
-
-    selectedDeliveryClauses: quote.selectedDeliveryClauses || safeParse(quote.selectedDeliveryClausesJson),
-    deliveryDates: quote.deliveryDates || safeParse(quote.deliveryDatesJson),
-    deliveryLocation: quote.deliveryLocation || safeParse(quote.deliveryLocationJson), 
-
-  };
-
-  const html = getTemplateForProvider(provider, enrichedQuote, lineItems);
-  const companyName = (provider.companyName || "").toUpperCase();
-  const proposalType = (quote.proposalType || "").toLowerCase();
-  const isAzal = !companyName.includes("DEMA") && !companyName.includes("HERMAL") && !companyName.includes("HGW") && !companyName.includes("HYH");
-  const isHgw  = companyName.includes("HGW");
-  const isDema = companyName.includes("DEMA");
-
-  // Carga de Assets
-  let headerBase64 = '', footerBase64 = '', hgwBgBase64 = '', headerHGWBase64 = '', footerHGWBase64 = '';
-  
-  if (isAzal) {
-    if (fs.existsSync(path.join(process.cwd(), 'server', 'assets', 'encabezado.png'))) 
-        headerBase64 = `data:image/png;base64,${fs.readFileSync(path.join(process.cwd(), 'server', 'assets', 'encabezado.png')).toString('base64')}`;
-    if (fs.existsSync(path.join(process.cwd(), 'server', 'assets', 'pie.png'))) 
-        footerBase64 = `data:image/png;base64,${fs.readFileSync(path.join(process.cwd(), 'server', 'assets', 'pie.png')).toString('base64')}`;
-  }
-
-  // LÓGICA PARA DEMA SERVICIOS: Encabezado y Pie
-  let demaHeaderBase64 = '';
-  let demaFooterBase64 = '';
-  if (isDema) {
-    const demaHeaderPath = path.join(process.cwd(), 'server', 'assets', 'encabezado-DEMA.png');
-    if (fs.existsSync(demaHeaderPath)) {
-      demaHeaderBase64 = `data:image/png;base64,${fs.readFileSync(demaHeaderPath).toString('base64')}`;
-    }
-    const demaFooterPath = path.join(process.cwd(), 'server', 'assets', 'Pie_pagina_DEMA.png');
-    if (fs.existsSync(demaFooterPath)) {
-      demaFooterBase64 = `data:image/png;base64,${fs.readFileSync(demaFooterPath).toString('base64')}`;
-    }
-  }
-
-  // 🚀 LÓGICA PARA HGW: Encabezado y Pie separados
-  let hgwHeaderBase64 = '';
-  let hgwFooterBase64 = '';
-  if (isHgw) {
-    const hgwHeaderPath = path.join(process.cwd(), 'server', 'assets', 'encabezado-hgw.png');
-    if (fs.existsSync(hgwHeaderPath)) {
-      hgwHeaderBase64 = `data:image/png;base64,${fs.readFileSync(hgwHeaderPath).toString('base64')}`;
-    }
-
-    const hgwFooterPath = path.join(process.cwd(), 'server', 'assets', 'pie-hgw.png');
-    if (fs.existsSync(hgwFooterPath)) {
-      hgwFooterBase64 = `data:image/png;base64,${fs.readFileSync(hgwFooterPath).toString('base64')}`;
-    }
-  }
-
-  const isHermal = companyName.includes("HERMAL");
-  let hermalHeaderBase64 = '';
-  let hermalFooterBase64 = '';
-  if (isHermal) {
-    const hermalHeaderPath = path.join(process.cwd(), 'server', 'assets', 'encabezado-hermal.png');
-    if (fs.existsSync(hermalHeaderPath)) hermalHeaderBase64 = `data:image/png;base64,${fs.readFileSync(hermalHeaderPath).toString('base64')}`;
-
-    const hermalFooterPath = path.join(process.cwd(), 'server', 'assets', 'pie-hermal.png');
-    if (fs.existsSync(hermalFooterPath)) hermalFooterBase64 = `data:image/png;base64,${fs.readFileSync(hermalFooterPath).toString('base64')}`;
-  }
+// Elimina el documento de cumplimiento, su registro en files y el archivo en uploads/
+async function removeProviderDocument(document: ProviderDocumentResponse) {
+  const file = await storage.getFileById(document.fileId);
+  await storage.deleteProviderDocument(document.id);
+  if (file) await fs.promises.unlink(path.join(uploadsDir, file.filename)).catch(() => null);
+}
 
-  const browser = await puppeteer.launch({
-    headless: true,
-    args: [
-      '--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage',
-      '--disable-accelerated-2d-canvas', '--no-first-run', '--no-zygote', '--disable-gpu'
-    ]
+// Guarda una instantánea numerada del estado actual de la cotización y sus partidas.
+// También actualiza el total guardado con el que se filtra y ordena el listado.
+async function saveQuoteRevision(quoteId: number, correo: string | null, note = "") {
+  const quote = await storage.getQuoteById(quoteId);
+  if (!quote) return undefined;
+  const items = await storage.getQuoteItems(quoteId);
+  return storage.createQuoteRevision({
+    quoteId,
+    snapshotJson: JSON.stringify(buildQuoteSnapshot(quote, items)),
+    note,
+    correo,
   });
+}
 
+function parseRevisionSnapshot(snapshotJson: string): QuoteRevisionSnapshot {
   try {
-    const page = await browser.newPage();
-    await page.setContent(html, { waitUntil: 'networkidle2', timeout: 30000 });
-    
-    const pdfOptions: any = {
-      format: 'A4',
-      printBackground: true,
-      preferCSSPageSize: false
-    };
-
-    if (isAzal) {
-      pdfOptions.displayHeaderFooter = true;
-      pdfOptions.headerTemplate = `
-        <style>html, body { margin: 0; padding: 0; -webkit-print-color-adjust: exact; }</style>
-        <div style="position: absolute; top: 0; left: 0; width: 100%; z-index: -1;">
-          ${headerBase64 ? `<img src="${headerBase64}" style="width: 100%; display: block;" />` : ''}
-        </div>
-      `;
-      pdfOptions.footerTemplate = `
-        <style>html, body { margin: 0; padding: 0; }</style>
-        <div style="position: absolute; bottom: 0; left: 0; width: 100%; margin: 0; padding: 0; display: flex; justify-content: center; align-items: flex-end; -webkit-print-color-adjust: exact;">
-          ${footerBase64 ? `<img src="${footerBase64}" style="width: 100%; height: auto; display: block;" />` : ''}
-        </div>
-      `;
-      pdfOptions.margin = { top: '190px', right: '0px', bottom: '150px', left: '0px'};
-    
-    } else if (isHgw) {
-      pdfOptions.displayHeaderFooter = true;
-      
-      // 🚀 ENCABEZADO HGW (Borde a Borde sin espacios blancos)
-      pdfOptions.headerTemplate = `
-        <style>
-          html, body { margin: 0 !important; padding: 0 !important; width: 100%; height: 100%; -webkit-print-color-adjust: exact; }
-        </style>
-        <div style="position: absolute; top: 0; left: 0; width: 100vw; margin: 0; padding: 0; display: flex; align-items: flex-start; justify-content: flex-start;">
-          ${hgwHeaderBase64 ? `<img src="${hgwHeaderBase64}" style="width: 100vw; display: block; margin: 0; padding: 0;" />` : ''}
-        </div>
-      `;
-      
-      // 🚀 PIE DE PÁGINA HGW (Borde a Borde sin espacios blancos)
-      pdfOptions.footerTemplate = `
-        <style>
-          html, body { margin: 0 !important; padding: 0 !important; width: 100%; height: 100%; font-family: 'Arial Narrow', Arial, sans-serif; -webkit-print-color-adjust: exact; font-size: 9pt; }
-        </style>
-        <div style="position: absolute; bottom: 0; left: 0; width: 100vw; margin: 0; padding: 0; display: flex; flex-direction: column; justify-content: flex-end;">
-          
-          ${hgwFooterBase64 ? `<img src="${hgwFooterBase64}" style="width: 100vw; display: block; margin: 0; padding: 0; position: absolute; bottom: 0; left: 0; z-index: -1;" />` : ''}
-          
-          <div style="position: relative; width: 100%; padding: 0 45px 35px 45px; box-sizing: border-box; display: flex; justify-content: space-between; align-items: flex-end;">
-             <div style="line-height: 1.4; color: #000000;">
-               hgw@hgwprocessolutions.com<br>
-               Av. Jorge Jiménez Cantú No. Ext. 1, No. Int. 124, Valle Escondido, 52937, Atizapán de Zaragoza, Estado de México<br>
-               Teléfonos: 56 1080 9920 – 55 4556 6367
-             </div>
-             <div style="text-align: right; font-weight: bold; color: #000000;">
-               Página <span class="pageNumber"></span> de <span class="totalPages"></span>
-             </div>
-          </div>
-        </div>
-      `;
-      
-      // 🚀 MÁRGENES FÍSICOS (Protegen tu texto para que no toque las imágenes)
-      pdfOptions.margin = { top: '190px', right: '0px', bottom: '150px', left: '0px' };
-
-    } else if (isDema) {
-      pdfOptions.displayHeaderFooter = true;
-      pdfOptions.headerTemplate = `
-        <style>html, body { margin: 0 !important; padding: 0 !important; width: 100%; -webkit-print-color-adjust: exact; }</style>
-        <div style="position: absolute; top: 0; left: 0; width: 100vw; margin: 0; padding: 0;">
-          ${demaHeaderBase64 ? `<img src="${demaHeaderBase64}" style="width: 100vw; display: block;" />` : ''}
-        </div>
-      `;
-      pdfOptions.footerTemplate = `
-        <style>html, body { margin: 0 !important; padding: 0 !important; width: 100%; -webkit-print-color-adjust: exact; }</style>
-        <div style="position: absolute; bottom: 0; left: 0; width: 100vw; margin: 0; padding: 0;">
-          ${demaFooterBase64 ? `<img src="${demaFooterBase64}" style="width: 100vw; display: block;" />` : ''}
-        </div>
-      `;
-      pdfOptions.margin = { top: '190px', right: '0px', bottom: '150px', left: '0px' };
-
-      pdfOptions.margin = { top: '190px', right: '0px', bottom: '150px', left: '0px' };  
-
-    } else if (isHermal) {
-      pdfOptions.displayHeaderFooter = true;
-      
-      // 🚀 ENCABEZADO HERMAL (Borde a Borde sin espacios blancos)
-      pdfOptions.headerTemplate = `
-        <style>
-          html, body { margin: 0 !important; padding: 0 !important; width: 100%; height: 100%; -webkit-print-color-adjust: exact; }
-        </style>
-        <div style="position: absolute; top: 0; left: 0; width: 100vw; margin: 0; padding: 0; display: flex; align-items: flex-start; justify-content: flex-start;">
-          ${hermalHeaderBase64 ? `<img src="${hermalHeaderBase64}" style="width: 100vw; display: block; margin: 0; padding: 0;" />` : ''}
-        </div>
-      `;
-      
-      // 🚀 PIE DE PÁGINA HERMAL (Solo imagen, sin paginador)
-      pdfOptions.footerTemplate = `
-        <style>
-          html, body { margin: 0 !important; padding: 0 !important; width: 100%; height: 100%; -webkit-print-color-adjust: exact; }
-        </style>
-        <div style="position: absolute; bottom: 0; left: 0; width: 100vw; margin: 0; padding: 0; display: flex; flex-direction: column; justify-content: flex-end;">
-          
-          ${hermalFooterBase64 ? `<img src="${hermalFooterBase64}" style="width: 100vw; display: block; margin: 0; padding: 0; position: absolute; bottom: 0; left: 0; z-index: -1;" />` : ''}
-          
-        </div>
-      `;
-      
-      // 🚀 MÁRGENES FÍSICOS PARA HERMAL
-      pdfOptions.margin = { top: '230px', right: '0px', bottom: '150px', left: '0px' };  
-    
-    } else {
-      pdfOptions.displayHeaderFooter = false;
-      pdfOptions.margin = { top: '0px', bottom: '0px', right: '0px', left: '0px' };
-    } 
-
-    // 2. GENERACIÓN FINAL
-    const pdfBuffer = await page.pdf(pdfOptions);
-    return pdfBuffer;
-
-  } finally {
-    await browser.close();
+    const parsed = JSON.parse(snapshotJson);
+    return { quote: parsed.quote || {}, items: Array.isArray(parsed.items) ? parsed.items : [] };
+  } catch {
+    return { quote: {}, items: [] };
   }
 }
-  
-
-
-function sanitizeFileName(value: string) {
-  return value
-    .replace(/\s+/g, '_')
-    .replace(/[^a-zA-Z0-9_\-.]/g, '')
-    .replace(/_+/g, '_')
-    .replace(/^_+|_+$/g, '');
-}
-
-function buildQuotePdfFileName(quote: any) {
-  const folio = quote.internalFolio || `Q${quote.id}`;
-  const cliente = quote.destinationCompany || quote.projectTitle || 'PropuestaEconomica';
-  const fecha = quote.quoteDate ? new Date(quote.quoteDate).toISOString().split('T')[0] : '';
-
-  const tipo = quote.proposalType ? `${quote.proposalType.toUpperCase()}-` : ''; 
-  
-  const safeCliente = sanitizeFileName(cliente);
-  const safeFolio = sanitizeFileName(folio);
-  const safeFecha = sanitizeFileName(fecha);
-  
-  const filename = `COT-${tipo}${safeFolio}_${safeCliente}${safeFecha ? `_${safeFecha}` : ''}.pdf`;
-  return filename.replace(/__+/g, '_');
-}
 
 export async function registerRoutes(app: Express, httpServer: Server): Promise<Server> {
 
@@ -613,12 +515,22 @@ export async function registerRoutes(app: Express, httpServer: Server): Promise<
   // ============== ENDPOINTS PARA PROVEEDORES ==============
   app.get("/api/providers", requireAuth, async (req: any, res) => {
     try {
-      const providers = await storage.getProviders();
-      res.json(providers);
-    } catch (e: any) {
-      res.status(500).json({ error: e.message });
-    }
-  });
+      const providers = await storage.getProviders();
+      res.json(providers);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Estado de los documentos de cumplimiento de todos los proveedores
+  app.get("/api/providers/compliance", requireAuth, async (_req: any, res) => {
+    try {
+      const providers = await storage.getProviders();
+      res.json(await listProviderCompliance(providers.map(provider => provider.id)));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
 
   app.get("/api/providers/:id", requireAuth, async (req: any, res) => {
     try {
@@ -639,79 +551,41 @@ export async function registerRoutes(app: Express, httpServer: Server): Promise<
   });
 
   app.post("/api/providers", requireAuth, async (req: any, res) => {
-    try {
-      const companyName = (req.body.companyName || "").trim();
-      const businessActivity = (req.body.businessActivity || "").trim();
-      const legalAddress = (req.body.legalAddress || "").trim();
-      const rfc = (req.body.rfc || "").trim();
-      const legalRepresentative = (req.body.legalRep || req.body.legalRepresentative || "").trim();
-      const phone = (req.body.phone || "").trim();
-      const email = (req.body.email || "").trim();
-      const website = (req.body.website || "").trim();
-
-      const bankName = (req.body.bankName || "").trim();
-      const bankAccount = (req.body.bankAccount || "").trim();
-      const bankBeneficiary = (req.body.bankBeneficiary || "").trim();
-
-      if (!companyName || !legalRepresentative || !phone || !email) {
-        return res.status(400).json({ error: "Razón social, representante, teléfono y correo son obligatorios" });
-      }
-
-      const provider = await storage.createProvider({
-        companyName,
-        businessActivity,
-        legalAddress,
-        rfc,
-        legalRepresentative,
-        phone,
-        email,
-        website,
-        bankName,
-        bankAccount,
-        bankBeneficiary,
-      });
+    try {
+      const parsed = parseProviderInput(req.body, false);
+      if (!parsed.data) return res.status(400).json({ error: parsed.error, fieldErrors: parsed.fieldErrors });
 
-      res.status(201).json(provider);
-    } catch (e: any) {
-      res.status(500).json({ error: e.message });
-    }
-  });
+      const provider = await storage.createProvider(parsed.data as InsertProvider);
 
-  app.patch("/api/providers/:id", requireAuth, async (req: any, res) => {
-    try {
-      const providerId = Number(req.params.id);
-      if (Number.isNaN(providerId)) {
-        return res.status(400).json({ error: "ID de proveedor inválido" });
-      }
+      res.status(201).json(provider);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
 
-      const updateData: any = {};
-      if (req.body.companyName !== undefined) {
-        updateData.companyName = req.body.companyName.trim();
-      }
-      if (req.body.legalRepresentative !== undefined) {
-        updateData.legalRepresentative = req.body.legalRepresentative.trim();
-      }
-      if (req.body.phone !== undefined) {
-        updateData.phone = req.body.phone.trim();
-      }
-      if (req.body.email !== undefined) {
-        updateData.email = req.body.email.trim();
-      }
+  app.patch("/api/providers/:id", requireAuth, async (req: any, res) => {
+    try {
+      const providerId = Number(req.params.id);
+      if (Number.isNaN(providerId)) {
+        return res.status(400).json({ error: "ID de proveedor inválido" });
+      }
 
-      if (Object.keys(updateData).length === 0) {
-        return res.status(400).json({ error: "Debe proporcionar al menos un campo para actualizar" });
-      }
+      const parsed = parseProviderInput(req.body, true);
+      if (!parsed.data) return res.status(400).json({ error: parsed.error, fieldErrors: parsed.fieldErrors });
+      if (Object.keys(parsed.data).length === 0) {
+        return res.status(400).json({ error: "Debe proporcionar al menos un campo para actualizar" });
+      }
 
-      const updated = await storage.updateProvider(providerId, updateData);
-      if (!updated) {
-        return res.status(404).json({ error: "Proveedor no encontrado" });
-      }
+      const updated = await storage.updateProvider(providerId, parsed.data);
+      if (!updated) {
+        return res.status(404).json({ error: "Proveedor no encontrado" });
+      }
 
-      res.json(updated);
-    } catch (e: any) {
-      res.status(500).json({ error: e.message });
-    }
-  });
+      res.json(updated);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
 
   app.delete("/api/providers/:id", requireAuth, async (req: any, res) => {
     try {
@@ -725,6 +599,10 @@ export async function registerRoutes(app: Express, httpServer: Server): Promise<
         return res.status(404).json({ error: "Proveedor no encontrado" });
       }
 
+      // Los documentos de cumplimiento se eliminan junto con sus archivos
+      for (const document of await storage.getProviderDocuments([providerId])) {
+        await removeProviderDocument(document);
+      }
       await storage.deleteProvider(providerId);
       res.status(204).end();
     } catch (e: any) {
@@ -732,403 +610,1802 @@ export async function registerRoutes(app: Express, httpServer: Server): Promise<
     }
   });
 
-  // ============== GESTIÓN DE PDFS Y COTIZACIONES ==============
-  app.get("/api/quotes", requireAuth, async (req: any, res) => {
-    try {
-      const quotes = await storage.getQuotes();
-      const enriched = await Promise.all(quotes.map(async quote => {
-        const items = await storage.getQuoteItems(quote.id);
-        const totalCents = items.reduce((sum, item) => sum + Number(item.amount || 0), 0);
-        const total = fromCents(totalCents);
-        return {
-          ...quote,
-          folio: quote.internalFolio,
-          empresaDestino: quote.destinationCompany,
-          total,
-          totalText: amountToSpanishText(total),
-          companyOrigin: quote.companyOrigin,
-          proposalType: quote.proposalType,
-          requisitionNumber: quote.requisitionNumber,
-          projectTitle: quote.projectTitle,
-          validityDays: quote.validityDays,
-          paymentDays: quote.paymentDays,
-          deliveryTime: quote.deliveryTime,
-          manufacturingTime: quote.manufacturingTime,
-          guaranteeMonths: quote.guaranteeMonths,
-          compliancePercentage: quote.compliancePercentage,
-          deliveryPlace: quote.deliveryPlace,
-          contactPerson: quote.contactPerson,
-        };
-        
-      }));
-      res.json(enriched);
-    } catch (e: any) {
-      console.error("Error en GET /api/quotes:", e);
-      res.status(500).json({ error: e.message });
-    }
-  });
+  // ============== DOCUMENTOS DE CUMPLIMIENTO DE PROVEEDORES ==============
+  app.get("/api/providers/:id/documents", requireAuth, async (req: any, res) => {
+    try {
+      const providerId = Number(req.params.id);
+      const provider = Number.isNaN(providerId) ? undefined : await storage.getProviderById(providerId);
+      if (!provider) return res.status(404).json({ error: "Proveedor no encontrado" });
 
-  app.get("/api/quotes/:id", requireAuth, async (req: any, res) => {
-    try {
-      const quoteId = Number(req.params.id);
-      if (Number.isNaN(quoteId)) {
-        return res.status(400).json({ error: "ID de cotización inválido" });
-      }
+      const documents = await storage.getProviderDocuments([providerId]);
+      res.json({ compliance: buildProviderCompliance(providerId, documents), documents });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
 
-      const quote = await storage.getQuoteById(quoteId);
-      if (!quote) {
-        return res.status(404).json({ error: "Cotización no encontrada" });
-      }
+  app.post("/api/providers/:id/documents", requireAuth, upload.single("file"), async (req: any, res) => {
+    try {
+      const providerId = Number(req.params.id);
+      const provider = Number.isNaN(providerId) ? undefined : await storage.getProviderById(providerId);
+      if (!provider) return res.status(404).json({ error: "Proveedor no encontrado" });
+
+      const fileError = validateProviderDocumentFile(req.file);
+      if (fileError) return res.status(400).json({ error: fileError });
+      const parsed = parseProviderDocumentInput(req.body);
+      if (!parsed.data) return res.status(400).json({ error: parsed.error });
+
+      const filename = `${Date.now()}-${req.file.originalname}`;
+      await fs.promises.writeFile(path.join(uploadsDir, filename), req.file.buffer);
+      const file = await storage.createFile({
+        filename,
+        originalName: req.file.originalname,
+        mimeType: req.file.mimetype,
+        size: req.file.size,
+        supplier: provider.companyName,
+        uploadedBy: req.user.id,
+      });
 
-      const rawItems = await storage.getQuoteItems(quoteId);
-      const lineItems = convertQuoteItemsFromDb(rawItems);
-      const totalCents = rawItems.reduce((sum, item) => sum + Number(item.amount || 0), 0);
-      const total = fromCents(totalCents);
+      const document = await storage.createProviderDocument({
+        ...parsed.data,
+        providerId,
+        fileId: file.id,
+        uploadedBy: req.user.id,
+      });
 
-      const safeParse = (val: string | null | undefined): any[] => {
-        try { return JSON.parse(val || "[]"); } catch { return []; }
-      };
+      await storage.createAuditLog({
+        correo: req.user.correo || null,
+        action: "Documento de proveedor",
+        details: `${PROVIDER_DOCUMENT_TYPE_LABELS[parsed.data.type as ProviderDocumentType]} de ${provider.companyName} (emitido ${parsed.data.issueDate}${parsed.data.expiryDate ? `, vence ${parsed.data.expiryDate}` : ""})`,
+        resourceType: "provider",
+        resourceId: providerId,
+      });
 
-      res.json({
-        quote: {
-          ...quote,
-          folio: quote.internalFolio,
-          empresaDestino: quote.destinationCompany,
-          total,
-          totalText: amountToSpanishText(total),
-          qualityGuarantees: safeParse(quote.qualityGuaranteesJson),
-          selectedSocialObjects: safeParse(quote.selectedSocialObjectsJson),
-          deliveryLocations: safeParse(quote.deliveryLocationsJson),
-          partidaDescriptionItems: safeParse((quote as any).partidaDescriptionItemsJson || (quote as any).partidaDescriptionItems),
-          deliveryDates: safeParse(quote.deliveryDatesJson),
-          deliveryConditions: safeParse(quote.deliveryConditionsJson),
-          selectedDeliveryClauses: safeParse(quote.selectedDeliveryClausesJson),
-          hasRegionalMilitary: quote.hasRegionalMilitary ?? false,
-          warrantyPercentageApplies: quote.warrantyPercentageApplies ?? false,
-          warrantyPercentage: Number(quote.warrantyPercentage) || 0,
-          deliveryNotes: quote.deliveryNotes ?? "",
-          requiredDocuments: safeParse(quote.requiredDocumentsJson),
-          normsTable: safeParse(quote.normsTableJson),
-          serviceNormsTable: safeParse(quote.serviceNormsTableJson),
-        },
-        lineItems,
-      });
-    } catch (e: any) {
-      res.status(500).json({ error: e.message });
-    }
-  });
+      res.status(201).json(await storage.getProviderDocument(document.id));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
 
- app.get("/api/quotes/:id/pdf", requireAuth, async (req: any, res) => {
+  app.get("/api/providers/:id/documents/:documentId/file", requireAuth, async (req: any, res) => {
     try {
-      const quoteId = Number(req.params.id);
-      console.log("[PDF-HERMAL-Bienes] Solicitud PDF recibida", { quoteId, params: req.params });
-      if (Number.isNaN(quoteId)) {
-        return res.status(400).json({ error: "ID de cotización inválido" });
+      const document = await storage.getProviderDocument(Number(req.params.documentId));
+      if (!document || document.providerId !== Number(req.params.id)) {
+        return res.status(404).json({ error: "Documento no encontrado" });
       }
 
-      const quote = await storage.getQuoteById(quoteId);
-      if (!quote) {
-        console.log("[PDF-HERMAL-Bienes] Cotización no encontrada", { quoteId });
-        return res.status(404).json({ error: "Cotización no encontrada" });
+      const file = await storage.getFileById(document.fileId);
+      const filePath = file ? path.join(uploadsDir, file.filename) : "";
+      if (!file || !fs.existsSync(filePath)) return res.status(404).json({ error: "El archivo del documento no existe" });
+
+      res.setHeader("Content-Type", file.mimeType);
+      res.setHeader("Content-Disposition", `inline; filename*=UTF-8''${encodeURIComponent(file.originalName)}`);
+      fs.createReadStream(filePath).pipe(res);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.delete("/api/providers/:id/documents/:documentId", requireAuth, async (req: any, res) => {
+    try {
+      const document = await storage.getProviderDocument(Number(req.params.documentId));
+      if (!document || document.providerId !== Number(req.params.id)) {
+        return res.status(404).json({ error: "Documento no encontrado" });
       }
-      console.log("[PDF-HERMAL-Bienes] Cotización encontrada", {
-        quoteId,
-        internalFolio: quote.internalFolio,
-        providerId: quote.providerId,
-        proposalType: quote.proposalType,
+      if (document.uploadedBy !== req.user.id && !req.user.isAdmin) {
+        return res.status(403).json({ error: "No autorizado" });
+      }
+
+      await removeProviderDocument(document);
+
+      await storage.createAuditLog({
+        correo: req.user.correo || null,
+        action: "Eliminar documento de proveedor",
+        details: `${PROVIDER_DOCUMENT_TYPE_LABELS[document.type as ProviderDocumentType] ?? document.type} emitido ${document.issueDate} (${document.fileName})`,
+        resourceType: "provider",
+        resourceId: document.providerId,
       });
-      
-      // 🚀 DEFINIMOS EL PARSEADOR AQUÍ PARA QUE ESTÉ DISPONIBLE
-      const safeParse = (val: string | null | undefined): any[] => {
-        try { return JSON.parse(val || "[]"); } catch { return []; }
-      };
 
-      let parsedGuarantees = [];
-      let parsedObjetos = [];
-      
-      try {
-        if (quote.qualityGuaranteesJson) {
-          parsedGuarantees = JSON.parse(quote.qualityGuaranteesJson);
-        }
-        if (quote.socialObjectsJson) {
-          parsedObjetos = JSON.parse(quote.socialObjectsJson);
-        }
-      } catch (parseError) {
-        console.error("Error parseando arreglos JSON desde la BD:", parseError);
+      res.status(204).end();
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // ============== EMPRESAS EMISORAS ==============
+  app.get("/api/companies", requireAuth, async (_req: any, res) => {
+    try {
+      const list = await storage.getCompanies();
+      res.json(list.map(toCompanyResponse));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/companies", requireAuth, async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+
+      const { data, error } = parseCompanyInput(req.body, false);
+      if (error || !data) return res.status(400).json({ error });
+
+      if (await storage.getCompanyByCode(data.code!)) {
+        return res.status(409).json({ error: `Ya existe una empresa con la clave ${data.code}` });
+      }
+
+      const company = await storage.createCompany(data as InsertCompany);
+
+      await storage.createAuditLog({
+        correo: req.user.correo || req.user.email || null,
+        action: "Crear empresa",
+        details: `Se registró la empresa ${company.code}`,
+        resourceType: "company",
+        resourceId: company.id,
+      });
+
+      res.status(201).json(toCompanyResponse(company));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.patch("/api/companies/:id", requireAuth, async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+
+      const companyId = Number(req.params.id);
+      const existing = await storage.getCompanyById(companyId);
+      if (!existing) return res.status(404).json({ error: "Empresa no encontrada" });
+
+      const { data, error } = parseCompanyInput(req.body, true);
+      if (error || !data) return res.status(400).json({ error });
+
+      if (data.code && data.code !== existing.code && await storage.getCompanyByCode(data.code)) {
+        return res.status(409).json({ error: `Ya existe una empresa con la clave ${data.code}` });
+      }
+
+      const company = await storage.updateCompany(companyId, data);
+
+      await storage.createAuditLog({
+        correo: req.user.correo || req.user.email || null,
+        action: "Actualizar empresa",
+        details: `Se actualizó la empresa ${existing.code}`,
+        resourceType: "company",
+        resourceId: companyId,
+      });
+
+      res.json(company ? toCompanyResponse(company) : null);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.delete("/api/companies/:id", requireAuth, async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+
+      const companyId = Number(req.params.id);
+      const existing = await storage.getCompanyById(companyId);
+      if (!existing) return res.status(404).json({ error: "Empresa no encontrada" });
+
+      await storage.deleteCompany(companyId);
+
+      await storage.createAuditLog({
+        correo: req.user.correo || req.user.email || null,
+        action: "Eliminar empresa",
+        details: `Se eliminó la empresa ${existing.code}`,
+        resourceType: "company",
+        resourceId: companyId,
+      });
+
+      res.status(204).end();
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/companies/:id/images/:kind", requireAuth, async (req: any, res) => {
+    try {
+      const kind = req.params.kind as CompanyImageKind;
+      if (!COMPANY_IMAGE_KINDS.includes(kind)) return res.status(400).json({ error: "Tipo de imagen no válido" });
+
+      const company = await storage.getCompanyById(Number(req.params.id));
+      if (!company) return res.status(404).json({ error: "Empresa no encontrada" });
+
+      const dataUrl = resolveBrandingImage(company[`${kind}Image`]);
+      const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+      if (!match) return res.status(404).json({ error: "La empresa no tiene esta imagen" });
+
+      res.setHeader("Content-Type", match[1]);
+      res.setHeader("Cache-Control", "no-cache");
+      res.send(Buffer.from(match[2], "base64"));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/companies/:id/images/:kind", requireAuth, upload.single("file"), async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+
+      const kind = req.params.kind as CompanyImageKind;
+      if (!COMPANY_IMAGE_KINDS.includes(kind)) return res.status(400).json({ error: "Tipo de imagen no válido" });
+      if (!req.file) return res.status(400).json({ error: "No se recibió ninguna imagen" });
+
+      const companyId = Number(req.params.id);
+      const existing = await storage.getCompanyById(companyId);
+      if (!existing) return res.status(404).json({ error: "Empresa no encontrada" });
+
+      const { dataUrl, error } = imageDataUrlFromUpload(req.file);
+      if (error) return res.status(400).json({ error });
+
+      const company = await storage.updateCompany(companyId, { [`${kind}Image`]: dataUrl });
+
+      await storage.createAuditLog({
+        correo: req.user.correo || req.user.email || null,
+        action: "Actualizar membrete",
+        details: `Se actualizó la imagen "${kind}" de la empresa ${existing.code}`,
+        resourceType: "company",
+        resourceId: companyId,
+      });
+
+      res.json(company ? toCompanyResponse(company) : null);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.delete("/api/companies/:id/images/:kind", requireAuth, async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+
+      const kind = req.params.kind as CompanyImageKind;
+      if (!COMPANY_IMAGE_KINDS.includes(kind)) return res.status(400).json({ error: "Tipo de imagen no válido" });
+
+      const company = await storage.updateCompany(Number(req.params.id), { [`${kind}Image`]: null });
+      if (!company) return res.status(404).json({ error: "Empresa no encontrada" });
+
+      res.json(toCompanyResponse(company));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // ============== FOLIOS INTERNOS ==============
+  app.get("/api/folios/next", requireAuth, async (req: any, res) => {
+    try {
+      const companyOrigin = await resolveFolioCompany(req.query.companyOrigin);
+      if (!companyOrigin) return res.status(400).json({ error: "Empresa emisora no válida" });
+
+      const year = Number(req.query.year) || new Date().getFullYear();
+      const preview = await previewNextFolio(companyOrigin, year, (req.query.proposalType || "").toString());
+      res.json({ companyOrigin, ...preview });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/folios/settings", requireAuth, async (req: any, res) => {
+    try {
+      const year = Number(req.query.year) || new Date().getFullYear();
+      const sequences = await storage.getFolioSequences(year);
+      const registered = (await storage.getCompanies()).filter(company => company.isActive);
+      const settings = await Promise.all(registered.map(async ({ code: companyOrigin }) => {
+        const sequence = sequences.find(s => s.companyOrigin === companyOrigin);
+        const preview = await previewNextFolio(companyOrigin, year);
+        return {
+          companyOrigin,
+          pattern: preview.pattern,
+          year,
+          lastNumber: sequence?.lastNumber ?? 0,
+          nextFolio: preview.folio,
+        };
+      }));
+      res.json(settings);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.put("/api/folios/settings/:companyOrigin", requireAuth, async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+
+      const companyOrigin = await resolveFolioCompany(req.params.companyOrigin);
+      if (!companyOrigin) return res.status(400).json({ error: "Empresa emisora no válida" });
+
+      const pattern = (req.body.pattern || "").toString().trim();
+      const patternError = validateFolioPattern(pattern);
+      if (patternError) return res.status(400).json({ error: patternError });
+
+      const correo = req.user.correo || req.user.email || null;
+      const setting = await storage.upsertFolioSetting(companyOrigin, pattern, correo);
+
+      await storage.createAuditLog({
+        correo,
+        action: "Configurar folio",
+        details: `Se cambió el patrón de folio de ${companyOrigin} a "${pattern}"`,
+      });
+
+      res.json(setting);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/folios/reservations", requireAuth, async (req: any, res) => {
+    try {
+      const companyOrigin = req.query.companyOrigin ? await resolveFolioCompany(req.query.companyOrigin) : undefined;
+      if (companyOrigin === null) return res.status(400).json({ error: "Empresa emisora no válida" });
+
+      const reservations = await storage.getFolioReservations({
+        companyOrigin,
+        year: Number(req.query.year) || undefined,
+        availableOnly: req.query.available === "true",
+      });
+      res.json(reservations);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Aparta números del consecutivo: "reservado" queda disponible para una cotización, "omitido" se descarta
+  app.post("/api/folios/reservations", requireAuth, async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+
+      const companyOrigin = await resolveFolioCompany(req.body.companyOrigin);
+      if (!companyOrigin) return res.status(400).json({ error: "Empresa emisora no válida" });
+
+      const kind = req.body.kind === "omitido" ? "omitido" : "reservado";
+      const count = Number(req.body.count ?? 1);
+      if (!Number.isInteger(count) || count < 1 || count > 50) {
+        return res.status(400).json({ error: "La cantidad de folios debe ser un entero entre 1 y 50" });
+      }
+
+      const year = Number(req.body.year) || new Date().getFullYear();
+      const note = (req.body.note || "").toString().trim();
+      const correo = req.user.correo || req.user.email || null;
+      const issued = await issueFolios(companyOrigin, year, count, (req.body.proposalType || "").toString());
+
+      const reservations = [];
+      for (const { number, folio } of issued) {
+        reservations.push(await storage.createFolioReservation({ companyOrigin, year, number, folio, kind, note, correo }));
+      }
+
+      await storage.createAuditLog({
+        correo,
+        action: kind === "omitido" ? "Omitir folios" : "Reservar folios",
+        details: `${kind === "omitido" ? "Se omitieron" : "Se reservaron"} los folios ${issued.map(i => i.folio).join(", ")}`,
+      });
+
+      res.status(201).json(reservations);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // ============== BIBLIOTECA DE CLÁUSULAS ==============
+  // Con empresa se devuelven solo las entradas vigentes, con su variante por empresa ya resuelta
+  app.get("/api/clause-library", requireAuth, async (req: any, res) => {
+    try {
+      const category = isClauseCategory(req.query.category) ? req.query.category : undefined;
+      if (req.query.companyOrigin) {
+        return res.json(await getClauseLibraryForCompany(req.query.companyOrigin, category));
+      }
+      const includeInactive = req.user.isAdmin && req.query.includeInactive === "true";
+      res.json(await storage.getClauseLibrary({ category, includeInactive }));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/clause-library", requireAuth, async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+
+      const { data, error } = parseClauseInput(req.body, false);
+      if (error || !data) return res.status(400).json({ error });
+
+      const companyOrigin = data.companyOrigin ?? "";
+      if (await storage.getClauseLibraryEntryByCode(data.code!, companyOrigin)) {
+        return res.status(409).json({ error: `Ya existe una entrada con la clave ${data.code}${companyOrigin ? ` para ${companyOrigin}` : ""}` });
+      }
+
+      const correo = req.user.correo || req.user.email || null;
+      const entry = await storage.createClauseLibraryEntry({ ...data, correo } as InsertClauseLibraryEntry);
+
+      await storage.createAuditLog({
+        correo,
+        action: "Crear entrada de biblioteca",
+        details: `Se registró la entrada ${entry.code} (${CLAUSE_CATEGORY_LABELS[entry.category as ClauseCategory] || entry.category})`,
+        resourceType: "clause",
+        resourceId: entry.id,
+      });
+
+      res.status(201).json(entry);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.patch("/api/clause-library/:id", requireAuth, async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+
+      const entryId = Number(req.params.id);
+      const existing = await storage.getClauseLibraryEntry(entryId);
+      if (!existing) return res.status(404).json({ error: "Entrada no encontrada" });
+
+      const { data, error } = parseClauseInput(req.body, true);
+      if (error || !data) return res.status(400).json({ error });
+
+      const code = data.code ?? existing.code;
+      const companyOrigin = data.companyOrigin ?? existing.companyOrigin;
+      const duplicate = await storage.getClauseLibraryEntryByCode(code, companyOrigin);
+      if (duplicate && duplicate.id !== entryId) {
+        return res.status(409).json({ error: `Ya existe una entrada con la clave ${code}${companyOrigin ? ` para ${companyOrigin}` : ""}` });
+      }
+
+      // Un cambio de texto es una versión nueva; las cotizaciones conservan la que usaron
+      const textChanged = (data.content !== undefined && data.content !== existing.content)
+        || (data.norm !== undefined && data.norm !== existing.norm);
+      const correo = req.user.correo || req.user.email || null;
+      const entry = await storage.updateClauseLibraryEntry(entryId, {
+        ...data,
+        correo,
+        ...(textChanged ? { version: existing.version + 1 } : {}),
+      });
+
+      await storage.createAuditLog({
+        correo,
+        action: "Actualizar entrada de biblioteca",
+        details: `Se actualizó la entrada ${existing.code}${textChanged ? ` (versión ${existing.version + 1})` : ""}`,
+        resourceType: "clause",
+        resourceId: entryId,
+      });
+
+      res.json(entry);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Las entradas se desactivan en lugar de borrarse porque las cotizaciones las referencian
+  app.delete("/api/clause-library/:id", requireAuth, async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+
+      const entryId = Number(req.params.id);
+      const existing = await storage.getClauseLibraryEntry(entryId);
+      if (!existing) return res.status(404).json({ error: "Entrada no encontrada" });
+
+      const correo = req.user.correo || req.user.email || null;
+      await storage.updateClauseLibraryEntry(entryId, { isActive: false, correo });
+
+      await storage.createAuditLog({
+        correo,
+        action: "Desactivar entrada de biblioteca",
+        details: `Se desactivó la entrada ${existing.code}`,
+        resourceType: "clause",
+        resourceId: entryId,
+      });
+
+      res.status(204).end();
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // ============== CATÁLOGO DE PRODUCTOS Y SERVICIOS ==============
+  // Con búsqueda se usa para autocompletar partidas, así que el resultado viene limitado
+  app.get("/api/catalog", requireAuth, async (req: any, res) => {
+    try {
+      const kind = isCatalogItemKind(req.query.kind) ? req.query.kind : undefined;
+      const search = (req.query.search || "").toString();
+      const includeInactive = req.query.includeInactive === "true";
+      const limit = search.trim() ? Math.min(Math.max(Number(req.query.limit) || 10, 1), 50) : undefined;
+      const items = await storage.getCatalogItems({ search, kind, includeInactive, limit });
+      res.json(items.map(toCatalogItemResponse));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/catalog", requireAuth, async (req: any, res) => {
+    try {
+      const { data, error } = parseCatalogItemInput(req.body, false);
+      if (error || !data) return res.status(400).json({ error });
+
+      const duplicate = await storage.getCatalogItemByDescription(data.description!, data.kind!);
+      if (duplicate) {
+        return res.status(409).json({ error: `Ya existe en el catálogo: ${duplicate.description}` });
+      }
+
+      const correo = req.user.correo || req.user.email || null;
+      const item = await storage.createCatalogItem({ ...data, correo } as InsertCatalogItem);
+
+      await storage.createAuditLog({
+        correo,
+        action: "Crear artículo de catálogo",
+        details: `Se registró ${item.description} (${CATALOG_ITEM_KIND_LABELS[item.kind as CatalogItemKind] || item.kind})`,
+        resourceType: "catalog_item",
+        resourceId: item.id,
+      });
+
+      res.status(201).json(toCatalogItemResponse(item));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Alta o actualización desde una partida de cotización: descripción, unidad, proveedor y último costo
+  app.post("/api/catalog/from-partida", requireAuth, async (req: any, res) => {
+    try {
+      const kind = req.body.kind;
+      if (!isCatalogItemKind(kind)) return res.status(400).json({ error: "El tipo debe ser bienes o servicios" });
+
+      const correo = req.user.correo || req.user.email || null;
+      const { item, created } = await upsertCatalogItemFromPartida(req.body, kind, correo);
+
+      await storage.createAuditLog({
+        correo,
+        action: created ? "Crear artículo de catálogo" : "Actualizar artículo de catálogo",
+        details: `${created ? "Se registró" : "Se actualizó"} ${item.description} desde una partida`,
+        resourceType: "catalog_item",
+        resourceId: item.id,
+      });
+
+      res.status(created ? 201 : 200).json(toCatalogItemResponse(item));
+    } catch (e: any) {
+      res.status(e.status || 500).json({ error: e.message });
+    }
+  });
+
+  app.patch("/api/catalog/:id", requireAuth, async (req: any, res) => {
+    try {
+      const itemId = Number(req.params.id);
+      const existing = await storage.getCatalogItem(itemId);
+      if (!existing) return res.status(404).json({ error: "Artículo no encontrado" });
+
+      const { data, error } = parseCatalogItemInput(req.body, true);
+      if (error || !data) return res.status(400).json({ error });
+
+      const duplicate = await storage.getCatalogItemByDescription(data.description ?? existing.description, data.kind ?? existing.kind);
+      if (duplicate && duplicate.id !== itemId) {
+        return res.status(409).json({ error: `Ya existe en el catálogo: ${duplicate.description}` });
+      }
+
+      const correo = req.user.correo || req.user.email || null;
+      const item = await storage.updateCatalogItem(itemId, data);
+
+      await storage.createAuditLog({
+        correo,
+        action: "Actualizar artículo de catálogo",
+        details: `Se actualizó ${existing.description}`,
+        resourceType: "catalog_item",
+        resourceId: itemId,
+      });
+
+      res.json(toCatalogItemResponse(item!));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.delete("/api/catalog/:id", requireAuth, async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+
+      const itemId = Number(req.params.id);
+      const existing = await storage.getCatalogItem(itemId);
+      if (!existing) return res.status(404).json({ error: "Artículo no encontrado" });
+
+      const correo = req.user.correo || req.user.email || null;
+      await storage.updateCatalogItem(itemId, { isActive: false });
+
+      await storage.createAuditLog({
+        correo,
+        action: "Desactivar artículo de catálogo",
+        details: `Se desactivó ${existing.description}`,
+        resourceType: "catalog_item",
+        resourceId: itemId,
+      });
+
+      res.status(204).end();
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // ============== DIRECTORIO DE CLIENTES ==============
+  app.get("/api/clients", requireAuth, async (req: any, res) => {
+    try {
+      const search = (req.query.search || "").toString();
+      const includeInactive = req.query.includeInactive === "true";
+      res.json(await listClientResponses({ search, includeInactive }));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/clients/:id", requireAuth, async (req: any, res) => {
+    try {
+      const client = await getClientResponse(Number(req.params.id), req.query.includeInactive === "true");
+      if (!client) return res.status(404).json({ error: "Dependencia no encontrada" });
+      res.json(client);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/clients", requireAuth, async (req: any, res) => {
+    try {
+      const { data, error } = parseClientInput(req.body, false);
+      if (error || !data) return res.status(400).json({ error });
+      await ensureUniqueClientName(data.name!);
+
+      const correo = req.user.correo || req.user.email || null;
+      const client = await storage.createClient({ ...data, correo } as InsertClient);
+
+      await storage.createAuditLog({
+        correo,
+        action: "Crear dependencia",
+        details: `Se registró la dependencia ${client.name}`,
+        resourceType: "client",
+        resourceId: client.id,
+      });
+
+      res.status(201).json(await getClientResponse(client.id));
+    } catch (e: any) {
+      res.status(e.status || 500).json({ error: e.message });
+    }
+  });
+
+  app.patch("/api/clients/:id", requireAuth, async (req: any, res) => {
+    try {
+      const clientId = Number(req.params.id);
+      const existing = await storage.getClient(clientId);
+      if (!existing) return res.status(404).json({ error: "Dependencia no encontrada" });
+
+      const { data, error } = parseClientInput(req.body, true);
+      if (error || !data) return res.status(400).json({ error });
+      if (data.name) await ensureUniqueClientName(data.name, clientId);
+
+      const correo = req.user.correo || req.user.email || null;
+      await storage.updateClient(clientId, data);
+
+      await storage.createAuditLog({
+        correo,
+        action: "Actualizar dependencia",
+        details: `Se actualizó la dependencia ${existing.name}`,
+        resourceType: "client",
+        resourceId: clientId,
+      });
+
+      res.json(await getClientResponse(clientId));
+    } catch (e: any) {
+      res.status(e.status || 500).json({ error: e.message });
+    }
+  });
+
+  // Las cotizaciones conservan la liga, por eso la dependencia solo se desactiva
+  app.delete("/api/clients/:id", requireAuth, async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+
+      const clientId = Number(req.params.id);
+      const existing = await storage.getClient(clientId);
+      if (!existing) return res.status(404).json({ error: "Dependencia no encontrada" });
+
+      const correo = req.user.correo || req.user.email || null;
+      await storage.updateClient(clientId, { isActive: false });
+
+      await storage.createAuditLog({
+        correo,
+        action: "Desactivar dependencia",
+        details: `Se desactivó la dependencia ${existing.name}`,
+        resourceType: "client",
+        resourceId: clientId,
+      });
+
+      res.status(204).end();
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/clients/:id/contacts", requireAuth, async (req: any, res) => {
+    try {
+      const clientId = Number(req.params.id);
+      const client = await storage.getClient(clientId);
+      if (!client) return res.status(404).json({ error: "Dependencia no encontrada" });
+
+      const { data, error } = parseClientContactInput(req.body, false);
+      if (error || !data) return res.status(400).json({ error });
+
+      const correo = req.user.correo || req.user.email || null;
+      const contact = await storage.createClientContact({ ...data, clientId } as InsertClientContact);
+
+      await storage.createAuditLog({
+        correo,
+        action: "Crear contacto de dependencia",
+        details: `Se registró a ${contact.fullName} en ${client.name}`,
+        resourceType: "client",
+        resourceId: clientId,
+      });
+
+      res.status(201).json(contact);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.patch("/api/clients/:id/contacts/:contactId", requireAuth, async (req: any, res) => {
+    try {
+      const clientId = Number(req.params.id);
+      const existing = await storage.getClientContact(Number(req.params.contactId));
+      if (!existing || existing.clientId !== clientId) return res.status(404).json({ error: "Contacto no encontrado" });
+
+      const { data, error } = parseClientContactInput(req.body, true);
+      if (error || !data) return res.status(400).json({ error });
+
+      const correo = req.user.correo || req.user.email || null;
+      const contact = await storage.updateClientContact(existing.id, data);
+
+      await storage.createAuditLog({
+        correo,
+        action: "Actualizar contacto de dependencia",
+        details: `Se actualizó a ${existing.fullName}`,
+        resourceType: "client",
+        resourceId: clientId,
+      });
+
+      res.json(contact);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.delete("/api/clients/:id/contacts/:contactId", requireAuth, async (req: any, res) => {
+    try {
+      const clientId = Number(req.params.id);
+      const existing = await storage.getClientContact(Number(req.params.contactId));
+      if (!existing || existing.clientId !== clientId) return res.status(404).json({ error: "Contacto no encontrado" });
+
+      const correo = req.user.correo || req.user.email || null;
+      await storage.updateClientContact(existing.id, { isActive: false });
+
+      await storage.createAuditLog({
+        correo,
+        action: "Desactivar contacto de dependencia",
+        details: `Se desactivó a ${existing.fullName}`,
+        resourceType: "client",
+        resourceId: clientId,
+      });
+
+      res.status(204).end();
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Todas las cotizaciones ligadas a la dependencia, de la más reciente a la más antigua
+  app.get("/api/clients/:id/quotes", requireAuth, async (req: any, res) => {
+    try {
+      const clientId = Number(req.params.id);
+      const client = await storage.getClient(clientId);
+      if (!client) return res.status(404).json({ error: "Dependencia no encontrada" });
+
+      const list = await storage.getQuotesByClient(clientId);
+      res.json(list.map(quote => ({
+        id: quote.id,
+        internalFolio: quote.internalFolio,
+        projectTitle: quote.projectTitle,
+        requisitionNumber: quote.requisitionNumber,
+        quoteDate: quote.quoteDate,
+        status: quote.status,
+        companyOrigin: quote.companyOrigin,
+        contactPerson: quote.contactPerson,
+      })));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // ============== HISTORIAL DE PRECIOS ==============
+  // Partidas cotizadas que se parecen a la descripción, con estadísticas por proveedor y por mes
+  app.get("/api/price-history", requireAuth, async (req: any, res) => {
+    try {
+      const { filters, inflationRate, error } = parsePriceHistoryQuery(req.query);
+      if (error || !filters) return res.status(400).json({ error });
+
+      const [rows, buckets] = await Promise.all([
+        storage.getQuotePriceHistory(filters),
+        storage.getQuotePriceHistoryBuckets(filters, inflationRate),
+      ]);
+      res.json(buildPriceHistory(filters.query, rows, buckets, inflationRate));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // ============== MÁRGENES DE UTILIDAD ==============
+  app.get("/api/margin-rules", requireAuth, async (_req, res) => {
+    try {
+      res.json(await storage.getMarginRules());
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Una regla por empresa y tipo de propuesta; vacío significa "todas"
+  app.put("/api/margin-rules", requireAuth, async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+
+      const { data, error } = parseMarginRuleInput(req.body);
+      if (error || !data) return res.status(400).json({ error });
+
+      const correo = req.user.correo || req.user.email || null;
+      const rule = await storage.upsertMarginRule({ ...data, correo });
+
+      await storage.createAuditLog({
+        correo,
+        action: "Guardar regla de margen",
+        details: `Margen mínimo de ${data.minMarginPercent}% (${data.enforcement}) para ${data.companyOrigin || "todas las empresas"} / ${data.category || "todos los tipos"}`,
+        resourceType: "margin_rule",
+        resourceId: rule.id,
+      });
+
+      res.json(rule);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.delete("/api/margin-rules/:id", requireAuth, async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+
+      const ruleId = Number(req.params.id);
+      const deleted = await storage.deleteMarginRule(ruleId);
+      if (!deleted) return res.status(404).json({ error: "Regla no encontrada" });
+
+      await storage.createAuditLog({
+        correo: req.user.correo || req.user.email || null,
+        action: "Eliminar regla de margen",
+        details: `Se eliminó la regla de ${deleted.companyOrigin || "todas las empresas"} / ${deleted.category || "todos los tipos"}`,
+        resourceType: "margin_rule",
+        resourceId: ruleId,
+      });
+
+      res.status(204).end();
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // ============== TIPO DE CAMBIO ==============
+  app.get("/api/exchange-rates/usd", requireAuth, async (req: any, res) => {
+    try {
+      res.json(await getDofUsdRate(req.query.date));
+    } catch (e: any) {
+      res.status(e.status || 500).json({ error: e.message });
+    }
+  });
+
+  // ============== GESTIÓN DE PDFS Y COTIZACIONES ==============
+  app.get("/api/quotes", requireAuth, async (req: any, res) => {
+    try {
+      const today = todayIso();
+      const { filters, expiryDays, error } = parseQuoteSearchQuery(req.query, today);
+      if (!filters) return res.status(400).json({ error });
+
+      const { quotes, total, next } = await storage.searchQuotes(filters);
+      const itemsByQuote = new Map<number, QuoteItem[]>();
+      for (const item of await storage.getQuoteItemsByQuoteIds(quotes.map(quote => quote.id))) {
+        if (item.quoteId !== null) itemsByQuote.set(item.quoteId, [...(itemsByQuote.get(item.quoteId) ?? []), item]);
+      }
+
+      const enriched: QuoteListItem[] = quotes.map(quote => {
+        const totals = quoteTotalsFromDb(quote, itemsByQuote.get(quote.id) ?? []);
+        const expiry = computeQuoteExpiry(quote, today, expiryDays);
+        return {
+          ...quote,
+          folio: quote.internalFolio,
+          empresaDestino: quote.destinationCompany,
+          total: totals.total,
+          totalText: totals.totalText,
+          totals,
+          expiresAt: expiry?.expiresAt ?? null,
+          daysRemaining: expiry?.daysRemaining ?? null,
+          expiryStatus: expiry?.expiryStatus ?? null,
+        };
+      });
+      res.json({ quotes: enriched, total, nextCursor: next ? encodeQuoteCursor(next) : null } satisfies QuoteListResponse);
+    } catch (e: any) {
+      console.error("Error en GET /api/quotes:", e);
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Reporte para dirección: resumen por cotización y partidas con costeo interno
+  app.get("/api/quotes/export.xlsx", requireAuth, async (req: any, res) => {
+    try {
+      const filters = {
+        from: typeof req.query.from === "string" ? req.query.from : undefined,
+        to: typeof req.query.to === "string" ? req.query.to : undefined,
+        companyOrigin: typeof req.query.companyOrigin === "string" ? req.query.companyOrigin : undefined,
+      };
+      const quotes = filterQuotesForExport(await storage.getQuotes(), filters);
+      const items = await storage.getQuoteItemsByQuoteIds(quotes.map(quote => quote.id));
+      const itemsByQuote = new Map<number, typeof items>();
+      for (const item of items) {
+        if (item.quoteId === null) continue;
+        itemsByQuote.set(item.quoteId, [...(itemsByQuote.get(item.quoteId) ?? []), item]);
+      }
+
+      const buffer = await buildQuotesReportWorkbook(quotes, itemsByQuote);
+      const filename = buildExportFileName("Cotizaciones", filters.companyOrigin ? normalizeCompanyCode(filters.companyOrigin) : "");
+
+      await storage.createAuditLog({
+        correo: req.user.correo || req.user.email || null,
+        action: "Exportar cotizaciones a Excel",
+        details: `Se exportaron ${quotes.length} cotizaciones (desde: ${filters.from || "—"}, hasta: ${filters.to || "—"}, empresa: ${filters.companyOrigin || "todas"})`
+      });
+
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(buffer);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/quotes/:id", requireAuth, async (req: any, res) => {
+    try {
+      const quoteId = Number(req.params.id);
+      if (Number.isNaN(quoteId)) {
+        return res.status(400).json({ error: "ID de cotización inválido" });
+      }
+
+      const quote = await storage.getQuoteById(quoteId);
+      if (!quote) {
+        return res.status(404).json({ error: "Cotización no encontrada" });
+      }
+
+      const rawItems = await storage.getQuoteItems(quoteId);
+      const lineItems = convertQuoteItemsFromDb(rawItems);
+      const totals = quoteTotalsFromDb(quote, rawItems);
+      const margins = summarizeQuoteMargins(marginLinesFromDb(rawItems), quoteCostContext(quote));
+
+      const safeParse = (val: string | null | undefined): any[] => {
+        try { return JSON.parse(val || "[]"); } catch { return []; }
+      };
+
+      res.json({
+        quote: {
+          ...quote,
+          folio: quote.internalFolio,
+          empresaDestino: quote.destinationCompany,
+          total: totals.total,
+          totalText: totals.totalText,
+          totals,
+          qualityGuarantees: safeParse(quote.qualityGuaranteesJson),
+          selectedSocialObjects: safeParse(quote.selectedSocialObjectsJson),
+          deliveryLocations: safeParse(quote.deliveryLocationsJson),
+          partidaDescriptionItems: safeParse((quote as any).partidaDescriptionItemsJson || (quote as any).partidaDescriptionItems),
+          deliveryDates: safeParse(quote.deliveryDatesJson),
+          deliveryConditions: safeParse(quote.deliveryConditionsJson),
+          selectedDeliveryClauses: safeParse(quote.selectedDeliveryClausesJson),
+          hasRegionalMilitary: quote.hasRegionalMilitary ?? false,
+          warrantyPercentageApplies: quote.warrantyPercentageApplies ?? false,
+          warrantyPercentage: Number(quote.warrantyPercentage) || 0,
+          deliveryNotes: quote.deliveryNotes ?? "",
+          requiredDocuments: safeParse(quote.requiredDocumentsJson),
+          normsTable: safeParse(quote.normsTableJson),
+          serviceNormsTable: safeParse(quote.serviceNormsTableJson),
+          clauseRefs: parseClauseRefs(quote.clauseRefsJson),
+        },
+        lineItems,
+        margins,
+        expiry: computeQuoteExpiry(quote),
+      });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+ app.get("/api/quotes/:id/pdf", requireAuth, async (req: any, res) => {
+    try {
+      const quoteId = Number(req.params.id);
+      console.log("[PDF-HERMAL-Bienes] Solicitud PDF recibida", { quoteId, params: req.params });
+      if (Number.isNaN(quoteId)) {
+        return res.status(400).json({ error: "ID de cotización inválido" });
+      }
+
+      const { quote, buffer, filename } = await buildQuotePdf(quoteId);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      
+      res.send(Buffer.from(buffer));
+
+      await storage.createAuditLog({
+        correo: req.user.correo || req.user.email || null,
+        action: "Generar PDF de cotización",
+        details: `Se generó el PDF para la cotización ${quote.internalFolio}`
+      });
+    } catch (e: any) {
+      res.status(e.status || 500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/quotes/:id/export.xlsx", requireAuth, async (req: any, res) => {
+    try {
+      const quoteId = Number(req.params.id);
+      if (Number.isNaN(quoteId)) {
+        return res.status(400).json({ error: "ID de cotización inválido" });
+      }
+
+      const quote = await storage.getQuoteById(quoteId);
+      if (!quote) {
+        return res.status(404).json({ error: "Cotización no encontrada" });
+      }
+
+      const buffer = await buildQuoteWorkbook(quote, await storage.getQuoteItems(quoteId));
+      const filename = buildExportFileName("Cotizacion", quote.internalFolio);
+
+      await storage.createAuditLog({
+        correo: req.user.correo || req.user.email || null,
+        action: "Exportar cotización a Excel",
+        details: `Se exportó la cotización ${quote.internalFolio} con su costeo interno`,
+        resourceType: "quote",
+        resourceId: quote.id,
+      });
+
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(buffer);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Lee un .xlsx/.csv y devuelve las partidas mapeadas y validadas; no guarda nada
+  app.post("/api/quotes/items/import", requireAuth, upload.single("file"), async (req: any, res) => {
+    try {
+      if (!req.file) return res.status(400).json({ error: "No se recibió ningún archivo" });
+      const preview = await previewPartidaImport(req.file, req.body.mapping);
+      res.json(preview);
+    } catch (e: any) {
+      res.status(e.status || 500).json({ error: e.message });
+    }
+  });
+
+  // ============== TRABAJOS DE PDF ==============
+  app.post("/api/quotes/:id/pdf/jobs", requireAuth, async (req: any, res) => {
+    try {
+      const quoteId = Number(req.params.id);
+      if (Number.isNaN(quoteId)) {
+        return res.status(400).json({ error: "ID de cotización inválido" });
+      }
+
+      await getPdfReadyQuote(quoteId);
+      const job = await storage.createPdfJob({
+        quoteId,
+        correo: req.user.correo || req.user.email || null,
+        requestedBy: req.user.id,
+      });
+      notifyPdfJobWorker();
+
+      res.status(202).json(toPdfJobSummary(job));
+    } catch (e: any) {
+      res.status(e.status || 500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/pdf-jobs/:id", requireAuth, async (req: any, res) => {
+    try {
+      const job = await storage.getPdfJob(Number(req.params.id));
+      if (!job) return res.status(404).json({ error: "Trabajo de PDF no encontrado" });
+      if (job.requestedBy !== req.user.id && !req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+      res.json(toPdfJobSummary(job));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/pdf-jobs/:id/download", requireAuth, async (req: any, res) => {
+    try {
+      const job = await storage.getPdfJob(Number(req.params.id));
+      if (!job) return res.status(404).json({ error: "Trabajo de PDF no encontrado" });
+      if (job.requestedBy !== req.user.id && !req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+      if (job.status !== "completado" || !job.pdfBase64) {
+        return res.status(409).json({ error: "El PDF todavía no está listo" });
+      }
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${job.fileName || `cotizacion-${job.quoteId}.pdf`}"`);
+      res.send(Buffer.from(job.pdfBase64, "base64"));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/pdf-jobs/:id/retry", requireAuth, async (req: any, res) => {
+    try {
+      const job = await storage.getPdfJob(Number(req.params.id));
+      if (!job) return res.status(404).json({ error: "Trabajo de PDF no encontrado" });
+      if (job.requestedBy !== req.user.id && !req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+      if (job.status !== "fallido") {
+        return res.status(409).json({ error: "Solo se pueden reintentar trabajos fallidos" });
+      }
+
+      await getPdfReadyQuote(job.quoteId);
+      // Se conserva el último error hasta que el worker vuelva a tomar el trabajo
+      const updated = await storage.updatePdfJob(job.id, { status: "pendiente", progress: 0, attempts: 0, finishedAt: null });
+      notifyPdfJobWorker();
+
+      res.json(updated ? toPdfJobSummary(updated) : null);
+    } catch (e: any) {
+      res.status(e.status || 500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/pdf/metrics", requireAuth, async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+      res.json({ ...getPdfRendererMetrics(), assetCache: getAssetCacheStats() });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // ============== ENVÍO POR CORREO ==============
+  app.get("/api/email/status", requireAuth, async (_req, res) => {
+    const settings = getSmtpSettings();
+    res.json({ configured: !!settings, from: settings?.from || null });
+  });
+
+  // Correo de prueba para validar la configuración SMTP
+  app.post("/api/email/test", requireAuth, async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+
+      const correo = req.user.correo || req.user.email || null;
+      const { emails, invalid } = parseEmailList(req.body.to || correo);
+      if (invalid.length > 0 || emails.length === 0) return res.status(400).json({ error: "Indica un correo válido para la prueba" });
+
+      const { messageId } = await sendEmail({
+        to: emails,
+        subject: "Prueba de envío de cotizaciones",
+        text: "La configuración SMTP funciona correctamente.",
+      });
+
+      await storage.createAuditLog({
+        correo,
+        action: "Probar envío de correo",
+        details: `Correo de prueba enviado a ${emails.join(", ")} (${messageId})`,
+      });
+
+      res.json({ messageId });
+    } catch (e: any) {
+      res.status(e.status || 502).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/quotes/:id/emails", requireAuth, async (req: any, res) => {
+    try {
+      const quoteId = Number(req.params.id);
+      if (Number.isNaN(quoteId)) {
+        return res.status(400).json({ error: "ID de cotización inválido" });
+      }
+      res.json(await storage.getQuoteEmails(quoteId));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Destinatario, asunto y cuerpo propuestos con la plantilla de la empresa emisora
+  app.get("/api/quotes/:id/email-draft", requireAuth, async (req: any, res) => {
+    try {
+      const quoteId = Number(req.params.id);
+      const quote = Number.isNaN(quoteId) ? undefined : await storage.getQuoteById(quoteId);
+      if (!quote) {
+        return res.status(404).json({ error: "Cotización no encontrada" });
+      }
+
+      const { totalText } = quoteTotalsFromDb(quote, await storage.getQuoteItems(quoteId));
+      const draft = await buildQuoteEmailDraft(quote, req.user.fullName || req.user.correo || "", totalText);
+      res.json({ to: draft.to, subject: draft.subject, body: draft.body });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Envía el PDF final y los anexos; cada intento queda en la bitácora de la cotización
+  app.post("/api/quotes/:id/email", requireAuth, upload.array("annexes", MAX_EMAIL_ANNEXES), async (req: any, res) => {
+    try {
+      const quoteId = Number(req.params.id);
+      if (Number.isNaN(quoteId)) {
+        return res.status(400).json({ error: "ID de cotización inválido" });
+      }
+      if (!getSmtpSettings()) {
+        return res.status(503).json({ error: "El envío de correo no está configurado (SMTP_HOST)" });
+      }
+
+      const { data, error } = parseQuoteEmailInput(req.body);
+      if (error || !data) return res.status(400).json({ error });
+
+      const annexes: Array<{ originalname: string; mimetype: string; size: number; buffer: Buffer }> = req.files || [];
+      const { quote, buffer, filename } = await buildQuotePdf(quoteId);
+      const pdf = Buffer.from(buffer);
+      const annexError = validateEmailAnnexes(annexes, pdf.length);
+      if (annexError) return res.status(400).json({ error: annexError });
+
+      const correo = req.user.correo || req.user.email || null;
+      const { totalText } = quoteTotalsFromDb(quote, await storage.getQuoteItems(quoteId));
+      const draft = await buildQuoteEmailDraft(quote, req.user.fullName || correo || "", totalText);
+      const subject = data.subject || draft.subject;
+      const attachments = [
+        { filename, content: pdf, contentType: "application/pdf" },
+        ...annexes.map(file => ({ filename: file.originalname, content: file.buffer, contentType: file.mimetype })),
+      ];
+      const log = {
+        quoteId,
+        recipients: data.to.join(", "),
+        cc: data.cc.join(", "),
+        subject,
+        attachmentsJson: JSON.stringify(attachments.map(file => file.filename)),
+        correo,
+      };
+
+      let messageId: string;
+      try {
+        ({ messageId } = await sendEmail({
+          to: data.to,
+          cc: data.cc,
+          replyTo: correo,
+          fromName: draft.fromName,
+          subject,
+          text: data.body || draft.body,
+          attachments,
+        }));
+      } catch (sendError: any) {
+        await storage.createQuoteEmail({ ...log, status: "fallido", error: sendError.message });
+        await storage.createAuditLog({
+          correo,
+          action: "Error al enviar cotización por correo",
+          details: `No se pudo enviar la cotización ${quote.internalFolio} a ${log.recipients}: ${sendError.message}`,
+          resourceType: "quote",
+          resourceId: quoteId,
+        });
+        return res.status(sendError.status || 502).json({ error: `No se pudo enviar el correo: ${sendError.message}` });
+      }
+
+      const sent = await storage.createQuoteEmail({ ...log, status: "enviado", messageId });
+      if (!quote.contactEmail) {
+        await storage.updateQuote(quoteId, { contactEmail: data.to[0] });
+      }
+
+      await storage.createAuditLog({
+        correo,
+        action: "Enviar cotización por correo",
+        details: `Se envió la cotización ${quote.internalFolio} a ${log.recipients}${log.cc ? ` (CC ${log.cc})` : ""} con ${attachments.length} adjunto(s)`,
+        resourceType: "quote",
+        resourceId: quoteId,
+      });
+
+      res.status(201).json(sent);
+    } catch (e: any) {
+      res.status(e.status || 500).json({ error: e.message });
+    }
+  });
+
+  // Vista previa del formulario sin guardar: HTML de la plantilla con el membrete incrustado
+  app.post("/api/quotes/preview", requireAuth, async (req: any, res) => {
+    try {
+      const preview = await buildQuotePreview(req.body);
+      if (!preview.data) {
+        return res.status(400).json({ error: preview.error, fieldErrors: preview.fieldErrors });
+      }
+      res.json(preview.data);
+    } catch (e: any) {
+      res.status(e.status || 500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/quotes", requireAuth, async (req: any, res) => {
+    try {
+      const parsed = parseQuoteInput(req.body);
+      if (!parsed.data) {
+        return res.status(400).json({ error: parsed.error, fieldErrors: parsed.fieldErrors });
+      }
+      const input = parsed.data;
+      const { internalFolio, quoteDate, companyOrigin, proposalType, providerId, lineItems } = input;
+      const columns = quoteInputColumns(input);
+
+      // La CLABE se imprime en el PDF; un error de captura se rechaza antes de guardar
+      const bankAccountError = validateClabe(input.bankAccount);
+      if (bankAccountError) {
+        return res.status(400).json({ error: bankAccountError, fieldErrors: { bankAccount: bankAccountError } });
+      }
+
+      // Sin folio capturado se genera el consecutivo; si se captura una reserva, debe seguir disponible
+      const reservation = internalFolio ? await storage.getFolioReservationByFolio(internalFolio) : undefined;
+      if (reservation && (reservation.kind !== "reservado" || reservation.quoteId)) {
+        return res.status(409).json({ error: `El folio ${internalFolio} no está disponible` });
+      }
+
+      const folioCompany = internalFolio ? null : await resolveFolioCompany(companyOrigin);
+      if (!internalFolio && !folioCompany) {
+        return res.status(400).json({ error: "Empresa emisora no válida para generar el folio" });
+      }
+
+      const provider = await storage.getProviderById(providerId);
+      if (!provider) {
+        return res.status(400).json({ error: "El proveedor especificado no existe", fieldErrors: { providerId: "El proveedor especificado no existe" } });
+      }
+
+      const validation = validateQuoteItems(lineItems);
+      if (validation.errors.length > 0) {
+        return res.status(400).json({ error: validation.errors.join("; ") });
+      }
+
+      const clientLink = await resolveQuoteClientLink(req.body);
+      const licitacionId = await resolveQuoteLicitacionId(req.body);
+      const currencyColumns = await resolveQuoteCurrencyColumns(req.body, quoteDate);
+      const pricing = await applyQuotePricing(validation.normalizedItems, { companyOrigin, proposalType, ...currencyColumns }, req.user.isAdmin && req.body.allowLowMargin === true);
+      if (pricing.blockingError) {
+        return res.status(422).json({ error: pricing.blockingError, marginWarnings: pricing.marginWarnings, margins: pricing.margins });
+      }
+      const clauseRefsJson = await freezeQuoteClauseRefs(req.body.clauseRefs, columns, companyOrigin);
+
+      const quote = await storage.createQuote({
+        ...columns,
+        internalFolio: internalFolio || await issueQuoteFolio(folioCompany!, resolveFolioYear(quoteDate), proposalType),
+        destinationCompany: input.destinationCompany,
+        requisitionNumber: input.requisitionNumber,
+        projectTitle: input.projectTitle,
+        quoteDate,
+        commercialTerms: input.commercialTerms,
+        empresaId: columns.empresaId ?? providerId,
+        ...quoteTaxColumns(req.body, proposalType),
+        ...currencyColumns,
+        clauseRefsJson,
+        clientId: clientLink.clientId,
+        clientContactId: clientLink.clientContactId,
+        contactEmail: clientLink.contact?.email ?? "",
+        licitacionId,
+      });
+
+      // Otra cotización pudo tomar la reserva entre la revisión y el guardado
+      if (reservation && !(await storage.assignFolioReservation(reservation.id, quote.id))) {
+        await storage.deleteQuote(quote.id);
+        return res.status(409).json({ error: `El folio ${internalFolio} no está disponible` });
+      }
+
+      const createdItems = [];
+      for (let i = 0; i < pricing.items.length; i++) {
+        const item = pricing.items[i];
+        const rawItem = lineItems[i];
+        const createdItem = await storage.createQuoteItem({
+          quoteId: quote.id,
+          description: item.description,
+          quantity: item.quantity,
+          unit: item.unit,
+          unitMeasure: item.unitMeasure,
+          techRequirements: item.techRequirements,
+          versionReference: item.versionReference,
+          reqDate: rawItem.reqDate,
+          unitPrice: item.unitPriceCents,
+          amount: item.amountCents,
+          supplier: item.supplier,
+          purchaseCost: item.purchaseCost ? String(item.purchaseCost) : "0",
+          profitMargin: item.profitMargin ? String(item.profitMargin) : "0",
+          profitFactor: item.profitFactor ? String(item.profitFactor) : "1",
+          noPartida: rawItem.noPartida,
+          taxExempt: item.taxExempt,
+        });
+        createdItems.push(convertQuoteItemFromDb(createdItem));
+      }
+
+      const savedQuote = (await syncQuoteTotal(quote.id)) ?? quote;
+      await saveQuoteRevision(quote.id, req.user.correo || req.user.email || null, "Versión inicial");
+
+      await storage.createQuoteStatusChange({
+        quoteId: quote.id,
+        fromStatus: null,
+        toStatus: quote.status,
+        correo: req.user.correo || req.user.email || null,
+      });
+
+      const totals = calculateQuoteTotals(pricing.items, parseQuoteTaxSettings(quote), parseQuoteCurrency(quote.currency));
+
+      await storage.createAuditLog({
+        correo: req.user.correo || req.user.email || null,
+        action: "Crear cotización",
+        details: `Se creó la cotización ${quote.internalFolio}`,
+      });
+
+      return res.status(201).json({
+        quote: {
+          ...savedQuote,
+          folio: quote.internalFolio,
+          empresaDestino: quote.destinationCompany,
+          total: totals.total,
+          totalText: totals.totalText,
+          totals,
+        },
+        lineItems: createdItems,
+        margins: pricing.margins,
+        marginWarnings: pricing.marginWarnings,
+      });
+    } catch (e: any) {
+      res.status(e.status || 500).json({ error: e.message });
+    }
+  });
+
+  app.delete("/api/quotes/:id", requireAuth, async (req: any, res) => {
+    try {
+      const quoteId = Number(req.params.id);
+      if (Number.isNaN(quoteId)) {
+        return res.status(400).json({ error: "ID de cotización inválido" });
+      }
+
+      const quote = await storage.getQuoteById(quoteId);
+      if (!quote) {
+        return res.status(404).json({ error: "Cotización no encontrada" });
+      }
+
+      await storage.deleteQuote(quoteId);
+
+      await storage.createAuditLog({
+        correo: req.user.correo || req.user.email || null,
+        action: "Eliminar cotización",
+        details: `Se eliminó la cotización ${quote.internalFolio}`
+      });
+
+      res.status(204).end();
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/quotes/:id/status", requireAuth, async (req: any, res) => {
+    try {
+      const quoteId = Number(req.params.id);
+      if (Number.isNaN(quoteId)) {
+        return res.status(400).json({ error: "ID de cotización inválido" });
+      }
+
+      const nextStatus = (req.body.status || "").toString().trim();
+      const comment = (req.body.comment || "").toString().trim();
+      if (!isQuoteStatus(nextStatus)) {
+        return res.status(400).json({ error: "Estado de cotización inválido" });
+      }
+
+      const quote = await storage.getQuoteById(quoteId);
+      if (!quote) {
+        return res.status(404).json({ error: "Cotización no encontrada" });
+      }
+
+      const fromLabel = QUOTE_STATUS_LABELS[quote.status as QuoteStatus] || quote.status;
+      if (!canTransitionQuoteStatus(quote.status, nextStatus)) {
+        return res.status(409).json({
+          error: `No se permite cambiar la cotización de "${fromLabel}" a "${QUOTE_STATUS_LABELS[nextStatus]}"`
+        });
+      }
+      if (quoteTransitionRequiresAdmin(quote.status, nextStatus) && !req.user.isAdmin) {
+        return res.status(403).json({ error: "Sólo un administrador puede aprobar la cotización o regresarla a borrador" });
+      }
+
+      const updated = await storage.updateQuote(quoteId, { status: nextStatus });
+      const correo = req.user.correo || req.user.email || null;
+      const change = await storage.createQuoteStatusChange({
+        quoteId,
+        fromStatus: quote.status,
+        toStatus: nextStatus,
+        comment,
+        correo,
+      });
+
+      await storage.createAuditLog({
+        correo,
+        action: "Cambiar estado de cotización",
+        resourceType: "quote",
+        resourceId: quoteId,
+        details: `La cotización ${quote.internalFolio} pasó de "${fromLabel}" a "${QUOTE_STATUS_LABELS[nextStatus]}"`,
+      });
+
+      res.json({ quote: updated, change });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/quotes/:id/status-history", requireAuth, async (req: any, res) => {
+    try {
+      const quoteId = Number(req.params.id);
+      if (Number.isNaN(quoteId)) {
+        return res.status(400).json({ error: "ID de cotización inválido" });
+      }
+
+      const quote = await storage.getQuoteById(quoteId);
+      if (!quote) {
+        return res.status(404).json({ error: "Cotización no encontrada" });
+      }
+
+      const history = await storage.getQuoteStatusHistory(quoteId);
+      res.json(history);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/quotes/:id/revisions", requireAuth, async (req: any, res) => {
+    try {
+      const quoteId = Number(req.params.id);
+      if (Number.isNaN(quoteId)) {
+        return res.status(400).json({ error: "ID de cotización inválido" });
+      }
+
+      const revisions = await storage.getQuoteRevisions(quoteId);
+      res.json(revisions.map(revision => {
+        const snapshot = parseRevisionSnapshot(revision.snapshotJson);
+        const { total } = quoteTotalsFromDb(snapshot.quote, snapshot.items);
+        return {
+          id: revision.id,
+          quoteId: revision.quoteId,
+          revisionNumber: revision.revisionNumber,
+          note: revision.note,
+          correo: revision.correo,
+          createdAt: revision.createdAt,
+          itemCount: snapshot.items.length,
+          total,
+        };
+      }));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/quotes/:id/revisions/diff", requireAuth, async (req: any, res) => {
+    try {
+      const quoteId = Number(req.params.id);
+      const fromNumber = Number(req.query.from);
+      const toNumber = Number(req.query.to);
+      if (Number.isNaN(quoteId) || !Number.isInteger(fromNumber) || !Number.isInteger(toNumber)) {
+        return res.status(400).json({ error: "Debe indicar las revisiones a comparar" });
+      }
+
+      const [fromRevision, toRevision] = await Promise.all([
+        storage.getQuoteRevision(quoteId, fromNumber),
+        storage.getQuoteRevision(quoteId, toNumber),
+      ]);
+      if (!fromRevision || !toRevision) {
+        return res.status(404).json({ error: "Revisión no encontrada" });
+      }
+
+      const diff = diffQuoteRevisions(
+        parseRevisionSnapshot(fromRevision.snapshotJson),
+        parseRevisionSnapshot(toRevision.snapshotJson)
+      );
+      res.json({ from: fromNumber, to: toNumber, ...diff });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/quotes/:id/revisions/:revision", requireAuth, async (req: any, res) => {
+    try {
+      const quoteId = Number(req.params.id);
+      const revisionNumber = Number(req.params.revision);
+      if (Number.isNaN(quoteId) || Number.isNaN(revisionNumber)) {
+        return res.status(400).json({ error: "Revisión inválida" });
+      }
+
+      const revision = await storage.getQuoteRevision(quoteId, revisionNumber);
+      if (!revision) {
+        return res.status(404).json({ error: "Revisión no encontrada" });
+      }
+
+      const snapshot = parseRevisionSnapshot(revision.snapshotJson);
+      const totals = quoteTotalsFromDb(snapshot.quote, snapshot.items);
+      res.json({
+        revisionNumber: revision.revisionNumber,
+        note: revision.note,
+        correo: revision.correo,
+        createdAt: revision.createdAt,
+        quote: {
+          ...snapshot.quote,
+          total: totals.total,
+          totalText: totals.totalText,
+          totals,
+        },
+        lineItems: convertQuoteItemsFromDb(snapshot.items),
+      });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/quotes/:id/revisions/:revision/restore", requireAuth, async (req: any, res) => {
+    try {
+      const quoteId = Number(req.params.id);
+      const revisionNumber = Number(req.params.revision);
+      if (Number.isNaN(quoteId) || Number.isNaN(revisionNumber)) {
+        return res.status(400).json({ error: "Revisión inválida" });
+      }
+
+      const quote = await storage.getQuoteById(quoteId);
+      if (!quote) {
+        return res.status(404).json({ error: "Cotización no encontrada" });
+      }
+      if (!EDITABLE_QUOTE_STATUSES.includes(quote.status as QuoteStatus)) {
+        const label = QUOTE_STATUS_LABELS[quote.status as QuoteStatus] || quote.status;
+        return res.status(409).json({ error: `La cotización está en estado "${label}" y no puede modificarse. Regrésela a borrador para restaurar una revisión.` });
+      }
+
+      const revision = await storage.getQuoteRevision(quoteId, revisionNumber);
+      if (!revision) {
+        return res.status(404).json({ error: "Revisión no encontrada" });
+      }
+
+      // Misma validación y valuación que una edición: CLABE, partidas y margen mínimo
+      const snapshot = parseRevisionSnapshot(revision.snapshotJson);
+      await updateQuoteFromPayload(quote, quotePayloadFromSnapshot(snapshot), req.user.isAdmin && req.body?.allowLowMargin === true);
+
+      const correo = req.user.correo || req.user.email || null;
+      const restored = await saveQuoteRevision(quoteId, correo, `Restaurada desde la revisión ${revisionNumber}`);
+
+      await storage.createAuditLog({
+        correo,
+        action: "Restaurar revisión de cotización",
+        resourceType: "quote",
+        resourceId: quoteId,
+        details: `Se restauró la revisión ${revisionNumber} de la cotización ${quote.internalFolio}`,
+      });
+
+      res.json({ revisionNumber: restored?.revisionNumber, restoredFrom: revisionNumber });
+    } catch (e: any) {
+      res.status(e.status || 500).json({ error: e.message, ...(e instanceof QuoteUpdateError ? e.details : {}) });
+    }
+  });
+
+  // Renueva la vigencia con la fecha de hoy y deja una revisión con el cambio
+  app.post("/api/quotes/:id/renew-validity", requireAuth, async (req: any, res) => {
+    try {
+      const quoteId = Number(req.params.id);
+      if (Number.isNaN(quoteId)) {
+        return res.status(400).json({ error: "ID de cotización inválido" });
+      }
+
+      const quote = await storage.getQuoteById(quoteId);
+      if (!quote) {
+        return res.status(404).json({ error: "Cotización no encontrada" });
       }
-
-      if (!quote.providerId) {
-        return res.status(404).json({ error: "Proveedor no encontrado" });
+      if (!EXPIRY_TRACKED_QUOTE_STATUSES.includes(quote.status as QuoteStatus)) {
+        const label = QUOTE_STATUS_LABELS[quote.status as QuoteStatus] || quote.status;
+        return res.status(409).json({ error: `La cotización está en estado "${label}" y ya no tiene vigencia que renovar.` });
       }
-      const provider = await storage.getProviderById(Number(quote.providerId));
-      if (!provider) {
-        return res.status(404).json({ error: "Proveedor no encontrado" });
+      // Una cotización aprobada o enviada ya es un documento emitido: la nueva fecha pasa otra vez por revisión
+      if (!canRenewQuoteValidity(quote.status, req.user.isAdmin)) {
+        return res.status(403).json({ error: "Sólo un administrador puede renovar una cotización aprobada o enviada" });
       }
 
-      const rawItems = await storage.getQuoteItems(quoteId);
-      const lineItems = convertQuoteItemsFromDb(rawItems);
-
-      const totalCents = rawItems.reduce((sum: number, item: any) => sum + Number(item.amount || 0), 0);
-      const totalText = amountToSpanishText(fromCents(totalCents));
-
-      const quoteWithText = {
-        ...quote,
-        folio: quote.internalFolio,
-        destinationCompany: quote.destinationCompany,
-        totalText: totalText,
-        parsedGuarantees: parsedGuarantees, 
-        parsedObjetos: parsedObjetos, // 🚀 COMA AÑADIDA AQUÍ
-        
-        // 🚀 USAMOS LA VARIABLE quote as any PARA EVITAR EL ERROR DE PROPIEDAD
-        deliveryLocations: safeParse((quote as any).deliveryLocationsJson),
-        partidaDescriptionItems: safeParse((quote as any).partidaDescriptionItemsJson || (quote as any).partidaDescriptionItems),
-        selectedDeliveryClauses: safeParse((quote as any).selectedDeliveryClausesJson)
-      };
+      const { data, error } = parseQuoteRenewal(quote, req.body);
+      if (error || !data) return res.status(400).json({ error });
+
+      // En dólares se consulta el tipo de cambio DOF de la nueva fecha y se vuelven a valuar las partidas
+      const usesUsd = quote.currency !== "MXN" || quote.costCurrency !== "MXN";
+      const { quote: updated } = await updateQuoteFromPayload(quote, {
+        ...data,
+        ...(usesUsd ? {
+          currency: quote.currency,
+          costCurrency: quote.costCurrency,
+          lineItems: convertQuoteItemsFromDb(quoteItemsInCaptureOrder(await storage.getQuoteItems(quoteId))),
+        } : {}),
+      }, req.user.isAdmin && req.body?.allowLowMargin === true);
+      const correo = req.user.correo || req.user.email || null;
+      const revision = await saveQuoteRevision(quoteId, correo, `Vigencia renovada (antes ${quote.quoteDate}, ${quote.validityDays} días)`);
+
+      let renewed = updated;
+      let change = null;
+      const nextStatus = quoteStatusAfterRenewal(quote.status as QuoteStatus);
+      if (nextStatus !== quote.status) {
+        renewed = (await storage.updateQuote(quoteId, { status: nextStatus })) ?? updated;
+        change = await storage.createQuoteStatusChange({
+          quoteId,
+          fromStatus: quote.status,
+          toStatus: nextStatus,
+          comment: `Vigencia renovada al ${data.quoteDate}`,
+          correo,
+        });
+      }
 
-      console.log("[PDF-HERMAL-Bienes] Preparando plantilla y PDF", {
-        quoteId,
-        provider: provider?.companyName,
-        proposalType: quote?.proposalType,
-        itemCount: lineItems?.length,
+      await storage.createAuditLog({
+        correo,
+        action: "Renovar vigencia de cotización",
+        resourceType: "quote",
+        resourceId: quoteId,
+        details: `La cotización ${quote.internalFolio} se fechó el ${data.quoteDate} con ${data.validityDays} días de vigencia`
+          + (change ? ` y pasó de "${QUOTE_STATUS_LABELS[quote.status as QuoteStatus]}" a "${QUOTE_STATUS_LABELS[nextStatus]}"` : ""),
       });
 
-      const pdfBuffer = await generateQuotePdfBuffer(quoteWithText, provider, lineItems);
-      const filename = buildQuotePdfFileName(quoteWithText);
-
-      res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      
-      res.send(Buffer.from(pdfBuffer));
-
-      await storage.createAuditLog({
-        correo: req.user.correo || req.user.email || null,
-        action: "Generar PDF de cotización",
-        details: `Se generó el PDF para la cotización ${quote.internalFolio}`
-      });
-    } catch (e: any) {
-      res.status(500).json({ error: e.message });
-    }
-  });
+      res.json({ quote: renewed, change, expiry: computeQuoteExpiry(renewed), revisionNumber: revision?.revisionNumber });
+    } catch (e: any) {
+      res.status(e.status || 500).json({ error: e.message, ...(e instanceof QuoteUpdateError ? e.details : {}) });
+    }
+  });
 
-  app.post("/api/quotes", requireAuth, async (req: any, res) => {
-    try {
-      const internalFolio = (req.body.internalFolio || req.body.folio || "").toString().trim();
-      const destinationCompany = (req.body.destinationCompany || req.body.empresaDestino || "").toString().trim();
-      const requisitionNumber = (req.body.requisitionNumber || req.body.requisicion || "").toString().trim();
-      const projectTitle = (req.body.projectTitle || req.body.proyecto || "").toString().trim();
-      const quoteDate = (req.body.quoteDate || req.body.fecha || "").toString().trim();
-      const commercialTerms = (req.body.commercialTerms || req.body.condiciones || "").toString().trim();
-      const validityDaysRaw = Number(req.body.validityDays ?? req.body.diasValidez ?? 120);
-      const paymentDaysRaw = Number(req.body.paymentDays ?? req.body.diasPago ?? 0);
-      const deliveryTime = (req.body.deliveryTime || req.body.tiempoEntrega || "").toString().trim();
-      const manufacturingTime = (req.body.manufacturingTime || req.body.tiempoFabricacion || "").toString().trim();
-      const guaranteeMonthsRaw = Number(req.body.guaranteeMonths ?? req.body.garantiaMeses ?? 0);
-      const compliancePercentageRaw = Number(req.body.compliancePercentage ?? req.body.porcentajeCumplimiento ?? 0);
-      const deliveryPlace = (req.body.deliveryPlace || req.body.lugarEntrega || "").toString().trim();
-      
-      const contactPerson = (req.body.contactPerson || req.body.contacto || req.body.personaContacto || req.body.attnNombre || req.body.nombre || "").toString().trim();
-      
-      const providerId = Number(req.body.providerId || req.body.proveedorId);
-      const lineItems = Array.isArray(req.body.lineItems || req.body.partidas) ? (req.body.lineItems || req.body.partidas) : [];
-
-      const goodsOrigin = (req.body.goodsOrigin || "").toString().trim();
-      const providerNationality = (req.body.providerNationality || "").toString().trim();
-      const complianceWarranty = Number(req.body.complianceWarranty) || 0;
-      const experienceYears = Number(req.body.experienceYears) || 0;
-      const specialtyYears = Number(req.body.specialtyYears) || 0;
-      const similarContracts = Number(req.body.similarContracts) || 0;
-      const bankName = (req.body.bankName || "").toString().trim();
-      const bankAccount = (req.body.bankAccount || "").toString().trim();
-      const bankBeneficiary = (req.body.bankBeneficiary || "").toString().trim();
-
-      const empresaId = req.body.empresaId ? Number(req.body.empresaId) : providerId;
-      const templateName = (req.body.templateName || "azal_official").toString().trim();
-      const companyOrigin = (req.body.companyOrigin || "AZAL").toString().trim();
-      const proposalType = (req.body.proposalType || "bienes").toString().trim();
-
-      const attnDia = (req.body.attnDia || "").toString().trim();
-      const attnMes = (req.body.attnMes || "").toString().trim();
-      const attnAnio = (req.body.attnAnio || "").toString().trim();
-      const attnLugar = (req.body.attnLugar || "").toString().trim();
-      const attnGrado = (req.body.attnGrado || "").toString().trim();
-      const attnNombre = (req.body.attnNombre || "").toString().trim();
-      const attnDependencia = (req.body.attnDependencia || "").toString().trim();
-      const attnArea = (req.body.attnArea || "").toString().trim();
-      const attnUbicacion = (req.body.attnUbicacion || "").toString().trim();
-      const attnDireccion = (req.body.attnDireccion || "").toString().trim();
-      const attnCargo = (req.body.attnCargo || "").toString().trim();
-      const attnContacto = (req.body.attnContacto || "").toString().trim();
-      const paymentTerms = (req.body.paymentTerms || "").toString().trim();
-      const hasManufacturingTime = req.body.hasManufacturingTime === true || req.body.hasManufacturingTime === "true";
-      const deliverySingleVal = req.body.deliverySingle !== false && req.body.deliverySingle !== "false";
-      
-      const deliveryLocationsJson = JSON.stringify(Array.isArray(req.body.deliveryLocations) ? req.body.deliveryLocations : []);
-      const partidaDescriptionItemsJson = JSON.stringify(Array.isArray(req.body.partidaDescriptionItems) ? req.body.partidaDescriptionItems : []);
-      const qualityGuaranteesJson = JSON.stringify(Array.isArray(req.body.qualityGuarantees) ? req.body.qualityGuarantees : []);
-      const selectedSocialObjectsJson = JSON.stringify(Array.isArray(req.body.selectedSocialObjects) ? req.body.selectedSocialObjects : []);
-      
-      const deliveryDatesJson = JSON.stringify(Array.isArray(req.body.deliveryDates) ? req.body.deliveryDates : []);
-      const deliveryConditionsJson = JSON.stringify(Array.isArray(req.body.deliveryConditions) ? req.body.deliveryConditions : []);
-      const selectedDeliveryClausesJson = JSON.stringify(Array.isArray(req.body.selectedDeliveryClauses) ? req.body.selectedDeliveryClauses : []);
-      const requiredDocumentsJson = JSON.stringify(Array.isArray(req.body.requiredDocuments) ? req.body.requiredDocuments : []);
-      const normsTableJson = JSON.stringify(Array.isArray(req.body.normsTable) ? req.body.normsTable : []);
-      const serviceNormsTableJson = JSON.stringify(Array.isArray(req.body.serviceNormsTable) ? req.body.serviceNormsTable : []);
-
-      const hasRegionalMilitary = req.body.hasRegionalMilitary === true || req.body.hasRegionalMilitary === "true";
-      const warrantyPercentageApplies = req.body.warrantyPercentageApplies === true || req.body.warrantyPercentageApplies === "true";
-      const warrantyPercentage = Number(req.body.warrantyPercentage) || 0;
-      const deliveryNotes = (req.body.deliveryNotes || "").toString().trim();
-
-      const validityDays = Number.isFinite(validityDaysRaw) && Number.isInteger(validityDaysRaw) && validityDaysRaw > 0 ? validityDaysRaw : 120;
-      const paymentDays = Number.isFinite(paymentDaysRaw) && Number.isInteger(paymentDaysRaw) && paymentDaysRaw >= 0 ? paymentDaysRaw : 0;
-      const guaranteeMonths = Number.isFinite(guaranteeMonthsRaw) && Number.isInteger(guaranteeMonthsRaw) && guaranteeMonthsRaw >= 0 ? guaranteeMonthsRaw : 0;
-      const compliancePercentage = Number.isFinite(compliancePercentageRaw) && compliancePercentageRaw >= 0 ? compliancePercentageRaw : 0;
-
-      if (!internalFolio || Number.isNaN(providerId)) {
-        return res.status(400).json({ error: "Todos los campos principales de la cotización son requeridos." });
-      }
+  app.post("/api/quotes/:id/clone", requireAuth, async (req: any, res) => {
+    try {
+      const quoteId = Number(req.params.id);
+      if (Number.isNaN(quoteId)) {
+        return res.status(400).json({ error: "ID de cotización inválido" });
+      }
 
-      const provider = await storage.getProviderById(providerId);
-      if (!provider) {
-        return res.status(400).json({ error: "El proveedor especificado no existe" });
-      }
+      const source = await storage.getQuoteById(quoteId);
+      if (!source) {
+        return res.status(404).json({ error: "Cotización no encontrada" });
+      }
 
-      const validation = validateQuoteItems(lineItems);
-      if (validation.errors.length > 0) {
-        return res.status(400).json({ error: validation.errors.join("; ") });
-      }
+      const target = resolveQuoteCloneTarget(source, req.body || {});
+      const folioCompany = await resolveFolioCompany(target.companyOrigin);
+      if (!folioCompany) {
+        return res.status(400).json({ error: "Empresa emisora no válida para generar el folio" });
+      }
 
-      const quote = await storage.createQuote({
-        internalFolio,
-        destinationCompany,
-        requisitionNumber,
-        projectTitle,
-        quoteDate,
-        commercialTerms,
-        validityDays,
-        paymentDays,
-        deliveryTime,
-        manufacturingTime,
-        guaranteeMonths,
-        compliancePercentage: compliancePercentage.toFixed(2),
-        deliveryPlace,
-        contactPerson,
-        providerId,
-        goodsOrigin,
-        providerNationality,
-        complianceWarranty,
-        experienceYears,
-        specialtyYears,
-        similarContracts,
-        bankName,
-        bankAccount,
-        bankBeneficiary,
-        empresaId,
-        templateName,
-        companyOrigin,
-        proposalType,
-        attnDia,
-        attnMes,
-        attnAnio,
-        attnLugar,
-        attnGrado,
-        attnArea,
-        attnUbicacion,
-        attnDireccion,
-        attnCargo,
-        attnContacto,
-        paymentTerms,
-        hasManufacturingTime,
-        deliverySingle: deliverySingleVal,
-        deliveryLocationsJson,
-        partidaDescriptionItemsJson,
-        qualityGuaranteesJson,
-        selectedSocialObjectsJson,
-        deliveryDatesJson,
-        deliveryConditionsJson,
-        selectedDeliveryClausesJson,
-        requiredDocumentsJson,
-        normsTableJson,
-        serviceNormsTableJson,
-        hasRegionalMilitary,
-        warrantyPercentageApplies,
-        warrantyPercentage: warrantyPercentage.toFixed(2),
-        deliveryNotes,
-      });
+      const quoteDate = todayIso();
+      // Con la fecha de hoy también cambia el tipo de cambio DOF de las cotizaciones en dólares
+      const currencyColumns = await resolveQuoteCurrencyColumns({ currency: source.currency, costCurrency: source.costCurrency }, quoteDate);
+      const internalFolio = await issueQuoteFolio(folioCompany, resolveFolioYear(quoteDate), target.proposalType);
+      const quote = await storage.createQuote(buildQuoteClone(source, { ...target, companyOrigin: folioCompany }, internalFolio, quoteDate, currencyColumns));
 
+      const sourceItems = await storage.getQuoteItems(quoteId);
       const createdItems = [];
-      for (let i = 0; i < validation.normalizedItems.length; i++) {
-        const item = validation.normalizedItems[i];
-        const rawItem = lineItems[i];
-        const createdItem = await storage.createQuoteItem({
-          quoteId: quote.id,
-          description: item.description,
-          quantity: item.quantity,
-          unit: item.unit,
-          unitMeasure: item.unitMeasure,
-          techRequirements: item.techRequirements,
-          versionReference: item.versionReference,
-          reqDate: (rawItem.reqDate || "").toString().trim(),
-          unitPrice: item.unitPriceCents,
-          amount: item.amountCents,
-          supplier: item.supplier,
-          purchaseCost: item.purchaseCost ? String(item.purchaseCost) : "0",
-          profitMargin: item.profitMargin ? String(item.profitMargin) : "0",
-          profitFactor: item.profitFactor ? String(item.profitFactor) : "1",
-          noPartida: (rawItem.noPartida || "").toString().trim(),
-        });
-        createdItems.push(convertQuoteItemFromDb(createdItem));
+      for (const item of buildQuoteItemClones(sourceItems, quote.id, quoteCostContext(currencyColumns))) {
+        createdItems.push(await storage.createQuoteItem(item));
       }
-
-      const total = fromCents(validation.totalCents);
+      const savedQuote = (await syncQuoteTotal(quote.id)) ?? quote;
+
+      const correo = req.user.correo || req.user.email || null;
+      await saveQuoteRevision(quote.id, correo, `Duplicada de ${source.internalFolio}`);
+      await storage.createQuoteStatusChange({
+        quoteId: quote.id,
+        fromStatus: null,
+        toStatus: quote.status,
+        correo,
+      });
 
       await storage.createAuditLog({
-        correo: req.user.correo || req.user.email || null,
-        action: "Crear cotización",
-        details: `Se creó la cotización ${quote.internalFolio}`,
+        correo,
+        action: "Duplicar cotización",
+        resourceType: "quote",
+        resourceId: quote.id,
+        details: `Se duplicó la cotización ${source.internalFolio} como ${quote.internalFolio}`,
       });
 
-      return res.status(201).json({
+      const totals = quoteTotalsFromDb(savedQuote, createdItems);
+      res.status(201).json({
         quote: {
-          ...quote,
+          ...savedQuote,
           folio: quote.internalFolio,
           empresaDestino: quote.destinationCompany,
-          total,
-          totalText: amountToSpanishText(total),
+          total: totals.total,
+          totalText: totals.totalText,
+          totals,
         },
-        lineItems: createdItems,
+        lineItems: convertQuoteItemsFromDb(createdItems),
       });
     } catch (e: any) {
-      res.status(500).json({ error: e.message });
+      res.status(e.status || 500).json({ error: e.message });
     }
   });
 
-  app.delete("/api/quotes/:id", requireAuth, async (req: any, res) => {
-    try {
-      const quoteId = Number(req.params.id);
-      if (Number.isNaN(quoteId)) {
-        return res.status(400).json({ error: "ID de cotización inválido" });
-      }
-
-      const quote = await storage.getQuoteById(quoteId);
-      if (!quote) {
-        return res.status(404).json({ error: "Cotización no encontrada" });
-      }
-
-      await storage.deleteQuote(quoteId);
-
-      await storage.createAuditLog({
-        correo: req.user.correo || req.user.email || null,
-        action: "Eliminar cotización",
-        details: `Se eliminó la cotización ${quote.internalFolio}`
-      });
-
-      res.status(204).end();
-    } catch (e: any) {
-      res.status(500).json({ error: e.message });
-    }
-  });
-
   app.patch("/api/quotes/:id", requireAuth, async (req: any, res) => {
     try {
       const quoteId = Number(req.params.id);
@@ -1136,215 +2413,20 @@ export async function registerRoutes(app: Express, httpServer: Server): Promise<
         return res.status(400).json({ error: "ID de cotización inválido" });
       }
 
-      const existing = await storage.getQuoteById(quoteId);
-      if (!existing) {
-        return res.status(404).json({ error: "Cotización no encontrada" });
-      }
-
-      const destinationCompany = (req.body.destinationCompany || existing.destinationCompany).toString().trim();
-      const requisitionNumber = (req.body.requisitionNumber || existing.requisitionNumber).toString().trim();
-      const projectTitle = (req.body.projectTitle || existing.projectTitle).toString().trim();
-      const quoteDate = (req.body.quoteDate || existing.quoteDate).toString().trim();
-      const commercialTerms = (req.body.commercialTerms || existing.commercialTerms).toString().trim();
-      const validityDaysRaw = Number(req.body.validityDays ?? existing.validityDays);
-      const paymentDaysRaw = Number(req.body.paymentDays ?? existing.paymentDays);
-      const deliveryTime = (req.body.deliveryTime ?? existing.deliveryTime ?? "").toString().trim();
-      const manufacturingTime = (req.body.manufacturingTime ?? existing.manufacturingTime ?? "").toString().trim();
-      const guaranteeMonthsRaw = Number(req.body.guaranteeMonths ?? existing.guaranteeMonths ?? 0);
-      const compliancePercentageRaw = Number(req.body.compliancePercentage ?? existing.compliancePercentage ?? 0);
-      const deliveryPlace = (req.body.deliveryPlace || existing.deliveryPlace || "").toString().trim();
-      
-      // 🚀 AQUÍ ESTÁ LA MAGIA 2: Hacemos lo mismo para el PATCH
-      const contactPerson = (req.body.contactPerson || req.body.attnNombre || req.body.nombre || existing.contactPerson || "").toString().trim();
-      
-      const providerId = Number(req.body.providerId ?? existing.providerId);
-      const goodsOrigin = (req.body.goodsOrigin ?? existing.goodsOrigin ?? "").toString().trim();
-      const providerNationality = (req.body.providerNationality ?? existing.providerNationality ?? "").toString().trim();
-      const complianceWarranty = Number(req.body.complianceWarranty ?? existing.complianceWarranty) || 0;
-      const experienceYears = Number(req.body.experienceYears ?? existing.experienceYears) || 0;
-      const specialtyYears = Number(req.body.specialtyYears ?? existing.specialtyYears) || 0;
-      const similarContracts = Number(req.body.similarContracts ?? existing.similarContracts) || 0;
-      const bankName = (req.body.bankName ?? existing.bankName ?? "").toString().trim();
-      const bankAccount = (req.body.bankAccount ?? existing.bankAccount ?? "").toString().trim();
-      const bankBeneficiary = (req.body.bankBeneficiary ?? existing.bankBeneficiary ?? "").toString().trim();
-      const empresaId = Number(req.body.empresaId ?? existing.empresaId ?? existing.providerId);
-      const templateName = (req.body.templateName || existing.templateName || "azal_official").toString().trim();
-      const companyOrigin = (req.body.companyOrigin || existing.companyOrigin || "AZAL").toString().trim();
-      const proposalType = (req.body.proposalType || existing.proposalType || "bienes").toString().trim();
-
-      const attnDia = (req.body.attnDia ?? existing.attnDia ?? "").toString().trim();
-      const attnMes = (req.body.attnMes ?? existing.attnMes ?? "").toString().trim();
-      const attnAnio = (req.body.attnAnio ?? existing.attnAnio ?? "").toString().trim();
-      const attnLugar = (req.body.attnLugar ?? existing.attnLugar ?? "").toString().trim();
-      const attnGrado = (req.body.attnGrado ?? existing.attnGrado ?? "").toString().trim();
-      const attnArea = (req.body.attnArea ?? existing.attnArea ?? "").toString().trim();
-      const attnUbicacion = (req.body.attnUbicacion ?? existing.attnUbicacion ?? "").toString().trim();
-      const attnDireccion = (req.body.attnDireccion ?? existing.attnDireccion ?? "").toString().trim();
-      const attnCargo = (req.body.attnCargo ?? existing.attnCargo ?? "").toString().trim();
-      const attnContacto = (req.body.attnContacto ?? existing.attnContacto ?? "").toString().trim();
-      const paymentTerms = (req.body.paymentTerms ?? existing.paymentTerms ?? "").toString().trim();
-      const hasManufacturingTime = req.body.hasManufacturingTime !== undefined
-        ? (req.body.hasManufacturingTime === true || req.body.hasManufacturingTime === "true")
-        : (existing.hasManufacturingTime ?? false);
-      const deliverySingleVal = req.body.deliverySingle !== undefined
-        ? (req.body.deliverySingle !== false && req.body.deliverySingle !== "false")
-        : (existing.deliverySingle ?? true);
-      const deliveryLocationsJson = Array.isArray(req.body.deliveryLocations)
-        ? JSON.stringify(req.body.deliveryLocations)
-        : (existing.deliveryLocationsJson ?? "[]");
-      const partidaDescriptionItemsJson = Array.isArray(req.body.partidaDescriptionItems)
-        ? JSON.stringify(req.body.partidaDescriptionItems)
-        : ((existing as any).partidaDescriptionItemsJson ?? "[]");
-      const qualityGuaranteesJson = Array.isArray(req.body.qualityGuarantees)
-        ? JSON.stringify(req.body.qualityGuarantees)
-        : (existing.qualityGuaranteesJson ?? "[]");
-      const selectedSocialObjectsJson = Array.isArray(req.body.selectedSocialObjects)
-        ? JSON.stringify(req.body.selectedSocialObjects)
-        : (existing.selectedSocialObjectsJson ?? "[]");
-      const deliveryDatesJson = Array.isArray(req.body.deliveryDates)
-        ? JSON.stringify(req.body.deliveryDates)
-        : (existing.deliveryDatesJson ?? "[]");
-      const deliveryConditionsJson = Array.isArray(req.body.deliveryConditions)
-        ? JSON.stringify(req.body.deliveryConditions)
-        : (existing.deliveryConditionsJson ?? "[]");
-      const selectedDeliveryClausesJson = Array.isArray(req.body.selectedDeliveryClauses)
-        ? JSON.stringify(req.body.selectedDeliveryClauses)
-        : (existing.selectedDeliveryClausesJson ?? "[]");
-      const requiredDocumentsJson = Array.isArray(req.body.requiredDocuments)
-        ? JSON.stringify(req.body.requiredDocuments)
-        : (existing.requiredDocumentsJson ?? "[]");
-      const normsTableJson = Array.isArray(req.body.normsTable)
-        ? JSON.stringify(req.body.normsTable)
-        : (existing.normsTableJson ?? "[]");
-      const serviceNormsTableJson = Array.isArray(req.body.serviceNormsTable)
-        ? JSON.stringify(req.body.serviceNormsTable)
-        : (existing.serviceNormsTableJson ?? "[]");
-
-      const hasRegionalMilitary = req.body.hasRegionalMilitary !== undefined
-        ? (req.body.hasRegionalMilitary === true || req.body.hasRegionalMilitary === "true")
-        : (existing.hasRegionalMilitary ?? false);
-      const warrantyPercentageApplies = req.body.warrantyPercentageApplies !== undefined
-        ? (req.body.warrantyPercentageApplies === true || req.body.warrantyPercentageApplies === "true")
-        : (existing.warrantyPercentageApplies ?? false);
-      const warrantyPercentage = req.body.warrantyPercentage !== undefined
-        ? Number(req.body.warrantyPercentage) || 0
-        : Number(existing.warrantyPercentage) || 0;
-      const deliveryNotes = req.body.deliveryNotes !== undefined
-        ? (req.body.deliveryNotes || "").toString().trim()
-        : (existing.deliveryNotes ?? "");
-
-        
-
-      const lineItemsRaw = Array.isArray(req.body.lineItems) ? req.body.lineItems : [];
-
-      if (Number.isNaN(providerId)) {
-        return res.status(400).json({ error: "Todos los campos principales de la cotización son requeridos." });
-      }
-
-      const validityDays = Number.isFinite(validityDaysRaw) && validityDaysRaw > 0 ? Math.round(validityDaysRaw) : 120;
-      const paymentDays = Number.isFinite(paymentDaysRaw) && paymentDaysRaw >= 0 ? Math.round(paymentDaysRaw) : 0;
-      const guaranteeMonths = Number.isFinite(guaranteeMonthsRaw) && guaranteeMonthsRaw >= 0 ? Math.round(guaranteeMonthsRaw) : 0;
-      const compliancePercentage = Number.isFinite(compliancePercentageRaw) && compliancePercentageRaw >= 0 ? compliancePercentageRaw : 0;
-
-      await storage.updateQuote(quoteId, {
-        destinationCompany,
-        requisitionNumber,
-        projectTitle,
-        quoteDate,
-        commercialTerms,
-        validityDays,
-        paymentDays,
-        deliveryTime,
-        manufacturingTime,
-        guaranteeMonths,
-        compliancePercentage: compliancePercentage.toFixed(2),
-        deliveryPlace,
-        contactPerson,
-        providerId,
-        goodsOrigin,
-        providerNationality,
-        complianceWarranty,
-        experienceYears,
-        specialtyYears,
-        similarContracts,
-        bankName,
-        bankAccount,
-        bankBeneficiary,
-        empresaId,
-        templateName,
-        companyOrigin,
-        proposalType,
-        attnDia,
-        attnMes,
-        attnAnio,
-        attnLugar,
-        attnGrado,
-        attnArea,
-        attnUbicacion,
-        attnDireccion,
-        attnCargo,
-        attnContacto,
-        paymentTerms,
-        hasManufacturingTime,
-        deliverySingle: deliverySingleVal,
-        deliveryLocationsJson,
-        partidaDescriptionItemsJson,
-        qualityGuaranteesJson,
-        selectedSocialObjectsJson,
-        deliveryDatesJson,
-        deliveryConditionsJson,
-        selectedDeliveryClausesJson,
-        requiredDocumentsJson,
-        normsTableJson,
-        serviceNormsTableJson,
-        hasRegionalMilitary,
-        warrantyPercentageApplies,
-        warrantyPercentage: warrantyPercentage.toFixed(2),
-        deliveryNotes,
-      });
-
-      let resultItems: any[] = [];
-      let totalCents = 0;
-
-      if (lineItemsRaw.length > 0) {
-        const validation = validateQuoteItems(lineItemsRaw);
-        if (validation.errors.length > 0) {
-          return res.status(400).json({ error: validation.errors.join("; ") });
-        }
-        totalCents = validation.totalCents;
-
-        await storage.deleteQuoteItems(quoteId);
-
-        for (let i = 0; i < validation.normalizedItems.length; i++) {
-          const item = validation.normalizedItems[i];
-          const rawItem = lineItemsRaw[i];
-          const created = await storage.createQuoteItem({
-            quoteId,
-            description: item.description,
-            quantity: item.quantity,
-            unit: item.unit,
-            unitMeasure: item.unitMeasure,
-            techRequirements: item.techRequirements,
-            versionReference: item.versionReference,
-            reqDate: (rawItem.reqDate || "").toString().trim(),
-            unitPrice: item.unitPriceCents,
-            amount: item.amountCents,
-            supplier: item.supplier,
-            purchaseCost: item.purchaseCost ? String(item.purchaseCost) : "0",
-            profitMargin: item.profitMargin ? String(item.profitMargin) : "0",
-            profitFactor: item.profitFactor ? String(item.profitFactor) : "1",
-            noPartida: (rawItem.noPartida || "").toString().trim(),
-          });
-          resultItems.push(convertQuoteItemFromDb(created));
-        }
-      } else {
-        const rawItems = await storage.getQuoteItems(quoteId);
-        resultItems = convertQuoteItemsFromDb(rawItems);
-        totalCents = rawItems.reduce((sum: number, item: any) => sum + Number(item.amount || 0), 0);
-      }
+      const existing = await storage.getQuoteById(quoteId);
+      if (!existing) {
+        return res.status(404).json({ error: "Cotización no encontrada" });
+      }
+      if (!EDITABLE_QUOTE_STATUSES.includes(existing.status as QuoteStatus)) {
+        const label = QUOTE_STATUS_LABELS[existing.status as QuoteStatus] || existing.status;
+        return res.status(409).json({ error: `La cotización está en estado "${label}" y no puede modificarse. Regrésela a borrador para editarla.` });
+      }
 
-      const total = fromCents(totalCents);
-      const updatedQuote = await storage.getQuoteById(quoteId);
+      const { quote: updatedQuote, items: savedItems, pricing } = await updateQuoteFromPayload(
+        existing, req.body, req.user.isAdmin && req.body.allowLowMargin === true);
+      const totals = quoteTotalsFromDb(updatedQuote, savedItems);
+      const margins = pricing?.margins ?? summarizeQuoteMargins(marginLinesFromDb(savedItems), quoteCostContext(updatedQuote));
+      await saveQuoteRevision(quoteId, req.user.correo || req.user.email || null);
 
       await storage.createAuditLog({
         correo: req.user.correo || req.user.email || null,
@@ -1355,41 +2437,47 @@ export async function registerRoutes(app: Express, httpServer: Server): Promise<
       return res.status(200).json({
         quote: {
           ...updatedQuote,
-          folio: updatedQuote?.internalFolio,
-          empresaDestino: updatedQuote?.destinationCompany,
-          total,
-          totalText: amountToSpanishText(total),
+          folio: updatedQuote.internalFolio,
+          empresaDestino: updatedQuote.destinationCompany,
+          total: totals.total,
+          totalText: totals.totalText,
+          totals,
         },
-        lineItems: resultItems,
-      });
-    } catch (e: any) {
-      res.status(500).json({ error: e.message });
+        lineItems: convertQuoteItemsFromDb(savedItems),
+        margins,
+        marginWarnings: pricing?.marginWarnings ?? [],
+      });
+    } catch (e: any) {
+      res.status(e.status || 500).json({ error: e.message, ...(e instanceof QuoteUpdateError ? e.details : {}) });
     }
   });
 
   app.get("/api/templates/:empresa", requireAuth, async (req, res) => {
     try {
-      const empresaKey = req.params.empresa.toUpperCase().trim();
-      const config = TEMPLATE_CONFIGS[empresaKey];
+      const empresaKey = normalizeCompanyCode(req.params.empresa);
+      const company = await storage.getCompanyByCode(empresaKey);
 
-      if (!config) {
-        return res.status(404).json({ 
-          error: `La empresa '${empresaKey}' no se encuentra registrada en el clúster dinámico de plantillas.` 
-        });
-      }
+      if (!company || !company.isActive) {
+        return res.status(404).json({ 
+          error: `La empresa '${empresaKey}' no se encuentra registrada en el clúster dinámico de plantillas.` 
+        });
+      }
 
-      return res.json({
-        empresa: empresaKey,
-        template_name: config.templateName,
-        config: {
-          header: true,
-          footer: true,
-          colors: {
-            primary: config.primaryColor
-          },
-          friendlyName: config.friendlyName
-        }
-      });
+      const branding = toCompanyResponse(company);
+      return res.json({
+        empresa: company.code,
+        template_name: company.templateKey,
+        config: {
+          header: branding.hasHeaderImage || branding.hasLogoImage,
+          footer: branding.hasFooterImage || !!company.footerText || company.showPageNumbers,
+          colors: {
+            primary: company.primaryColor
+          },
+          friendlyName: company.friendlyName,
+          legalName: company.legalName,
+          rfc: company.rfc
+        }
+      });
     } catch (e: any) {
       res.status(500).json({ error: e.message });
     }
@@ -2052,23 +3140,264 @@ export async function registerRoutes(app: Express, httpServer: Server): Promise<
     }
   });
 
-  // --- LICITACIONES ---
-  app.get("/api/licitaciones", async (_req, res) => {
-    const lista = await storage.getLicitaciones();
-    res.json(lista || []);
-  });
+  // ============== LICITACIONES ==============
+  app.get("/api/licitaciones", requireAuth, async (_req: any, res) => {
+    try {
+      res.json(await listLicitacionResponses());
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
 
-  app.post("/api/licitaciones", async (req, res) => {
-    try {
-      const data = insertLicitacionSchema.parse(req.body);
-      const nueva = await storage.createLicitacion(data);
-      res.status(201).json(nueva);
-    } catch (e: any) {
-      res.status(400).json({ error: e.message });
-    }
+  // Etapas de todas las licitaciones entre dos fechas (YYYY-MM-DD) para la vista de calendario
+  app.get("/api/licitaciones/calendar", requireAuth, async (req: any, res) => {
+    try {
+      const from = (req.query.from || "").toString().trim();
+      const to = (req.query.to || "").toString().trim();
+      if ([from, to].some(date => date && !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+        return res.status(400).json({ error: "Las fechas deben tener el formato AAAA-MM-DD" });
+      }
+      res.json(await storage.getLicitacionCalendarEvents({ from: from || undefined, to: to || undefined }));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
 
-    
-  });
+  app.get("/api/licitaciones/:id", requireAuth, async (req: any, res) => {
+    try {
+      const licitacionId = Number(req.params.id);
+      const licitacion = await storage.getLicitacion(licitacionId);
+      if (!licitacion) return res.status(404).json({ error: "Licitación no encontrada" });
+
+      const [events, linkedQuotes, documents] = await Promise.all([
+        storage.getLicitacionEvents([licitacionId]),
+        storage.getQuotesByLicitacion(licitacionId),
+        licitacion.folderId ? storage.getFilesByFolder(licitacion.folderId) : Promise.resolve([]),
+      ]);
+      const quotesWithItems = await Promise.all(linkedQuotes.map(async quote => ({ quote, items: await storage.getQuoteItems(quote.id) })));
+
+      res.json({
+        licitacion,
+        events,
+        quotes: licitacionQuoteBudgets(licitacion, quotesWithItems),
+        documents,
+      });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/licitaciones", requireAuth, async (req: any, res) => {
+    try {
+      const { data, error } = parseLicitacionInput(req.body, false);
+      if (error || !data) return res.status(400).json({ error });
+      const events = parseLicitacionEvents(req.body.events ?? []);
+      if (events.error) return res.status(400).json({ error: events.error });
+
+      await ensureUniqueNumeroLicitacion(data.numeroLicitacion!);
+      await validateLicitacionLinks(data, req.user);
+
+      const correo = req.user.correo || req.user.email || null;
+      const licitacion = await storage.createLicitacion({ ...data, estado: "abierta", correo } as InsertLicitacion);
+      const savedEvents = await storage.replaceLicitacionEvents(licitacion.id, events.data!);
+
+      await storage.createAuditLog({
+        correo,
+        action: "Crear licitación",
+        details: `Se registró la licitación ${licitacion.numeroLicitacion} (${licitacion.cliente})`,
+        resourceType: "licitacion",
+        resourceId: licitacion.id,
+      });
+
+      res.status(201).json({ ...licitacion, events: savedEvents, quoteCount: 0 });
+    } catch (e: any) {
+      res.status(e.status || 500).json({ error: e.message });
+    }
+  });
+
+  // Si se envían las etapas se reemplazan completas
+  app.patch("/api/licitaciones/:id", requireAuth, async (req: any, res) => {
+    try {
+      const licitacionId = Number(req.params.id);
+      const existing = await storage.getLicitacion(licitacionId);
+      if (!existing) return res.status(404).json({ error: "Licitación no encontrada" });
+
+      const { data, error } = parseLicitacionInput(req.body, true);
+      if (error || !data) return res.status(400).json({ error });
+      const events = req.body.events !== undefined ? parseLicitacionEvents(req.body.events) : null;
+      if (events?.error) return res.status(400).json({ error: events.error });
+
+      if (data.numeroLicitacion) await ensureUniqueNumeroLicitacion(data.numeroLicitacion, licitacionId);
+      await validateLicitacionLinks(data, req.user);
+
+      const correo = req.user.correo || req.user.email || null;
+      const licitacion = await storage.updateLicitacion(licitacionId, data);
+      const savedEvents = events
+        ? await storage.replaceLicitacionEvents(licitacionId, events.data!)
+        : await storage.getLicitacionEvents([licitacionId]);
+
+      await storage.createAuditLog({
+        correo,
+        action: "Actualizar licitación",
+        details: `Se actualizó la licitación ${existing.numeroLicitacion}${events ? " y sus etapas" : ""}`,
+        resourceType: "licitacion",
+        resourceId: licitacionId,
+      });
+
+      const quoteCount = (await storage.countQuotesByLicitacion()).get(licitacionId) ?? 0;
+      res.json({ ...licitacion!, events: savedEvents, quoteCount });
+    } catch (e: any) {
+      res.status(e.status || 500).json({ error: e.message });
+    }
+  });
+
+  // Al pasar a un estado con fallo se puede capturar el resultado en la misma solicitud
+  app.post("/api/licitaciones/:id/status", requireAuth, async (req: any, res) => {
+    try {
+      const licitacionId = Number(req.params.id);
+      const nextEstado = (req.body.estado || "").toString().trim();
+      if (!isLicitacionEstado(nextEstado)) {
+        return res.status(400).json({ error: "Estado de licitación inválido" });
+      }
+
+      const licitacion = await storage.getLicitacion(licitacionId);
+      if (!licitacion) return res.status(404).json({ error: "Licitación no encontrada" });
+
+      const fromLabel = LICITACION_ESTADO_LABELS[licitacion.estado as LicitacionEstado] || licitacion.estado;
+      if (!canTransitionLicitacionEstado(licitacion.estado, nextEstado)) {
+        return res.status(409).json({
+          error: `No se permite cambiar la licitación de "${fromLabel}" a "${LICITACION_ESTADO_LABELS[nextEstado]}"`
+        });
+      }
+
+      const outcome = LICITACION_OUTCOME_ESTADOS.includes(nextEstado)
+        ? parseLicitacionInput({ ganador: req.body.ganador, montoAdjudicado: req.body.montoAdjudicado, resultado: req.body.resultado }, true)
+        : { data: {} };
+      if (outcome.error) return res.status(400).json({ error: outcome.error });
+
+      const correo = req.user.correo || req.user.email || null;
+      const updated = await storage.updateLicitacion(licitacionId, { ...outcome.data, estado: nextEstado });
+
+      await storage.createAuditLog({
+        correo,
+        action: "Cambiar estado de licitación",
+        resourceType: "licitacion",
+        resourceId: licitacionId,
+        details: `La licitación ${licitacion.numeroLicitacion} pasó de "${fromLabel}" a "${LICITACION_ESTADO_LABELS[nextEstado]}"`,
+      });
+
+      res.json(updated);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.delete("/api/licitaciones/:id", requireAuth, async (req: any, res) => {
+    try {
+      if (!req.user.isAdmin) return res.status(403).json({ error: "No autorizado" });
+
+      const licitacionId = Number(req.params.id);
+      const existing = await storage.getLicitacion(licitacionId);
+      if (!existing) return res.status(404).json({ error: "Licitación no encontrada" });
+
+      const quoteCount = (await storage.countQuotesByLicitacion()).get(licitacionId) ?? 0;
+      if (quoteCount > 0) {
+        return res.status(409).json({ error: `La licitación tiene ${quoteCount} cotizaciones ligadas; cancélala en lugar de eliminarla` });
+      }
+
+      const correo = req.user.correo || req.user.email || null;
+      await storage.deleteLicitacion(licitacionId);
+
+      await storage.createAuditLog({
+        correo,
+        action: "Eliminar licitación",
+        details: `Se eliminó la licitación ${existing.numeroLicitacion}`,
+        resourceType: "licitacion",
+        resourceId: licitacionId,
+      });
+
+      res.status(204).end();
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // ============== CALENDARIO DE LICITACIONES (.ics) ==============
+  const calendarFeedResponse = (req: any, feed: CalendarFeed) => {
+    const origin = req.get("x-forwarded-proto")
+      ? `${req.get("x-forwarded-proto")}://${req.get("host")}`
+      : `${req.protocol}://${req.get("host")}`;
+    return {
+      url: `${origin}/api/calendar/${feed.token}/licitaciones.ics`,
+      reminderMinutes: feedReminderMinutes(feed),
+    };
+  };
+
+  // La suscripción se crea la primera vez que el usuario la consulta
+  app.get("/api/calendar/feed", requireAuth, async (req: any, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByUser(req.user.id)
+        ?? await storage.upsertCalendarFeed(req.user.id, { token: newCalendarToken() });
+      res.json(calendarFeedResponse(req, feed));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.put("/api/calendar/feed", requireAuth, async (req: any, res) => {
+    try {
+      const { data, error } = parseReminderMinutes(req.body.reminderMinutes);
+      if (error || !data) return res.status(400).json({ error });
+
+      const existing = await storage.getCalendarFeedByUser(req.user.id);
+      const feed = await storage.upsertCalendarFeed(req.user.id, {
+        reminderMinutesJson: JSON.stringify(data),
+        ...(existing ? {} : { token: newCalendarToken() }),
+      });
+      res.json(calendarFeedResponse(req, feed));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Un token nuevo invalida la dirección anterior (por ejemplo, si se compartió por error)
+  app.post("/api/calendar/feed/regenerate", requireAuth, async (req: any, res) => {
+    try {
+      const feed = await storage.upsertCalendarFeed(req.user.id, { token: newCalendarToken() });
+
+      await storage.createAuditLog({
+        correo: req.user.correo || req.user.email || null,
+        action: "Regenerar calendario de licitaciones",
+        details: "Se generó una nueva dirección para el calendario .ics",
+      });
+
+      res.json(calendarFeedResponse(req, feed));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Outlook no envía la sesión: el token de la dirección identifica al usuario
+  app.get("/api/calendar/:token/licitaciones.ics", async (req: any, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByToken(req.params.token);
+      const user = feed ? await storage.getUserById(feed.userId) : undefined;
+      if (!feed || !user || !user.isActive) return res.status(404).send("Calendario no encontrado.");
+
+      const from = new Date(Date.now() - CALENDAR_FEED_PAST_DAYS * 86400000).toISOString().split("T")[0];
+      const events = await storage.getLicitacionCalendarEvents({ from, excludeEstados: CALENDAR_EXCLUDED_ESTADOS });
+      const origin = req.get("x-forwarded-proto")
+        ? `${req.get("x-forwarded-proto")}://${req.get("host")}`
+        : `${req.protocol}://${req.get("host")}`;
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", 'inline; filename="licitaciones.ics"');
+      res.setHeader("Cache-Control", "no-cache");
+      res.send(buildLicitacionesCalendar(events, feedReminderMinutes(feed), origin));
+    } catch (e: any) {
+      res.status(500).send(e.message);
+    }
+  });
 
  
   // Ruta para guardar el PDF en una carpeta específica (Soporta OneDrive y Local)
@@ -2082,40 +3411,8 @@ export async function registerRoutes(app: Express, httpServer: Server): Promise<
         return res.status(400).json({ error: "Debe seleccionar una carpeta" });
       }
 
-      // Obtener datos necesarios para el PDF
-      const quote = await storage.getQuoteById(quoteId);
-      if (!quote || !quote.providerId) {
-        return res.status(404).json({ error: "Cotización o proveedor no encontrado" });
-
-      }
-console.log("DEBUG - CONTENIDO JSON EN BD:");
-console.log("selectedDeliveryClausesJson:", quote.selectedDeliveryClausesJson);
-console.log("deliveryLocationsJson:", quote.deliveryLocationsJson);
-
-      const provider = await storage.getProviderById(Number(quote.providerId));
-      const rawItems = await storage.getQuoteItems(quoteId);
-      const lineItems = convertQuoteItemsFromDb(rawItems);
-
-const safeParse = (val: string | null | undefined): any[] => {
-        try { return JSON.parse(val || "[]"); } catch { return []; }
-      };
-
-      // 🚀 CALCULAMOS EL TOTAL Y EL TEXTO EN LETRAS PARA QUE LA PLANTILLA NO TRUENE
-      const totalCents = rawItems.reduce((sum: number, item: any) => sum + Number(item.amount || 0), 0);
-      const totalText = amountToSpanishText(fromCents(totalCents));
-
-      const quoteWithText = {
-        ...quote,
-        totalText: totalText,
-  selectedDeliveryClauses: safeParse(quote.selectedDeliveryClausesJson),
-  deliveryLocations: safeParse(quote.deliveryLocationsJson),
-  deliveryDates: safeParse(quote.deliveryDatesJson),
-  qualityGuarantees: safeParse(quote.qualityGuaranteesJson)
-      };
-
-      // Generar el buffer del PDF y un buen nombre de archivo con la data enriquecida
-      const pdfBuffer = await generateQuotePdfBuffer(quoteWithText, provider, lineItems);
-      const filename = buildQuotePdfFileName(quoteWithText);
+      // Mismo PDF que la descarga, el correo y los trabajos en segundo plano
+      const { buffer: pdfBuffer, filename } = await buildQuotePdf(quoteId);
 
       // Saber si la carpeta es de Microsoft (tiene letras) o local (solo números)
       const isMicrosoft = Number.isNaN(Number(folderId));
@@ -2152,7 +3449,7 @@ const safeParse = (val: string | null | undefined): any[] => {
       }
     } catch (error: any) {
       console.error("Error al guardar en carpeta:", error);
-      return res.status(500).json({ error: "Error al guardar PDF: " + error.message });
+      return res.status(error.status || 500).json({ error: "Error al guardar PDF: " + error.message });
     }
   });
 
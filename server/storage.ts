@@ -1,40 +1,263 @@
 import {
   auditLogs, type AuditLog, type InsertAuditLog,
   licitaciones, type Licitacion, type InsertLicitacion,
+  licitacionEvents, type LicitacionEvent, type InsertLicitacionEvent,
+  calendarFeeds, type CalendarFeed, type LicitacionCalendarEvent,
   providers, type Provider, type InsertProvider,
+  providerDocuments, type ProviderDocument, type InsertProviderDocument, type ProviderDocumentResponse,
   quotes, type Quote, type InsertQuote,
   quoteItems, type QuoteItem, type InsertQuoteItem,
+  quoteStatusHistory, type QuoteStatusChange, type InsertQuoteStatusChange,
+  quoteRevisions, type QuoteRevision, type InsertQuoteRevision,
+  quoteEmails, type QuoteEmail, type InsertQuoteEmail,
+  companies, type Company, type InsertCompany,
+  folioSettings, type FolioSetting,
+  folioSequences, type FolioSequence,
+  folioReservations, type FolioReservation, type InsertFolioReservation,
+  pdfJobs, type PdfJob, type InsertPdfJob,
+  clauseLibrary, type ClauseLibraryEntry, type InsertClauseLibraryEntry,
+  catalogItems, type CatalogItem, type InsertCatalogItem,
+  marginRules, type MarginRule, type InsertMarginRule,
+  clients, type Client, type InsertClient,
+  clientContacts, type ClientContact, type InsertClientContact,
   users, files, folders, type Folder, type InsertFolder,
-  type User
+  type User,
+  EXPIRY_TRACKED_QUOTE_STATUSES, type QuoteCurrency, type QuoteSortField, type QuoteStatus
 } from "@shared/schema";
 import { db, pool } from "./db";
-import { desc, eq, or } from "drizzle-orm";
+import { and, asc, desc, eq, ilike, inArray, isNull, lt, notInArray, or, sql, type SQL } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 
 const PostgresSessionStore = connectPg(session);
 
+// Documento de cumplimiento con el nombre y tamaño de su archivo
+const providerDocumentColumns = {
+  id: providerDocuments.id,
+  providerId: providerDocuments.providerId,
+  type: providerDocuments.type,
+  fileId: providerDocuments.fileId,
+  issueDate: providerDocuments.issueDate,
+  expiryDate: providerDocuments.expiryDate,
+  notes: providerDocuments.notes,
+  uploadedBy: providerDocuments.uploadedBy,
+  createdAt: providerDocuments.createdAt,
+  fileName: files.originalName,
+  fileSize: files.size,
+};
+
+// Texto de la cotización en el que se busca; debe coincidir con la expresión de quotes_search_trgm_idx
+const quoteSearchText = sql`(${quotes.internalFolio} || ' ' || ${quotes.projectTitle} || ' ' || ${quotes.destinationCompany} || ' ' || ${quotes.requisitionNumber})`;
+
+// La fecha se guarda como texto: se revisa que exista (2024-02-30 no) antes de convertirla con ::date,
+// porque una sola fecha inválida haría fallar toda la consulta
+const quoteDateIsValid = sql`(case when ${quotes.quoteDate} ~ '^[1-9]\\d{3}-(0[1-9]|1[0-2])-(0[1-9]|[12]\\d|3[01])$'
+  then substr(${quotes.quoteDate}, 9, 2)::int <= extract(day from make_date(substr(${quotes.quoteDate}, 1, 4)::int, substr(${quotes.quoteDate}, 6, 2)::int, 1)
+    + interval '1 month' - interval '1 day')
+  else false end)`;
+
+// Último día de vigencia como AAAA-MM-DD; null si la fecha de la cotización no es válida
+const quoteExpiresAt = sql`(case when ${quoteDateIsValid}
+  then to_char(${quotes.quoteDate}::date + ${quotes.validityDays}, 'YYYY-MM-DD') end)`;
+
+// Las cotizaciones sin vencimiento quedan al final al ordenar por vencimiento ascendente
+const QUOTE_SORT_COLUMNS: Record<QuoteSortField, SQL> = {
+  quoteDate: sql`${quotes.quoteDate}`,
+  total: sql`${quotes.totalCents}`,
+  folio: sql`${quotes.internalFolio}`,
+  expiresAt: sql`coalesce(${quoteExpiresAt}, '9999-12-31')`,
+};
+
+export interface PriceHistoryFilters {
+  query: string;
+  supplier?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export type PriceHistoryRow = Pick<Quote, "internalFolio" | "quoteDate" | "companyOrigin" | "destinationCompany" | "status" | "currency" | "costCurrency" | "exchangeRate">
+  & Pick<QuoteItem, "description" | "supplier" | "quantity" | "unitMeasure" | "unitPrice" | "purchaseCost">
+  & { quoteId: number; similarity: number };
+
+// Agregados de un proveedor en un mes, con importes ya en pesos; los promedios se arman con suma y conteo
+export interface PriceHistoryBucket {
+  supplier: string;
+  period: string;
+  count: number;
+  lastQuoteDate: string;
+  saleCount: number;
+  saleSum: number;
+  saleMin: number | null;
+  saleMax: number | null;
+  costCount: number;
+  costSum: number;
+  costMin: number | null;
+  costMax: number | null;
+}
+
+function priceHistoryConditions(filters: PriceHistoryFilters): SQL[] {
+  const search = filters.query.trim();
+  const pattern = `%${search.replace(/[\\%_]/g, "\\$&")}%`;
+
+  // Los tres criterios usan los índices trigram y de texto completo de quote_items
+  const conditions = [
+    sql`(${quoteItems.description} % ${search}
+      OR to_tsvector('spanish', ${quoteItems.description}) @@ plainto_tsquery('spanish', ${search})
+      OR ${quoteItems.description} ILIKE ${pattern})`,
+  ];
+  if (filters.supplier) {
+    conditions.push(ilike(quoteItems.supplier, `%${filters.supplier.replace(/[\\%_]/g, "\\$&")}%`));
+  }
+  if (filters.from) conditions.push(sql`${quotes.quoteDate} >= ${filters.from}`);
+  if (filters.to) conditions.push(sql`${quotes.quoteDate} <= ${filters.to}`);
+  return conditions;
+}
+
+export interface QuoteSearchFilters {
+  query?: string;
+  // Código ya normalizado (AMS incluye las cotizaciones guardadas como AZAL)
+  companyOrigin?: string;
+  proposalType?: string;
+  status?: QuoteStatus;
+  from?: string;
+  to?: string;
+  providerId?: number;
+  // Los importes solo se comparan contra cotizaciones en la misma moneda
+  minTotalCents?: number;
+  maxTotalCents?: number;
+  totalCurrency?: QuoteCurrency;
+  // Vencimiento (AAAA-MM-DD); cualquiera de los tres deja solo los estados que vencen
+  expiresFrom?: string;
+  expiresTo?: string;
+  expiresBefore?: string;
+  sort: QuoteSortField;
+  order: "asc" | "desc";
+  cursor?: QuoteSearchCursor;
+  limit: number;
+}
+
+// Posición después de la última cotización de la página: valor de la columna de orden e id
+export interface QuoteSearchCursor {
+  value: string | number;
+  id: number;
+}
+
+export interface QuoteSearchResult {
+  quotes: Quote[];
+  total: number;
+  next: QuoteSearchCursor | null;
+}
+
 export interface IStorage {
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
   getRecentAuditLogs(limit?: number): Promise<AuditLog[]>;
   getLicitaciones(): Promise<Licitacion[]>;
+  getLicitacion(id: number): Promise<Licitacion | undefined>;
+  getLicitacionByNumero(numeroLicitacion: string): Promise<Licitacion | undefined>;
   createLicitacion(licitacion: InsertLicitacion): Promise<Licitacion>;
+  updateLicitacion(id: number, data: Partial<InsertLicitacion>): Promise<Licitacion | undefined>;
+  deleteLicitacion(id: number): Promise<void>;
+  getLicitacionEvents(licitacionIds: number[]): Promise<LicitacionEvent[]>;
+  replaceLicitacionEvents(licitacionId: number, events: Omit<InsertLicitacionEvent, "licitacionId">[]): Promise<LicitacionEvent[]>;
+  getLicitacionCalendarEvents(filters: { from?: string; to?: string; excludeEstados?: string[] }): Promise<LicitacionCalendarEvent[]>;
+  getQuotesByLicitacion(licitacionId: number): Promise<Quote[]>;
+  countQuotesByLicitacion(): Promise<Map<number, number>>;
+  getCalendarFeedByUser(userId: number): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  upsertCalendarFeed(userId: number, data: { token?: string; reminderMinutesJson?: string }): Promise<CalendarFeed>;
   getProviders(): Promise<Provider[]>;
   createProvider(provider: InsertProvider): Promise<Provider>;
   getProviderById(id: number): Promise<Provider | undefined>;
   updateProvider(id: number, data: Partial<InsertProvider>): Promise<Provider | undefined>;
   deleteProvider(id: number): Promise<void>;
+  getProviderDocuments(providerIds: number[]): Promise<ProviderDocumentResponse[]>;
+  getProviderDocument(id: number): Promise<ProviderDocumentResponse | undefined>;
+  createProviderDocument(document: InsertProviderDocument): Promise<ProviderDocument>;
+  deleteProviderDocument(id: number): Promise<void>;
   
   // Métodos de Cotizaciones
   getQuotes(): Promise<Quote[]>;
+  searchQuotes(filters: QuoteSearchFilters): Promise<QuoteSearchResult>;
+  getQuotesWithZeroTotal(): Promise<Quote[]>;
   createQuote(quote: InsertQuote): Promise<Quote>;
   getQuoteById(id: number): Promise<Quote | undefined>;
+  getQuoteByFolio(internalFolio: string): Promise<Quote | undefined>;
   updateQuote(id: number, data: Partial<InsertQuote>): Promise<Quote | undefined>;
   deleteQuote(id: number): Promise<void>;
   deleteQuoteItems(quoteId: number): Promise<void>;
   getQuoteItems(quoteId: number): Promise<QuoteItem[]>;
+  getQuoteItemsByQuoteIds(quoteIds: number[]): Promise<QuoteItem[]>;
   createQuoteItem(item: InsertQuoteItem): Promise<QuoteItem>;
-  getQuotePriceHistory(materialDescription: string): Promise<Array<QuoteItem & { quoteDate: string; internalFolio: string }>>;
+  getQuotePriceHistory(filters: PriceHistoryFilters): Promise<PriceHistoryRow[]>;
+  getQuotePriceHistoryBuckets(filters: PriceHistoryFilters, inflationRate: number | null): Promise<PriceHistoryBucket[]>;
+  createQuoteStatusChange(change: InsertQuoteStatusChange): Promise<QuoteStatusChange>;
+  getQuoteStatusHistory(quoteId: number): Promise<QuoteStatusChange[]>;
+  createQuoteRevision(revision: Omit<InsertQuoteRevision, "revisionNumber">): Promise<QuoteRevision>;
+  getQuoteRevisions(quoteId: number): Promise<QuoteRevision[]>;
+  getQuoteRevision(quoteId: number, revisionNumber: number): Promise<QuoteRevision | undefined>;
+  createQuoteEmail(email: InsertQuoteEmail): Promise<QuoteEmail>;
+  getQuoteEmails(quoteId: number): Promise<QuoteEmail[]>;
+
+  // Empresas emisoras
+  getCompanies(): Promise<Company[]>;
+  getCompanyById(id: number): Promise<Company | undefined>;
+  getCompanyByCode(code: string): Promise<Company | undefined>;
+  createCompany(company: InsertCompany): Promise<Company>;
+  updateCompany(id: number, data: Partial<InsertCompany>): Promise<Company | undefined>;
+  deleteCompany(id: number): Promise<void>;
+
+  // Folios internos
+  getFolioSettings(): Promise<FolioSetting[]>;
+  getFolioSetting(companyOrigin: string): Promise<FolioSetting | undefined>;
+  upsertFolioSetting(companyOrigin: string, pattern: string, correo: string | null): Promise<FolioSetting>;
+  getFolioSequences(year: number): Promise<FolioSequence[]>;
+  peekFolioNumber(companyOrigin: string, year: number): Promise<number>;
+  consumeFolioNumbers(companyOrigin: string, year: number, count?: number): Promise<number[]>;
+  getFolioReservations(filters?: { companyOrigin?: string; year?: number; availableOnly?: boolean }): Promise<FolioReservation[]>;
+  getFolioReservationByFolio(folio: string): Promise<FolioReservation | undefined>;
+  createFolioReservation(reservation: InsertFolioReservation): Promise<FolioReservation>;
+  assignFolioReservation(id: number, quoteId: number): Promise<FolioReservation | undefined>;
+
+  // Trabajos de PDF
+  createPdfJob(job: InsertPdfJob): Promise<PdfJob>;
+  getPdfJob(id: number): Promise<PdfJob | undefined>;
+  updatePdfJob(id: number, data: Partial<InsertPdfJob>): Promise<PdfJob | undefined>;
+  claimNextPdfJob(): Promise<PdfJob | undefined>;
+  requeueStalePdfJobs(startedBefore: Date): Promise<number>;
+  deletePdfJobsFinishedBefore(date: Date): Promise<number>;
+
+  // Biblioteca de cláusulas
+  getClauseLibrary(filters?: { category?: string; companyOrigins?: string[]; includeInactive?: boolean }): Promise<ClauseLibraryEntry[]>;
+  getClauseLibraryEntry(id: number): Promise<ClauseLibraryEntry | undefined>;
+  getClauseLibraryEntryByCode(code: string, companyOrigin: string): Promise<ClauseLibraryEntry | undefined>;
+  createClauseLibraryEntry(entry: InsertClauseLibraryEntry): Promise<ClauseLibraryEntry>;
+  updateClauseLibraryEntry(id: number, data: Partial<InsertClauseLibraryEntry>): Promise<ClauseLibraryEntry | undefined>;
+
+  // Catálogo de productos y servicios
+  getCatalogItems(filters?: { search?: string; kind?: string; includeInactive?: boolean; limit?: number }): Promise<CatalogItem[]>;
+  getCatalogItem(id: number): Promise<CatalogItem | undefined>;
+  getCatalogItemByDescription(description: string, kind: string): Promise<CatalogItem | undefined>;
+  createCatalogItem(item: InsertCatalogItem): Promise<CatalogItem>;
+  updateCatalogItem(id: number, data: Partial<InsertCatalogItem>): Promise<CatalogItem | undefined>;
+
+  // Directorio de clientes (dependencias) y contactos
+  getClients(filters?: { search?: string; includeInactive?: boolean }): Promise<Client[]>;
+  getClient(id: number): Promise<Client | undefined>;
+  getClientByName(name: string): Promise<Client | undefined>;
+  createClient(client: InsertClient): Promise<Client>;
+  updateClient(id: number, data: Partial<InsertClient>): Promise<Client | undefined>;
+  getClientContacts(clientIds: number[], includeInactive?: boolean): Promise<ClientContact[]>;
+  getClientContact(id: number): Promise<ClientContact | undefined>;
+  createClientContact(contact: InsertClientContact): Promise<ClientContact>;
+  updateClientContact(id: number, data: Partial<InsertClientContact>): Promise<ClientContact | undefined>;
+  getQuotesByClient(clientId: number): Promise<Quote[]>;
+  countQuotesByClient(): Promise<Map<number, number>>;
+
+  // Márgenes mínimos
+  getMarginRules(): Promise<MarginRule[]>;
+  upsertMarginRule(rule: InsertMarginRule): Promise<MarginRule>;
+  deleteMarginRule(id: number): Promise<MarginRule | undefined>;
 
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: Omit<User, "id" | "createdAt" | "lastLogin">): Promise<User>;
@@ -239,11 +462,116 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(licitaciones).orderBy(desc(licitaciones.id));
   }
 
+  async getLicitacion(id: number): Promise<Licitacion | undefined> {
+    const [licitacion] = await db.select().from(licitaciones).where(eq(licitaciones.id, id));
+    return licitacion;
+  }
+
+  async getLicitacionByNumero(numeroLicitacion: string): Promise<Licitacion | undefined> {
+    const [licitacion] = await db.select().from(licitaciones)
+      .where(sql`lower(trim(${licitaciones.numeroLicitacion})) = ${numeroLicitacion.trim().toLowerCase()}`);
+    return licitacion;
+  }
+
   async createLicitacion(insertLicitacion: InsertLicitacion): Promise<Licitacion> {
     const [licitacion] = await db.insert(licitaciones).values(insertLicitacion).returning();
     return licitacion;
   }
 
+  async updateLicitacion(id: number, data: Partial<InsertLicitacion>): Promise<Licitacion | undefined> {
+    const [updated] = await db.update(licitaciones)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(licitaciones.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteLicitacion(id: number): Promise<void> {
+    await db.delete(licitacionEvents).where(eq(licitacionEvents.licitacionId, id));
+    await db.delete(licitaciones).where(eq(licitaciones.id, id));
+  }
+
+  async getLicitacionEvents(licitacionIds: number[]): Promise<LicitacionEvent[]> {
+    if (licitacionIds.length === 0) return [];
+    return await db.select().from(licitacionEvents)
+      .where(inArray(licitacionEvents.licitacionId, licitacionIds))
+      .orderBy(asc(licitacionEvents.eventDate), asc(licitacionEvents.eventTime));
+  }
+
+  // Las etapas se guardan completas: las que no vienen en la lista se eliminan
+  async replaceLicitacionEvents(licitacionId: number, events: Omit<InsertLicitacionEvent, "licitacionId">[]): Promise<LicitacionEvent[]> {
+    await db.delete(licitacionEvents).where(eq(licitacionEvents.licitacionId, licitacionId));
+    if (events.length === 0) return [];
+    return await db.insert(licitacionEvents)
+      .values(events.map(event => ({ ...event, licitacionId })))
+      .returning();
+  }
+
+  async getLicitacionCalendarEvents(filters: { from?: string; to?: string; excludeEstados?: string[] }): Promise<LicitacionCalendarEvent[]> {
+    const conditions = [];
+    if (filters.from) conditions.push(sql`${licitacionEvents.eventDate} >= ${filters.from}`);
+    if (filters.to) conditions.push(sql`${licitacionEvents.eventDate} <= ${filters.to}`);
+    if (filters.excludeEstados && filters.excludeEstados.length > 0) {
+      conditions.push(notInArray(licitaciones.estado, filters.excludeEstados));
+    }
+    return await db.select({
+      id: licitacionEvents.id,
+      licitacionId: licitacionEvents.licitacionId,
+      numeroLicitacion: licitaciones.numeroLicitacion,
+      titulo: licitaciones.titulo,
+      cliente: licitaciones.cliente,
+      estado: licitaciones.estado,
+      type: licitacionEvents.type,
+      eventDate: licitacionEvents.eventDate,
+      eventTime: licitacionEvents.eventTime,
+      location: licitacionEvents.location,
+      notes: licitacionEvents.notes,
+    })
+      .from(licitacionEvents)
+      .innerJoin(licitaciones, eq(licitacionEvents.licitacionId, licitaciones.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(licitacionEvents.eventDate), asc(licitacionEvents.eventTime));
+  }
+
+  async getQuotesByLicitacion(licitacionId: number): Promise<Quote[]> {
+    return await db.select().from(quotes)
+      .where(eq(quotes.licitacionId, licitacionId))
+      .orderBy(desc(quotes.createdAt));
+  }
+
+  async countQuotesByLicitacion(): Promise<Map<number, number>> {
+    const rows = await db.select({ licitacionId: quotes.licitacionId, total: sql<number>`count(*)::int` })
+      .from(quotes)
+      .where(sql`${quotes.licitacionId} is not null`)
+      .groupBy(quotes.licitacionId);
+    return new Map(rows.map(row => [row.licitacionId!, Number(row.total)]));
+  }
+
+  async getCalendarFeedByUser(userId: number): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.userId, userId));
+    return feed;
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed;
+  }
+
+  async upsertCalendarFeed(userId: number, data: { token?: string; reminderMinutesJson?: string }): Promise<CalendarFeed> {
+    const existing = await this.getCalendarFeedByUser(userId);
+    if (existing) {
+      const [updated] = await db.update(calendarFeeds)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(calendarFeeds.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(calendarFeeds)
+      .values({ userId, token: data.token!, ...(data.reminderMinutesJson ? { reminderMinutesJson: data.reminderMinutesJson } : {}) })
+      .returning();
+    return created;
+  }
+
   async getProviders(): Promise<Provider[]> {
     return await db.select().from(providers).orderBy(desc(providers.createdAt));
   }
@@ -267,10 +595,99 @@ export class DatabaseStorage implements IStorage {
     await db.delete(providers).where(eq(providers.id, id));
   }
 
+  // Más reciente primero: el primero de cada tipo es el documento vigente
+  async getProviderDocuments(providerIds: number[]): Promise<ProviderDocumentResponse[]> {
+    if (providerIds.length === 0) return [];
+    return await db.select(providerDocumentColumns)
+      .from(providerDocuments)
+      .innerJoin(files, eq(providerDocuments.fileId, files.id))
+      .where(inArray(providerDocuments.providerId, providerIds))
+      .orderBy(desc(providerDocuments.issueDate), desc(providerDocuments.createdAt));
+  }
+
+  async getProviderDocument(id: number): Promise<ProviderDocumentResponse | undefined> {
+    const [document] = await db.select(providerDocumentColumns)
+      .from(providerDocuments)
+      .innerJoin(files, eq(providerDocuments.fileId, files.id))
+      .where(eq(providerDocuments.id, id));
+    return document;
+  }
+
+  async createProviderDocument(document: InsertProviderDocument): Promise<ProviderDocument> {
+    const [created] = await db.insert(providerDocuments).values(document).returning();
+    return created;
+  }
+
+  // Elimina el registro y su archivo en la tabla files; el archivo en disco lo borra la ruta
+  async deleteProviderDocument(id: number): Promise<void> {
+    const [deleted] = await db.delete(providerDocuments).where(eq(providerDocuments.id, id)).returning();
+    if (deleted) await db.delete(files).where(eq(files.id, deleted.fileId));
+  }
+
   async getQuotes(): Promise<Quote[]> {
     return await db.select().from(quotes).orderBy(desc(quotes.id));
   }
 
+  async searchQuotes(filters: QuoteSearchFilters): Promise<QuoteSearchResult> {
+    const conditions = [];
+    if (filters.query) {
+      // Ambos ILIKE usan índices trigram: el de los datos generales y el de la descripción de las partidas
+      const pattern = `%${filters.query.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(sql`(${quoteSearchText} ILIKE ${pattern}
+        OR exists (select 1 from ${quoteItems} where ${quoteItems.quoteId} = ${quotes.id} and ${quoteItems.description} ILIKE ${pattern}))`);
+    }
+    if (filters.companyOrigin) {
+      const codes = filters.companyOrigin === "AMS" ? ["AMS", "AZAL"] : [filters.companyOrigin];
+      conditions.push(inArray(sql`upper(${quotes.companyOrigin})`, codes));
+    }
+    if (filters.proposalType) conditions.push(eq(quotes.proposalType, filters.proposalType));
+    if (filters.status) conditions.push(eq(quotes.status, filters.status));
+    if (filters.from) conditions.push(sql`${quotes.quoteDate} >= ${filters.from}`);
+    if (filters.to) conditions.push(sql`${quotes.quoteDate} <= ${filters.to}`);
+    if (filters.providerId) conditions.push(eq(quotes.providerId, filters.providerId));
+    if (filters.minTotalCents !== undefined) conditions.push(sql`${quotes.totalCents} >= ${filters.minTotalCents}`);
+    if (filters.maxTotalCents !== undefined) conditions.push(sql`${quotes.totalCents} <= ${filters.maxTotalCents}`);
+    if (filters.totalCurrency) conditions.push(eq(quotes.currency, filters.totalCurrency));
+    if (filters.expiresFrom || filters.expiresTo || filters.expiresBefore) {
+      conditions.push(inArray(quotes.status, EXPIRY_TRACKED_QUOTE_STATUSES));
+      conditions.push(sql`${quoteExpiresAt} is not null`);
+      if (filters.expiresFrom) conditions.push(sql`${quoteExpiresAt} >= ${filters.expiresFrom}`);
+      if (filters.expiresTo) conditions.push(sql`${quoteExpiresAt} <= ${filters.expiresTo}`);
+      if (filters.expiresBefore) conditions.push(sql`${quoteExpiresAt} < ${filters.expiresBefore}`);
+    }
+
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` }).from(quotes).where(and(...conditions));
+
+    // Paginación por cursor: (valor, id) después del último renglón en el sentido del orden
+    const sortColumn = QUOTE_SORT_COLUMNS[filters.sort];
+    const direction = filters.order === "asc" ? asc : desc;
+    const pageConditions = [...conditions];
+    if (filters.cursor) {
+      pageConditions.push(filters.order === "asc"
+        ? sql`(${sortColumn}, ${quotes.id}) > (${filters.cursor.value}, ${filters.cursor.id})`
+        : sql`(${sortColumn}, ${quotes.id}) < (${filters.cursor.value}, ${filters.cursor.id})`);
+    }
+
+    const rows = await db.select({ quote: quotes, sortValue: sql<string | number>`${sortColumn}` })
+      .from(quotes)
+      .where(and(...pageConditions))
+      .orderBy(direction(sortColumn), direction(quotes.id))
+      .limit(filters.limit + 1);
+
+    const page = rows.slice(0, filters.limit);
+    const last = page[page.length - 1];
+    return {
+      quotes: page.map(row => row.quote),
+      total,
+      next: rows.length > filters.limit && last ? { value: last.sortValue, id: last.quote.id } : null,
+    };
+  }
+
+  // Candidatas al cálculo inicial de total_cents (la columna se agregó con 0)
+  async getQuotesWithZeroTotal(): Promise<Quote[]> {
+    return await db.select().from(quotes).where(eq(quotes.totalCents, 0));
+  }
+
   async createQuote(quote: InsertQuote): Promise<Quote> {
     const [created] = await db.insert(quotes).values(quote).returning();
     return created;
@@ -281,12 +698,25 @@ export class DatabaseStorage implements IStorage {
     return quote;
   }
 
+  async getQuoteByFolio(internalFolio: string): Promise<Quote | undefined> {
+    const [quote] = await db.select().from(quotes).where(eq(quotes.internalFolio, internalFolio));
+    return quote;
+  }
+
   async updateQuote(id: number, data: Partial<InsertQuote>): Promise<Quote | undefined> {
     const [updated] = await db.update(quotes).set(data).where(eq(quotes.id, id)).returning();
     return updated;
   }
 
   async deleteQuote(id: number): Promise<void> {
+    await db.delete(quoteStatusHistory).where(eq(quoteStatusHistory.quoteId, id));
+    // Las revisiones son inmutables: se conservan sin liga a la cotización borrada
+    await db.update(quoteRevisions).set({ quoteId: null }).where(eq(quoteRevisions.quoteId, id));
+    // La bitácora de envíos también se conserva
+    await db.update(quoteEmails).set({ quoteId: null }).where(eq(quoteEmails.quoteId, id));
+    await db.delete(pdfJobs).where(eq(pdfJobs.quoteId, id));
+    // El folio reservado vuelve a quedar disponible
+    await db.update(folioReservations).set({ quoteId: null }).where(eq(folioReservations.quoteId, id));
     await db.delete(quoteItems).where(eq(quoteItems.quoteId, id));
     await db.delete(quotes).where(eq(quotes.id, id));
   }
@@ -299,24 +729,74 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(quoteItems).where(eq(quoteItems.quoteId, quoteId)).orderBy(desc(quoteItems.id));
   }
 
-  async getQuotePriceHistory(materialDescription: string): Promise<Array<QuoteItem & { quoteDate: string; internalFolio: string }>> {
-    const allItems = await db.select({
-      id: quoteItems.id,
-      quoteId: quoteItems.quoteId,
+  async getQuoteItemsByQuoteIds(quoteIds: number[]): Promise<QuoteItem[]> {
+    if (quoteIds.length === 0) return [];
+    return await db.select().from(quoteItems).where(inArray(quoteItems.quoteId, quoteIds)).orderBy(desc(quoteItems.id));
+  }
+
+  async getQuotePriceHistory(filters: PriceHistoryFilters): Promise<PriceHistoryRow[]> {
+    const similarity = sql<number>`similarity(${quoteItems.description}, ${filters.query.trim()})`;
+
+    return await db.select({
+      quoteId: quotes.id,
+      internalFolio: quotes.internalFolio,
+      quoteDate: quotes.quoteDate,
+      companyOrigin: quotes.companyOrigin,
+      destinationCompany: quotes.destinationCompany,
+      status: quotes.status,
+      currency: quotes.currency,
+      costCurrency: quotes.costCurrency,
+      exchangeRate: quotes.exchangeRate,
       description: quoteItems.description,
+      supplier: quoteItems.supplier,
       quantity: quoteItems.quantity,
-      unit: quoteItems.unit,
+      unitMeasure: quoteItems.unitMeasure,
       unitPrice: quoteItems.unitPrice,
-      amount: quoteItems.amount,
-      quoteDate: quotes.quoteDate,
-      internalFolio: quotes.internalFolio,
+      purchaseCost: quoteItems.purchaseCost,
+      similarity,
     })
       .from(quoteItems)
       .innerJoin(quotes, eq(quoteItems.quoteId, quotes.id))
-      .orderBy(desc(quotes.id));
+      .where(and(...priceHistoryConditions(filters)))
+      .orderBy(desc(similarity), desc(quotes.quoteDate))
+      .limit(filters.limit ?? 200);
+  }
+
+  // Las estadísticas cubren todas las coincidencias, no solo las partidas que se devuelven en detalle
+  async getQuotePriceHistoryBuckets(filters: PriceHistoryFilters, inflationRate: number | null): Promise<PriceHistoryBucket[]> {
+    // Mismo criterio que convertCurrency: el tipo de cambio guardado en la cotización, en pesos por dólar
+    const toPesos = (currency: SQL) => sql`CASE WHEN upper(trim(${currency})) = 'USD' AND ${quotes.exchangeRate} > 0
+      THEN ${quotes.exchangeRate} ELSE 1 END`;
+    // Interés compuesto anual desde la fecha de la cotización hasta hoy
+    const factor = inflationRate
+      ? sql`CASE WHEN ${quoteDateIsValid}
+          THEN power(1 + ${inflationRate}::numeric / 100, greatest(current_date - ${quotes.quoteDate}::date, 0) / 365.25)
+          ELSE 1 END`
+      : sql`1`;
+    const sale = sql`(${quoteItems.unitPrice} / 100.0 * ${toPesos(sql`${quotes.currency}`)} * ${factor})`;
+    const cost = sql`(coalesce(${quoteItems.purchaseCost}, 0) * ${toPesos(sql`${quotes.costCurrency}`)} * ${factor})`;
+    const supplier = sql<string>`trim(coalesce(${quoteItems.supplier}, ''))`;
+    const period = sql<string>`CASE WHEN ${quoteDateIsValid} THEN left(${quotes.quoteDate}, 7) ELSE '' END`;
 
-    const normalizedSearch = materialDescription.toLowerCase().trim();
-    return allItems.filter(item => item.description.toLowerCase().includes(normalizedSearch));
+    // Un precio o costo en cero significa que no se capturó y no entra en las estadísticas
+    return await db.select({
+      supplier,
+      period,
+      count: sql<number>`count(*)`.mapWith(Number),
+      lastQuoteDate: sql<string>`max(${quotes.quoteDate})`,
+      saleCount: sql<number>`count(*) FILTER (WHERE ${sale} > 0)`.mapWith(Number),
+      saleSum: sql<number>`coalesce(sum(${sale}) FILTER (WHERE ${sale} > 0), 0)`.mapWith(Number),
+      saleMin: sql<number | null>`min(${sale}) FILTER (WHERE ${sale} > 0)`.mapWith(Number),
+      saleMax: sql<number | null>`max(${sale}) FILTER (WHERE ${sale} > 0)`.mapWith(Number),
+      costCount: sql<number>`count(*) FILTER (WHERE ${cost} > 0)`.mapWith(Number),
+      costSum: sql<number>`coalesce(sum(${cost}) FILTER (WHERE ${cost} > 0), 0)`.mapWith(Number),
+      costMin: sql<number | null>`min(${cost}) FILTER (WHERE ${cost} > 0)`.mapWith(Number),
+      costMax: sql<number | null>`max(${cost}) FILTER (WHERE ${cost} > 0)`.mapWith(Number),
+    })
+      .from(quoteItems)
+      .innerJoin(quotes, eq(quoteItems.quoteId, quotes.id))
+      .where(and(...priceHistoryConditions(filters)))
+      .groupBy(supplier, period);
   }
 
   async createQuoteItem(item: InsertQuoteItem): Promise<QuoteItem> {
@@ -324,6 +804,363 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async createQuoteStatusChange(change: InsertQuoteStatusChange): Promise<QuoteStatusChange> {
+    const [created] = await db.insert(quoteStatusHistory).values(change).returning();
+    return created;
+  }
+
+  async getQuoteStatusHistory(quoteId: number): Promise<QuoteStatusChange[]> {
+    return await db.select().from(quoteStatusHistory).where(eq(quoteStatusHistory.quoteId, quoteId)).orderBy(desc(quoteStatusHistory.createdAt));
+  }
+
+  async createQuoteRevision(revision: Omit<InsertQuoteRevision, "revisionNumber">): Promise<QuoteRevision> {
+    // El número se asigna en la misma sentencia; el índice único evita duplicados en guardados simultáneos
+    const [created] = await db.insert(quoteRevisions).values({
+      ...revision,
+      revisionNumber: sql`(select coalesce(max(${quoteRevisions.revisionNumber}), 0) + 1 from ${quoteRevisions} where ${quoteRevisions.quoteId} = ${revision.quoteId})`,
+    }).returning();
+    return created;
+  }
+
+  async getQuoteRevisions(quoteId: number): Promise<QuoteRevision[]> {
+    return await db.select().from(quoteRevisions).where(eq(quoteRevisions.quoteId, quoteId)).orderBy(desc(quoteRevisions.revisionNumber));
+  }
+
+  async getQuoteRevision(quoteId: number, revisionNumber: number): Promise<QuoteRevision | undefined> {
+    const [revision] = await db.select().from(quoteRevisions)
+      .where(and(eq(quoteRevisions.quoteId, quoteId), eq(quoteRevisions.revisionNumber, revisionNumber)));
+    return revision;
+  }
+
+  async createQuoteEmail(email: InsertQuoteEmail): Promise<QuoteEmail> {
+    const [created] = await db.insert(quoteEmails).values(email).returning();
+    return created;
+  }
+
+  async getQuoteEmails(quoteId: number): Promise<QuoteEmail[]> {
+    return await db.select().from(quoteEmails).where(eq(quoteEmails.quoteId, quoteId)).orderBy(desc(quoteEmails.sentAt));
+  }
+
+  async getCompanies(): Promise<Company[]> {
+    return await db.select().from(companies).orderBy(asc(companies.code));
+  }
+
+  async getCompanyById(id: number): Promise<Company | undefined> {
+    const [company] = await db.select().from(companies).where(eq(companies.id, id));
+    return company;
+  }
+
+  async getCompanyByCode(code: string): Promise<Company | undefined> {
+    const [company] = await db.select().from(companies).where(eq(companies.code, code));
+    return company;
+  }
+
+  async createCompany(company: InsertCompany): Promise<Company> {
+    const [created] = await db.insert(companies).values(company).returning();
+    return created;
+  }
+
+  async updateCompany(id: number, data: Partial<InsertCompany>): Promise<Company | undefined> {
+    const [updated] = await db.update(companies)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(companies.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteCompany(id: number): Promise<void> {
+    await db.delete(companies).where(eq(companies.id, id));
+  }
+
+  async getFolioSettings(): Promise<FolioSetting[]> {
+    return await db.select().from(folioSettings).orderBy(asc(folioSettings.companyOrigin));
+  }
+
+  async getFolioSetting(companyOrigin: string): Promise<FolioSetting | undefined> {
+    const [setting] = await db.select().from(folioSettings).where(eq(folioSettings.companyOrigin, companyOrigin));
+    return setting;
+  }
+
+  async upsertFolioSetting(companyOrigin: string, pattern: string, correo: string | null): Promise<FolioSetting> {
+    const [setting] = await db.insert(folioSettings)
+      .values({ companyOrigin, pattern, correo })
+      .onConflictDoUpdate({
+        target: folioSettings.companyOrigin,
+        set: { pattern, correo, updatedAt: new Date() },
+      })
+      .returning();
+    return setting;
+  }
+
+  async getFolioSequences(year: number): Promise<FolioSequence[]> {
+    return await db.select().from(folioSequences).where(eq(folioSequences.year, year));
+  }
+
+  async peekFolioNumber(companyOrigin: string, year: number): Promise<number> {
+    const [sequence] = await db.select().from(folioSequences)
+      .where(and(eq(folioSequences.companyOrigin, companyOrigin), eq(folioSequences.year, year)));
+    return (sequence?.lastNumber ?? 0) + 1;
+  }
+
+  // El upsert incrementa el contador en una sola sentencia, así dos altas simultáneas nunca obtienen el mismo número
+  async consumeFolioNumbers(companyOrigin: string, year: number, count: number = 1): Promise<number[]> {
+    const [sequence] = await db.insert(folioSequences)
+      .values({ companyOrigin, year, lastNumber: count })
+      .onConflictDoUpdate({
+        target: [folioSequences.companyOrigin, folioSequences.year],
+        set: { lastNumber: sql`${folioSequences.lastNumber} + ${count}` },
+      })
+      .returning();
+    const first = sequence.lastNumber - count + 1;
+    return Array.from({ length: count }, (_, index) => first + index);
+  }
+
+  async getFolioReservations(filters: { companyOrigin?: string; year?: number; availableOnly?: boolean } = {}): Promise<FolioReservation[]> {
+    const conditions = [];
+    if (filters.companyOrigin) conditions.push(eq(folioReservations.companyOrigin, filters.companyOrigin));
+    if (filters.year) conditions.push(eq(folioReservations.year, filters.year));
+    if (filters.availableOnly) {
+      conditions.push(eq(folioReservations.kind, "reservado"));
+      conditions.push(isNull(folioReservations.quoteId));
+    }
+    return await db.select().from(folioReservations)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(folioReservations.year), desc(folioReservations.number));
+  }
+
+  async getFolioReservationByFolio(folio: string): Promise<FolioReservation | undefined> {
+    const [reservation] = await db.select().from(folioReservations).where(eq(folioReservations.folio, folio));
+    return reservation;
+  }
+
+  async createFolioReservation(reservation: InsertFolioReservation): Promise<FolioReservation> {
+    const [created] = await db.insert(folioReservations).values(reservation).returning();
+    return created;
+  }
+
+  async assignFolioReservation(id: number, quoteId: number): Promise<FolioReservation | undefined> {
+    // Solo se asigna si nadie más la tomó antes
+    const [updated] = await db.update(folioReservations)
+      .set({ quoteId })
+      .where(and(eq(folioReservations.id, id), isNull(folioReservations.quoteId)))
+      .returning();
+    return updated;
+  }
+
+  async createPdfJob(job: InsertPdfJob): Promise<PdfJob> {
+    const [created] = await db.insert(pdfJobs).values(job).returning();
+    return created;
+  }
+
+  async getPdfJob(id: number): Promise<PdfJob | undefined> {
+    const [job] = await db.select().from(pdfJobs).where(eq(pdfJobs.id, id));
+    return job;
+  }
+
+  async updatePdfJob(id: number, data: Partial<InsertPdfJob>): Promise<PdfJob | undefined> {
+    const [updated] = await db.update(pdfJobs).set(data).where(eq(pdfJobs.id, id)).returning();
+    return updated;
+  }
+
+  async claimNextPdfJob(): Promise<PdfJob | undefined> {
+    // SKIP LOCKED evita que dos procesos tomen el mismo trabajo
+    const [claimed] = await db.update(pdfJobs)
+      .set({ status: "procesando", progress: 10, attempts: sql`${pdfJobs.attempts} + 1`, error: null, startedAt: new Date() })
+      .where(eq(pdfJobs.id, sql`(select ${pdfJobs.id} from ${pdfJobs} where ${pdfJobs.status} = 'pendiente' order by ${pdfJobs.createdAt} limit 1 for update skip locked)`))
+      .returning();
+    return claimed;
+  }
+
+  async requeueStalePdfJobs(startedBefore: Date): Promise<number> {
+    const requeued = await db.update(pdfJobs)
+      .set({ status: "pendiente", progress: 0 })
+      .where(and(eq(pdfJobs.status, "procesando"), lt(pdfJobs.startedAt, startedBefore)))
+      .returning({ id: pdfJobs.id });
+    return requeued.length;
+  }
+
+  async deletePdfJobsFinishedBefore(date: Date): Promise<number> {
+    const deleted = await db.delete(pdfJobs)
+      .where(and(inArray(pdfJobs.status, ["completado", "fallido"]), lt(pdfJobs.finishedAt, date)))
+      .returning({ id: pdfJobs.id });
+    return deleted.length;
+  }
+
+  async getClauseLibrary(filters: { category?: string; companyOrigins?: string[]; includeInactive?: boolean } = {}): Promise<ClauseLibraryEntry[]> {
+    const conditions = [];
+    if (filters.category) conditions.push(eq(clauseLibrary.category, filters.category));
+    if (filters.companyOrigins) conditions.push(inArray(clauseLibrary.companyOrigin, filters.companyOrigins));
+    if (!filters.includeInactive) conditions.push(eq(clauseLibrary.isActive, true));
+    return await db.select().from(clauseLibrary)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(clauseLibrary.category), asc(clauseLibrary.sortOrder), asc(clauseLibrary.code));
+  }
+
+  async getClauseLibraryEntry(id: number): Promise<ClauseLibraryEntry | undefined> {
+    const [entry] = await db.select().from(clauseLibrary).where(eq(clauseLibrary.id, id));
+    return entry;
+  }
+
+  async getClauseLibraryEntryByCode(code: string, companyOrigin: string): Promise<ClauseLibraryEntry | undefined> {
+    const [entry] = await db.select().from(clauseLibrary)
+      .where(and(eq(clauseLibrary.code, code), eq(clauseLibrary.companyOrigin, companyOrigin)));
+    return entry;
+  }
+
+  async createClauseLibraryEntry(entry: InsertClauseLibraryEntry): Promise<ClauseLibraryEntry> {
+    const [created] = await db.insert(clauseLibrary).values(entry).returning();
+    return created;
+  }
+
+  async updateClauseLibraryEntry(id: number, data: Partial<InsertClauseLibraryEntry>): Promise<ClauseLibraryEntry | undefined> {
+    const [updated] = await db.update(clauseLibrary)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(clauseLibrary.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getCatalogItems(filters: { search?: string; kind?: string; includeInactive?: boolean; limit?: number } = {}): Promise<CatalogItem[]> {
+    const conditions = [];
+    if (filters.kind) conditions.push(eq(catalogItems.kind, filters.kind));
+    if (!filters.includeInactive) conditions.push(eq(catalogItems.isActive, true));
+    // Cada palabra debe aparecer en la clave, la descripción o los requerimientos técnicos
+    for (const word of (filters.search || "").trim().split(/\s+/).filter(Boolean)) {
+      const pattern = `%${word.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(
+        ilike(catalogItems.code, pattern),
+        ilike(catalogItems.description, pattern),
+        ilike(catalogItems.techRequirements, pattern),
+      ));
+    }
+    const query = db.select().from(catalogItems)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(catalogItems.description));
+    return filters.limit ? await query.limit(filters.limit) : await query;
+  }
+
+  async getCatalogItem(id: number): Promise<CatalogItem | undefined> {
+    const [item] = await db.select().from(catalogItems).where(eq(catalogItems.id, id));
+    return item;
+  }
+
+  async getCatalogItemByDescription(description: string, kind: string): Promise<CatalogItem | undefined> {
+    const [item] = await db.select().from(catalogItems)
+      .where(and(eq(catalogItems.kind, kind), sql`lower(trim(${catalogItems.description})) = ${description.trim().toLowerCase()}`))
+      .orderBy(desc(catalogItems.isActive), asc(catalogItems.id));
+    return item;
+  }
+
+  async createCatalogItem(item: InsertCatalogItem): Promise<CatalogItem> {
+    const [created] = await db.insert(catalogItems).values(item).returning();
+    return created;
+  }
+
+  async updateCatalogItem(id: number, data: Partial<InsertCatalogItem>): Promise<CatalogItem | undefined> {
+    const [updated] = await db.update(catalogItems)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(catalogItems.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getClients(filters: { search?: string; includeInactive?: boolean } = {}): Promise<Client[]> {
+    const conditions = [];
+    if (!filters.includeInactive) conditions.push(eq(clients.isActive, true));
+    for (const word of (filters.search || "").trim().split(/\s+/).filter(Boolean)) {
+      const pattern = `%${word.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(ilike(clients.name, pattern), ilike(clients.shortName, pattern)));
+    }
+    return await db.select().from(clients)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(clients.name));
+  }
+
+  async getClient(id: number): Promise<Client | undefined> {
+    const [client] = await db.select().from(clients).where(eq(clients.id, id));
+    return client;
+  }
+
+  async getClientByName(name: string): Promise<Client | undefined> {
+    const [client] = await db.select().from(clients)
+      .where(sql`lower(trim(${clients.name})) = ${name.trim().toLowerCase()}`);
+    return client;
+  }
+
+  async createClient(client: InsertClient): Promise<Client> {
+    const [created] = await db.insert(clients).values(client).returning();
+    return created;
+  }
+
+  async updateClient(id: number, data: Partial<InsertClient>): Promise<Client | undefined> {
+    const [updated] = await db.update(clients)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(clients.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getClientContacts(clientIds: number[], includeInactive = false): Promise<ClientContact[]> {
+    if (clientIds.length === 0) return [];
+    const conditions = [inArray(clientContacts.clientId, clientIds)];
+    if (!includeInactive) conditions.push(eq(clientContacts.isActive, true));
+    return await db.select().from(clientContacts)
+      .where(and(...conditions))
+      .orderBy(asc(clientContacts.fullName));
+  }
+
+  async getClientContact(id: number): Promise<ClientContact | undefined> {
+    const [contact] = await db.select().from(clientContacts).where(eq(clientContacts.id, id));
+    return contact;
+  }
+
+  async createClientContact(contact: InsertClientContact): Promise<ClientContact> {
+    const [created] = await db.insert(clientContacts).values(contact).returning();
+    return created;
+  }
+
+  async updateClientContact(id: number, data: Partial<InsertClientContact>): Promise<ClientContact | undefined> {
+    const [updated] = await db.update(clientContacts)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(clientContacts.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getQuotesByClient(clientId: number): Promise<Quote[]> {
+    return await db.select().from(quotes)
+      .where(eq(quotes.clientId, clientId))
+      .orderBy(desc(quotes.createdAt));
+  }
+
+  async countQuotesByClient(): Promise<Map<number, number>> {
+    const rows = await db.select({ clientId: quotes.clientId, total: sql<number>`count(*)::int` })
+      .from(quotes)
+      .where(sql`${quotes.clientId} is not null`)
+      .groupBy(quotes.clientId);
+    return new Map(rows.map(row => [row.clientId!, Number(row.total)]));
+  }
+
+  async getMarginRules(): Promise<MarginRule[]> {
+    return await db.select().from(marginRules).orderBy(asc(marginRules.companyOrigin), asc(marginRules.category));
+  }
+
+  async upsertMarginRule(rule: InsertMarginRule): Promise<MarginRule> {
+    const [saved] = await db.insert(marginRules)
+      .values(rule)
+      .onConflictDoUpdate({
+        target: [marginRules.companyOrigin, marginRules.category],
+        set: { minMarginPercent: rule.minMarginPercent, enforcement: rule.enforcement, correo: rule.correo, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteMarginRule(id: number): Promise<MarginRule | undefined> {
+    const [deleted] = await db.delete(marginRules).where(eq(marginRules.id, id)).returning();
+    return deleted;
+  }
+
   async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
     const [auditLog] = await db.insert(auditLogs).values(log).returning();
     return auditLog;
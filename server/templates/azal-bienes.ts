@@ -1,16 +1,15 @@
-import { amountToSpanishText } from "../quotes";
+import { quoteTotalsFromLineItems } from "../quotes";
 import fs from "fs";
 import path from "path";
 
 export function generateAzalBienesTemplate(provider: any, quote: any, items: any[]) {
   // Cálculos matemáticos
-  const subtotal = items.reduce((acc, item) => acc + (Number(item.quantity) * Number(item.unitPrice)), 0);
-  const iva = subtotal * 0.16;
-  const total = subtotal + iva;
-  const totalEnTexto = amountToSpanishText(total);
+  const totals = quoteTotalsFromLineItems(quote, items);
+  const { subtotal, iva, total } = totals;
+  const totalEnTexto = totals.totalText;
 
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(amount);
+    return new Intl.NumberFormat('es-MX', { style: 'currency', currency: totals.currency }).format(amount);
   };
 
   // 1. LÓGICA DE FECHA Y LUGAR
@@ -247,9 +246,19 @@ export function generateAzalBienesTemplate(provider: any, quote: any, items: any
                   </tr>
                   <tr>
                     <td colspan="5" style="border: none !important; background-color: #ffffff;"></td>
-                    <td class="bold text-center">IVA</td>
+                    <td class="bold text-center">${totals.ivaLabel}</td>
                     <td class="bold text-right">${formatCurrency(iva)}</td>
                   </tr>
+                  ${totals.ivaRetention > 0 ? `<tr>
+                    <td colspan="5" style="border: none !important; background-color: #ffffff;"></td>
+                    <td class="bold text-center">RETENCIÓN IVA (${totals.ivaRetentionRate}%)</td>
+                    <td class="bold text-right">${formatCurrency(totals.ivaRetention)}</td>
+                  </tr>` : ""}
+                  ${totals.isrRetention > 0 ? `<tr>
+                    <td colspan="5" style="border: none !important; background-color: #ffffff;"></td>
+                    <td class="bold text-center">RETENCIÓN ISR (${totals.isrRetentionRate}%)</td>
+                    <td class="bold text-right">${formatCurrency(totals.isrRetention)}</td>
+                  </tr>` : ""}
                   <tr>
                     <td colspan="5" style="border: none !important; background-color: #ffffff;"></td>
                     <td class="bold text-center">TOTAL</td>
@@ -259,12 +268,12 @@ export function generateAzalBienesTemplate(provider: any, quote: any, items: any
               </table>
 
               <div class="bold text-center" style="margin-bottom: 25px; text-transform: uppercase;">
-                ${totalEnTexto} IVA INCLUIDO.
+                ${totalEnTexto} ${totals.ivaLegend}.
               </div>
 
               <div class="bold" style="text-decoration: underline; margin-bottom: 5px;">CONDICIONES COMERCIALES:</div>
               <ul class="list-bullet">
-                <li><span class="bold">Precios en Moneda Nacional.</span></li>
+                <li><span class="bold">Precios en ${totals.currencyName}.</span></li>
                 <li><span class="bold">Vigencia de la cotización:</span> ${quote.validityDays || 120} días.</li>
                 <li><span class="bold">Origen de los bienes:</span> ${quote.goodsOrigin || 'Nacional'}.</li>
                 <li><span class="bold">Nacionalidad del proveedor:</span> mexicana.</li>
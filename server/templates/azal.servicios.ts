@@ -1,16 +1,15 @@
-import { amountToSpanishText } from "../quotes";
+import { quoteTotalsFromLineItems } from "../quotes";
 import fs from "fs";
 import path from "path";
 
 export function generateAzalServiciosTemplate(provider: any, quote: any, items: any[]) {
   // Cálculos matemáticos
-  const subtotal = items.reduce((acc, item) => acc + (Number(item.quantity) * Number(item.unitPrice)), 0);
-  const iva = subtotal * 0.16;
-  const total = subtotal + iva;
-  const totalEnTexto = amountToSpanishText(total);
+  const totals = quoteTotalsFromLineItems(quote, items);
+  const { subtotal, iva, total } = totals;
+  const totalEnTexto = totals.totalText;
 
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(amount);
+    return new Intl.NumberFormat('es-MX', { style: 'currency', currency: totals.currency }).format(amount);
   };
 
   // 1. LÓGICA DE FECHA Y LUGAR
@@ -208,9 +207,19 @@ export function generateAzalServiciosTemplate(provider: any, quote: any, items:
     </tr>
     <tr>
       <td colspan="4" style="border: none;"></td>
-      <td style="border: 1px solid #5C6BC0; padding: 8px; font-weight: bold;">IVA</td>
+      <td style="border: 1px solid #5C6BC0; padding: 8px; font-weight: bold;">${totals.ivaLabel}</td>
       <td style="border: 1px solid #5C6BC0; padding: 8px; text-align: right; font-weight: bold;">${formatCurrency(iva)}</td>
     </tr>
+    ${totals.ivaRetention > 0 ? `<tr>
+      <td colspan="4" style="border: none;"></td>
+      <td style="border: 1px solid #5C6BC0; padding: 8px; font-weight: bold;">RETENCIÓN IVA (${totals.ivaRetentionRate}%)</td>
+      <td style="border: 1px solid #5C6BC0; padding: 8px; text-align: right; font-weight: bold;">${formatCurrency(totals.ivaRetention)}</td>
+    </tr>` : ""}
+    ${totals.isrRetention > 0 ? `<tr>
+      <td colspan="4" style="border: none;"></td>
+      <td style="border: 1px solid #5C6BC0; padding: 8px; font-weight: bold;">RETENCIÓN ISR (${totals.isrRetentionRate}%)</td>
+      <td style="border: 1px solid #5C6BC0; padding: 8px; text-align: right; font-weight: bold;">${formatCurrency(totals.isrRetention)}</td>
+    </tr>` : ""}
     <tr>
       <td colspan="4" style="border: none;"></td>
       <td style="border: 1px solid #5C6BC0; padding: 8px; font-weight: bold;">TOTAL</td>
@@ -220,11 +229,11 @@ export function generateAzalServiciosTemplate(provider: any, quote: any, items:
 </table>
 
       <div class="bold text-center" style="margin-bottom: 25px; text-transform: uppercase;">
-        ${totalEnTexto} IVA INCLUIDO.
+        ${totalEnTexto} ${totals.ivaLegend}.
       </div>
       <div class="bold" style="text-decoration: underline; margin-bottom: 5px;">CONDICIONES COMERCIALES:</div>
       <ul style="list-style-type: disc; padding-left: 20px;">
-  <li style="margin-bottom: 5px;">Precios en Moneda Nacional.</li>
+  <li style="margin-bottom: 5px;">Precios en ${totals.currencyName}.</li>
   <li style="margin-bottom: 5px;">Vigencia de la cotización: <span style="color: #63A6E1; font-weight: bold;">${quote.validityDays || 90} días</span>.</li>
   <li style="margin-bottom: 5px;">Origen de los bienes: <span style="color: #63A6E1; font-weight: bold;">${quote.goodsOrigin || 'Nacional'}</span>.</li>
   <li style="margin-bottom: 5px;">Nacionalidad del proveedor: <span style="color: #63A6E1; font-weight: bold;">mexicana</span></li>
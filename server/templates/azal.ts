@@ -1,13 +1,12 @@
-import { amountToSpanishText } from "../quotes";
+import { quoteTotalsFromLineItems } from "../quotes";
 
 export function generateAzalTemplate(provider: any, quote: any, items: any[]) {
-  const subtotal = items.reduce((acc, item) => acc + (Number(item.quantity) * Number(item.unitPrice)), 0);
-  const iva = subtotal * 0.16;
-  const total = subtotal + iva;
-  const totalEnTexto = amountToSpanishText(total);
+  const totals = quoteTotalsFromLineItems(quote, items);
+  const { subtotal, iva, total } = totals;
+  const totalEnTexto = totals.totalText;
 
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(amount);
+    return new Intl.NumberFormat('es-MX', { style: 'currency', currency: totals.currency }).format(amount);
   };
 
   // 1. REGLA: Datos quemados de la empresa (Azal)
@@ -123,9 +122,19 @@ export function generateAzalTemplate(provider: any, quote: any, items: any[]) {
           </tr>
           <tr>
             <td colspan="4" style="border: none;"></td>
-            <td class="bold text-right" style="background-color: #f2f2f2;">IVA (16%)</td>
+            <td class="bold text-right" style="background-color: #f2f2f2;">${totals.ivaLabel}</td>
             <td class="bold text-right">${formatCurrency(iva)}</td>
           </tr>
+          ${totals.ivaRetention > 0 ? `<tr>
+            <td colspan="4" style="border: none;"></td>
+            <td class="bold text-right" style="background-color: #f2f2f2;">RETENCIÓN IVA (${totals.ivaRetentionRate}%)</td>
+            <td class="bold text-right">${formatCurrency(totals.ivaRetention)}</td>
+          </tr>` : ""}
+          ${totals.isrRetention > 0 ? `<tr>
+            <td colspan="4" style="border: none;"></td>
+            <td class="bold text-right" style="background-color: #f2f2f2;">RETENCIÓN ISR (${totals.isrRetentionRate}%)</td>
+            <td class="bold text-right">${formatCurrency(totals.isrRetention)}</td>
+          </tr>` : ""}
           <tr>
             <td colspan="4" style="border: none;"></td>
             <td class="bold text-right" style="background-color: #f2f2f2;">TOTAL</td>
@@ -135,12 +144,12 @@ export function generateAzalTemplate(provider: any, quote: any, items: any[]) {
       </table>
 
       <div style="text-align: center; font-weight: bold; text-transform: uppercase; margin-bottom: 20px;">
-        ${totalEnTexto} IVA INCLUIDO.
+        ${totalEnTexto} ${totals.ivaLegend}.
       </div>
 
       <div class="section-title">CONDICIONES COMERCIALES:</div>
       <ul class="list-bullet">
-        <li><span class="bold">Precios en Moneda Nacional.</span></li>
+        <li><span class="bold">Precios en ${totals.currencyName}.</span></li>
         <li><span class="bold">Vigencia de la cotización:</span> ${quote.validityDays} días.</li>
         <li><span class="bold">Origen de los servicios:</span> ${quote.goodsOrigin}.</li>
         <li><span class="bold">Nacionalidad del proveedor:</span> ${quote.providerNationality}.</li>
@@ -1,4 +1,4 @@
-import { amountToSpanishText } from "../quotes";
+import { quoteTotalsFromLineItems } from "../quotes";
 import fs from "fs";
 import path from "path";
 
@@ -9,7 +9,7 @@ export function generateDemaTemplate(provider: any, quote: any, items: any[]) {
   };
 
   const formatCurrency = (amount: number): string =>
-    new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(amount);
+    new Intl.NumberFormat('es-MX', { style: 'currency', currency: totals.currency }).format(amount);
 
   const deliveryLocations = safeParse(quote.deliveryLocations  || quote.deliveryLocationsJson);
   const qualityGuarantees = safeParse(quote.qualityGuarantees  || quote.qualityGuaranteesJson);
@@ -17,10 +17,9 @@ export function generateDemaTemplate(provider: any, quote: any, items: any[]) {
   const requiredDocuments  = safeParse(quote.requiredDocuments  || quote.requiredDocumentsJson);
   const normsTable         = safeParse(quote.normsTable         || quote.normsTableJson);
 
-  const subtotal = items.reduce((acc, item) => acc + (Number(item.quantity) * Number(item.unitPrice)), 0);
-  const iva      = subtotal * 0.16;
-  const total    = subtotal + iva;
-  const totalEnTexto = amountToSpanishText(total);
+  const totals = quoteTotalsFromLineItems(quote, items);
+  const { subtotal, iva, total } = totals;
+  const totalEnTexto = totals.totalText;
 
   let firmaBase64 = "";
   try {
@@ -252,9 +251,19 @@ export function generateDemaTemplate(provider: any, quote: any, items: any[]) {
       </tr>
       <tr>
         <td colspan="4" class="no-border"></td>
-        <td class="bold txt-right" style="border:1px solid #1B5E20;">IVA</td>
+        <td class="bold txt-right" style="border:1px solid #1B5E20;">${totals.ivaLabel}</td>
         <td class="bold txt-right" style="border:1px solid #1B5E20;">${formatCurrency(iva)}</td>
       </tr>
+      ${totals.ivaRetention > 0 ? `<tr>
+        <td colspan="4" class="no-border"></td>
+        <td class="bold txt-right" style="border:1px solid #1B5E20;">RETENCIÓN IVA (${totals.ivaRetentionRate}%)</td>
+        <td class="bold txt-right" style="border:1px solid #1B5E20;">${formatCurrency(totals.ivaRetention)}</td>
+      </tr>` : ""}
+      ${totals.isrRetention > 0 ? `<tr>
+        <td colspan="4" class="no-border"></td>
+        <td class="bold txt-right" style="border:1px solid #1B5E20;">RETENCIÓN ISR (${totals.isrRetentionRate}%)</td>
+        <td class="bold txt-right" style="border:1px solid #1B5E20;">${formatCurrency(totals.isrRetention)}</td>
+      </tr>` : ""}
       <tr>
         <td colspan="4" class="no-border"></td>
         <td class="bold txt-right" style="border:1px solid #1B5E20;">TOTAL</td>
@@ -265,7 +274,7 @@ export function generateDemaTemplate(provider: any, quote: any, items: any[]) {
 
   <!-- TOTAL EN PALABRAS -->
   <div class="txt-center bold" style="margin-bottom:20px;text-transform:uppercase;">
-    ${totalEnTexto} M.N. I.V.A. INCLUIDO
+    ${totalEnTexto} ${totals.ivaLegend}
   </div>
 
   <!-- ════════════════ TÉRMINOS COMERCIALES ════════════════ -->
@@ -288,7 +297,7 @@ export function generateDemaTemplate(provider: any, quote: any, items: any[]) {
     </li>
 
     <!-- IV. Precios en Moneda Nacional -->
-    <li>Precios en Moneda Nacional.
+    <li>Precios en ${totals.currencyName}.
     </li>
 
     <!-- V. Vigencia -->
@@ -1,4 +1,4 @@
-import { amountToSpanishText } from "../quotes";
+import { quoteTotalsFromLineItems } from "../quotes";
 import fs from "fs";
 import path from "path";
 
@@ -9,7 +9,7 @@ export function generateDemaServiciosTemplate(quote: any, items: any[]) {
   };
 
   const formatCurrency = (amount: number): string =>
-    new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(amount);
+    new Intl.NumberFormat('es-MX', { style: 'currency', currency: totals.currency }).format(amount);
 
   const deliveryLocations  = safeParse(quote.deliveryLocations  || quote.deliveryLocationsJson);
   const deliveryConditions = safeParse(quote.deliveryConditions || quote.deliveryConditionsJson);
@@ -18,10 +18,9 @@ export function generateDemaServiciosTemplate(quote: any, items: any[]) {
   const requiredDocuments  = safeParse(quote.requiredDocuments  || quote.requiredDocumentsJson);
   const serviceNormsTable  = safeParse(quote.serviceNormsTable  || quote.serviceNormsTableJson);
 
-  const subtotal = items.reduce((acc, item) => acc + (Number(item.quantity) * Number(item.unitPrice)), 0);
-  const iva      = subtotal * 0.16;
-  const total    = subtotal + iva;
-  const totalEnTexto = amountToSpanishText(total);
+  const totals = quoteTotalsFromLineItems(quote, items);
+  const { subtotal, iva, total } = totals;
+  const totalEnTexto = totals.totalText;
 
   let firmaBase64 = "";
   try {
@@ -264,9 +263,19 @@ export function generateDemaServiciosTemplate(quote: any, items: any[]) {
       </tr>
       <tr>
         <td colspan="4" class="no-border"></td>
-        <td class="bold txt-right" style="border:1px solid #1B5E20;">IVA</td>
+        <td class="bold txt-right" style="border:1px solid #1B5E20;">${totals.ivaLabel}</td>
         <td class="bold txt-right" style="border:1px solid #1B5E20;">${formatCurrency(iva)}</td>
       </tr>
+      ${totals.ivaRetention > 0 ? `<tr>
+        <td colspan="4" class="no-border"></td>
+        <td class="bold txt-right" style="border:1px solid #1B5E20;">RETENCIÓN IVA (${totals.ivaRetentionRate}%)</td>
+        <td class="bold txt-right" style="border:1px solid #1B5E20;">${formatCurrency(totals.ivaRetention)}</td>
+      </tr>` : ""}
+      ${totals.isrRetention > 0 ? `<tr>
+        <td colspan="4" class="no-border"></td>
+        <td class="bold txt-right" style="border:1px solid #1B5E20;">RETENCIÓN ISR (${totals.isrRetentionRate}%)</td>
+        <td class="bold txt-right" style="border:1px solid #1B5E20;">${formatCurrency(totals.isrRetention)}</td>
+      </tr>` : ""}
       <tr>
         <td colspan="4" class="no-border"></td>
         <td class="bold txt-right" style="border:1px solid #1B5E20;">TOTAL</td>
@@ -277,7 +286,7 @@ export function generateDemaServiciosTemplate(quote: any, items: any[]) {
 
   <!-- TOTAL EN PALABRAS -->
   <div class="txt-center bold" style="margin-bottom:20px;text-transform:uppercase;">
-    ${totalEnTexto} M.N. I.V.A. INCLUIDO
+    ${totalEnTexto} ${totals.ivaLegend}
   </div>
 
   <!-- ════════════════ TÉRMINOS COMERCIALES ════════════════ -->
@@ -299,7 +308,7 @@ export function generateDemaServiciosTemplate(quote: any, items: any[]) {
     </li>
 
     <!-- IV. Precios en Moneda Nacional -->
-    <li>Precios en Moneda Nacional.
+    <li>Precios en ${totals.currencyName}.
     </li>
 
     <!-- V. Vigencia -->
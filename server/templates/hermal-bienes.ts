@@ -1,4 +1,4 @@
-import { amountToSpanishText } from "../quotes"; // Ajusta la ruta según tu estructura
+import { quoteTotalsFromLineItems } from "../quotes"; // Ajusta la ruta según tu estructura
 import fs from "fs";
 import path from "path";
 
@@ -52,12 +52,11 @@ export function generateHermalBienesTemplate(provider: any, quote: any, items: a
 .join('');
 
   // 4. Cálculos de la tabla
-  const subtotal = items.reduce((acc, item) => acc + (Number(item.quantity) * Number(item.unitPrice)), 0);
-  const iva = subtotal * 0.16;
-  const total = subtotal + iva;
-  const totalEnTexto = amountToSpanishText(total);
+  const totals = quoteTotalsFromLineItems(quote, items);
+  const { subtotal, iva, total } = totals;
+  const totalEnTexto = totals.totalText;
 
-  const formatCurrency = (amount: number) => new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(amount);
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('es-MX', { style: 'currency', currency: totals.currency }).format(amount);
 
   // 5. Carga de la firma
   let firmaBase64 = "";
@@ -178,9 +177,19 @@ export function generateHermalBienesTemplate(provider: any, quote: any, items: a
     </tr>
     <tr>
       <td colspan="4" style="border: none !important; background-color: transparent !important;"></td>
-      <td style="border: 2px solid #FFF6D9 !important; padding: 8px; text-align: right; font-weight: bold; background-color: #ffffff !important; color: #000;">IVA:</td>
+      <td style="border: 2px solid #FFF6D9 !important; padding: 8px; text-align: right; font-weight: bold; background-color: #ffffff !important; color: #000;">${totals.ivaLabel}:</td>
       <td style="border: 2px solid #FFF6D9 !important; padding: 8px; text-align: center; font-weight: bold; background-color: #ffffff !important; color: #000;">${formatCurrency(iva)}</td>
     </tr>
+    ${totals.ivaRetention > 0 ? `<tr>
+      <td colspan="4" style="border: none !important; background-color: transparent !important;"></td>
+      <td style="border: 2px solid #FFF6D9 !important; padding: 8px; text-align: right; font-weight: bold; background-color: #ffffff !important; color: #000;">RETENCIÓN IVA (${totals.ivaRetentionRate}%):</td>
+      <td style="border: 2px solid #FFF6D9 !important; padding: 8px; text-align: center; font-weight: bold; background-color: #ffffff !important; color: #000;">${formatCurrency(totals.ivaRetention)}</td>
+    </tr>` : ""}
+    ${totals.isrRetention > 0 ? `<tr>
+      <td colspan="4" style="border: none !important; background-color: transparent !important;"></td>
+      <td style="border: 2px solid #FFF6D9 !important; padding: 8px; text-align: right; font-weight: bold; background-color: #ffffff !important; color: #000;">RETENCIÓN ISR (${totals.isrRetentionRate}%):</td>
+      <td style="border: 2px solid #FFF6D9 !important; padding: 8px; text-align: center; font-weight: bold; background-color: #ffffff !important; color: #000;">${formatCurrency(totals.isrRetention)}</td>
+    </tr>` : ""}
     <tr>
       <td colspan="4" style="border: none !important; background-color: transparent !important;"></td>
       <td style="border: 2px solid #FFF6D9 !important; padding: 8px; text-align: right; font-weight: bold; background-color: #FFF6D9 !important; color: #000;">TOTAL:</td>
@@ -190,13 +199,13 @@ export function generateHermalBienesTemplate(provider: any, quote: any, items: a
 </table>
 
 <div style="text-align: center; font-weight: bold; margin-bottom: 25px; text-transform: uppercase;">
-                        ${totalEnTexto} IVA INCLUIDO.
+                        ${totalEnTexto} ${totals.ivaLegend}.
                      </div>
                      
       <div class="title underline" style="margin-top: 20px; margin-bottom: 10px;">TÉRMINOS COMERCIALES:</div>
       
       <ol class="roman-list">
-        <li>Moneda en que se cotiza: Moneda Nacional.</li>
+        <li>Moneda en que se cotiza: ${totals.currencyName}.</li>
         
         <li>Origen de los servicios: ${quote.goodsOrigin || ''}</li>
         
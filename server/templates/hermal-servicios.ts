@@ -1,4 +1,4 @@
-import { amountToSpanishText } from "../quotes";
+import { quoteTotalsFromLineItems } from "../quotes";
 import fs from "fs";
 import path from "path";
 
@@ -32,13 +32,12 @@ export function generateHermalServiciosTemplate(provider: any, quote: any, items
   const deliveryLocations = safeParse(quote.deliveryLocationsJson || quote.deliveryLocations);
 
   // 3. Cálculos de la Propuesta
-  const subtotal = items.reduce((acc, item) => acc + (Number(item.quantity) * Number(item.unitPrice)), 0);
-  const iva = subtotal * 0.16;
-  const total = subtotal + iva;
-  const totalEnTexto = amountToSpanishText(total);
+  const totals = quoteTotalsFromLineItems(quote, items);
+  const { subtotal, iva, total } = totals;
+  const totalEnTexto = totals.totalText;
 
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(amount);
+    return new Intl.NumberFormat('es-MX', { style: 'currency', currency: totals.currency }).format(amount);
   };
 
   // 4. Lógica de Tabla de Entregas (Única o Múltiple)
@@ -204,9 +203,19 @@ export function generateHermalServiciosTemplate(provider: any, quote: any, items
                           </tr>
                           <tr>
                             <td colspan="4" style="border: none !important; background-color: transparent;"></td>
-                            <td style="text-align: right; font-weight: bold; border: 1px solid #f4e5a4; background-color: transparent;">IVA:</td>
+                            <td style="text-align: right; font-weight: bold; border: 1px solid #f4e5a4; background-color: transparent;">${totals.ivaLabel}:</td>
                             <td style="text-align: center; font-weight: bold; border: 1px solid #f4e5a4; background-color: transparent;">${formatCurrency(iva)}</td>
                           </tr>
+                          ${totals.ivaRetention > 0 ? `<tr>
+                            <td colspan="4" style="border: none !important; background-color: transparent;"></td>
+                            <td style="text-align: right; font-weight: bold; border: 1px solid #f4e5a4; background-color: transparent;">RETENCIÓN IVA (${totals.ivaRetentionRate}%):</td>
+                            <td style="text-align: center; font-weight: bold; border: 1px solid #f4e5a4; background-color: transparent;">${formatCurrency(totals.ivaRetention)}</td>
+                          </tr>` : ""}
+                          ${totals.isrRetention > 0 ? `<tr>
+                            <td colspan="4" style="border: none !important; background-color: transparent;"></td>
+                            <td style="text-align: right; font-weight: bold; border: 1px solid #f4e5a4; background-color: transparent;">RETENCIÓN ISR (${totals.isrRetentionRate}%):</td>
+                            <td style="text-align: center; font-weight: bold; border: 1px solid #f4e5a4; background-color: transparent;">${formatCurrency(totals.isrRetention)}</td>
+                          </tr>` : ""}
                           <tr>
                             <td colspan="4" style="border: none !important; background-color: transparent;"></td>
                             <td style="text-align: right; font-weight: bold; border: 1px solid #f4e5a4; background-color: transparent;">TOTAL:</td>
@@ -216,13 +225,13 @@ export function generateHermalServiciosTemplate(provider: any, quote: any, items
                      </table>
 
                      <div style="text-align: center; font-weight: bold; margin-bottom: 25px; text-transform: uppercase;">
-                        ${totalEnTexto} IVA INCLUIDO.
+                        ${totalEnTexto} ${totals.ivaLegend}.
                      </div>
 
                      <div class="title underline">TÉRMINOS COMERCIALES:</div>
                      
                      <ol class="roman-list">
-                        <li>Moneda en que se cotiza: Moneda Nacional.</li>
+                        <li>Moneda en que se cotiza: ${totals.currencyName}.</li>
                         <li>Origen de los servicios: ${quote.goodsOrigin || ''}.</li>
                         <li>Vigencia de la cotización: ${quote.validityDays || ''} días.</li>
                         
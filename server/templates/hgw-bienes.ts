@@ -1,4 +1,4 @@
-import { amountToSpanishText } from "../quotes";
+import { quoteTotalsFromLineItems } from "../quotes";
 import fs from "fs";
 import path from "path";
 
@@ -25,13 +25,12 @@ export function generateHgwBienesTemplate(provider: any, quote: any, items: any[
   const socialObjects = safeParse(quote.selectedSocialObjectsJson || quote.selectedSocialObjects);
   const deliveryLocations = safeParse(quote.deliveryLocationsJson || quote.deliveryLocations);
 
-  const subtotal = items.reduce((acc, item) => acc + (Number(item.quantity) * Number(item.unitPrice)), 0);
-  const iva = subtotal * 0.16;
-  const total = subtotal + iva;
-  const totalEnTexto = amountToSpanishText(total);
+  const totals = quoteTotalsFromLineItems(quote, items);
+  const { subtotal, iva, total } = totals;
+  const totalEnTexto = totals.totalText;
 
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(amount);
+    return new Intl.NumberFormat('es-MX', { style: 'currency', currency: totals.currency }).format(amount);
   };
 
   const partidasStr = items.map((item, index) => item.noPartida || (index + 1).toString()).join(', ');
@@ -175,9 +174,19 @@ export function generateHgwBienesTemplate(provider: any, quote: any, items: any[
                           </tr>
                           <tr>
                             <td colspan="4" style="border: none !important;"></td>
-                            <td style="text-align: right; font-weight: bold; border: 1px solid black !important;">IVA:</td>
+                            <td style="text-align: right; font-weight: bold; border: 1px solid black !important;">${totals.ivaLabel}:</td>
                             <td style="text-align: center; font-weight: bold; border: 1px solid black !important;">${formatCurrency(iva)}</td>
                           </tr>
+                          ${totals.ivaRetention > 0 ? `<tr>
+                            <td colspan="4" style="border: none !important;"></td>
+                            <td style="text-align: right; font-weight: bold; border: 1px solid black !important;">RETENCIÓN IVA (${totals.ivaRetentionRate}%):</td>
+                            <td style="text-align: center; font-weight: bold; border: 1px solid black !important;">${formatCurrency(totals.ivaRetention)}</td>
+                          </tr>` : ""}
+                          ${totals.isrRetention > 0 ? `<tr>
+                            <td colspan="4" style="border: none !important;"></td>
+                            <td style="text-align: right; font-weight: bold; border: 1px solid black !important;">RETENCIÓN ISR (${totals.isrRetentionRate}%):</td>
+                            <td style="text-align: center; font-weight: bold; border: 1px solid black !important;">${formatCurrency(totals.isrRetention)}</td>
+                          </tr>` : ""}
                           <tr>
                             <td colspan="4" style="border: none !important;"></td>
                             <td style="text-align: right; font-weight: bold; border: 1px solid black !important;">TOTAL:</td>
@@ -187,13 +196,13 @@ export function generateHgwBienesTemplate(provider: any, quote: any, items: any[
                      </table>
 
                      <div style="text-align: center; font-weight: bold; margin-bottom: 25px; font-size: 10pt; text-transform: uppercase;">
-                        ${totalEnTexto} IVA INCLUIDO.
+                        ${totalEnTexto} ${totals.ivaLegend}.
                      </div>
 
                      <div class="title underline">TÉRMINOS COMERCIALES:</div>
                      
                      <ol class="roman-list">
-                        <li>Moneda en que se cotiza: Moneda Nacional.</li>
+                        <li>Moneda en que se cotiza: ${totals.currencyName}.</li>
                         <li>Origen de los servicios: ${quote.goodsOrigin}.</li>
                         <li>Vigencia de la cotización: ${quote.validityDays} días.</li>
                         
@@ -1,15 +1,13 @@
-import { amountToSpanishText } from "../quotes";
+import { quoteTotalsFromLineItems } from "../quotes";
 import fs from "fs";
 import path from "path";
-import { getClausulaText } from "@/lib/clausulas";
 
 export function generateHGWServiciosTemplate(quote: any, items: any[]) {
-  const subtotal = items.reduce((acc, item) => acc + (Number(item.quantity) * Number(item.unitPrice)), 0);
-  const iva = subtotal * 0.16;
-  const total = subtotal + iva;
-  const totalEnTexto = amountToSpanishText(total);
+  const totals = quoteTotalsFromLineItems(quote, items);
+  const { subtotal, iva, total } = totals;
+  const totalEnTexto = totals.totalText;
 
-  const formatCurrency = (amount: number) => new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(amount);
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('es-MX', { style: 'currency', currency: totals.currency }).format(amount);
 
   let firmaBase64 = "";
 
@@ -107,9 +105,19 @@ export function generateHGWServiciosTemplate(quote: any, items: any[]) {
                           </tr>
                           <tr>
                             <td colspan="4" style="border: none !important;"></td>
-                            <td style="text-align: right; font-weight: bold; border: 1px solid black !important;">IVA:</td>
+                            <td style="text-align: right; font-weight: bold; border: 1px solid black !important;">${totals.ivaLabel}:</td>
                             <td style="text-align: center; font-weight: bold; border: 1px solid black !important;">${formatCurrency(iva)}</td>
                           </tr>
+                          ${totals.ivaRetention > 0 ? `<tr>
+                            <td colspan="4" style="border: none !important;"></td>
+                            <td style="text-align: right; font-weight: bold; border: 1px solid black !important;">RETENCIÓN IVA (${totals.ivaRetentionRate}%):</td>
+                            <td style="text-align: center; font-weight: bold; border: 1px solid black !important;">${formatCurrency(totals.ivaRetention)}</td>
+                          </tr>` : ""}
+                          ${totals.isrRetention > 0 ? `<tr>
+                            <td colspan="4" style="border: none !important;"></td>
+                            <td style="text-align: right; font-weight: bold; border: 1px solid black !important;">RETENCIÓN ISR (${totals.isrRetentionRate}%):</td>
+                            <td style="text-align: center; font-weight: bold; border: 1px solid black !important;">${formatCurrency(totals.isrRetention)}</td>
+                          </tr>` : ""}
                           <tr>
                             <td colspan="4" style="border: none !important;"></td>
                             <td style="text-align: right; font-weight: bold; border: 1px solid black !important;">TOTAL:</td>
@@ -119,13 +127,13 @@ export function generateHGWServiciosTemplate(quote: any, items: any[]) {
                      </table>
 
                      <div style="text-align: center; font-weight: bold; margin-bottom: 25px; font-size: 10pt; text-transform: uppercase;">
-                        ${totalEnTexto} IVA INCLUIDO.
+                        ${totalEnTexto} ${totals.ivaLegend}.
                      </div>
 
       <div class="bold underline" style="margin-top: 20px;">TÉRMINOS COMERCIALES:</div>
       
       <ol class="list-roman">
-        <li>Moneda en que se cotiza: Moneda Nacional.</li>
+        <li>Moneda en que se cotiza: ${totals.currencyName}.</li>
         <li>Origen de los servicios: ${quote.goodsOrigin || ''}</li>
         <li>Vigencia de la cotización: ${quote.validityDays || ''} días.</li>
         </li>
@@ -156,7 +164,7 @@ export function generateHGWServiciosTemplate(quote: any, items: any[]) {
   <ol class="list-alpha" style="margin-top: 5px; margin-left: 20px;">
     ${(quote.selectedDeliveryClauses || []).sort().map((id: string) => `
       <li style="margin-bottom: 10px; font-weight: normal;">
-        ${getClausulaText(id)}
+        ${quote.deliveryClauseTexts?.[id] ?? ''}
         
         ${id === 'C' ? `
           <table style="margin-top: 10px; width: 100%; border-collapse: collapse; border: 1px solid #000; font-size: 9pt;">
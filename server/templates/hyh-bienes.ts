@@ -1,17 +1,61 @@
-import { amountToSpanishText } from "../quotes";
+import { quoteTotalsFromLineItems } from "../quotes";
+import fs from "fs";
+import path from "path";
 
-export function generateHyhTemplate(provider: any, quote: any, items: any[]) {
-  const subtotal = items.reduce((acc, item) => acc + (Number(item.quantity) * Number(item.unitPrice)), 0);
-  const iva = subtotal * 0.16;
-  const total = subtotal + iva;
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(amount);
+export function generateHyhBienesTemplate(provider: any, quote: any, items: any[]) {
+  // 1. Parseo seguro de variables JSON
+  const safeParse = (data: any) => {
+    if (Array.isArray(data)) return data;
+    if (!data) return [];
+    try { return JSON.parse(data); } catch { return []; }
   };
 
-  const nombreEmpresa = provider.companyName || 'HYH SUMINISTROS Y MANTENIMIENTO INDUSTRIAL, S.A.S. DE C.V.';
-  
-  const partidasNumeros = items.map((_, i) => i + 1).join(', ');
+  const qualityGuarantees = safeParse(quote.qualityGuaranteesJson || quote.qualityGuarantees);
+  const docConditions = safeParse(quote.deliveryConditionsJson || quote.deliveryConditions)
+    .filter((cond: any) => (typeof cond === "string" ? cond : cond?.text || "").toString().trim() !== "");
+  const socialObjects = safeParse(quote.selectedSocialObjectsJson || quote.selectedSocialObjects);
+  const deliveryLocations = safeParse(quote.deliveryLocationsJson || quote.deliveryLocations);
+  const deliveryDates = safeParse(quote.deliveryDatesJson || quote.deliveryDates);
+
+  // 2. Datos de la empresa: se toman del proveedor registrado y, si faltan, los de HYH
+  const nombreEmpresa = provider?.companyName || 'HYH SUMINISTROS Y MANTENIMIENTO INDUSTRIAL, S.A.S. DE C.V.';
+  const representante = provider?.legalRepresentative || 'Ing. Héctor Trejo Tovar';
+  const banco = quote.bankName || provider?.bankName || 'Santander';
+  const clabe = quote.bankAccount || provider?.bankAccount || '';
+  const beneficiario = quote.bankBeneficiary || provider?.bankBeneficiary || nombreEmpresa;
+
+  // 3. Bloque dinámico de Atención
+  const attnFields = [
+    quote.attnGrado,
+    quote.attnNombre || quote.contactPerson,
+    quote.attnDependencia || quote.destinationCompany,
+    quote.attnArea,
+    quote.attnUbicacion,
+    quote.attnDireccion,
+    quote.attnCargo
+  ].filter(campo => campo && campo.trim() !== '').map(campo => `<div>${campo}</div>`).join('');
+
+  // 4. Cálculos de la tabla
+  const unitPriceOf = (item: any) => item.unitPriceCents ? item.unitPriceCents / 100 : Number(item.unitPrice);
+  const totals = quoteTotalsFromLineItems(quote, items);
+  const { subtotal, iva, total } = totals;
+  const totalEnTexto = totals.totalText;
+
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('es-MX', { style: 'currency', currency: totals.currency }).format(amount);
+
+  // 5. Carga de la firma
+  let firmaBase64 = "";
+  try {
+    const firmaPath = path.join(process.cwd(), 'server', 'assets', 'firma-hyh.png');
+    if (fs.existsSync(firmaPath)) {
+      firmaBase64 = `data:image/png;base64,${fs.readFileSync(firmaPath).toString('base64')}`;
+    }
+  } catch (error) {
+    console.warn("Error cargando firma HYH:", error);
+  }
+
+  const fechaEntrega = quote.deliveryTime || (deliveryDates.length > 0 ? deliveryDates.join(', ') : 'por definir');
+  const entregaUnica = quote.deliverySingle !== false && quote.deliverySingle !== "false";
 
   return `
     <!DOCTYPE html>
@@ -19,104 +63,215 @@ export function generateHyhTemplate(provider: any, quote: any, items: any[]) {
     <head>
       <meta charset="UTF-8">
       <style>
-        body { margin: 0; padding: 45px; font-family: Arial, Helvetica, sans-serif; font-size: 10pt; color: #000000; line-height: 1.5; background: #ffffff; }
-        .text-center { text-align: center; }
-        .text-right { text-align: right; }
+        body {
+          margin: 0;
+          padding: 0 45px;
+          font-family: Arial, Helvetica, sans-serif;
+          font-size: 10pt;
+          color: #000000;
+          line-height: 1.4;
+        }
+        .fixed-header {
+          position: fixed;
+          top: 15px;
+          left: 45px;
+          right: 45px;
+          z-index: 10;
+        }
+        .content-table { width: 100%; border-collapse: collapse; border: none; }
+        .content-table > thead { display: table-header-group; }
+        .content-table > tbody { display: table-row-group; }
+        .content-table > thead > tr > td { border: none; padding: 0; }
+        .content-table > tbody > tr > td { border: none; padding: 0; }
+
+        .header-space { height: 165px; }
+
+        .title { font-size: 11pt; font-weight: bold; }
         .bold { font-weight: bold; }
-        
-        table { width: 100%; border-collapse: collapse; margin-bottom: 25px; font-size: 9pt; }
-        th, td { border: 1px solid #000; padding: 6px 4px; text-align: center; vertical-align: middle; }
-        th { background-color: #B91C1C !important; color: white; font-weight: bold; text-transform: uppercase; }
-        .text-left { text-align: left; }
-        
-        .signature-section { margin-top: 50px; text-align: center; page-break-inside: avoid; }
-        .signature-line { width: 250px; height: 1px; background: #000000; margin: 0 auto 5px auto; }
-        
-        p { margin: 0 0 10px 0; text-align: justify; }
+        .underline { text-decoration: underline; }
+
+        .alpha-list-upper { list-style-type: upper-alpha; padding-left: 25px; margin-top: 10px; margin-bottom: 15px; }
+        .alpha-list-upper > li { margin-bottom: 10px; text-align: justify; }
+        .number-list { list-style-type: decimal; padding-left: 20px; margin-top: 5px; }
+        .number-list > li { margin-bottom: 6px; }
+        .alpha-list-lower { list-style-type: lower-alpha; padding-left: 20px; margin-top: 5px; }
+        .alpha-list-lower > li { margin-bottom: 4px; }
+
+        .data-table { width: 100%; border-collapse: collapse; margin-bottom: 20px; font-size: 9pt; }
+        .data-table th { border: 1px solid #000; padding: 6px 4px; text-align: center; background-color: #B91C1C; color: #ffffff; font-weight: bold; text-transform: uppercase; -webkit-print-color-adjust: exact; }
+        .data-table td { border: 1px solid #000; padding: 6px 4px; text-align: center; vertical-align: middle; }
       </style>
     </head>
     <body>
 
-      <table>
-        <thead>
-          <tr>
-            <th>PTA.</th>
-            <th>DESCRIPCIÓN</th>
-            <th>CANTIDAD</th>
-            <th>U.M.</th>
-            <th>COSTO UNITARIO</th>
-            <th>IMPORTE</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${items.map((item, index) => `
-            <tr>
-              <td>${index + 1}</td>
-              <td class="text-left">${item.description}</td>
-              <td>${item.quantity}</td>
-              <td>${item.unitMeasure || item.unit}</td>
-              <td class="text-right">${formatCurrency(item.unitPrice)}</td>
-              <td class="text-right">${formatCurrency(item.quantity * item.unitPrice)}</td>
-            </tr>
-          `).join('')}
-          <tr>
-            <td colspan="4" style="border: none;"></td>
-            <td class="bold text-right">SUBTOTAL</td>
-            <td class="bold text-right">${formatCurrency(subtotal)}</td>
-          </tr>
-          <tr>
-            <td colspan="4" style="border: none;"></td>
-            <td class="bold text-right">IVA</td>
-            <td class="bold text-right">${formatCurrency(iva)}</td>
-          </tr>
-          <tr>
-            <td colspan="4" style="border: none;"></td>
-            <td class="bold text-right">TOTAL</td>
-            <td class="bold text-right">${formatCurrency(total)}</td>
-          </tr>
-        </tbody>
-      </table>
-
-      <div class="bold" style="margin-bottom: 10px;">TÉRMINOS COMERCIALES:</div>
-      <p>A. Moneda en que se cotiza: Moneda Nacional.</p>
-      <p>B. Vigencia de la cotización: 90 días</p>
-      <p>C. Fecha de entrega: a partir del día siguiente hábil a la formalización del respectivo instrumento contractual y teniendo como fecha límite 95 días naturales posteriores de referida formalización.</p>
-      <p>D. Lugar de entrega: En los Almacenes Generales de Materiales de Guerra, ubicado en el Campo Militar Estratégico Conjunto No. 37-D, “Gral. Div. P.A Alfredo Lezama Álvarez”, Santa Lucía, México, Carretera México-Pachuca Km, 42.5, C.P. 55640, considerando que referida entrega será de lunes a viernes en un horario de 08:00 a 14:00 Hrs.</p>
-      <p>E. Condiciones de entrega: Conforme a el Anexo Administrativo.</p>
-      <p>F. Garantía de calidad:</p>
-      <p style="margin-left: 20px;">1. Carta escrita membretada bajo protesta de decir verdad, en donde manifieste que otorgará 3 (tres) meses de garantía de calidad para las partidas números: 2, 16, 40, 42, 43, 47, 48 y 54.</p>
-      <p style="margin-left: 20px;">2. La garantía de calidad deberá de cubrir por 3 (tres) meses el buen estado y empleo de las refacciones, accesorios e insumos que fueron adquiridos.</p>
-      <p style="margin-left: 20px;">3. La garantía de Calidad se activará una vez que se detecte en el plazo de su vigencia, alguna falla, deterioro, o mal funcionamiento que impidan el uso adecuado de los bienes que fueron adquiridos.</p>
-      <p style="margin-left: 20px;">4. La garantía de calidad surtirá efectos a partir de que se hayan recibido los bienes a entera satisfacción del área usuaria mediante el acta de recepción definitiva.</p>
-      <p style="margin-left: 20px;">5. En la garantía de calidad se indicará que la obligación de ${nombreEmpresa}, será que sin costo para esta Secretaría de Estado llevará a cabo el cambio de los insumos por otros de buena calidad, sin que para ello transcurran más de 7 (siete) días hábiles, a partir de la fecha y hora de la notificación.</p>
-      <p style="margin-left: 20px;">6. ${nombreEmpresa}, será notificado de la falla, deterioro, o mal funcionamiento de los bienes, atribuibles a su mala calidad, a través de una carta dirigida al representante legal y enviada por correo electrónico a la dirección electrónica que el proveedor dispondrá para tal fin.</p>
-      <p style="margin-left: 20px;">7. ${nombreEmpresa}, coordinará con el Administrador del contrato lo relativo al acceso al sitio donde se encuentran los bienes a ser reemplazados por activación de la garantía de calidad.</p>
-      <p>G. Forma de Pago: Transferencia Electrónica.</p>
-      <p>H. Mi representada cumple con las Condiciones de Entrega, Especificaciones Técnicas, Normas y Atributos Indicados en el Anexo Técnico y Administrativo.</p>
-      
-      <p>Razón social: ${nombreEmpresa}<br>
-      RFC: ${provider.rfc}.<br>
-      Domicilio: ${provider.legalAddress}<br>
-      Correo electrónico: ${provider.email}<br>
-      Origen de la empresa: ${quote.providerNationality || 'Mexicana'}.<br>
-      Banco: ${provider.bankName || 'Santander'}.<br>
-      Clave Bancaria Estándar: ${provider.bankAccount || '014 180 65509776799 2'}<br>
-      Nombre del representante legal: ${provider.legalRepresentative}<br>
-      Teléfono: ${provider.phone}.<br>
-      Objeto Social: ${provider.businessActivity}</p>
-      
-      <p>Con la presente oferta económica manifestamos interés en participar en el servicio de adquisición de bienes requerido por esa dependencia; y se presenta sin compromiso ni obligaciones para ambas partes.</p>
-
-      <div class="signature-section">
-        <div class="bold">ATENTAMENTE</div>
-        <br><br><br>
-        <div class="signature-line"></div>
-        <div class="bold">${provider.legalRepresentative ? provider.legalRepresentative.toUpperCase() : 'ING.HÉCTOR. TREJO. TOVAR.'}</div>
-        <div class="bold">REPRESENTANTE LEGAL</div>
-      </div>
+         <div class="fixed-header">
+            <div style="display: flex; justify-content: space-between; align-items: flex-start;">
+               <div style="width: 55%; text-align: left; line-height: 1.4;">
+                  <span class="title">ATENCIÓN:</span>
+                  <div style="margin-top: 6px;">
+                    ${attnFields}
+                  </div>
+               </div>
+               <div style="width: 45%; text-align: right;">
+                  <span>${quote.attnLugar || ''}, a ${quote.attnDia || ''} de ${quote.attnMes || ''} de ${quote.attnAnio || ''}.</span>
+               </div>
+            </div>
+         </div>
+
+         <table class="content-table">
+            <thead>
+               <tr>
+                  <td><div class="header-space"></div></td>
+               </tr>
+            </thead>
+            <tbody>
+               <tr>
+                  <td>
+
+                     <div style="text-align: center; margin-bottom: 20px;">
+                        <div class="title underline">PROPUESTA ECONÓMICA</div>
+                        <div class="title" style="margin-top: 5px;">${quote.attnNombreProcedimiento || quote.projectTitle || ''}</div>
+                     </div>
+
+                     <table class="data-table">
+                        <thead>
+                          <tr>
+                            <th style="width: 8%;">PTA.</th>
+                            <th style="width: 42%;">DESCRIPCIÓN</th>
+                            <th style="width: 10%;">CANTIDAD</th>
+                            <th style="width: 10%;">U.M.</th>
+                            <th style="width: 15%;">COSTO UNITARIO</th>
+                            <th style="width: 15%;">IMPORTE</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          ${items.map((item, index) => `
+                            <tr>
+                              <td>${item.noPartida || index + 1}</td>
+                              <td style="text-align: left;">${item.description}</td>
+                              <td>${item.quantity}</td>
+                              <td>${item.unitMeasure || item.unit}</td>
+                              <td style="text-align: right;">${formatCurrency(unitPriceOf(item))}</td>
+                              <td style="text-align: right;">${formatCurrency(Number(item.quantity) * unitPriceOf(item))}</td>
+                            </tr>
+                          `).join('')}
+                          <tr>
+                            <td colspan="4" style="border: none;"></td>
+                            <td class="bold" style="text-align: right;">SUBTOTAL</td>
+                            <td class="bold" style="text-align: right;">${formatCurrency(subtotal)}</td>
+                          </tr>
+                          <tr>
+                            <td colspan="4" style="border: none;"></td>
+                            <td class="bold" style="text-align: right;">${totals.ivaLabel}</td>
+                            <td class="bold" style="text-align: right;">${formatCurrency(iva)}</td>
+                          </tr>
+                          ${totals.ivaRetention > 0 ? `<tr>
+                            <td colspan="4" style="border: none;"></td>
+                            <td class="bold" style="text-align: right;">RETENCIÓN IVA (${totals.ivaRetentionRate}%)</td>
+                            <td class="bold" style="text-align: right;">${formatCurrency(totals.ivaRetention)}</td>
+                          </tr>` : ""}
+                          ${totals.isrRetention > 0 ? `<tr>
+                            <td colspan="4" style="border: none;"></td>
+                            <td class="bold" style="text-align: right;">RETENCIÓN ISR (${totals.isrRetentionRate}%)</td>
+                            <td class="bold" style="text-align: right;">${formatCurrency(totals.isrRetention)}</td>
+                          </tr>` : ""}
+                          <tr>
+                            <td colspan="4" style="border: none;"></td>
+                            <td class="bold" style="text-align: right;">TOTAL</td>
+                            <td class="bold" style="text-align: right;">${formatCurrency(total)}</td>
+                          </tr>
+                        </tbody>
+                     </table>
+
+                     <div style="text-align: center; font-weight: bold; margin-bottom: 25px; text-transform: uppercase;">
+                        ${totalEnTexto} ${totals.ivaLegend}.
+                     </div>
+
+                     <div class="title underline">TÉRMINOS COMERCIALES:</div>
+
+                     <ol class="alpha-list-upper">
+                        <li>Moneda en que se cotiza: ${totals.currencyName}.</li>
+                        <li>Origen de los bienes: ${quote.goodsOrigin || 'Nacional'}.</li>
+                        <li>Vigencia de la cotización: ${quote.validityDays || ''} días.</li>
+                        <li>Fecha de entrega: a partir del día siguiente hábil a la formalización del respectivo instrumento contractual y teniendo como fecha límite ${fechaEntrega}.</li>
+                        <li>Lugar de entrega:
+                           ${entregaUnica ? `
+                             <p style="margin: 5px 0;">${quote.deliveryLocation || quote.deliveryPlace || ''}</p>
+                           ` : `
+                             <table class="data-table" style="margin-top: 10px;">
+                               <thead>
+                                 <tr>
+                                   <th>PARTIDA</th>
+                                   <th>INSTALACIÓN</th>
+                                 </tr>
+                               </thead>
+                               <tbody>
+                                 ${deliveryLocations.map((loc: any) => `
+                                   <tr>
+                                     <td>${loc.noPartida || ''}</td>
+                                     <td style="text-align: left;">${loc.address || ''}</td>
+                                   </tr>
+                                 `).join('')}
+                               </tbody>
+                             </table>
+                           `}
+                        </li>
+                        <li>Condiciones de entrega:
+                           ${docConditions.length > 0 ? `
+                             <ol class="number-list">
+                               ${docConditions.map((cond: any) => {
+                                 const text = typeof cond === 'string' ? cond : cond?.text || '';
+                                 const subItems = Array.isArray(cond?.subItems) ? cond.subItems.filter((sub: any) => sub && String(sub).trim() !== '') : [];
+                                 return `<li>${text}${subItems.length > 0 ? `<ol class="alpha-list-lower">${subItems.map((sub: string) => `<li>${sub}</li>`).join('')}</ol>` : ''}</li>`;
+                               }).join('')}
+                             </ol>
+                           ` : ' Conforme al Anexo Administrativo.'}
+                        </li>
+                        <li>Garantía de calidad:
+                           ${qualityGuarantees.length > 0 ? `
+                             <ol class="number-list">
+                               ${qualityGuarantees.map((g: string) => `<li>${g}</li>`).join('')}
+                             </ol>
+                           ` : ''}
+                        </li>
+                        <li>Forma de pago: ${quote.paymentTerms || 'Transferencia Electrónica'}.</li>
+                        <li>Mi representada cumple con las Condiciones de Entrega, Especificaciones Técnicas, Normas y Atributos indicados en el Anexo Técnico y Administrativo.</li>
+                        <li>Razón social: ${nombreEmpresa}
+                           <ol class="alpha-list-lower">
+                              <li>Objeto Social: ${socialObjects.length > 0 ? socialObjects.join(', ') : (provider?.businessActivity || '')}</li>
+                              <li>Domicilio legal: ${provider?.legalAddress || ''}</li>
+                              <li>Correo electrónico: ${provider?.email || ''}</li>
+                              <li>Registro Federal de Contribuyentes: ${provider?.rfc || ''}</li>
+                              <li>Origen de la empresa: ${quote.providerNationality || 'Mexicana'}.</li>
+                              <li>Nombre del Banco de la Clave: ${banco}.</li>
+                              <li>Clave Bancaria Estándar (clave): ${clabe}</li>
+                              <li>Beneficiario de la Cuenta Bancaria: ${beneficiario}</li>
+                              <li>Nombre del representante legal: ${representante}.</li>
+                              <li>Teléfono: ${provider?.phone || ''}</li>
+                           </ol>
+                        </li>
+                     </ol>
+
+                     <p style="margin-top: 20px; text-align: justify;">
+                        Con la presente oferta económica manifestamos interés en participar en la adquisición de bienes requerida por esa dependencia; y se presenta sin compromiso ni obligaciones para ambas partes.
+                     </p>
+
+                     <div style="text-align: center; margin-top: 50px; page-break-inside: avoid;">
+                        <div class="title" style="margin-bottom: 10px;">ATENTAMENTE</div>
+                        <div style="min-height: 80px; display: flex; justify-content: center; align-items: flex-end; margin-bottom: 5px;">
+                           ${firmaBase64 ? `<img src="${firmaBase64}" style="max-height: 90px; width: auto;" />` : ''}
+                        </div>
+                        <div style="border-top: 1px solid #000; width: 300px; margin: 0 auto; padding-top: 5px; line-height: 1.2;">
+                           <span class="title">${representante.toUpperCase()}</span><br>
+                           REPRESENTANTE LEGAL
+                        </div>
+                     </div>
 
+                  </td>
+               </tr>
+            </tbody>
+         </table>
     </body>
-    
     </html>
   `;
-}
\ No newline at end of file
+}
@@ -0,0 +1,277 @@
+import { quoteTotalsFromLineItems } from "../quotes";
+import fs from "fs";
+import path from "path";
+
+export function generateHyhServiciosTemplate(provider: any, quote: any, items: any[]) {
+  // 1. Parseo seguro de variables JSON
+  const safeParse = (data: any) => {
+    if (Array.isArray(data)) return data;
+    if (!data) return [];
+    try { return JSON.parse(data); } catch { return []; }
+  };
+
+  const qualityGuarantees = safeParse(quote.qualityGuaranteesJson || quote.qualityGuarantees);
+  const docConditions = safeParse(quote.deliveryConditionsJson || quote.deliveryConditions)
+    .filter((cond: any) => (typeof cond === "string" ? cond : cond?.text || "").toString().trim() !== "");
+  const socialObjects = safeParse(quote.selectedSocialObjectsJson || quote.selectedSocialObjects);
+  const deliveryLocations = safeParse(quote.deliveryLocationsJson || quote.deliveryLocations);
+  const deliveryDates = safeParse(quote.deliveryDatesJson || quote.deliveryDates);
+
+  // 2. Datos de la empresa: se toman del proveedor registrado y, si faltan, los de HYH
+  const nombreEmpresa = provider?.companyName || 'HYH SUMINISTROS Y MANTENIMIENTO INDUSTRIAL, S.A.S. DE C.V.';
+  const representante = provider?.legalRepresentative || 'Ing. Héctor Trejo Tovar';
+  const banco = quote.bankName || provider?.bankName || 'Santander';
+  const clabe = quote.bankAccount || provider?.bankAccount || '';
+  const beneficiario = quote.bankBeneficiary || provider?.bankBeneficiary || nombreEmpresa;
+
+  // 3. Bloque dinámico de Atención
+  const attnFields = [
+    quote.attnGrado,
+    quote.attnNombre || quote.contactPerson,
+    quote.attnDependencia || quote.destinationCompany,
+    quote.attnArea,
+    quote.attnUbicacion,
+    quote.attnDireccion,
+    quote.attnCargo
+  ].filter(campo => campo && campo.trim() !== '').map(campo => `<div>${campo}</div>`).join('');
+
+  // 4. Cálculos de la tabla
+  const unitPriceOf = (item: any) => item.unitPriceCents ? item.unitPriceCents / 100 : Number(item.unitPrice);
+  const totals = quoteTotalsFromLineItems(quote, items);
+  const { subtotal, iva, total } = totals;
+  const totalEnTexto = totals.totalText;
+
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('es-MX', { style: 'currency', currency: totals.currency }).format(amount);
+
+  // 5. Carga de la firma
+  let firmaBase64 = "";
+  try {
+    const firmaPath = path.join(process.cwd(), 'server', 'assets', 'firma-hyh.png');
+    if (fs.existsSync(firmaPath)) {
+      firmaBase64 = `data:image/png;base64,${fs.readFileSync(firmaPath).toString('base64')}`;
+    }
+  } catch (error) {
+    console.warn("Error cargando firma HYH:", error);
+  }
+
+  const fechaEntrega = quote.deliveryTime || (deliveryDates.length > 0 ? deliveryDates.join(', ') : 'por definir');
+  const entregaUnica = quote.deliverySingle !== false && quote.deliverySingle !== "false";
+
+  return `
+    <!DOCTYPE html>
+    <html lang="es">
+    <head>
+      <meta charset="UTF-8">
+      <style>
+        body {
+          margin: 0;
+          padding: 0 45px;
+          font-family: Arial, Helvetica, sans-serif;
+          font-size: 10pt;
+          color: #000000;
+          line-height: 1.4;
+        }
+        .fixed-header {
+          position: fixed;
+          top: 15px;
+          left: 45px;
+          right: 45px;
+          z-index: 10;
+        }
+        .content-table { width: 100%; border-collapse: collapse; border: none; }
+        .content-table > thead { display: table-header-group; }
+        .content-table > tbody { display: table-row-group; }
+        .content-table > thead > tr > td { border: none; padding: 0; }
+        .content-table > tbody > tr > td { border: none; padding: 0; }
+
+        .header-space { height: 165px; }
+
+        .title { font-size: 11pt; font-weight: bold; }
+        .bold { font-weight: bold; }
+        .underline { text-decoration: underline; }
+
+        .alpha-list-upper { list-style-type: upper-alpha; padding-left: 25px; margin-top: 10px; margin-bottom: 15px; }
+        .alpha-list-upper > li { margin-bottom: 10px; text-align: justify; }
+        .number-list { list-style-type: decimal; padding-left: 20px; margin-top: 5px; }
+        .number-list > li { margin-bottom: 6px; }
+        .alpha-list-lower { list-style-type: lower-alpha; padding-left: 20px; margin-top: 5px; }
+        .alpha-list-lower > li { margin-bottom: 4px; }
+
+        .data-table { width: 100%; border-collapse: collapse; margin-bottom: 20px; font-size: 9pt; }
+        .data-table th { border: 1px solid #000; padding: 6px 4px; text-align: center; background-color: #B91C1C; color: #ffffff; font-weight: bold; text-transform: uppercase; -webkit-print-color-adjust: exact; }
+        .data-table td { border: 1px solid #000; padding: 6px 4px; text-align: center; vertical-align: middle; }
+      </style>
+    </head>
+    <body>
+
+         <div class="fixed-header">
+            <div style="display: flex; justify-content: space-between; align-items: flex-start;">
+               <div style="width: 55%; text-align: left; line-height: 1.4;">
+                  <span class="title">ATENCIÓN:</span>
+                  <div style="margin-top: 6px;">
+                    ${attnFields}
+                  </div>
+               </div>
+               <div style="width: 45%; text-align: right;">
+                  <span>${quote.attnLugar || ''}, a ${quote.attnDia || ''} de ${quote.attnMes || ''} de ${quote.attnAnio || ''}.</span>
+               </div>
+            </div>
+         </div>
+
+         <table class="content-table">
+            <thead>
+               <tr>
+                  <td><div class="header-space"></div></td>
+               </tr>
+            </thead>
+            <tbody>
+               <tr>
+                  <td>
+
+                     <div style="text-align: center; margin-bottom: 20px;">
+                        <div class="title underline">PROPUESTA ECONÓMICA</div>
+                        <div class="title" style="margin-top: 5px;">${quote.attnNombreProcedimiento || quote.projectTitle || ''}</div>
+                     </div>
+
+                     <table class="data-table">
+                        <thead>
+                          <tr>
+                            <th style="width: 8%;">PTA.</th>
+                            <th style="width: 42%;">DESCRIPCIÓN</th>
+                            <th style="width: 10%;">CANTIDAD</th>
+                            <th style="width: 10%;">U.M.</th>
+                            <th style="width: 15%;">COSTO UNITARIO</th>
+                            <th style="width: 15%;">IMPORTE</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          ${items.map((item, index) => `
+                            <tr>
+                              <td>${item.noPartida || index + 1}</td>
+                              <td style="text-align: left;">${item.description}</td>
+                              <td>${item.quantity}</td>
+                              <td>${item.unitMeasure || item.unit}</td>
+                              <td style="text-align: right;">${formatCurrency(unitPriceOf(item))}</td>
+                              <td style="text-align: right;">${formatCurrency(Number(item.quantity) * unitPriceOf(item))}</td>
+                            </tr>
+                          `).join('')}
+                          <tr>
+                            <td colspan="4" style="border: none;"></td>
+                            <td class="bold" style="text-align: right;">SUBTOTAL</td>
+                            <td class="bold" style="text-align: right;">${formatCurrency(subtotal)}</td>
+                          </tr>
+                          <tr>
+                            <td colspan="4" style="border: none;"></td>
+                            <td class="bold" style="text-align: right;">${totals.ivaLabel}</td>
+                            <td class="bold" style="text-align: right;">${formatCurrency(iva)}</td>
+                          </tr>
+                          ${totals.ivaRetention > 0 ? `<tr>
+                            <td colspan="4" style="border: none;"></td>
+                            <td class="bold" style="text-align: right;">RETENCIÓN IVA (${totals.ivaRetentionRate}%)</td>
+                            <td class="bold" style="text-align: right;">${formatCurrency(totals.ivaRetention)}</td>
+                          </tr>` : ""}
+                          ${totals.isrRetention > 0 ? `<tr>
+                            <td colspan="4" style="border: none;"></td>
+                            <td class="bold" style="text-align: right;">RETENCIÓN ISR (${totals.isrRetentionRate}%)</td>
+                            <td class="bold" style="text-align: right;">${formatCurrency(totals.isrRetention)}</td>
+                          </tr>` : ""}
+                          <tr>
+                            <td colspan="4" style="border: none;"></td>
+                            <td class="bold" style="text-align: right;">TOTAL</td>
+                            <td class="bold" style="text-align: right;">${formatCurrency(total)}</td>
+                          </tr>
+                        </tbody>
+                     </table>
+
+                     <div style="text-align: center; font-weight: bold; margin-bottom: 25px; text-transform: uppercase;">
+                        ${totalEnTexto} ${totals.ivaLegend}.
+                     </div>
+
+                     <div class="title underline">TÉRMINOS COMERCIALES:</div>
+
+                     <ol class="alpha-list-upper">
+                        <li>Moneda en que se cotiza: ${totals.currencyName}.</li>
+                        <li>Origen de los servicios: ${quote.goodsOrigin || 'Nacional'}.</li>
+                        <li>Vigencia de la cotización: ${quote.validityDays || ''} días.</li>
+                        <li>Periodo de ejecución: los servicios se prestarán a partir del día siguiente hábil a la formalización del respectivo instrumento contractual y teniendo como fecha límite ${fechaEntrega}.</li>
+                        <li>Lugar de prestación del servicio:
+                           ${entregaUnica ? `
+                             <p style="margin: 5px 0;">${quote.deliveryLocation || quote.deliveryPlace || ''}</p>
+                           ` : `
+                             <table class="data-table" style="margin-top: 10px;">
+                               <thead>
+                                 <tr>
+                                   <th>PARTIDA</th>
+                                   <th>INSTALACIÓN</th>
+                                 </tr>
+                               </thead>
+                               <tbody>
+                                 ${deliveryLocations.map((loc: any) => `
+                                   <tr>
+                                     <td>${loc.noPartida || ''}</td>
+                                     <td style="text-align: left;">${loc.address || ''}</td>
+                                   </tr>
+                                 `).join('')}
+                               </tbody>
+                             </table>
+                           `}
+                        </li>
+                        <li>Condiciones de prestación del servicio:
+                           ${docConditions.length > 0 ? `
+                             <ol class="number-list">
+                               ${docConditions.map((cond: any) => {
+                                 const text = typeof cond === 'string' ? cond : cond?.text || '';
+                                 const subItems = Array.isArray(cond?.subItems) ? cond.subItems.filter((sub: any) => sub && String(sub).trim() !== '') : [];
+                                 return `<li>${text}${subItems.length > 0 ? `<ol class="alpha-list-lower">${subItems.map((sub: string) => `<li>${sub}</li>`).join('')}</ol>` : ''}</li>`;
+                               }).join('')}
+                             </ol>
+                           ` : ' Conforme al Anexo Administrativo.'}
+                        </li>
+                        <li>Garantía de calidad:
+                           ${qualityGuarantees.length > 0 ? `
+                             <ol class="number-list">
+                               ${qualityGuarantees.map((g: string) => `<li>${g}</li>`).join('')}
+                             </ol>
+                           ` : ''}
+                        </li>
+                        <li>Forma de pago: ${quote.paymentTerms || 'Transferencia Electrónica'}.</li>
+                        <li>Mi representada cumple con las Especificaciones Técnicas, Normas y Atributos indicados en el Anexo Técnico y Administrativo, y cuenta con la capacidad técnica para la prestación de los servicios requeridos.</li>
+                        <li>Razón social: ${nombreEmpresa}
+                           <ol class="alpha-list-lower">
+                              <li>Objeto Social: ${socialObjects.length > 0 ? socialObjects.join(', ') : (provider?.businessActivity || '')}</li>
+                              <li>Domicilio legal: ${provider?.legalAddress || ''}</li>
+                              <li>Correo electrónico: ${provider?.email || ''}</li>
+                              <li>Registro Federal de Contribuyentes: ${provider?.rfc || ''}</li>
+                              <li>Origen de la empresa: ${quote.providerNationality || 'Mexicana'}.</li>
+                              <li>Nombre del Banco de la Clave: ${banco}.</li>
+                              <li>Clave Bancaria Estándar (clave): ${clabe}</li>
+                              <li>Beneficiario de la Cuenta Bancaria: ${beneficiario}</li>
+                              <li>Nombre del representante legal: ${representante}.</li>
+                              <li>Teléfono: ${provider?.phone || ''}</li>
+                           </ol>
+                        </li>
+                     </ol>
+
+                     <p style="margin-top: 20px; text-align: justify;">
+                        Con la presente oferta económica manifestamos interés en participar en la contratación de los servicios requeridos por esa dependencia; y se presenta sin compromiso ni obligaciones para ambas partes.
+                     </p>
+
+                     <div style="text-align: center; margin-top: 50px; page-break-inside: avoid;">
+                        <div class="title" style="margin-bottom: 10px;">ATENTAMENTE</div>
+                        <div style="min-height: 80px; display: flex; justify-content: center; align-items: flex-end; margin-bottom: 5px;">
+                           ${firmaBase64 ? `<img src="${firmaBase64}" style="max-height: 90px; width: auto;" />` : ''}
+                        </div>
+                        <div style="border-top: 1px solid #000; width: 300px; margin: 0 auto; padding-top: 5px; line-height: 1.2;">
+                           <span class="title">${representante.toUpperCase()}</span><br>
+                           REPRESENTANTE LEGAL
+                        </div>
+                     </div>
+
+                  </td>
+               </tr>
+            </tbody>
+         </table>
+    </body>
+    </html>
+  `;
+}
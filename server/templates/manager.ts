@@ -11,41 +11,35 @@ import { generateHermalBienesTemplate } from "./hermal-bienes";
 import { generateHermalServiciosTemplate } from "./hermal-servicios"; 
 import { generateHgwBienesTemplate } from "./hgw-bienes";
 import { generateHGWServiciosTemplate } from "./hgw-servicios";
-//import { generateHyhBienesTemplate } from "./hyh-bienes";
-//import { generateHyhServiciosTemplate } from "./hyh-servicios"; 
+import { generateHyhBienesTemplate } from "./hyh-bienes";
+import { generateHyhServiciosTemplate } from "./hyh-servicios";
 
-export function getTemplateForProvider(provider: any, quote: any, items: any[]) {
-  
-  // Extraemos la empresa y el tipo. 
-  // Usamos la lógica de tu líder para buscar también en provider.companyName por seguridad.
+type TemplateGenerator = (provider: any, quote: any, items: any[]) => string;
+
+// Cada familia de plantillas registrada en la tabla de empresas (companies.template_key)
+const TEMPLATE_GENERATORS: Record<string, { bienes: TemplateGenerator; servicios: TemplateGenerator }> = {
+  azal: { bienes: generateAzalBienesTemplate, servicios: generateAzalServiciosTemplate },
+  dema: { bienes: generateDemaTemplate, servicios: (_provider, quote, items) => generateDemaServiciosTemplate(quote, items) },
+  hgw: { bienes: generateHgwBienesTemplate, servicios: (_provider, quote, items) => generateHGWServiciosTemplate(quote, items) },
+  hermal: { bienes: generateHermalBienesTemplate, servicios: generateHermalServiciosTemplate },
+  hyh: { bienes: generateHyhBienesTemplate, servicios: generateHyhServiciosTemplate },
+};
+
+// Si la empresa no trae plantilla asignada se deduce por el nombre, como antes del registro de empresas
+function templateKeyFromName(companyName: string): string {
+  if (companyName.includes("DEMA")) return "dema";
+  if (companyName.includes("HGW")) return "hgw";
+  if (companyName.includes("HERMAL")) return "hermal";
+  if (companyName.includes("HYH")) return "hyh";
+  return "azal";
+}
+
+export function getTemplateForProvider(provider: any, quote: any, items: any[], templateKey?: string) {
   const companyName = (quote.companyOrigin || provider?.companyName || "AZAL").toUpperCase().trim();
   const type = (quote.proposalType || "bienes").toLowerCase().trim();
 
-  // Usamos .includes() como sugirió tu líder, es más seguro por si el string dice "HERMAL INDUSTRIAL"
-  if (companyName.includes("DEMA")) {
-    return type === "servicios"
-      ? generateDemaServiciosTemplate(quote, items)
-      : generateDemaTemplate(provider, quote, items);
-      
-  } else if (companyName.includes("HGW")) {
-    return type === "servicios" 
-      ? generateHGWServiciosTemplate(quote, items) 
-      : generateHgwBienesTemplate(provider, quote, items);
-      
-  } else if (companyName.includes("HERMAL")) {
-    return type === "servicios"
-      ? generateHermalServiciosTemplate(provider, quote, items)
-      : generateHermalBienesTemplate(provider, quote, items);
-      
-  } else if (companyName.includes("HYH")) {
-    return type === "servicios"
-      //? generateHyhServiciosTemplate(provider, quote, items)
-      //: generateHyhBienesTemplate(provider, quote, items);
-      
-  } else {
-    // Si no encuentra ninguna, usamos AZAL por defecto
-    return type === "servicios"
-      ? generateAzalServiciosTemplate(provider, quote, items)
-      : generateAzalBienesTemplate(provider, quote, items);
-  }
-}
\ No newline at end of file
+  const generators = TEMPLATE_GENERATORS[templateKey || ""] || TEMPLATE_GENERATORS[templateKeyFromName(companyName)];
+  return type === "servicios"
+    ? generators.servicios(provider, quote, items)
+    : generators.bienes(provider, quote, items);
+}
@@ -0,0 +1,144 @@
+// ==========================================
+// VALIDACIÓN DE RFC (SAT) Y CLABE (SPEI)
+// ==========================================
+// Se usan igual en el servidor y en los formularios del cliente.
+
+// Valor de cada carácter para el dígito verificador del RFC
+const RFC_CHARSET = "0123456789ABCDEFGHIJKLMN&OPQRSTUVWXYZ Ñ";
+
+// RFC genéricos del SAT: público en general y residentes en el extranjero
+const RFC_GENERICOS = ["XAXX010101000", "XEXX010101000"];
+
+const RFC_MORAL = /^[A-ZÑ&]{3}\d{6}[A-Z\d]{2}[\dA]$/;
+const RFC_FISICA = /^[A-ZÑ&]{4}\d{6}[A-Z\d]{2}[\dA]$/;
+
+export type RfcTipo = "fisica" | "moral";
+
+export function normalizeRfc(value: unknown): string {
+  return (value ?? "").toString().toUpperCase().replace(/[\s-]/g, "");
+}
+
+export function rfcTipo(rfc: string): RfcTipo | null {
+  if (RFC_FISICA.test(rfc)) return "fisica";
+  if (RFC_MORAL.test(rfc)) return "moral";
+  return null;
+}
+
+// La fecha del RFC es AAMMDD; el siglo no se puede saber, solo se valida mes y día
+function isRfcDate(value: string): boolean {
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12 || day < 1) return false;
+  const year = 2000 + Number(value.slice(0, 2));
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Las personas morales se completan a 13 posiciones con un espacio al inicio
+export function rfcCheckDigit(rfc: string): string {
+  const base = rfc.length === 12 ? ` ${rfc}` : rfc;
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += RFC_CHARSET.indexOf(base[i]) * (13 - i);
+  }
+  const digit = 11 - (sum % 11);
+  return digit === 11 ? "0" : digit === 10 ? "A" : String(digit);
+}
+
+// Mensaje de error del RFC o null si es válido; el RFC vacío se valida aparte si es obligatorio
+export function validateRfc(value: unknown): string | null {
+  const rfc = normalizeRfc(value);
+  if (!rfc || RFC_GENERICOS.includes(rfc)) return null;
+  const tipo = rfcTipo(rfc);
+  if (!tipo) {
+    return "El RFC debe tener 12 caracteres (persona moral) o 13 (persona física) con el formato del SAT";
+  }
+  const date = rfc.slice(tipo === "fisica" ? 4 : 3, tipo === "fisica" ? 10 : 9);
+  if (!isRfcDate(date)) return `La fecha del RFC (${date}) no es válida`;
+  if (rfcCheckDigit(rfc) !== rfc[rfc.length - 1]) return "El dígito verificador del RFC no coincide; revisa la homoclave";
+  return null;
+}
+
+// Claves de banco de Banxico (tres primeros dígitos de la CLABE). Solo sirve para proponer el
+// nombre del banco: una clave que no esté aquí no invalida la CLABE
+export const CLABE_BANKS: Record<string, string> = {
+  "002": "BANAMEX",
+  "006": "BANCOMEXT",
+  "009": "BANOBRAS",
+  "012": "BBVA MÉXICO",
+  "014": "SANTANDER",
+  "019": "BANJERCITO",
+  "021": "HSBC",
+  "030": "BAJÍO",
+  "032": "IXE",
+  "036": "GRUPO FINANCIERO INBURSA",
+  "042": "MIFEL",
+  "044": "SCOTIABANK",
+  "058": "BANREGIO",
+  "059": "INVEX",
+  "060": "BANSI",
+  "062": "AFIRME",
+  "072": "BANORTE",
+  "103": "AMERICAN EXPRESS",
+  "106": "BANK OF AMERICA",
+  "108": "MUFG",
+  "110": "JP MORGAN",
+  "112": "BMONEX",
+  "113": "VE POR MÁS",
+  "127": "BANCO AZTECA",
+  "128": "AUTOFIN",
+  "130": "COMPARTAMOS",
+  "132": "MULTIVA",
+  "133": "ACTINVER",
+  "135": "NAFIN",
+  "136": "INTERCAM BANCO",
+  "137": "BANCOPPEL",
+  "140": "CONSUBANCO",
+  "141": "VOLKSWAGEN",
+  "143": "CIBANCO",
+  "145": "BBASE",
+  "147": "BANKAOOL",
+  "148": "PAGATODO",
+  "151": "DONDE",
+  "152": "BANCREA",
+  "154": "BANCO COVALTO",
+  "155": "ICBC",
+  "156": "SABADELL",
+  "157": "SHINHAN",
+  "158": "MIZUHO BANK",
+  "166": "BANCO DEL BIENESTAR",
+  "168": "HIPOTECARIA FEDERAL",
+  "600": "MONEXCB",
+  "601": "GBM",
+  "638": "NU MÉXICO",
+  "646": "STP",
+  "722": "MERCADO PAGO",
+};
+
+const CLABE_WEIGHTS = [3, 7, 1];
+
+export function normalizeClabe(value: unknown): string {
+  return (value ?? "").toString().replace(/[\s-]/g, "");
+}
+
+export function clabeCheckDigit(clabe: string): number {
+  let sum = 0;
+  for (let i = 0; i < 17; i++) {
+    sum += (Number(clabe[i]) * CLABE_WEIGHTS[i % 3]) % 10;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+// Banco emisor según la CLABE; null si la clave no está en el catálogo
+export function clabeBankName(value: unknown): string | null {
+  const clabe = normalizeClabe(value);
+  return /^\d{3}/.test(clabe) ? CLABE_BANKS[clabe.slice(0, 3)] ?? null : null;
+}
+
+// Mensaje de error de la CLABE o null si es válida; la CLABE vacía se valida aparte si es obligatoria
+export function validateClabe(value: unknown): string | null {
+  const clabe = normalizeClabe(value);
+  if (!clabe) return null;
+  if (!/^\d{18}$/.test(clabe)) return "La CLABE debe tener exactamente 18 dígitos";
+  if (clabeCheckDigit(clabe) !== Number(clabe[17])) return "El dígito verificador de la CLABE no coincide";
+  return null;
+}
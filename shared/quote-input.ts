@@ -0,0 +1,183 @@
+import { z } from "zod";
+
+// ==========================================
+// CAPTURA DE COTIZACIONES
+// ==========================================
+// El mismo esquema valida el formulario del cliente y el cuerpo de POST/PATCH /api/quotes.
+// Los errores se devuelven por campo con la ruta del payload (p. ej. "lineItems.0.quantity").
+
+// Texto libre: acepta números (el año de "Atención" llega como número) y recorta espacios
+const textField = (fallback = "") => z
+  .union([z.string(), z.number()], { invalid_type_error: "Debe ser texto" })
+  .nullish()
+  .transform(value => (value ?? "").toString().trim() || fallback);
+
+// Celdas de las tablas del formulario: se guardan tal cual se capturaron
+const cellText = z
+  .union([z.string(), z.number()], { invalid_type_error: "Debe ser texto" })
+  .nullish()
+  .transform(value => (value ?? "").toString());
+
+const integerField = (min: number, fallback: number, message: string) => z
+  .coerce.number({ invalid_type_error: message })
+  .int(message)
+  .min(min, message)
+  .default(fallback);
+
+const percentField = (message: string) => z
+  .coerce.number({ invalid_type_error: message })
+  .min(0, message)
+  .max(100, message)
+  .default(0);
+
+// Los formularios multipart y los clientes antiguos mandan "true"/"false" como texto
+const booleanField = (fallback: boolean) => z
+  .union([z.boolean(), z.enum(["true", "false"])], { invalid_type_error: "Debe ser verdadero o falso" })
+  .transform(value => value === true || value === "true")
+  .default(fallback);
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Además del formato, la fecha debe existir: 2024-02-30 no regresa igual de Date.UTC
+function isCalendarDate(value: string): boolean {
+  if (!ISO_DATE.test(value)) return false;
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+const deliveryLocationSchema = z.object({
+  noPartida: cellText,
+  regionMilitar: z.string().optional(),
+  address: cellText,
+  contact: cellText,
+});
+
+const deliveryConditionSchema = z.union([
+  z.string(),
+  z.object({ text: cellText, subItems: z.array(z.string()).default([]) }),
+]);
+
+/** Campos que comparten el formulario de captura y el payload de la cotización. */
+export const quoteFormFieldsSchema = z.object({
+  // Sección 1 "Atención"
+  attnLugar: textField(),
+  attnDia: textField(),
+  attnMes: textField(),
+  attnAnio: textField(),
+  attnGrado: textField(),
+  attnArea: textField(),
+  attnUbicacion: textField(),
+  attnDireccion: textField(),
+  attnContacto: textField(),
+  attnCargo: textField(),
+  contactPerson: textField(),
+  destinationCompany: textField(),
+  projectTitle: textField(),
+
+  // Sección 2 "Condiciones"
+  validityDays: integerField(1, 120, "Los días de validez deben ser un número entero mayor a 0"),
+  paymentDays: integerField(0, 0, "Los días de pago deben ser un número entero no negativo"),
+  paymentTerms: textField(),
+  goodsOrigin: textField(),
+  deliveryTime: textField(),
+  manufacturingTime: textField(),
+  hasManufacturingTime: booleanField(false),
+  deliverySingle: booleanField(true),
+  deliveryLocations: z.array(deliveryLocationSchema).default([]),
+  partidaDescriptionItems: z.array(z.object({ partida: cellText, descripcion: cellText })).default([]),
+  deliveryDates: z.array(z.string()).default([]),
+  deliveryConditions: z.array(deliveryConditionSchema).default([]),
+  selectedDeliveryClauses: z.array(z.string()).default([]),
+  deliveryNotes: textField(),
+
+  // Región militar y garantía de cumplimiento (HGW)
+  hasRegionalMilitary: booleanField(false),
+  warrantyPercentageApplies: booleanField(false),
+  warrantyPercentage: percentField("El porcentaje de garantía debe estar entre 0 y 100"),
+
+  // Sección 3 "Garantía de calidad"
+  qualityGuarantees: z.array(z.string()).default([]),
+  requiredDocuments: z.array(z.string()).default([]),
+  normsTable: z.array(z.object({ description: cellText, norm: cellText })).default([]),
+  serviceNormsTable: z.array(z.object({ description: cellText, quantity: cellText, unitMeasure: cellText, norm: cellText })).default([]),
+  selectedSocialObjects: z.array(z.string()).default([]),
+
+  // Datos del proveedor que se imprimen en la propuesta
+  providerNationality: textField(),
+  complianceWarranty: integerField(0, 0, "La garantía de cumplimiento debe ser un número entero no negativo"),
+  similarContracts: integerField(0, 0, "Los contratos similares deben ser un número entero no negativo"),
+  experienceYears: integerField(0, 0, "Los años de experiencia deben ser un número entero no negativo"),
+  specialtyYears: integerField(0, 0, "Los años de especialidad deben ser un número entero no negativo"),
+});
+
+export const quoteLineItemInputSchema = z.object({
+  noPartida: textField(),
+  description: textField().refine(value => value.length > 0, "La descripción es obligatoria"),
+  techRequirements: textField(),
+  versionReference: textField(),
+  reqDate: textField(),
+  quantity: z.coerce
+    .number({ invalid_type_error: "La cantidad debe ser un número entero mayor a 0" })
+    .int("La cantidad debe ser un número entero mayor a 0")
+    .positive("La cantidad debe ser un número entero mayor a 0"),
+  unit: textField().refine(value => value.length > 0, "La unidad es obligatoria"),
+  unitMeasure: textField(),
+  unitPrice: z.coerce.number({ invalid_type_error: "El precio unitario no es válido" }).min(0, "El precio unitario no puede ser negativo"),
+  supplier: textField(),
+  purchaseCost: z.coerce.number({ invalid_type_error: "El costo no es válido" }).min(0, "El costo no puede ser negativo").default(0),
+  profitMargin: z.coerce.number({ invalid_type_error: "El margen no es válido" }).default(0),
+  profitFactor: z.coerce.number({ invalid_type_error: "El factor no es válido" }).positive("El factor debe ser mayor a 0").default(1),
+  taxExempt: booleanField(false),
+});
+
+/** Cuerpo completo de POST /api/quotes; el PATCH usa la versión parcial. */
+export const quoteInputSchema = quoteFormFieldsSchema.extend({
+  internalFolio: textField(),
+  requisitionNumber: textField(),
+  quoteDate: textField().refine(value => !value || isCalendarDate(value), "La fecha debe ser una fecha válida con formato AAAA-MM-DD"),
+  commercialTerms: textField(),
+  guaranteeMonths: integerField(0, 0, "Los meses de garantía deben ser un número entero no negativo"),
+  compliancePercentage: percentField("El porcentaje de cumplimiento debe estar entre 0 y 100"),
+  deliveryPlace: textField(),
+  providerId: z.coerce
+    .number({ invalid_type_error: "Selecciona el proveedor de la cotización" })
+    .int("Selecciona el proveedor de la cotización")
+    .positive("Selecciona el proveedor de la cotización"),
+  empresaId: z.coerce.number({ invalid_type_error: "Empresa inválida" }).int("Empresa inválida").positive("Empresa inválida").nullish(),
+  bankName: textField(),
+  bankAccount: textField(),
+  bankBeneficiary: textField(),
+  templateName: textField("azal_official"),
+  companyOrigin: textField("AZAL"),
+  proposalType: textField("bienes"),
+  lineItems: z.array(quoteLineItemInputSchema).min(1, "Debe proporcionar al menos una partida de cotización"),
+});
+
+export const quotePatchInputSchema = quoteInputSchema.partial();
+
+export type QuoteFormFields = z.infer<typeof quoteFormFieldsSchema>;
+export type QuoteLineItemInput = z.infer<typeof quoteLineItemInputSchema>;
+export type QuoteInput = z.infer<typeof quoteInputSchema>;
+export type QuotePatchInput = z.infer<typeof quotePatchInputSchema>;
+
+// Ruta del campo en el payload → mensaje
+export type QuoteFieldErrors = Record<string, string>;
+
+// Solo se conserva el primer error de cada campo
+export function quoteFieldErrors(error: z.ZodError): QuoteFieldErrors {
+  const fieldErrors: QuoteFieldErrors = {};
+  for (const issue of error.issues) {
+    const path = issue.path.join(".") || "form";
+    fieldErrors[path] ??= issue.message;
+  }
+  return fieldErrors;
+}
+
+// Texto legible para avisos: los errores de partidas indican el número de partida
+export function quoteFieldErrorMessages(fieldErrors: QuoteFieldErrors): string[] {
+  return Object.entries(fieldErrors).map(([path, message]) => {
+    const item = /^lineItems\.(\d+)\./.exec(path);
+    return item ? `Partida ${Number(item[1]) + 1}: ${message}` : message;
+  });
+}
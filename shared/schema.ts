@@ -1,4 +1,5 @@
-import { pgTable, text, varchar, timestamp, integer, serial, boolean, bigint, numeric } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, serial, boolean, bigint, numeric, uniqueIndex, index } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -27,6 +28,634 @@ export interface NormalizedQuoteLineItem {
   amountCents: number;
 }
 
+// ==========================================
+// IMPORTACIÓN DE PARTIDAS DESDE EXCEL / CSV
+// ==========================================
+export const PARTIDA_IMPORT_FIELDS = ["noPartida", "description", "techRequirements", "quantity", "unitMeasure", "unitPrice"] as const;
+export type PartidaImportField = typeof PARTIDA_IMPORT_FIELDS[number];
+
+export const PARTIDA_IMPORT_FIELD_LABELS: Record<PartidaImportField, string> = {
+  noPartida: "No. de partida",
+  description: "Descripción",
+  techRequirements: "Requisitos técnicos",
+  quantity: "Cantidad",
+  unitMeasure: "Unidad de medida",
+  unitPrice: "Precio unitario",
+};
+
+// Índice de columna (base 0) de la hoja para cada campo; los campos sin columna quedan vacíos
+export type PartidaImportMapping = Partial<Record<PartidaImportField, number>>;
+
+export interface PartidaImportRow {
+  rowNumber: number;
+  item: {
+    noPartida: string;
+    description: string;
+    techRequirements: string;
+    quantity: number;
+    unitMeasure: string;
+    unitPrice: number;
+  };
+  errors: string[];
+}
+
+export interface PartidaImportPreview {
+  fileName: string;
+  headers: string[];
+  mapping: PartidaImportMapping;
+  rows: PartidaImportRow[];
+  validCount: number;
+  errorCount: number;
+}
+
+// ==========================================
+// CICLO DE VIDA DE COTIZACIONES
+// ==========================================
+export const QUOTE_STATUSES = ["borrador", "en_revision", "aprobada", "enviada", "ganada", "perdida", "cancelada"] as const;
+export type QuoteStatus = typeof QUOTE_STATUSES[number];
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  borrador: "Borrador",
+  en_revision: "En revisión",
+  aprobada: "Aprobada",
+  enviada: "Enviada",
+  ganada: "Ganada",
+  perdida: "Perdida",
+  cancelada: "Cancelada",
+};
+
+// Transiciones permitidas: ganada, perdida y cancelada son estados finales
+export const QUOTE_STATUS_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  borrador: ["en_revision", "cancelada"],
+  en_revision: ["aprobada", "borrador", "cancelada"],
+  aprobada: ["enviada", "borrador", "cancelada"],
+  enviada: ["ganada", "perdida", "cancelada"],
+  ganada: [],
+  perdida: [],
+  cancelada: [],
+};
+
+// Estados en los que ya se puede generar el PDF final
+export const PDF_ENABLED_QUOTE_STATUSES: QuoteStatus[] = ["aprobada", "enviada", "ganada", "perdida"];
+
+// Estados en los que la cotización todavía puede editarse
+export const EDITABLE_QUOTE_STATUSES: QuoteStatus[] = ["borrador", "en_revision"];
+
+export function isQuoteStatus(value: unknown): value is QuoteStatus {
+  return typeof value === "string" && (QUOTE_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransitionQuoteStatus(from: string, to: string): boolean {
+  if (!isQuoteStatus(from) || !isQuoteStatus(to)) return false;
+  return QUOTE_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Aprobar una cotización, o regresarla de aprobada a borrador, sólo lo hace un administrador
+export function quoteTransitionRequiresAdmin(from: string, to: string): boolean {
+  return to === "aprobada" || (from === "aprobada" && to === "borrador");
+}
+
+// ==========================================
+// VIGENCIA DE COTIZACIONES
+// ==========================================
+// La cotización vale desde quoteDate durante validityDays días naturales
+export const QUOTE_EXPIRY_STATUSES = ["vigente", "por_vencer", "vencida"] as const;
+export type QuoteExpiryStatus = typeof QUOTE_EXPIRY_STATUSES[number];
+
+export const QUOTE_EXPIRY_STATUS_LABELS: Record<QuoteExpiryStatus, string> = {
+  vigente: "Vigente",
+  por_vencer: "Por vencer",
+  vencida: "Vencida",
+};
+
+// Filtros de GET /api/quotes?expiry=
+export const QUOTE_EXPIRY_FILTERS = ["por_vencer", "vencidas"] as const;
+export type QuoteExpiryFilter = typeof QUOTE_EXPIRY_FILTERS[number];
+
+export const DEFAULT_EXPIRY_WARNING_DAYS = 15;
+
+// Las cotizaciones ganadas, perdidas o canceladas ya no vencen
+export const EXPIRY_TRACKED_QUOTE_STATUSES: QuoteStatus[] = ["borrador", "en_revision", "aprobada", "enviada"];
+
+// Una cotización aprobada o enviada que se renueva vuelve a revisión con la nueva fecha
+export function quoteStatusAfterRenewal(status: QuoteStatus): QuoteStatus {
+  return EDITABLE_QUOTE_STATUSES.includes(status) ? status : "en_revision";
+}
+
+// Renovar una cotización ya emitida deshace su aprobación, así que sólo lo hace un administrador
+export function canRenewQuoteValidity(status: string, isAdmin: boolean): boolean {
+  if (!EXPIRY_TRACKED_QUOTE_STATUSES.includes(status as QuoteStatus)) return false;
+  return isAdmin || EDITABLE_QUOTE_STATUSES.includes(status as QuoteStatus);
+}
+
+export interface QuoteExpiry {
+  expiresAt: string;
+  daysRemaining: number;
+  expiryStatus: QuoteExpiryStatus;
+}
+
+// ==========================================
+// BÚSQUEDA Y PAGINACIÓN DE COTIZACIONES
+// ==========================================
+// Orden de GET /api/quotes?sort=; el total se compara en la moneda de cada cotización
+export const QUOTE_SORT_FIELDS = ["quoteDate", "total", "folio", "expiresAt"] as const;
+export type QuoteSortField = typeof QUOTE_SORT_FIELDS[number];
+
+export const QUOTE_SORT_OPTIONS: { sort: QuoteSortField; order: "asc" | "desc"; label: string }[] = [
+  { sort: "quoteDate", order: "desc", label: "Más recientes" },
+  { sort: "quoteDate", order: "asc", label: "Más antiguas" },
+  { sort: "total", order: "desc", label: "Mayor monto" },
+  { sort: "total", order: "asc", label: "Menor monto" },
+  { sort: "folio", order: "asc", label: "Folio" },
+  { sort: "expiresAt", order: "asc", label: "Próximas a vencer" },
+];
+
+export type QuoteListItem = Quote & {
+  folio: string;
+  empresaDestino: string;
+  total: number;
+  totalText: string;
+  totals: QuoteTotals;
+  expiresAt: string | null;
+  daysRemaining: number | null;
+  expiryStatus: QuoteExpiryStatus | null;
+};
+
+// total cuenta todas las cotizaciones que cumplen los filtros, no solo las de la página
+export interface QuoteListResponse {
+  quotes: QuoteListItem[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// ==========================================
+// LICITACIONES
+// ==========================================
+export const LICITACION_ESTADOS = ["abierta", "en_preparacion", "presentada", "ganada", "perdida", "desierta", "cancelada"] as const;
+export type LicitacionEstado = typeof LICITACION_ESTADOS[number];
+
+export const LICITACION_ESTADO_LABELS: Record<LicitacionEstado, string> = {
+  abierta: "Abierta",
+  en_preparacion: "En preparación",
+  presentada: "Propuesta presentada",
+  ganada: "Ganada",
+  perdida: "Perdida",
+  desierta: "Desierta",
+  cancelada: "Cancelada",
+};
+
+// Transiciones permitidas: ganada, perdida, desierta y cancelada son estados finales
+export const LICITACION_ESTADO_TRANSITIONS: Record<LicitacionEstado, LicitacionEstado[]> = {
+  abierta: ["en_preparacion", "cancelada"],
+  en_preparacion: ["presentada", "abierta", "cancelada"],
+  presentada: ["ganada", "perdida", "desierta", "cancelada"],
+  ganada: [],
+  perdida: [],
+  desierta: [],
+  cancelada: [],
+};
+
+// Estados con fallo; en ellos se captura el ganador y el monto adjudicado
+export const LICITACION_OUTCOME_ESTADOS: LicitacionEstado[] = ["ganada", "perdida", "desierta"];
+
+export function isLicitacionEstado(value: unknown): value is LicitacionEstado {
+  return typeof value === "string" && (LICITACION_ESTADOS as readonly string[]).includes(value);
+}
+
+export function canTransitionLicitacionEstado(from: string, to: string): boolean {
+  if (!isLicitacionEstado(from) || !isLicitacionEstado(to)) return false;
+  return LICITACION_ESTADO_TRANSITIONS[from].includes(to);
+}
+
+// Etapas del procedimiento, en orden; cada una tiene su fecha y aparece en el calendario
+export const LICITACION_EVENT_TYPES = ["publicacion", "visita", "junta_aclaraciones", "apertura", "fallo", "firma_contrato"] as const;
+export type LicitacionEventType = typeof LICITACION_EVENT_TYPES[number];
+
+export const LICITACION_EVENT_LABELS: Record<LicitacionEventType, string> = {
+  publicacion: "Publicación",
+  visita: "Visita al sitio",
+  junta_aclaraciones: "Junta de aclaraciones",
+  apertura: "Presentación y apertura",
+  fallo: "Fallo",
+  firma_contrato: "Firma de contrato",
+};
+
+export function isLicitacionEventType(value: unknown): value is LicitacionEventType {
+  return typeof value === "string" && (LICITACION_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+// Recordatorios del calendario .ics en minutos antes de cada evento (un día y una hora)
+export const DEFAULT_CALENDAR_REMINDER_MINUTES = [1440, 60];
+export const MAX_CALENDAR_REMINDERS = 5;
+
+// Evento del calendario con los datos de su licitación
+export interface LicitacionCalendarEvent {
+  id: number;
+  licitacionId: number;
+  numeroLicitacion: string;
+  titulo: string;
+  cliente: string;
+  estado: string;
+  type: string;
+  eventDate: string;
+  eventTime: string;
+  location: string;
+  notes: string;
+}
+
+// Total de una cotización de la licitación contra el presupuesto (montos en pesos)
+export interface LicitacionQuoteBudget {
+  id: number;
+  internalFolio: string;
+  companyOrigin: string;
+  status: string;
+  currency: string;
+  total: number;
+  totalMxn: number;
+  budgetPercent: number | null;
+  overBudget: boolean;
+}
+
+// ==========================================
+// MONEDA DE COTIZACIONES
+// ==========================================
+export const QUOTE_CURRENCIES = ["MXN", "USD"] as const;
+export type QuoteCurrency = typeof QUOTE_CURRENCIES[number];
+
+export const QUOTE_CURRENCY_LABELS: Record<QuoteCurrency, string> = {
+  MXN: "Pesos mexicanos (MXN)",
+  USD: "Dólares estadounidenses (USD)",
+};
+
+export function isQuoteCurrency(value: unknown): value is QuoteCurrency {
+  return typeof value === "string" && (QUOTE_CURRENCIES as readonly string[]).includes(value);
+}
+
+export interface QuoteCurrencySettings {
+  currency: QuoteCurrency;
+  // Moneda en la que se capturan los costos de compra
+  costCurrency: QuoteCurrency;
+  // Pesos por dólar; vacío para que el servidor use el DOF de la fecha de la cotización
+  exchangeRate: number | null;
+  exchangeRateDate: string;
+}
+
+export const DEFAULT_QUOTE_CURRENCY_SETTINGS: QuoteCurrencySettings = {
+  currency: "MXN",
+  costCurrency: "MXN",
+  exchangeRate: null,
+  exchangeRateDate: "",
+};
+
+// Tipo de cambio publicado en el DOF (pesos por dólar)
+export interface ExchangeRateQuote {
+  currency: QuoteCurrency;
+  rate: number;
+  date: string;
+  source: string;
+}
+
+// ==========================================
+// IMPUESTOS DE COTIZACIONES
+// ==========================================
+// "exento" no causa IVA; "0" es tasa cero (se declara, pero no se cobra)
+export const IVA_RATES = ["16", "8", "0", "exento"] as const;
+export type IvaRate = typeof IVA_RATES[number];
+
+export const IVA_RATE_LABELS: Record<IvaRate, string> = {
+  "16": "IVA 16%",
+  "8": "IVA 8% (región fronteriza)",
+  "0": "IVA tasa 0%",
+  exento: "Exento de IVA",
+};
+
+export function isIvaRate(value: unknown): value is IvaRate {
+  return typeof value === "string" && (IVA_RATES as readonly string[]).includes(value);
+}
+
+// Retenciones habituales en servicios; el porcentaje se aplica sobre la base antes de IVA
+export const IVA_RETENTION_OPTIONS = [
+  { value: 0, label: "Sin retención de IVA" },
+  { value: 10.6667, label: "2/3 del IVA (10.6667%)" },
+  { value: 6, label: "6% (servicios de personal)" },
+  { value: 4, label: "4% (autotransporte)" },
+] as const;
+
+export const ISR_RETENTION_OPTIONS = [
+  { value: 0, label: "Sin retención de ISR" },
+  { value: 10, label: "10% (honorarios / arrendamiento)" },
+  { value: 1.25, label: "1.25% (RESICO)" },
+] as const;
+
+export interface QuoteTaxSettings {
+  ivaRate: IvaRate;
+  ivaRetentionRate: number;
+  isrRetentionRate: number;
+}
+
+export const DEFAULT_QUOTE_TAX_SETTINGS: QuoteTaxSettings = { ivaRate: "16", ivaRetentionRate: 0, isrRetentionRate: 0 };
+
+// Desglose que comparten las plantillas PDF y las respuestas de la API (importes en pesos)
+export interface QuoteTotals {
+  currency: QuoteCurrency;
+  // Nombre de la moneda para las leyendas de la propuesta, p. ej. "Moneda Nacional"
+  currencyName: string;
+  subtotal: number;
+  taxableSubtotal: number;
+  exemptSubtotal: number;
+  ivaRate: IvaRate;
+  // Etiqueta corta para la tabla de totales del PDF, p. ej. "IVA 16%"
+  ivaLabel: string;
+  // Leyenda que acompaña al total con letra, p. ej. "IVA INCLUIDO"
+  ivaLegend: string;
+  iva: number;
+  ivaRetentionRate: number;
+  ivaRetention: number;
+  isrRetentionRate: number;
+  isrRetention: number;
+  total: number;
+  totalText: string;
+}
+
+// ==========================================
+// EMPRESAS EMISORAS (MEMBRETE Y PLANTILLA)
+// ==========================================
+// Familias de plantillas HTML disponibles en server/templates
+export const COMPANY_TEMPLATE_KEYS = ["azal", "dema", "hgw", "hermal", "hyh"] as const;
+export type CompanyTemplateKey = typeof COMPANY_TEMPLATE_KEYS[number];
+
+export const COMPANY_IMAGE_KINDS = ["header", "footer", "logo"] as const;
+export type CompanyImageKind = typeof COMPANY_IMAGE_KINDS[number];
+
+// AZAL y AMS son la misma empresa emisora
+export function normalizeCompanyCode(value: unknown): string {
+  const code = (value ?? "").toString().trim().toUpperCase();
+  return code === "AZAL" ? "AMS" : code;
+}
+
+// ==========================================
+// FOLIOS INTERNOS
+// ==========================================
+// {EMPRESA} = empresa emisora, {YYYY}/{YY} = año, {TIPO} = B o S, {####} = consecutivo con ceros
+export const DEFAULT_FOLIO_PATTERN = "{EMPRESA}-{YYYY}-{####}";
+
+export const FOLIO_RESERVATION_KINDS = ["reservado", "omitido"] as const;
+export type FolioReservationKind = typeof FOLIO_RESERVATION_KINDS[number];
+
+// ==========================================
+// TRABAJOS DE PDF EN SEGUNDO PLANO
+// ==========================================
+export const PDF_JOB_STATUSES = ["pendiente", "procesando", "completado", "fallido"] as const;
+export type PdfJobStatus = typeof PDF_JOB_STATUSES[number];
+
+export const PDF_JOB_STATUS_LABELS: Record<PdfJobStatus, string> = {
+  pendiente: "En cola",
+  procesando: "Generando…",
+  completado: "Listo",
+  fallido: "Falló",
+};
+
+// ==========================================
+// VISTA PREVIA DE COTIZACIONES
+// ==========================================
+// Medidas en px a 96 ppp; los márgenes son los del membrete de la empresa emisora
+export interface QuotePreviewPage {
+  width: number;
+  height: number;
+  marginTop: number;
+  marginBottom: number;
+}
+
+export interface QuotePreviewResponse {
+  html: string;
+  page: QuotePreviewPage;
+}
+
+// ==========================================
+// BIBLIOTECA DE CLÁUSULAS Y GARANTÍAS
+// ==========================================
+export const CLAUSE_CATEGORIES = ["clausula_entrega", "garantia_calidad", "objeto_social", "documento_requerido", "norma"] as const;
+export type ClauseCategory = typeof CLAUSE_CATEGORIES[number];
+
+export const CLAUSE_CATEGORY_LABELS: Record<ClauseCategory, string> = {
+  clausula_entrega: "Cláusulas de lugar de entrega",
+  garantia_calidad: "Garantías de calidad",
+  objeto_social: "Objetos sociales",
+  documento_requerido: "Documentos requeridos",
+  norma: "Normas",
+};
+
+export function isClauseCategory(value: unknown): value is ClauseCategory {
+  return (CLAUSE_CATEGORIES as readonly unknown[]).includes(value);
+}
+
+// Entrada de la biblioteca usada en una cotización; `content` es la copia congelada del texto
+export interface QuoteClauseRef {
+  clauseId: number;
+  code: string;
+  category: ClauseCategory;
+  version: number;
+  content: string;
+}
+
+// ==========================================
+// CATÁLOGO DE PRODUCTOS Y SERVICIOS
+// ==========================================
+export const CATALOG_ITEM_KINDS = ["bienes", "servicios"] as const;
+export type CatalogItemKind = typeof CATALOG_ITEM_KINDS[number];
+
+export const CATALOG_ITEM_KIND_LABELS: Record<CatalogItemKind, string> = {
+  bienes: "Material",
+  servicios: "Servicio",
+};
+
+export function isCatalogItemKind(value: unknown): value is CatalogItemKind {
+  return (CATALOG_ITEM_KINDS as readonly unknown[]).includes(value);
+}
+
+// Proveedor de un artículo del catálogo con el último costo de compra registrado
+export interface CatalogSupplier {
+  name: string;
+  lastCost: number;
+  lastCostDate: string;
+  preferred: boolean;
+}
+
+// ==========================================
+// HISTORIAL DE PRECIOS
+// ==========================================
+// Los importes del historial siempre están en pesos; con ajuste por inflación, a valor de hoy
+export interface PriceRangeStats {
+  min: number;
+  avg: number;
+  max: number;
+}
+
+export interface PriceHistoryEntry {
+  quoteId: number;
+  internalFolio: string;
+  quoteDate: string;
+  companyOrigin: string;
+  destinationCompany: string;
+  status: string;
+  description: string;
+  supplier: string;
+  quantity: number;
+  unitMeasure: string;
+  unitPrice: number;
+  purchaseCost: number;
+  currency: string;
+}
+
+export interface PriceHistorySupplierStats {
+  supplier: string;
+  count: number;
+  salePrice: PriceRangeStats | null;
+  purchaseCost: PriceRangeStats | null;
+  lastQuoteDate: string;
+}
+
+export interface PriceHistoryTrendPoint {
+  period: string;
+  count: number;
+  salePrice: number | null;
+  purchaseCost: number | null;
+}
+
+export interface PriceHistoryResponse {
+  query: string;
+  count: number;
+  inflationRate: number | null;
+  salePrice: PriceRangeStats | null;
+  purchaseCost: PriceRangeStats | null;
+  suppliers: PriceHistorySupplierStats[];
+  trend: PriceHistoryTrendPoint[];
+  items: PriceHistoryEntry[];
+}
+
+// ==========================================
+// MÁRGENES DE UTILIDAD
+// ==========================================
+export const MARGIN_ENFORCEMENTS = ["advertir", "bloquear"] as const;
+export type MarginEnforcement = typeof MARGIN_ENFORCEMENTS[number];
+
+export const MARGIN_ENFORCEMENT_LABELS: Record<MarginEnforcement, string> = {
+  advertir: "Solo advertir",
+  bloquear: "Bloquear el guardado",
+};
+
+export function isMarginEnforcement(value: unknown): value is MarginEnforcement {
+  return (MARGIN_ENFORCEMENTS as readonly unknown[]).includes(value);
+}
+
+// Costos e importes en la moneda de la cotización. El margen es sobre la venta y solo
+// considera las partidas con costo capturado.
+export interface QuoteMarginSummary {
+  totalSale: number;
+  totalCost: number;
+  totalUtility: number;
+  weightedMarginPercent: number | null;
+  itemsWithoutCost: number;
+}
+
+export interface QuoteMarginWarning {
+  partida: number;
+  description: string;
+  marginPercent: number;
+  minMarginPercent: number;
+  belowCost: boolean;
+}
+
+// ==========================================
+// ENVÍO DE COTIZACIONES POR CORREO
+// ==========================================
+export const QUOTE_EMAIL_STATUSES = ["enviado", "fallido"] as const;
+export type QuoteEmailStatus = typeof QUOTE_EMAIL_STATUSES[number];
+
+// Variables que se sustituyen en el asunto y el cuerpo: {folio}, {proyecto}, etc.
+export const QUOTE_EMAIL_PLACEHOLDERS: Record<string, string> = {
+  folio: "Folio interno",
+  proyecto: "Título del proyecto",
+  requisicion: "Número de requisición",
+  cliente: "Empresa destino",
+  contacto: "Persona de contacto",
+  empresa: "Empresa emisora",
+  total: "Total con letra",
+  vigencia: "Fecha de vencimiento",
+  remitente: "Nombre de quien envía",
+};
+
+export const DEFAULT_QUOTE_EMAIL_SUBJECT = "Cotización {folio} - {proyecto}";
+export const DEFAULT_QUOTE_EMAIL_BODY = `Estimado(a) {contacto}:
+
+Por este medio le hacemos llegar la cotización {folio} correspondiente a la requisición {requisicion} ({proyecto}).
+
+La propuesta tiene vigencia hasta el {vigencia}. Quedamos a sus órdenes para cualquier aclaración.
+
+Atentamente,
+{remitente}
+{empresa}`;
+
+// ==========================================
+// DOCUMENTOS DE CUMPLIMIENTO DE PROVEEDORES
+// ==========================================
+export const PROVIDER_DOCUMENT_TYPES = [
+  "constancia_situacion_fiscal",
+  "opinion_sat",
+  "opinion_imss",
+  "opinion_infonavit",
+  "acta_constitutiva",
+  "poder_notarial",
+] as const;
+export type ProviderDocumentType = typeof PROVIDER_DOCUMENT_TYPES[number];
+
+export const PROVIDER_DOCUMENT_TYPE_LABELS: Record<ProviderDocumentType, string> = {
+  constancia_situacion_fiscal: "Constancia de situación fiscal",
+  opinion_sat: "Opinión de cumplimiento SAT",
+  opinion_imss: "Opinión de cumplimiento IMSS",
+  opinion_infonavit: "Opinión de cumplimiento INFONAVIT",
+  acta_constitutiva: "Acta constitutiva",
+  poder_notarial: "Poder notarial",
+};
+
+// Vigencia sugerida al capturar la fecha de emisión; el acta y el poder no vencen
+export const PROVIDER_DOCUMENT_VALIDITY_DAYS: Partial<Record<ProviderDocumentType, number>> = {
+  constancia_situacion_fiscal: 30,
+  opinion_sat: 30,
+  opinion_imss: 30,
+  opinion_infonavit: 30,
+};
+
+export function isProviderDocumentType(value: unknown): value is ProviderDocumentType {
+  return (PROVIDER_DOCUMENT_TYPES as readonly unknown[]).includes(value);
+}
+
+export const PROVIDER_DOCUMENT_STATUSES = ["vigente", "por_vencer", "vencido", "faltante"] as const;
+export type ProviderDocumentStatus = typeof PROVIDER_DOCUMENT_STATUSES[number];
+
+export const PROVIDER_DOCUMENT_STATUS_LABELS: Record<ProviderDocumentStatus, string> = {
+  vigente: "Vigente",
+  por_vencer: "Por vencer",
+  vencido: "Vencido",
+  faltante: "Faltante",
+};
+
+export const PROVIDER_DOCUMENT_WARNING_DAYS = 7;
+
+// Documento vigente de cada tipo (el de emisión más reciente) y el estado general del proveedor
+export interface ProviderComplianceItem {
+  type: ProviderDocumentType;
+  status: ProviderDocumentStatus;
+  daysRemaining: number | null;
+  document: ProviderDocumentResponse | null;
+}
+
+export interface ProviderCompliance {
+  providerId: number;
+  status: ProviderDocumentStatus;
+  items: ProviderComplianceItem[];
+}
+
 // ==========================================
 // ENTIDADES DE LA BASE DE DATOS (ESQUEMAS)
 // ==========================================
@@ -54,11 +683,51 @@ export const licitaciones = pgTable("licitaciones", {
   numeroLicitacion: text("numero_licitacion").notNull().unique(),
   cliente: text("cliente").notNull(),
   estado: text("estado").notNull().default("abierta"),
+  // Texto libre anterior a las etapas con fecha; se conserva solo para consulta
   fechaCierre: text("fecha_cierre"),
   presupuesto: integer("presupuesto").default(0),
   createdAt: timestamp("created_at").defaultNow(),
+
+  descripcion: text("descripcion").notNull().default(""),
+  clientId: integer("client_id").references(() => clients.id),
+  // Carpeta con las bases, anexos y actas del procedimiento
+  folderId: integer("folder_id").references(() => folders.id),
+  // Resultado del fallo
+  ganador: text("ganador").notNull().default(""),
+  montoAdjudicado: numeric("monto_adjudicado", { precision: 14, scale: 2 }),
+  resultado: text("resultado").notNull().default(""),
+  correo: varchar("correo", { length: 255 }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Fecha de cada etapa de la licitación; sin hora el evento es de día completo
+export const licitacionEvents = pgTable("licitacion_events", {
+  id: serial("id").primaryKey(),
+  licitacionId: integer("licitacion_id").notNull().references(() => licitaciones.id),
+  type: text("type").notNull(),
+  eventDate: text("event_date").notNull(),
+  eventTime: text("event_time").notNull().default(""),
+  location: text("location").notNull().default(""),
+  notes: text("notes").notNull().default(""),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("licitacion_events_licitacion_id_type_idx").on(table.licitacionId, table.type),
+  index("licitacion_events_event_date_idx").on(table.eventDate),
+]);
+
+// Suscripción de cada usuario al calendario .ics; el token reemplaza a la sesión en Outlook
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  token: text("token").notNull(),
+  reminderMinutesJson: text("reminder_minutes_json").notNull().default("[1440,60]"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("calendar_feeds_user_id_idx").on(table.userId),
+  uniqueIndex("calendar_feeds_token_idx").on(table.token),
+]);
+
 export const providers = pgTable("providers", {
   id: serial("id").primaryKey(),
   companyName: text("company_name").notNull(),
@@ -114,6 +783,7 @@ export const quotes = pgTable("quotes", {
   templateName: varchar("template_name", { length: 100 }).default("azal_official"),
   companyOrigin: text("company_origin").notNull().default("AZAL"),
   proposalType: text("proposal_type").notNull().default("bienes"),
+  status: text("status").notNull().default("borrador"),
 
   // ATENCIÓN
   attnDia: text("attn_dia").notNull().default(""),
@@ -149,7 +819,47 @@ export const quotes = pgTable("quotes", {
   hasRegionalMilitary: boolean("has_regional_military").default(false),
   warrantyPercentageApplies: boolean("warranty_percentage_applies").default(false),
   warrantyPercentage: numeric("warranty_percentage", { precision: 5, scale: 2 }).default("0"),
-});
+
+  // IMPUESTOS
+  ivaRate: text("iva_rate").notNull().default("16"),
+  ivaRetentionRate: numeric("iva_retention_rate", { precision: 7, scale: 4 }).notNull().default("0"),
+  isrRetentionRate: numeric("isr_retention_rate", { precision: 7, scale: 4 }).notNull().default("0"),
+
+  // MONEDA: en dólares se guarda el tipo de cambio DOF usado a la fecha de la cotización
+  currency: text("currency").notNull().default("MXN"),
+  exchangeRate: numeric("exchange_rate", { precision: 12, scale: 6 }),
+  exchangeRateDate: text("exchange_rate_date").notNull().default(""),
+  // Moneda en la que se capturan los costos de compra (purchaseCost) de las partidas
+  costCurrency: text("cost_currency").notNull().default("MXN"),
+
+  // Entradas de la biblioteca de cláusulas usadas, con copia congelada del texto
+  clauseRefsJson: text("clause_refs_json").notNull().default("[]"),
+
+  // Correo del contacto; se propone como destinatario al enviar la cotización
+  contactEmail: text("contact_email").notNull().default(""),
+
+  // Dependencia y contacto del directorio de clientes de los que se llenó la sección de atención
+  clientId: integer("client_id").references(() => clients.id),
+  clientContactId: integer("client_contact_id").references(() => clientContacts.id),
+
+  // Licitación a la que responde la cotización
+  licitacionId: integer("licitacion_id").references(() => licitaciones.id),
+
+  // Total con impuestos en centavos de la moneda de la cotización; lo escribe syncQuoteTotal al guardar
+  totalCents: bigint("total_cents", { mode: "number" }).notNull().default(0),
+}, (table) => [
+  index("quotes_client_id_idx").on(table.clientId),
+  index("quotes_licitacion_id_idx").on(table.licitacionId),
+  // Búsqueda y filtros del listado de cotizaciones
+  index("quotes_search_trgm_idx").using("gin", sql`(${table.internalFolio} || ' ' || ${table.projectTitle} || ' ' || ${table.destinationCompany} || ' ' || ${table.requisitionNumber}) gin_trgm_ops`),
+  index("quotes_quote_date_idx").on(table.quoteDate, table.id),
+  index("quotes_total_cents_idx").on(table.totalCents, table.id),
+  index("quotes_internal_folio_idx").on(table.internalFolio, table.id),
+  index("quotes_company_origin_idx").on(sql`upper(${table.companyOrigin})`),
+  index("quotes_proposal_type_idx").on(table.proposalType),
+  index("quotes_provider_id_idx").on(table.providerId),
+  index("quotes_status_idx").on(table.status),
+]);
 
 export const quoteItems = pgTable("quote_items", {
   id: serial("id").primaryKey(),
@@ -169,14 +879,235 @@ export const quoteItems = pgTable("quote_items", {
   supplier: text("supplier").default(""),
   purchaseCost: numeric("purchase_cost", { precision: 15, scale: 2 }).default("0"),
   profitMargin: numeric("profit_margin", { precision: 10, scale: 2 }).default("0"),
-  profitFactor: numeric("profit_factor", { precision: 10, scale: 2 }).default("1"),
+  profitFactor: numeric("profit_factor", { precision: 10, scale: 4 }).default("1"),
   noPartida: text("no_partida").notNull().default(""),
+  // Partida exenta de IVA aunque la cotización lo cause
+  taxExempt: boolean("tax_exempt").notNull().default(false),
+}, (table) => [
+  // Historial de precios: búsqueda aproximada (pg_trgm) y de texto completo sobre la descripción
+  index("quote_items_description_trgm_idx").using("gin", sql`${table.description} gin_trgm_ops`),
+  index("quote_items_description_fts_idx").using("gin", sql`to_tsvector('spanish', ${table.description})`),
+  index("quote_items_quote_id_idx").on(table.quoteId),
+]);
+
+export const quoteStatusHistory = pgTable("quote_status_history", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").notNull().references(() => quotes.id),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  comment: text("comment").notNull().default(""),
+  correo: varchar("correo", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Instantánea inmutable de la cotización y sus partidas en cada guardado
+export const quoteRevisions = pgTable("quote_revisions", {
+  id: serial("id").primaryKey(),
+  // Nulo cuando la cotización se eliminó; el snapshot conserva el folio
+  quoteId: integer("quote_id").references(() => quotes.id),
+  revisionNumber: integer("revision_number").notNull(),
+  snapshotJson: text("snapshot_json").notNull(),
+  note: text("note").notNull().default(""),
+  correo: varchar("correo", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("quote_revisions_quote_id_revision_number_idx").on(table.quoteId, table.revisionNumber),
+]);
+
+// Bitácora de envíos de la cotización por correo, exitosos o fallidos
+export const quoteEmails = pgTable("quote_emails", {
+  id: serial("id").primaryKey(),
+  // Nulo cuando la cotización se eliminó; el envío queda en la bitácora
+  quoteId: integer("quote_id").references(() => quotes.id),
+  recipients: text("recipients").notNull(),
+  cc: text("cc").notNull().default(""),
+  subject: text("subject").notNull(),
+  attachmentsJson: text("attachments_json").notNull().default("[]"),
+  status: text("status").notNull().default("enviado"),
+  messageId: text("message_id"),
+  error: text("error"),
+  correo: varchar("correo", { length: 255 }),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+}, (table) => [
+  index("quote_emails_quote_id_idx").on(table.quoteId),
+]);
+
+// Membrete, márgenes y datos legales de cada empresa emisora.
+// Las imágenes guardan un data URL subido desde la UI o el nombre de un archivo en server/assets
+export const companies = pgTable("companies", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  friendlyName: text("friendly_name").notNull(),
+  legalName: text("legal_name").notNull().default(""),
+  rfc: text("rfc").notNull().default(""),
+  templateKey: text("template_key").notNull().default("azal"),
+  primaryColor: text("primary_color").notNull().default("#1E3A8A"),
+  headerImage: text("header_image"),
+  footerImage: text("footer_image"),
+  logoImage: text("logo_image"),
+  marginTop: integer("margin_top").notNull().default(190),
+  marginBottom: integer("margin_bottom").notNull().default(150),
+  footerText: text("footer_text").notNull().default(""),
+  showPageNumbers: boolean("show_page_numbers").notNull().default(false),
+  // Plantillas del correo con el que se envía la cotización; vacías usan las predeterminadas
+  emailSubjectTemplate: text("email_subject_template").notNull().default(""),
+  emailBodyTemplate: text("email_body_template").notNull().default(""),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Patrón de folio configurable por empresa emisora
+export const folioSettings = pgTable("folio_settings", {
+  id: serial("id").primaryKey(),
+  companyOrigin: text("company_origin").notNull().unique(),
+  pattern: text("pattern").notNull().default(DEFAULT_FOLIO_PATTERN),
+  correo: varchar("correo", { length: 255 }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Último consecutivo emitido por empresa y año
+export const folioSequences = pgTable("folio_sequences", {
+  id: serial("id").primaryKey(),
+  companyOrigin: text("company_origin").notNull(),
+  year: integer("year").notNull(),
+  lastNumber: integer("last_number").notNull().default(0),
+}, (table) => [
+  uniqueIndex("folio_sequences_company_origin_year_idx").on(table.companyOrigin, table.year),
+]);
+
+// Números apartados por un administrador (reservados para uso posterior u omitidos)
+export const folioReservations = pgTable("folio_reservations", {
+  id: serial("id").primaryKey(),
+  companyOrigin: text("company_origin").notNull(),
+  year: integer("year").notNull(),
+  number: integer("number").notNull(),
+  folio: text("folio").notNull().unique(),
+  kind: text("kind").notNull().default("reservado"),
+  note: text("note").notNull().default(""),
+  quoteId: integer("quote_id").references(() => quotes.id),
+  correo: varchar("correo", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Render de PDF solicitado desde la UI; el worker lo procesa y guarda el resultado en base64
+export const pdfJobs = pgTable("pdf_jobs", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").notNull().references(() => quotes.id),
+  status: text("status").notNull().default("pendiente"),
+  progress: integer("progress").notNull().default(0),
+  attempts: integer("attempts").notNull().default(0),
+  error: text("error"),
+  fileName: text("file_name"),
+  pdfBase64: text("pdf_base64"),
+  size: integer("size"),
+  correo: varchar("correo", { length: 255 }),
+  // Usuario que pidió el PDF; solo él o un administrador lo consulta y descarga
+  requestedBy: integer("requested_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("pdf_jobs_status_created_at_idx").on(table.status, table.createdAt),
+  index("pdf_jobs_quote_id_idx").on(table.quoteId),
+]);
+
+// Textos reutilizables; companyOrigin vacío aplica a todas las empresas y una entrada
+// con la misma clave para una empresa es su variante
+export const clauseLibrary = pgTable("clause_library", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull(),
+  category: text("category").notNull(),
+  companyOrigin: text("company_origin").notNull().default(""),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  // Clave de la norma cuando la categoría es "norma"
+  norm: text("norm").notNull().default(""),
+  sortOrder: integer("sort_order").notNull().default(0),
+  version: integer("version").notNull().default(1),
+  isActive: boolean("is_active").notNull().default(true),
+  correo: varchar("correo", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("clause_library_code_company_origin_idx").on(table.code, table.companyOrigin),
+  index("clause_library_category_idx").on(table.category),
+]);
+
+// Materiales y servicios con su descripción estándar; `kind` coincide con el tipo de propuesta
+export const catalogItems = pgTable("catalog_items", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull().default("bienes"),
+  code: text("code").notNull().default(""),
+  description: text("description").notNull(),
+  techRequirements: text("tech_requirements").notNull().default(""),
+  unitMeasure: text("unit_measure").notNull().default(""),
+  // CatalogSupplier[]
+  suppliersJson: text("suppliers_json").notNull().default("[]"),
+  isActive: boolean("is_active").notNull().default(true),
+  correo: varchar("correo", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("catalog_items_kind_description_idx").on(table.kind, table.description),
+]);
+
+// Margen mínimo sobre la venta; companyOrigin y category vacíos aplican a todas las empresas o
+// tipos de propuesta y la regla más específica es la que se usa
+export const marginRules = pgTable("margin_rules", {
+  id: serial("id").primaryKey(),
+  companyOrigin: text("company_origin").notNull().default(""),
+  category: text("category").notNull().default(""),
+  minMarginPercent: numeric("min_margin_percent", { precision: 6, scale: 2 }).notNull().default("0"),
+  enforcement: text("enforcement").notNull().default("advertir"),
+  correo: varchar("correo", { length: 255 }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("margin_rules_company_origin_category_idx").on(table.companyOrigin, table.category),
+]);
+
+// Directorio de dependencias; lugar, ubicación y dirección son los datos de atención por defecto
+export const clients = pgTable("clients", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  shortName: text("short_name").notNull().default(""),
+  rfc: text("rfc").notNull().default(""),
+  lugar: text("lugar").notNull().default(""),
+  ubicacion: text("ubicacion").notNull().default(""),
+  direccion: text("direccion").notNull().default(""),
+  notes: text("notes").notNull().default(""),
+  isActive: boolean("is_active").notNull().default(true),
+  correo: varchar("correo", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("clients_name_idx").on(table.name),
+]);
+
+// Personas de la dependencia a cuya atención se dirigen las cotizaciones
+export const clientContacts = pgTable("client_contacts", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id),
+  fullName: text("full_name").notNull(),
+  grado: text("grado").notNull().default(""),
+  cargo: text("cargo").notNull().default(""),
+  area: text("area").notNull().default(""),
+  // Texto de contacto para la entrega (persona, teléfono, horario)
+  contacto: text("contacto").notNull().default(""),
+  email: text("email").notNull().default(""),
+  phone: text("phone").notNull().default(""),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("client_contacts_client_id_idx").on(table.clientId),
+]);
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   fullName: text("full_name").notNull(),
   correo: text("correo").notNull().unique(),
+  isAdmin: boolean("is_admin").default(false).notNull(),
   isActive: boolean("is_active").default(true).notNull(),
   lastLogin: timestamp("last_login"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -210,6 +1141,22 @@ export const files = pgTable("files", {
   deletedBy: integer("deleted_by").references(() => users.id),
 });
 
+// Documentos de cumplimiento del proveedor; el archivo vive en la tabla files y en uploads/
+export const providerDocuments = pgTable("provider_documents", {
+  id: serial("id").primaryKey(),
+  providerId: integer("provider_id").notNull().references(() => providers.id),
+  type: text("type").notNull(),
+  fileId: integer("file_id").notNull().references(() => files.id),
+  // Fechas AAAA-MM-DD; sin vencimiento para el acta y el poder
+  issueDate: text("issue_date").notNull(),
+  expiryDate: text("expiry_date"),
+  notes: text("notes").notNull().default(""),
+  uploadedBy: integer("uploaded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("provider_documents_provider_id_idx").on(table.providerId),
+]);
+
 // ==========================================
 // ESQUEMAS DE VALIDACIÓN ZOD Y INFERENCIA
 // ==========================================
@@ -217,6 +1164,15 @@ export const insertLicitacionSchema = createInsertSchema(licitaciones);
 export const insertProviderSchema = createInsertSchema(providers);
 export const insertQuoteSchema = createInsertSchema(quotes);
 export const insertQuoteItemSchema = createInsertSchema(quoteItems);
+export const insertQuoteStatusHistorySchema = createInsertSchema(quoteStatusHistory);
+export const insertQuoteRevisionSchema = createInsertSchema(quoteRevisions);
+export const insertCompanySchema = createInsertSchema(companies);
+export const insertFolioSettingSchema = createInsertSchema(folioSettings);
+export const insertFolioReservationSchema = createInsertSchema(folioReservations);
+export const insertPdfJobSchema = createInsertSchema(pdfJobs);
+export const insertClauseLibrarySchema = createInsertSchema(clauseLibrary);
+export const insertCatalogItemSchema = createInsertSchema(catalogItems);
+export const insertMarginRuleSchema = createInsertSchema(marginRules);
 export const insertAuditLogSchema = createInsertSchema(auditLogs);
 export const insertUserSchema = createInsertSchema(users);
 export const insertFileSchema = createInsertSchema(files);
@@ -224,12 +1180,57 @@ export const insertFolderSchema = createInsertSchema(folders);
 
 export type Licitacion = typeof licitaciones.$inferSelect;
 export type InsertLicitacion = typeof licitaciones.$inferInsert;
+export type LicitacionEvent = typeof licitacionEvents.$inferSelect;
+export type InsertLicitacionEvent = typeof licitacionEvents.$inferInsert;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+// Licitación con sus etapas y el número de cotizaciones ligadas
+export type LicitacionResponse = Licitacion & { events: LicitacionEvent[]; quoteCount: number };
 export type Provider = typeof providers.$inferSelect;
 export type InsertProvider = typeof providers.$inferInsert;
 export type Quote = typeof quotes.$inferSelect;
 export type InsertQuote = typeof quotes.$inferInsert;
 export type QuoteItem = typeof quoteItems.$inferSelect;
 export type InsertQuoteItem = typeof quoteItems.$inferInsert;
+export type QuoteStatusChange = typeof quoteStatusHistory.$inferSelect;
+export type InsertQuoteStatusChange = typeof quoteStatusHistory.$inferInsert;
+export type QuoteRevision = typeof quoteRevisions.$inferSelect;
+export type InsertQuoteRevision = typeof quoteRevisions.$inferInsert;
+export type Company = typeof companies.$inferSelect;
+export type InsertCompany = typeof companies.$inferInsert;
+
+// Las imágenes se consultan por su propio endpoint; el listado solo indica si existen
+export type CompanyResponse = Omit<Company, "headerImage" | "footerImage" | "logoImage"> & {
+  hasHeaderImage: boolean;
+  hasFooterImage: boolean;
+  hasLogoImage: boolean;
+};
+export type FolioSetting = typeof folioSettings.$inferSelect;
+export type FolioSequence = typeof folioSequences.$inferSelect;
+export type FolioReservation = typeof folioReservations.$inferSelect;
+export type InsertFolioReservation = typeof folioReservations.$inferInsert;
+export type PdfJob = typeof pdfJobs.$inferSelect;
+export type InsertPdfJob = typeof pdfJobs.$inferInsert;
+// El PDF no viaja en las consultas de estado
+export type PdfJobSummary = Omit<PdfJob, "pdfBase64">;
+export type ClauseLibraryEntry = typeof clauseLibrary.$inferSelect;
+export type InsertClauseLibraryEntry = typeof clauseLibrary.$inferInsert;
+export type CatalogItem = typeof catalogItems.$inferSelect;
+export type InsertCatalogItem = typeof catalogItems.$inferInsert;
+// Artículo del catálogo con sus proveedores ya interpretados
+export type CatalogItemResponse = Omit<CatalogItem, "suppliersJson"> & { suppliers: CatalogSupplier[] };
+export type QuoteEmail = typeof quoteEmails.$inferSelect;
+export type InsertQuoteEmail = typeof quoteEmails.$inferInsert;
+export type Client = typeof clients.$inferSelect;
+export type InsertClient = typeof clients.$inferInsert;
+export type ClientContact = typeof clientContacts.$inferSelect;
+export type InsertClientContact = typeof clientContacts.$inferInsert;
+// Dependencia con sus contactos activos y el número de cotizaciones ligadas
+export type ClientResponse = Client & { contacts: ClientContact[]; quoteCount: number };
+export type ProviderDocument = typeof providerDocuments.$inferSelect;
+export type InsertProviderDocument = typeof providerDocuments.$inferInsert;
+export type ProviderDocumentResponse = ProviderDocument & { fileName: string; fileSize: number };
+export type MarginRule = typeof marginRules.$inferSelect;
+export type InsertMarginRule = typeof marginRules.$inferInsert;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = typeof auditLogs.$inferInsert;
 export type User = typeof users.$inferSelect & { displayName?: string };